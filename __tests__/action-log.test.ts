@@ -0,0 +1,244 @@
+/**
+ * Test suite for the game action log
+ * Undo bookkeeping and rebuilding the position from the log
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import {
+  effectiveActions,
+  lastUndoableAction,
+  rebuildFrames,
+  rebuildState,
+  type LoggedAction,
+} from "../src/lib/action-log";
+
+const seats4 = [
+  { playerId: 0, goalSide: "RIGHT" },
+  { playerId: 1, goalSide: "BOTTOM" },
+  { playerId: 2, goalSide: "LEFT" },
+  { playerId: 3, goalSide: "TOP" },
+];
+
+const start4: LoggedAction = {
+  turnNumber: 0,
+  playerId: 0,
+  type: "START",
+  payload: {
+    players: [
+      { playerId: 0, row: 5, col: 1, wallsLeft: 6 },
+      { playerId: 1, row: 1, col: 5, wallsLeft: 6 },
+      { playerId: 2, row: 5, col: 9, wallsLeft: 6 },
+      { playerId: 3, row: 9, col: 5, wallsLeft: 6 },
+    ],
+  },
+};
+
+const move = (
+  turnNumber: number,
+  playerId: number,
+  from: [number, number],
+  to: [number, number]
+): LoggedAction => ({
+  turnNumber,
+  playerId,
+  type: "MOVE",
+  payload: { fromRow: from[0], fromCol: from[1], toRow: to[0], toCol: to[1] },
+});
+
+const undo = (turnNumber: number, undoneTurn: number, playerId: number) =>
+  ({
+    turnNumber,
+    playerId,
+    type: "UNDO",
+    payload: { undoneTurn },
+  }) as LoggedAction;
+
+describe("effectiveActions", () => {
+  test("drops undo entries and the actions they reverted", () => {
+    const log = [
+      start4,
+      move(1, 0, [5, 1], [5, 2]),
+      undo(2, 1, 0),
+      move(3, 0, [5, 1], [4, 1]),
+    ];
+
+    expect(effectiveActions(log).map((a) => a.turnNumber)).toEqual([0, 3]);
+  });
+
+  test("sorts by turn number", () => {
+    const log = [move(1, 0, [5, 1], [5, 2]), start4];
+
+    expect(effectiveActions(log).map((a) => a.type)).toEqual(["START", "MOVE"]);
+  });
+});
+
+describe("lastUndoableAction", () => {
+  test("returns the latest move or wall", () => {
+    const log = [start4, move(1, 0, [5, 1], [5, 2])];
+
+    expect(lastUndoableAction(log)?.turnNumber).toBe(1);
+  });
+
+  test("nothing to undo after an undo, a timeout or at the start", () => {
+    expect(lastUndoableAction([start4])).toBeNull();
+    expect(
+      lastUndoableAction([start4, move(1, 0, [5, 1], [5, 2]), undo(2, 1, 0)])
+    ).toBeNull();
+    expect(
+      lastUndoableAction([
+        start4,
+        { turnNumber: 1, playerId: 0, type: "SKIP", payload: {} },
+      ])
+    ).toBeNull();
+  });
+});
+
+describe("rebuildState", () => {
+  test("replays moves and walls in turn order", () => {
+    const state = rebuildState(seats4, [
+      start4,
+      move(1, 0, [5, 1], [5, 2]),
+      {
+        turnNumber: 2,
+        playerId: 1,
+        type: "WALL",
+        payload: { row: 3, col: 3, orientation: "VERTICAL" },
+      },
+    ]);
+
+    expect(state.players.find((p) => p.id === 0)).toMatchObject({
+      row: 5,
+      col: 2,
+    });
+    expect(state.players.find((p) => p.id === 1)?.wallsLeft).toBe(5);
+    expect(state.walls).toHaveLength(1);
+    expect(state.blockedEdges.size).toBe(2);
+    expect(state.currentPlayerId).toBe(2);
+  });
+
+  test("undo restores the position before the undone action", () => {
+    const state = rebuildState(seats4, [
+      start4,
+      move(1, 0, [5, 1], [5, 2]),
+      undo(2, 1, 0),
+    ]);
+
+    expect(state.players.find((p) => p.id === 0)).toMatchObject({
+      row: 5,
+      col: 1,
+    });
+    expect(state.currentPlayerId).toBe(0);
+  });
+
+  test("2P games alternate between seats 0 and 2", () => {
+    const frames = rebuildFrames(
+      [
+        { playerId: 0, goalSide: "RIGHT" },
+        { playerId: 2, goalSide: "LEFT" },
+      ],
+      [
+        {
+          turnNumber: 0,
+          playerId: 0,
+          type: "START",
+          payload: {
+            players: [
+              { playerId: 0, row: 5, col: 1, wallsLeft: 12 },
+              { playerId: 2, row: 5, col: 9, wallsLeft: 12 },
+            ],
+          },
+        },
+        move(1, 0, [5, 1], [5, 2]),
+        move(2, 2, [5, 9], [5, 8]),
+      ]
+    );
+
+    expect(frames.map((f) => f.state.currentPlayerId)).toEqual([0, 2, 0]);
+  });
+
+  test("skipped and forfeited players", () => {
+    const state = rebuildState(seats4, [
+      start4,
+      { turnNumber: 1, playerId: 0, type: "SKIP", payload: {} },
+      { turnNumber: 2, playerId: 1, type: "FORFEIT", payload: {} },
+      move(3, 2, [5, 9], [5, 8]),
+      move(4, 3, [9, 5], [8, 5]),
+      move(5, 0, [5, 1], [5, 2]),
+    ]);
+
+    // Player 2 is out, so player 3 follows player 1
+    expect(state.players.find((p) => p.id === 1)?.forfeited).toBe(true);
+    expect(state.currentPlayerId).toBe(2);
+
+    const after = rebuildState(seats4, [
+      start4,
+      { turnNumber: 1, playerId: 0, type: "FORFEIT", payload: {} },
+      { turnNumber: 2, playerId: 1, type: "FORFEIT", payload: {} },
+      { turnNumber: 3, playerId: 2, type: "FORFEIT", payload: {} },
+    ]);
+    expect(after.winner).toBe(3);
+  });
+
+  test("playing until placements", () => {
+    const start: LoggedAction = {
+      ...start4,
+      payload: {
+        players: [
+          { playerId: 0, row: 5, col: 9, wallsLeft: 6 },
+          { playerId: 1, row: 9, col: 5, wallsLeft: 6 },
+          { playerId: 2, row: 5, col: 1, wallsLeft: 6 },
+          { playerId: 3, row: 1, col: 5, wallsLeft: 6 },
+        ],
+        untilPlacements: true,
+      },
+    };
+    const frames = rebuildFrames(seats4, [
+      start,
+      move(1, 0, [5, 9], [5, 10]),
+      move(2, 1, [9, 5], [10, 5]),
+      move(3, 2, [5, 1], [5, 2]),
+      move(4, 3, [1, 5], [0, 5]),
+    ]);
+    const states = frames.map((f) => f.state);
+
+    // Finishers are skipped until only one player is left racing
+    expect(states.map((s) => s.currentPlayerId)).toEqual([0, 1, 2, 3, 3]);
+    expect(states[3].winner).toBeNull();
+    expect(states[4].finishOrder).toEqual([0, 1, 3]);
+    expect(states[4].winner).toBe(0);
+  });
+
+  test("shared walls spend the partner's wall", () => {
+    const start: LoggedAction = {
+      ...start4,
+      payload: {
+        players: [
+          { playerId: 0, row: 5, col: 1, wallsLeft: 0 },
+          { playerId: 1, row: 1, col: 5, wallsLeft: 6 },
+          { playerId: 2, row: 5, col: 9, wallsLeft: 6 },
+          { playerId: 3, row: 9, col: 5, wallsLeft: 6 },
+        ],
+        teams: true,
+        sharedWalls: true,
+      },
+    };
+    const state = rebuildState(seats4, [
+      start,
+      {
+        turnNumber: 1,
+        playerId: 0,
+        type: "WALL",
+        payload: { row: 3, col: 3, orientation: "HORIZONTAL", spentFrom: 2 },
+      },
+    ]);
+
+    expect(state.players.map((p) => p.wallsLeft)).toEqual([0, 6, 5, 6]);
+    expect(state.walls[0].placedBy).toBe(0);
+  });
+
+  test("a log without START cannot be rebuilt", () => {
+    expect(() => rebuildState(seats4, [move(1, 0, [5, 1], [5, 2])])).toThrow(
+      "START"
+    );
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Test suite for server-side action validation
+ * Human server actions and bot decisions share these checks; bots fall
+ * back to a guaranteed-legal action when their decision is rejected
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import {
+  validateRoomAction,
+  validateRoomBarrier,
+  validateRoomMove,
+  type ValidatableRoom,
+} from "../src/lib/action-validation";
+import { toEngineAction } from "../src/lib/engine";
+import { getFallbackAction } from "../src/lib/bot/moves";
+import { dbToSnapshot } from "../src/lib/bot/snapshot";
+import type { RoomWithPlayers } from "../src/types/room";
+
+const makeRoom = (
+  overrides: Partial<{
+    status: string;
+    currentTurn: number;
+    players: Array<{ playerId: number; row: number; col: number }>;
+    barriers: Array<{
+      row: number;
+      col: number;
+      orientation: "HORIZONTAL" | "VERTICAL";
+    }>;
+  }> = {}
+) => {
+  const goals = ["RIGHT", "BOTTOM", "LEFT", "TOP"];
+  const players = overrides.players ?? [
+    { playerId: 0, row: 5, col: 1 },
+    { playerId: 2, row: 5, col: 9 },
+  ];
+  return {
+    id: "room-1",
+    code: "VALID1",
+    status: overrides.status ?? "PLAYING",
+    gameMode: "TWO_PLAYER",
+    currentTurn: overrides.currentTurn ?? 0,
+    winner: null,
+    turnNumber: 3,
+    botSeed: "seed",
+    players: players.map((p) => ({
+      ...p,
+      id: `p${p.playerId}`,
+      name: `Player ${p.playerId + 1}`,
+      color: "#000000",
+      goalSide: goals[p.playerId],
+      wallsLeft: 12,
+      playerType: "BOT_HARD",
+    })),
+    barriers: (overrides.barriers ?? []).map((b, i) => ({
+      ...b,
+      id: `b${i}`,
+      roomId: "room-1",
+      placedBy: 0,
+    })),
+  } as unknown as RoomWithPlayers & ValidatableRoom;
+};
+
+describe("validateRoomMove", () => {
+  test("accepts a legal step", () => {
+    expect(validateRoomMove(makeRoom(), 0, 5, 2)).toEqual({ valid: true });
+  });
+
+  test("rejects moves out of turn or before the game starts", () => {
+    expect(validateRoomMove(makeRoom(), 2, 5, 8)).toEqual({
+      valid: false,
+      error: "Not your turn",
+    });
+    expect(validateRoomMove(makeRoom({ status: "WAITING" }), 0, 5, 2)).toEqual({
+      valid: false,
+      error: "Game not started",
+    });
+  });
+
+  test("reports the rule that was broken", () => {
+    expect(validateRoomMove(makeRoom(), 0, 5, 4)).toEqual({
+      valid: false,
+      error: "Pawns move one cell or jump over another pawn",
+      reason: "NOT_REACHABLE",
+    });
+  });
+});
+
+describe("validateRoomBarrier", () => {
+  const walled = makeRoom({
+    barriers: [{ row: 3, col: 3, orientation: "HORIZONTAL" }],
+  });
+
+  test.each([
+    [3, 3, "HORIZONTAL", "Barrier already exists at this exact position"],
+    [3, 3, "VERTICAL", "Cannot place barriers crossing each other"],
+    [3, 4, "HORIZONTAL", "Barrier would overlap with existing barrier"],
+    [10, 3, "HORIZONTAL", "Posição inválida para barreira horizontal"],
+  ] as const)(
+    "rejects (%i, %i) %s with the human error message",
+    (row, col, orientation, error) => {
+      const result = validateRoomBarrier(walled, 0, row, col, orientation);
+      expect(result).toMatchObject({ valid: false, error });
+    }
+  );
+
+  test("names the player a barrier would trap", () => {
+    const room = makeRoom({
+      currentTurn: 2,
+      players: [
+        { playerId: 0, row: 1, col: 1 },
+        { playerId: 2, row: 5, col: 9 },
+      ],
+      barriers: [{ row: 1, col: 1, orientation: "VERTICAL" }],
+    });
+
+    expect(validateRoomBarrier(room, 2, 2, 0, "HORIZONTAL")).toEqual({
+      valid: false,
+      error:
+        "Cannot place barrier: would block Player 1 from reaching their goal",
+      reason: "BLOCKS_PATH",
+    });
+  });
+});
+
+describe("bot decisions", () => {
+  test("BARRIER decisions are validated as walls", () => {
+    const room = makeRoom({
+      barriers: [{ row: 3, col: 3, orientation: "HORIZONTAL" }],
+    });
+    const decision = {
+      type: "BARRIER",
+      row: 3,
+      col: 4,
+      orientation: "HORIZONTAL",
+    };
+
+    expect(validateRoomAction(room, 0, toEngineAction(decision))).toMatchObject(
+      { valid: false, reason: "OVERLAP" }
+    );
+    expect(
+      validateRoomAction(room, 0, toEngineAction({ ...decision, col: 5 }))
+    ).toEqual({ valid: true });
+  });
+
+  test("fallback is the legal move that shortens the path most", () => {
+    const room = makeRoom();
+    const fallback = getFallbackAction(dbToSnapshot(room), 0);
+
+    expect(fallback).toEqual({ type: "MOVE", row: 5, col: 2 });
+    expect(validateRoomAction(room, 0, fallback!)).toEqual({ valid: true });
+  });
+
+  test("fallback places a wall when the pawn is boxed in by pawns", () => {
+    // Red is cornered: the only exit is through (1,2), and the jump and
+    // both side-steps land on other pawns
+    const room = makeRoom({
+      players: [
+        { playerId: 0, row: 1, col: 1 },
+        { playerId: 1, row: 1, col: 2 },
+        { playerId: 2, row: 1, col: 3 },
+        { playerId: 3, row: 2, col: 2 },
+      ],
+      barriers: [{ row: 1, col: 0, orientation: "HORIZONTAL" }],
+    });
+    const fallback = getFallbackAction(dbToSnapshot(room), 0);
+
+    expect(fallback?.type).toBe("WALL");
+    expect(validateRoomAction(room, 0, fallback!)).toEqual({ valid: true });
+  });
+});
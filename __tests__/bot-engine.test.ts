@@ -0,0 +1,110 @@
+/**
+ * Test suite for the bot engine orchestrator
+ * A strategy that throws must not stall the game: the bot plays the
+ * guaranteed-legal fallback action instead
+ */
+
+import { describe, test, expect, beforeEach, jest } from "@jest/globals";
+
+jest.mock("../src/lib/bot/scheduler", () => ({
+  afterMoveCommit: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock("../src/lib/bot/registry", () => ({
+  isBotPlayerType: jest.fn(() => true),
+  createBotStrategy: jest.fn(),
+}));
+
+jest.mock("../src/lib/db", () => ({
+  db: {
+    room: { findUnique: jest.fn(), updateMany: jest.fn() },
+    player: { findUnique: jest.fn(), update: jest.fn() },
+    gameAction: { create: jest.fn() },
+    botDecisionLog: { create: jest.fn() },
+    $transaction: jest.fn(),
+  },
+}));
+
+import { db } from "../src/lib/db";
+import { createBotStrategy } from "../src/lib/bot/registry";
+import { BotEngine } from "../src/lib/bot/engine";
+
+const room = {
+  id: "room-1",
+  code: "BOTENG",
+  status: "PLAYING",
+  gameMode: "TWO_PLAYER",
+  boardSize: 9,
+  currentTurn: 2,
+  winner: null,
+  turnNumber: 3,
+  botSeed: "seed",
+  timeControl: "NONE",
+  timeLimitMs: null,
+  timeIncrementMs: 0,
+  turnStartedAt: null,
+  untilPlacements: false,
+  finishOrder: [],
+  sharedWalls: false,
+  players: [
+    { playerId: 0, row: 5, col: 2, goalSide: "RIGHT", playerType: "HUMAN" },
+    { playerId: 2, row: 5, col: 9, goalSide: "LEFT", playerType: "BOT_EASY" },
+  ].map((p) => ({
+    ...p,
+    id: `p${p.playerId}`,
+    name: `Player ${p.playerId + 1}`,
+    color: "#000000",
+    wallsLeft: 10,
+    botPersonality: null,
+    forfeited: false,
+  })),
+  barriers: [],
+};
+
+describe("BotEngine.executeBotMove", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (db.room.findUnique as jest.Mock).mockImplementation(() =>
+      Promise.resolve(room)
+    );
+    (db.player.findUnique as jest.Mock).mockImplementation(() =>
+      Promise.resolve({ ...room.players[1], room })
+    );
+    // Interactive transactions run against the mocked client
+    (db.$transaction as jest.Mock).mockImplementation((fn) =>
+      (fn as (tx: typeof db) => Promise<unknown>)(db)
+    );
+    (db.room.updateMany as jest.Mock).mockImplementation(() =>
+      Promise.resolve({ count: 1 })
+    );
+  });
+
+  test("plays the fallback action when the strategy throws", async () => {
+    (createBotStrategy as jest.Mock).mockImplementation(() => ({
+      selectMove: () =>
+        Promise.reject(new TypeError("Cannot read properties of undefined")),
+    }));
+
+    const { rejection } = await new BotEngine("seed").executeBotMove(
+      "BOTENG",
+      2
+    );
+
+    expect(rejection).toBe(
+      "Strategy failed: Cannot read properties of undefined; played fallback MOVE at (5, 8)"
+    );
+    expect(db.player.update).toHaveBeenCalledWith({
+      where: { id: "p2" },
+      data: { row: 5, col: 8 },
+    });
+    expect(db.botDecisionLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        moveType: "MOVE",
+        reasoning: {
+          strategy: "fallback",
+          error: "Strategy failed: Cannot read properties of undefined",
+        },
+      }),
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Test suite for the ExpertBot Monte Carlo Tree Search
+ * UCT over moves and walls with shortest-path rollouts, deterministic for a
+ * seed and bounded by its time budget
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import { applyAction, fromRoom, toEngineAction } from "../src/lib/engine";
+import { ExpertBot } from "../src/lib/bot/strategies/expert";
+import { BOT_STRATEGIES, createBotStrategy } from "../src/lib/bot/registry";
+import { SeededRNG } from "../src/lib/bot/rng";
+import { player, snapshot } from "./helpers/bot-fixtures";
+
+const start4P = snapshot([
+  player(0, 5, 1, "RIGHT"),
+  player(1, 1, 5, "BOTTOM"),
+  player(2, 5, 9, "LEFT"),
+  player(3, 9, 5, "TOP"),
+]);
+
+describe("ExpertBot", () => {
+  const config = BOT_STRATEGIES.BOT_EXPERT.config;
+
+  test("takes a winning move", async () => {
+    const state = snapshot([player(0, 5, 9, "RIGHT"), player(2, 5, 2, "LEFT")]);
+    const decision = await new ExpertBot(new SeededRNG("win"), {
+      ...config,
+      iterations: 200,
+    }).selectMove(state, 0);
+    expect(decision.move).toMatchObject({ type: "MOVE", row: 5, col: 10 });
+  });
+
+  test("plays legal actions in a 4-player game", async () => {
+    const engineState = fromRoom(start4P);
+    for (let seed = 0; seed < 3; seed++) {
+      const decision = await new ExpertBot(new SeededRNG(`seed-${seed}`), {
+        ...config,
+        iterations: 100,
+      }).selectMove(start4P, 0);
+      // applyAction throws on an illegal action
+      expect(() =>
+        applyAction(engineState, toEngineAction(decision.move))
+      ).not.toThrow();
+    }
+  });
+
+  test("logs the search statistics", async () => {
+    const decision = await new ExpertBot(new SeededRNG("stats"), {
+      ...config,
+      iterations: 100,
+    }).selectMove(start4P, 0);
+    const reasoning = decision.reasoning as {
+      strategy: string;
+      iterations: number;
+      timedOut: boolean;
+      winRate: number;
+      topActions: Array<{ action: string; visits: number }>;
+    };
+
+    expect(reasoning.strategy).toBe("mcts");
+    expect(reasoning.iterations).toBe(100);
+    expect(reasoning.timedOut).toBe(false);
+    expect(reasoning.winRate).toBeGreaterThanOrEqual(0);
+    expect(reasoning.winRate).toBeLessThanOrEqual(1);
+    // Most visited first
+    const visits = reasoning.topActions.map((a) => a.visits);
+    expect(visits).toEqual([...visits].sort((a, b) => b - a));
+  });
+
+  test("stops when the time budget runs out", async () => {
+    const decision = await new ExpertBot(new SeededRNG("budget"), {
+      ...config,
+      iterations: 100_000,
+      timeBudgetMs: 0,
+    }).selectMove(start4P, 0);
+    expect(decision.reasoning).toMatchObject({
+      iterations: 1,
+      timedOut: true,
+    });
+  });
+
+  test("answers well inside the worker's 5s timeout", async () => {
+    // The synchronous search cannot be interrupted: it has to leave time
+    // for loading the room and writing the move
+    const bot = createBotStrategy("BOT_EXPERT", new SeededRNG("clock"));
+    const startTime = Date.now();
+    await bot.selectMove(start4P, 0);
+
+    expect(Date.now() - startTime).toBeLessThan(3000);
+  }, 10_000);
+
+  test("is deterministic for a seed", async () => {
+    const pick = () =>
+      new ExpertBot(new SeededRNG("same"), {
+        ...config,
+        iterations: 150,
+      }).selectMove(start4P, 0);
+    const [a, b] = [await pick(), await pick()];
+    expect(a.move).toEqual(b.move);
+  });
+});
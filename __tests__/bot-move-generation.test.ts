@@ -0,0 +1,255 @@
+/**
+ * Test suite for bot move generation
+ * Bots must see exactly the moves humans get (canPawnMoveTo), including
+ * jumps and side-steps, and plan paths around other pawns
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import { BOARD_SIZE, canPawnMoveTo, fromRoom } from "../src/lib/engine";
+import {
+  getLegalMoves,
+  otherPawns,
+  pathLength,
+  pathToGoal,
+  racingOpponents,
+  wallsAvailable,
+} from "../src/lib/bot/moves";
+import { EasyBot } from "../src/lib/bot/strategies/easy";
+import { MediumBot } from "../src/lib/bot/strategies/medium";
+import { HardBot } from "../src/lib/bot/strategies/hard";
+import { BOT_STRATEGIES } from "../src/lib/bot/registry";
+import { SeededRNG } from "../src/lib/bot/rng";
+import type { GameSnapshot } from "../src/lib/bot/types";
+import { player, snapshot } from "./helpers/bot-fixtures";
+
+/** Every destination a human could click for the player */
+const humanMoves = (state: GameSnapshot, playerId: number) => {
+  const engineState = fromRoom(state);
+  const moves: Array<{ row: number; col: number }> = [];
+  for (let row = 0; row < BOARD_SIZE; row++) {
+    for (let col = 0; col < BOARD_SIZE; col++) {
+      if (canPawnMoveTo(engineState, playerId, row, col)) {
+        moves.push({ row, col });
+      }
+    }
+  }
+  return moves;
+};
+
+const sortCells = (cells: Array<{ row: number; col: number }>) =>
+  [...cells].sort((a, b) => a.row - b.row || a.col - b.col);
+
+describe("getLegalMoves", () => {
+  const scenarios: Array<[string, GameSnapshot]> = [
+    [
+      "open board",
+      snapshot([player(0, 5, 1, "RIGHT"), player(2, 5, 9, "LEFT")]),
+    ],
+    [
+      "straight jump",
+      snapshot([player(0, 5, 4, "RIGHT"), player(2, 5, 5, "LEFT")]),
+    ],
+    [
+      "side-step behind a wall",
+      snapshot(
+        [player(0, 5, 4, "RIGHT"), player(2, 5, 5, "LEFT")],
+        [{ row: 4, col: 5, orientation: "VERTICAL" }]
+      ),
+    ],
+    [
+      "side-step behind a pawn",
+      snapshot([
+        player(0, 5, 4, "RIGHT"),
+        player(1, 5, 5, "BOTTOM"),
+        player(2, 5, 6, "LEFT"),
+        player(3, 9, 5, "TOP"),
+      ]),
+    ],
+    [
+      "jump onto the goal border",
+      snapshot([player(0, 5, 8, "RIGHT"), player(2, 5, 9, "LEFT")]),
+    ],
+  ];
+
+  test.each(scenarios)("matches the human move set: %s", (_, state) => {
+    expect(sortCells(getLegalMoves(state, 0))).toEqual(
+      sortCells(humanMoves(state, 0))
+    );
+  });
+
+  test("never includes occupied cells", () => {
+    const state = scenarios[3][1];
+    const occupied = otherPawns(state, 0);
+    for (const move of getLegalMoves(state, 0)) {
+      expect(occupied).not.toContainEqual(move);
+    }
+  });
+});
+
+describe("pathToGoal", () => {
+  test("jumps over a pawn standing in the way", () => {
+    const state = snapshot([player(0, 5, 4, "RIGHT"), player(2, 5, 5, "LEFT")]);
+    const path = pathToGoal(state, 0);
+
+    expect(path?.[1]).toEqual({ row: 5, col: 6 });
+    expect(pathLength(path)).toBe(5);
+  });
+
+  test("every step of the path is a legal move", () => {
+    const state = snapshot(
+      [
+        player(0, 5, 2, "RIGHT"),
+        player(1, 5, 4, "BOTTOM"),
+        player(2, 5, 5, "LEFT"),
+        player(3, 4, 3, "TOP"),
+      ],
+      [{ row: 5, col: 5, orientation: "HORIZONTAL" }]
+    );
+    const path = pathToGoal(state, 0);
+
+    expect(path).not.toBeNull();
+    if (!path) return;
+    for (let i = 1; i < path.length; i++) {
+      const moved = {
+        ...state,
+        players: state.players.map((p) =>
+          p.playerId === 0 ? { ...p, ...path[i - 1] } : p
+        ),
+      };
+      expect(getLegalMoves(moved, 0)).toContainEqual(path[i]);
+    }
+  });
+
+  test("falls back to the barrier-only path when pawns plug every route", () => {
+    // Red is boxed into the corner: the only way out is through (1,2),
+    // and the jump and both side-steps are blocked by pawns
+    const state = snapshot(
+      [
+        player(0, 1, 1, "RIGHT"),
+        player(1, 1, 2, "BOTTOM"),
+        player(2, 1, 3, "LEFT"),
+        player(3, 2, 2, "TOP"),
+      ],
+      [{ row: 1, col: 0, orientation: "HORIZONTAL" }]
+    );
+    const path = pathToGoal(state, 0);
+
+    expect(getLegalMoves(state, 0)).toEqual([]);
+    expect(path?.[1]).toEqual({ row: 1, col: 2 });
+  });
+});
+
+describe("racingOpponents", () => {
+  test("skips players who forfeited or finished", () => {
+    const state: GameSnapshot = {
+      ...snapshot([
+        player(0, 5, 1, "RIGHT"),
+        { ...player(1, 1, 5, "BOTTOM"), forfeited: true },
+        player(2, 5, 9, "LEFT"),
+        player(3, 9, 5, "TOP"),
+      ]),
+      untilPlacements: true,
+      finishOrder: [3],
+    };
+    expect(racingOpponents(state, 0).map((p) => p.playerId)).toEqual([2]);
+  });
+});
+
+describe("team games", () => {
+  const teams: GameSnapshot = {
+    ...snapshot([
+      player(0, 5, 1, "RIGHT", 0),
+      player(1, 1, 5, "BOTTOM", 4),
+      player(2, 5, 9, "LEFT", 3),
+      player(3, 9, 5, "TOP", 0),
+    ]),
+    gameMode: "TEAMS",
+    sharedWalls: true,
+  };
+
+  test("a partner is not an opponent", () => {
+    expect(racingOpponents(teams, 0).map((p) => p.playerId)).toEqual([1, 3]);
+  });
+
+  test("shared walls count the partner's", () => {
+    expect(wallsAvailable(teams, 0)).toBe(3);
+    expect(wallsAvailable({ ...teams, sharedWalls: false }, 0)).toBe(0);
+  });
+});
+
+describe("Bot strategies", () => {
+  const blocked = snapshot(
+    [player(0, 5, 4, "RIGHT", 0), player(2, 5, 5, "LEFT", 0)],
+    [{ row: 4, col: 5, orientation: "VERTICAL" }]
+  );
+
+  test.each([
+    ["EasyBot", (rng: SeededRNG) => new EasyBot(rng)],
+    ["MediumBot", (rng: SeededRNG) => new MediumBot(rng)],
+    [
+      "HardBot",
+      (rng: SeededRNG) => new HardBot(rng, BOT_STRATEGIES.BOT_HARD.config),
+    ],
+  ])("%s only picks legal moves next to a pawn", async (_, create) => {
+    const legal = getLegalMoves(blocked, 0);
+    for (let seed = 0; seed < 20; seed++) {
+      const decision = await create(new SeededRNG(`seed-${seed}`)).selectMove(
+        blocked,
+        0
+      );
+      expect(decision.move.type).toBe("MOVE");
+      expect(legal).toContainEqual({
+        row: decision.move.row,
+        col: decision.move.col,
+      });
+    }
+  });
+
+  test("EasyBot follows its path over a pawn", async () => {
+    const state = snapshot([player(0, 5, 4, "RIGHT"), player(2, 5, 5, "LEFT")]);
+    let towardGoal = 0;
+
+    for (let seed = 0; seed < 20; seed++) {
+      const decision = await new EasyBot(
+        new SeededRNG(`seed-${seed}`)
+      ).selectMove(state, 0);
+      const { strategy } = decision.reasoning as { strategy: string };
+      if (strategy !== "toward_goal") continue;
+
+      towardGoal++;
+      expect(decision.move).toMatchObject({ type: "MOVE", row: 5, col: 6 });
+    }
+    expect(towardGoal).toBeGreaterThan(0);
+  });
+
+  test("MediumBot blocks the rival closest along real paths", async () => {
+    // Blue looks 2 steps from the bottom, but walls send it around to
+    // column 9 (6 moves); Yellow really is closest (3 moves)
+    const state = snapshot(
+      [
+        player(0, 2, 2, "RIGHT", 5),
+        player(1, 8, 5, "BOTTOM"),
+        player(2, 5, 3, "LEFT"),
+        player(3, 5, 9, "TOP"),
+      ],
+      [1, 3, 5, 7].map((col) => ({
+        row: 8,
+        col,
+        orientation: "HORIZONTAL" as const,
+      }))
+    );
+    expect(pathLength(pathToGoal(state, 1))).toBe(6);
+    let walls = 0;
+
+    for (let seed = 0; seed < 20; seed++) {
+      const decision = await new MediumBot(
+        new SeededRNG(`seed-${seed}`)
+      ).selectMove(state, 0);
+      if (decision.move.type !== "WALL") continue;
+
+      walls++;
+      expect(decision.reasoning).toMatchObject({ targetOpponent: 2 });
+    }
+    expect(walls).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Test suite for the HardBot game-tree search
+ * Alpha-beta (2P) and paranoid (4P) search over moves and walls, scored by
+ * BFS path lengths (src/lib/bot/search.ts)
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import {
+  distanceToGoal,
+  fromRoom,
+  toEngineAction,
+  validateWall,
+} from "../src/lib/engine";
+import {
+  candidateActions,
+  evaluate,
+  evaluationStyle,
+} from "../src/lib/bot/search";
+import { PERSONALITY_PROFILES } from "../src/config/personalities";
+import { HardBot } from "../src/lib/bot/strategies/hard";
+import { BOT_STRATEGIES } from "../src/lib/bot/registry";
+import { SeededRNG } from "../src/lib/bot/rng";
+import { player, snapshot } from "./helpers/bot-fixtures";
+
+const start2P = snapshot([player(0, 5, 1, "RIGHT"), player(2, 5, 9, "LEFT")]);
+
+describe("evaluate", () => {
+  test("a symmetric position is worth the tempo", () => {
+    const state = fromRoom(start2P);
+    expect(evaluate(state, 0)).toBeCloseTo(0.5);
+    expect(evaluate(state, 2)).toBeCloseTo(-0.5);
+  });
+
+  test("a won position scores the most", () => {
+    const state = { ...fromRoom(start2P), winner: 2 };
+    expect(evaluate(state, 2)).toBeGreaterThan(100);
+    expect(evaluate(state, 0)).toBeLessThan(-100);
+  });
+
+  test("a balanced style weighs both races alike", () => {
+    expect(evaluationStyle(PERSONALITY_PROFILES.BALANCED)).toEqual({
+      ownWeight: 1,
+      rivalWeight: 1,
+      wallWeight: expect.closeTo(0.2),
+      target: "LEADER",
+    });
+  });
+
+  test("a runner cares more about its own race than a defender", () => {
+    // Player 0 is a step ahead
+    const state = fromRoom(
+      snapshot([player(0, 5, 2, "RIGHT"), player(2, 5, 9, "LEFT")])
+    );
+    const runner = evaluationStyle(PERSONALITY_PROFILES.RUNNER);
+    const defender = evaluationStyle(PERSONALITY_PROFILES.DEFENSIVE);
+    expect(runner.ownWeight).toBeGreaterThan(defender.ownWeight);
+    expect(evaluate(state, 0, runner)).not.toBeCloseTo(
+      evaluate(state, 0, defender)
+    );
+  });
+
+  test("targeting every rival averages their distances", () => {
+    // Rival 1 is about to finish, rival 2 is far away
+    const state = fromRoom(
+      snapshot([
+        player(0, 5, 1, "RIGHT"),
+        player(1, 9, 5, "BOTTOM"),
+        player(2, 5, 9, "LEFT"),
+      ])
+    );
+    const leader = evaluationStyle(PERSONALITY_PROFILES.BALANCED);
+    const all = { ...leader, target: "ALL" as const };
+    expect(evaluate(state, 0, all)).toBeGreaterThan(evaluate(state, 0, leader));
+  });
+});
+
+describe("candidateActions", () => {
+  test("only moves without walls in hand", () => {
+    const state = fromRoom(
+      snapshot([player(0, 5, 1, "RIGHT", 0), player(2, 5, 9, "LEFT", 0)])
+    );
+    const actions = candidateActions(state, 8);
+    expect(actions.every((a) => a.type === "MOVE")).toBe(true);
+    // Closest to goal first
+    expect(actions[0]).toEqual({ type: "MOVE", row: 5, col: 2 });
+  });
+
+  test("walls are legal, slow a rival down and are capped", () => {
+    // Rows apart, so a wall across the rival's path is off ours
+    const state = fromRoom(
+      snapshot([player(0, 5, 1, "RIGHT"), player(2, 2, 9, "LEFT")])
+    );
+    const walls = candidateActions(state, 3).filter((a) => a.type === "WALL");
+    const rival = state.players.find((p) => p.id === 2)!;
+    const before = distanceToGoal(
+      rival,
+      rival.goalSide,
+      state.blockedEdges,
+      state.boardSize
+    )!;
+
+    expect(walls.length).toBeGreaterThan(0);
+    expect(walls.length).toBeLessThanOrEqual(3);
+    for (const wall of walls) {
+      if (wall.type !== "WALL") continue;
+      const result = validateWall(
+        state,
+        0,
+        wall.row,
+        wall.col,
+        wall.orientation
+      );
+      expect(result.valid).toBe(true);
+      if (!result.valid) continue;
+
+      const edges = state.blockedEdges.clone();
+      result.edges.forEach((edge) => edges.add(edge));
+      expect(
+        distanceToGoal(rival, rival.goalSide, edges, state.boardSize)
+      ).toBeGreaterThan(before);
+    }
+  });
+});
+
+describe("HardBot search", () => {
+  const config = BOT_STRATEGIES.BOT_HARD.config;
+
+  test("takes a winning move", async () => {
+    const state = snapshot([player(0, 5, 9, "RIGHT"), player(2, 5, 2, "LEFT")]);
+    const decision = await new HardBot(new SeededRNG("win"), config).selectMove(
+      state,
+      0
+    );
+    expect(decision.move).toMatchObject({ type: "MOVE", row: 5, col: 10 });
+  });
+
+  test("blocks a rival about to win", async () => {
+    const state = snapshot([player(0, 2, 5, "RIGHT"), player(2, 5, 2, "LEFT")]);
+    const decision = await new HardBot(
+      new SeededRNG("block"),
+      config
+    ).selectMove(state, 0);
+    expect(decision.move.type).toBe("WALL");
+
+    const action = toEngineAction(decision.move);
+    if (action.type !== "WALL") return;
+    const engineState = fromRoom(state);
+    const result = validateWall(
+      engineState,
+      0,
+      action.row,
+      action.col,
+      action.orientation
+    );
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+
+    const edges = engineState.blockedEdges.clone();
+    result.edges.forEach((edge) => edges.add(edge));
+    expect(distanceToGoal({ row: 5, col: 2 }, "LEFT", edges)).toBeGreaterThan(
+      2
+    );
+  });
+
+  test("logs the principal variation of a 2-player search", async () => {
+    const decision = await new HardBot(new SeededRNG("pv"), {
+      ...config,
+      maxDepth: 3,
+    }).selectMove(start2P, 0);
+    const reasoning = decision.reasoning as {
+      strategy: string;
+      depth: number;
+      principalVariation: string[];
+    };
+
+    expect(reasoning.strategy).toBe("alpha_beta");
+    expect(reasoning.depth).toBe(3);
+    expect(reasoning.principalVariation).toHaveLength(3);
+    expect(decision.candidatesEvaluated).toBeGreaterThan(0);
+  });
+
+  test("plays paranoid in a 4-player game", async () => {
+    const state = snapshot([
+      player(0, 5, 1, "RIGHT"),
+      player(1, 1, 5, "BOTTOM"),
+      player(2, 5, 9, "LEFT"),
+      player(3, 9, 5, "TOP"),
+    ]);
+    const decision = await new HardBot(new SeededRNG("4p"), {
+      ...config,
+      maxDepth: 2,
+    }).selectMove(state, 0);
+    const reasoning = decision.reasoning as {
+      strategy: string;
+      principalVariation: string[];
+    };
+
+    expect(reasoning.strategy).toBe("paranoid");
+    expect(reasoning.principalVariation[1]).toBeDefined();
+  });
+
+  test("stops deepening when the time budget runs out", async () => {
+    const decision = await new HardBot(new SeededRNG("budget"), {
+      maxDepth: 10,
+      timeBudgetMs: 0,
+    }).selectMove(start2P, 0);
+    expect((decision.reasoning as { depth: number }).depth).toBe(1);
+  });
+
+  test("is deterministic for a seed", async () => {
+    const pick = () =>
+      new HardBot(new SeededRNG("same"), { ...config, maxDepth: 2 }).selectMove(
+        start2P,
+        0
+      );
+    const [a, b] = [await pick(), await pick()];
+    expect(a.move).toEqual(b.move);
+  });
+});
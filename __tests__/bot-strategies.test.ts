@@ -0,0 +1,153 @@
+/**
+ * Contract tests for the bot strategy registry
+ * Every registered strategy must return a well-formed BotDecision holding a
+ * legal action, whatever the mode, board size or position
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import { applyAction, fromRoom, toEngineAction } from "../src/lib/engine";
+import {
+  BOT_PLAYER_TYPES,
+  createBotStrategy,
+  isBotPlayerType,
+} from "../src/lib/bot/registry";
+import { SeededRNG } from "../src/lib/bot/rng";
+import type { BotPersonality } from "../src/config/personalities";
+import type { BotPlayerType, GameSnapshot } from "../src/lib/bot/types";
+import { player, snapshot } from "./helpers/bot-fixtures";
+
+const POSITIONS: Array<[string, GameSnapshot]> = [
+  [
+    "2-player start",
+    snapshot([player(0, 5, 1, "RIGHT", 10), player(2, 5, 9, "LEFT", 10)]),
+  ],
+  [
+    "4-player start",
+    snapshot([
+      player(0, 5, 1, "RIGHT"),
+      player(1, 1, 5, "BOTTOM"),
+      player(2, 5, 9, "LEFT"),
+      player(3, 9, 5, "TOP"),
+    ]),
+  ],
+  [
+    "pawns face to face behind a wall",
+    snapshot(
+      [player(0, 5, 4, "RIGHT"), player(2, 5, 5, "LEFT")],
+      [{ row: 4, col: 5, orientation: "VERTICAL" }]
+    ),
+  ],
+  [
+    "no walls left",
+    snapshot([player(0, 3, 6, "RIGHT", 0), player(2, 7, 2, "LEFT", 0)]),
+  ],
+  [
+    "teams with shared walls (own walls spent)",
+    snapshot(
+      [
+        player(0, 5, 1, "RIGHT", 0),
+        player(1, 1, 5, "BOTTOM"),
+        player(2, 5, 9, "LEFT", 3),
+        player(3, 9, 5, "TOP"),
+      ],
+      [],
+      { gameMode: "TEAMS", sharedWalls: true }
+    ),
+  ],
+  [
+    "placements after a finisher",
+    snapshot(
+      [
+        player(0, 5, 3, "RIGHT"),
+        player(1, 10, 5, "BOTTOM"),
+        player(2, 5, 8, "LEFT"),
+        player(3, 8, 5, "TOP"),
+      ],
+      [],
+      { untilPlacements: true, finishOrder: [1] }
+    ),
+  ],
+  [
+    "7x7 board",
+    snapshot([player(0, 4, 1, "RIGHT", 5), player(2, 4, 7, "LEFT", 5)], [], {
+      boardSize: 7,
+    }),
+  ],
+];
+
+/** Smaller searches keep the suite fast; legality does not depend on them */
+const FAST: Partial<Record<BotPlayerType, object>> = {
+  BOT_HARD: { maxDepth: 2 },
+  BOT_EXPERT: { iterations: 60 },
+};
+
+describe("registry", () => {
+  test("registers a strategy for every bot player type", () => {
+    expect([...BOT_PLAYER_TYPES].sort()).toEqual([
+      "BOT_EASY",
+      "BOT_EXPERT",
+      "BOT_HARD",
+      "BOT_MEDIUM",
+    ]);
+    expect(isBotPlayerType("BOT_HARD")).toBe(true);
+    expect(isBotPlayerType("HUMAN")).toBe(false);
+  });
+
+  test("applies config overrides", async () => {
+    const bot = createBotStrategy("BOT_HARD", new SeededRNG("config"), {
+      maxDepth: 1,
+    });
+    const decision = await bot.selectMove(POSITIONS[0][1], 0);
+    expect((decision.reasoning as { depth: number }).depth).toBe(1);
+  });
+
+  test("passes the personality to the strategy", async () => {
+    const wallsPlayed = async (personality: BotPersonality) => {
+      let walls = 0;
+      for (let seed = 0; seed < 20; seed++) {
+        const bot = createBotStrategy(
+          "BOT_MEDIUM",
+          new SeededRNG(`personality-${seed}`),
+          {},
+          personality
+        );
+        const decision = await bot.selectMove(POSITIONS[0][1], 0);
+        if (decision.move.type === "WALL") walls++;
+      }
+      return walls;
+    };
+
+    expect(await wallsPlayed("AGGRESSIVE")).toBeGreaterThan(
+      await wallsPlayed("RUNNER")
+    );
+  });
+});
+
+describe.each(BOT_PLAYER_TYPES)("%s contract", (playerType) => {
+  test.each(POSITIONS)("legal decision: %s", async (_, state) => {
+    const engineState = fromRoom(state);
+    const playerId = state.currentTurn;
+
+    for (let seed = 0; seed < 3; seed++) {
+      const bot = createBotStrategy(
+        playerType,
+        new SeededRNG(`contract-${seed}`),
+        FAST[playerType]
+      );
+      const decision = await bot.selectMove(state, playerId);
+      const { move } = decision;
+
+      expect(["MOVE", "WALL"]).toContain(move.type);
+      if (move.type === "WALL") {
+        expect(["HORIZONTAL", "VERTICAL"]).toContain(move.orientation);
+      }
+      expect(decision.computeTimeMs).toBeGreaterThanOrEqual(0);
+      expect(decision.candidatesEvaluated).toBeGreaterThanOrEqual(0);
+
+      // applyAction throws on an illegal action
+      expect(() =>
+        applyAction(engineState, toEngineAction(move))
+      ).not.toThrow();
+    }
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Test suite for the room chat helpers
+ * Message limits, the profanity filter, merging live messages and the
+ * send action's input check and rate limit
+ */
+
+import { describe, test, expect, beforeEach, jest } from "@jest/globals";
+import { Prisma } from "@prisma/client";
+
+jest.mock("../src/lib/session", () => ({
+  getOrCreateSessionId: jest.fn(() => Promise.resolve("test-session-123")),
+}));
+
+jest.mock("../src/lib/db", () => ({
+  db: {
+    player: { findFirst: jest.fn() },
+    chatMessage: { findFirst: jest.fn(), create: jest.fn() },
+    $transaction: jest.fn(),
+  },
+}));
+
+import { db } from "../src/lib/db";
+import { sendChatMessage } from "../src/lib/actions/chat-actions";
+import {
+  filterProfanity,
+  findEmote,
+  mergeChat,
+  prepareMessage,
+  type ChatEntry,
+} from "../src/lib/chat";
+import { CHAT_LIMITS } from "../src/config/chat";
+
+const entry = (id: string, seconds: number): ChatEntry => ({
+  id,
+  playerId: 0,
+  kind: "TEXT",
+  text: id,
+  createdAt: new Date(Date.UTC(2026, 0, 1, 10, 0, seconds)).toISOString(),
+});
+
+describe("prepareMessage", () => {
+  test("trims and collapses whitespace", () => {
+    expect(prepareMessage("  boa   jogada \n ")).toEqual({
+      text: "boa jogada",
+    });
+  });
+
+  test("rejects empty and too long messages", () => {
+    expect(prepareMessage("   ")).toEqual({ error: "Message is empty" });
+    expect(prepareMessage("a".repeat(CHAT_LIMITS.MAX_LENGTH + 1))).toEqual({
+      error: expect.stringContaining("too long"),
+    });
+    expect(prepareMessage("a".repeat(CHAT_LIMITS.MAX_LENGTH))).toEqual({
+      text: "a".repeat(CHAT_LIMITS.MAX_LENGTH),
+    });
+  });
+
+  test("filters profanity", () => {
+    expect(prepareMessage("que merda")).toEqual({ text: "que *****" });
+  });
+});
+
+describe("filterProfanity", () => {
+  test("masks whole words ignoring case, accents and plurals", () => {
+    expect(filterProfanity("PORRA!")).toBe("*****!");
+    expect(filterProfanity("Porrá")).toBe("*****");
+    expect(filterProfanity("merdas")).toBe("******");
+  });
+
+  test("leaves words that only contain a blocked word", () => {
+    expect(filterProfanity("cuidado com a barreira")).toBe(
+      "cuidado com a barreira"
+    );
+    expect(filterProfanity("computador")).toBe("computador");
+  });
+});
+
+describe("findEmote", () => {
+  test("finds quick emotes by id", () => {
+    expect(findEmote("GG")?.emoji).toBe("🤝");
+    expect(findEmote("NOPE")).toBeUndefined();
+  });
+});
+
+describe("mergeChat", () => {
+  test("appends new messages in time order without duplicates", () => {
+    const merged = mergeChat(
+      [entry("a", 1), entry("b", 3)],
+      [entry("b", 3), entry("c", 2)]
+    );
+
+    expect(merged.map((m) => m.id)).toEqual(["a", "c", "b"]);
+  });
+
+  test("returns the same list when nothing is new", () => {
+    const current = [entry("a", 1)];
+    expect(mergeChat(current, [entry("a", 1)])).toBe(current);
+  });
+
+  test("keeps only the latest messages", () => {
+    const many = Array.from({ length: CHAT_LIMITS.HISTORY + 5 }, (_, i) =>
+      entry(`m${i}`, i)
+    );
+
+    const merged = mergeChat([], many);
+    expect(merged).toHaveLength(CHAT_LIMITS.HISTORY);
+    expect(merged[0].id).toBe("m5");
+  });
+});
+
+describe("sendChatMessage", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (db.player.findFirst as jest.Mock).mockImplementation(() =>
+      Promise.resolve({ playerId: 1 })
+    );
+    // Interactive transactions run against the mocked client
+    (db.$transaction as jest.Mock).mockImplementation((fn) =>
+      (fn as (tx: typeof db) => Promise<unknown>)(db)
+    );
+    (db.chatMessage.create as jest.Mock).mockImplementation(() =>
+      Promise.resolve({
+        id: "m1",
+        code: "CHAT01",
+        playerId: 1,
+        kind: "TEXT",
+        text: "oi",
+        createdAt: new Date(),
+      })
+    );
+  });
+
+  test("rejects a non-string message without throwing", async () => {
+    const result = await sendChatMessage("CHAT01", null as unknown as string);
+
+    expect(result).toEqual({ error: "Invalid message" });
+    expect(db.chatMessage.create).not.toHaveBeenCalled();
+  });
+
+  test("sends a message", async () => {
+    (db.chatMessage.findFirst as jest.Mock).mockImplementation(() =>
+      Promise.resolve(null)
+    );
+
+    const result = await sendChatMessage("CHAT01", "oi");
+
+    expect(result).toMatchObject({ message: { playerId: 1, text: "oi" } });
+  });
+
+  test("rate-limits a message sent right after another", async () => {
+    (db.chatMessage.findFirst as jest.Mock).mockImplementation(() =>
+      Promise.resolve({ createdAt: new Date() })
+    );
+
+    const result = await sendChatMessage("CHAT01", "oi");
+
+    expect(result).toEqual({ error: "Too many messages, slow down" });
+    expect(db.chatMessage.create).not.toHaveBeenCalled();
+  });
+
+  test("rate-limits the loser of two concurrent sends", async () => {
+    (db.$transaction as jest.Mock).mockImplementation(() =>
+      Promise.reject(
+        new Prisma.PrismaClientKnownRequestError("Write conflict", {
+          code: "P2034",
+          clientVersion: Prisma.prismaVersion.client,
+        })
+      )
+    );
+
+    const result = await sendChatMessage("CHAT01", "oi");
+
+    expect(result).toEqual({ error: "Too many messages, slow down" });
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Test suite for optimistic concurrency on turn-mutating actions
+ * Two actions based on the same turnNumber: only the first may commit
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import type { Prisma } from "@prisma/client";
+import { claimTurn } from "../src/lib/concurrency";
+
+/** Minimal in-memory stand-in for the room table's conditional update */
+const fakeRoomTable = (turnNumber: number) => {
+  const room = { id: "room-1", turnNumber, currentTurn: 0 };
+  const tx = {
+    room: {
+      updateMany: async ({
+        where,
+        data,
+      }: {
+        where: { id: string; turnNumber: number };
+        data: { currentTurn?: number; turnNumber: { increment: number } };
+      }) => {
+        if (where.id !== room.id || where.turnNumber !== room.turnNumber) {
+          return { count: 0 };
+        }
+        room.turnNumber += data.turnNumber.increment;
+        if (data.currentTurn !== undefined) room.currentTurn = data.currentTurn;
+        return { count: 1 };
+      },
+    },
+  } as unknown as Prisma.TransactionClient;
+  return { room, tx };
+};
+
+describe("claimTurn", () => {
+  test("increments turnNumber and applies the update when current", async () => {
+    const { room, tx } = fakeRoomTable(4);
+
+    await expect(claimTurn(tx, "room-1", 4, { currentTurn: 2 })).resolves.toBe(
+      true
+    );
+    expect(room).toMatchObject({ turnNumber: 5, currentTurn: 2 });
+  });
+
+  test("rejects the second of two actions based on the same turn", async () => {
+    const { room, tx } = fakeRoomTable(4);
+
+    const results = await Promise.all([
+      claimTurn(tx, "room-1", 4, { currentTurn: 2 }),
+      claimTurn(tx, "room-1", 4, { currentTurn: 2 }),
+    ]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(room.turnNumber).toBe(5);
+  });
+
+  test("rejects actions based on an older turn", async () => {
+    const { room, tx } = fakeRoomTable(7);
+
+    await expect(claimTurn(tx, "room-1", 6)).resolves.toBe(false);
+    expect(room.turnNumber).toBe(7);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Test suite for the canonical edge representation
+ * Ensures the UI, server and bot views of the same room agree on every
+ * blocked edge
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import {
+  EDGE_COUNT,
+  EdgeBitboard,
+  blockedEdgesFromWalls,
+  edgeCells,
+  edgeIndex,
+  edgeKey,
+  edgeKeyFromIndex,
+  fromRoom,
+  normalizeEdgeKey,
+  parseEdgeKey,
+  wallEdges,
+} from "../src/lib/engine";
+import { roomToGameSnapshot } from "../src/lib/game-snapshot";
+import { dbToSnapshot } from "../src/lib/bot/snapshot";
+import type { PublicRoom, RoomWithPlayers } from "../src/types/room";
+
+const barrier = (
+  id: string,
+  row: number,
+  col: number,
+  orientation: "HORIZONTAL" | "VERTICAL",
+  placedBy: number
+) => ({ id, roomId: "room-1", row, col, orientation, placedBy });
+
+const room = {
+  id: "room-1",
+  code: "EDGES1",
+  status: "PLAYING",
+  gameMode: "FOUR_PLAYER",
+  currentTurn: 1,
+  winner: null,
+  turnNumber: 9,
+  players: [
+    { playerId: 0, row: 5, col: 3, goalSide: "RIGHT", wallsLeft: 4 },
+    { playerId: 1, row: 2, col: 5, goalSide: "BOTTOM", wallsLeft: 5 },
+    { playerId: 2, row: 5, col: 8, goalSide: "LEFT", wallsLeft: 6 },
+    { playerId: 3, row: 9, col: 5, goalSide: "TOP", wallsLeft: 6 },
+  ].map((p) => ({
+    ...p,
+    id: `p${p.playerId}`,
+    name: `Player ${p.playerId + 1}`,
+    color: "#000000",
+    playerType: "HUMAN",
+  })),
+  barriers: [
+    barrier("b1", 0, 0, "HORIZONTAL", 0), // top-left border corner
+    barrier("b2", 9, 8, "HORIZONTAL", 1), // bottom-right border corner
+    barrier("b3", 0, 9, "VERTICAL", 0), // right border column
+    barrier("b4", 8, 0, "VERTICAL", 1), // left border column
+    barrier("b5", 4, 4, "HORIZONTAL", 0),
+    barrier("b6", 4, 6, "VERTICAL", 1),
+    barrier("b7", 6, 2, "VERTICAL", 0),
+  ],
+} as unknown as RoomWithPlayers & PublicRoom;
+
+describe("Edge indexing", () => {
+  test("every edge index round-trips through its cells and key", () => {
+    for (let i = 0; i < EDGE_COUNT; i++) {
+      const [r1, c1, r2, c2] = edgeCells(i);
+      expect(edgeIndex(r1, c1, r2, c2)).toBe(i);
+      expect(edgeIndex(r2, c2, r1, c1)).toBe(i);
+      expect(parseEdgeKey(edgeKeyFromIndex(i))).toBe(i);
+      expect(edgeKeyFromIndex(i)).toBe(edgeKey(r1, c1, r2, c2));
+    }
+  });
+
+  test("rejects cells that are not adjacent or outside the grid", () => {
+    expect(edgeIndex(5, 5, 6, 6)).toBe(-1);
+    expect(edgeIndex(5, 5, 5, 7)).toBe(-1);
+    expect(edgeIndex(12, 12, 12, 13)).toBe(-1);
+    expect(edgeIndex(-1, 0, 0, 0)).toBe(-1);
+    expect(parseEdgeKey("not-an-edge")).toBe(-1);
+  });
+
+  test("normalizes the legacy bot key format", () => {
+    expect(normalizeEdgeKey("4,5:4,6")).toBe("4,5-4,6");
+    expect(normalizeEdgeKey("5,5:4,5")).toBe("4,5-5,5");
+    expect(normalizeEdgeKey("5,5-4,5")).toBe("4,5-5,5");
+    expect(normalizeEdgeKey("1,1:3,3")).toBeNull();
+  });
+});
+
+describe("EdgeBitboard", () => {
+  test("behaves like a set of canonical keys", () => {
+    const edges = new EdgeBitboard();
+    edges.add("4,5-4,6").add("5,5:4,5");
+
+    expect(edges.size).toBe(2);
+    expect(edges.has("4,6-4,5")).toBe(true);
+    expect(edges.hasEdge(4, 5, 5, 5)).toBe(true);
+    expect(edges.has("1,1-1,2")).toBe(false);
+    expect([...edges]).toEqual(["4,5-4,6", "4,5-5,5"]);
+
+    expect(edges.delete("4,5-4,6")).toBe(true);
+    expect(edges.size).toBe(1);
+  });
+
+  test("clones are independent", () => {
+    const edges = new EdgeBitboard().add("0,0-0,1");
+    const copy = edges.clone().add("10,9-10,10");
+
+    expect(edges.size).toBe(1);
+    expect(copy.size).toBe(2);
+    expect(edges.equals(copy)).toBe(false);
+  });
+
+  test("hex encoding round-trips every edge", () => {
+    const all = new EdgeBitboard();
+    for (let i = 0; i < EDGE_COUNT; i++) all.addIndex(i);
+
+    expect(all.toHex()).toHaveLength(80);
+    expect(EdgeBitboard.fromHex(all.toHex()).equals(all)).toBe(true);
+    expect(EdgeBitboard.fromHex(all.toHex()).size).toBe(EDGE_COUNT);
+  });
+
+  test("throws on invalid keys", () => {
+    expect(() => new EdgeBitboard().add("3,3-5,5")).toThrow("Invalid edge key");
+  });
+});
+
+describe("UI, server and bot views agree", () => {
+  const uiView = EdgeBitboard.from(roomToGameSnapshot(room).blockedEdges);
+  const serverView = fromRoom(room).blockedEdges;
+  const botView = dbToSnapshot(room).blockedEdges;
+
+  test("all views block exactly two edges per barrier", () => {
+    expect(serverView.size).toBe(room.barriers.length * 2);
+    expect(uiView.equals(serverView)).toBe(true);
+    expect(botView.equals(serverView)).toBe(true);
+  });
+
+  test("every edge of the grid has the same status in every view", () => {
+    for (let i = 0; i < EDGE_COUNT; i++) {
+      const key = edgeKeyFromIndex(i);
+      expect([uiView.has(key), botView.has(key)]).toEqual([
+        serverView.has(key),
+        serverView.has(key),
+      ]);
+    }
+  });
+
+  test("the edges of each barrier are blocked in every view", () => {
+    for (const b of room.barriers) {
+      const orientation = b.orientation === "HORIZONTAL" ? "H" : "V";
+      for (const key of wallEdges(b.row, b.col, orientation)) {
+        expect(uiView.has(key)).toBe(true);
+        expect(serverView.has(key)).toBe(true);
+        expect(botView.has(key)).toBe(true);
+      }
+    }
+  });
+
+  test("legacy bot keys resolve to the same edges", () => {
+    const legacy = serverView.toKeys().map((key) => key.replace("-", ":"));
+
+    expect(EdgeBitboard.from(legacy).equals(serverView)).toBe(true);
+  });
+
+  test("UI snapshot keys are canonical", () => {
+    const keys = roomToGameSnapshot(room).blockedEdges;
+    expect(keys).toEqual(blockedEdgesFromWalls(fromRoom(room).walls).toKeys());
+    keys.forEach((key) => expect(normalizeEdgeKey(key)).toBe(key));
+  });
+});
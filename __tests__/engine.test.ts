@@ -0,0 +1,355 @@
+/**
+ * Test suite for the shared rules engine
+ * Covers legal move/wall generation, state transitions and adapters
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import {
+  analyzePosition,
+  applyAction,
+  createState,
+  EdgeBitboard,
+  fromRoom,
+  isTerminal,
+  lastStandingWinner,
+  legalActions,
+  legalMoves,
+  legalWalls,
+  nextPlayerId,
+  raceLead,
+  shortestPath,
+  validateWall,
+  availableWalls,
+  wallOwner,
+  type EnginePlayer,
+} from "../src/lib/engine";
+
+const red: EnginePlayer = {
+  id: 0,
+  row: 5,
+  col: 1,
+  goalSide: "RIGHT",
+  wallsLeft: 12,
+};
+const green: EnginePlayer = {
+  id: 2,
+  row: 5,
+  col: 9,
+  goalSide: "LEFT",
+  wallsLeft: 12,
+};
+
+describe("legalMoves", () => {
+  test("returns the open orthogonal steps", () => {
+    const state = createState([red, green]);
+    const moves = legalMoves(state, 0);
+
+    // Col 0 is the LEFT border (not red's goal)
+    expect(moves).toEqual(
+      expect.arrayContaining([
+        { row: 4, col: 1 },
+        { row: 6, col: 1 },
+        { row: 5, col: 2 },
+      ])
+    );
+    expect(moves).toHaveLength(3);
+  });
+
+  test("includes straight jumps over adjacent pawns", () => {
+    const state = createState([
+      { ...red, col: 4 },
+      { ...green, col: 5 },
+    ]);
+
+    expect(legalMoves(state, 0)).toContainEqual({ row: 5, col: 6 });
+    expect(legalMoves(state, 0)).not.toContainEqual({ row: 5, col: 5 });
+  });
+
+  test("includes side-steps when the straight jump is walled off", () => {
+    const state = createState(
+      [
+        { ...red, col: 4 },
+        { ...green, col: 5 },
+      ],
+      [{ row: 4, col: 5, orientation: "V" }]
+    );
+    const moves = legalMoves(state, 0);
+
+    expect(moves).toContainEqual({ row: 4, col: 5 });
+    expect(moves).toContainEqual({ row: 6, col: 5 });
+    expect(moves).not.toContainEqual({ row: 5, col: 6 });
+  });
+
+  test("allows stepping onto the goal border", () => {
+    const state = createState([{ ...red, col: 9 }, green]);
+    expect(legalMoves(state, 0)).toContainEqual({ row: 5, col: 10 });
+  });
+});
+
+describe("legalWalls", () => {
+  test("offers every in-bounds placement on an empty board", () => {
+    // 10x9 horizontal + 9x10 vertical base positions
+    expect(legalWalls(createState([red, green]), 0)).toHaveLength(180);
+  });
+
+  test("returns nothing when the player has no walls left", () => {
+    const state = createState([{ ...red, wallsLeft: 0 }, green]);
+    expect(legalWalls(state, 0)).toEqual([]);
+  });
+
+  test("excludes duplicates, crossings and overlaps", () => {
+    const state = createState(
+      [red, green],
+      [{ row: 3, col: 3, orientation: "H" }]
+    );
+    const walls = legalWalls(state, 0);
+    const has = (row: number, col: number, orientation: "H" | "V") =>
+      walls.some(
+        (w) => w.row === row && w.col === col && w.orientation === orientation
+      );
+
+    expect(has(3, 3, "H")).toBe(false); // duplicate
+    expect(has(3, 3, "V")).toBe(false); // crossing
+    expect(has(3, 2, "H")).toBe(false); // overlap (shares an edge)
+    expect(has(3, 4, "H")).toBe(false); // overlap (shares an edge)
+    expect(has(3, 5, "H")).toBe(true);
+  });
+
+  test("rejects walls that would cut a player off", () => {
+    // Red in the corner, walled off on the right
+    const state = createState(
+      [{ ...red, row: 1 }, green],
+      [{ row: 1, col: 1, orientation: "V" }]
+    );
+
+    // Closing the bottom of (1,1)-(2,1) traps red
+    const result = validateWall(state, 2, 2, 0, "H");
+    expect(result).toEqual({
+      valid: false,
+      reason: "BLOCKS_PATH",
+      blockedPlayerId: 0,
+    });
+  });
+});
+
+describe("applyAction", () => {
+  test("moves the pawn and passes the turn", () => {
+    const state = createState([red, green]);
+    const next = applyAction(state, { type: "MOVE", row: 5, col: 2 });
+
+    expect(next.players[0]).toMatchObject({ row: 5, col: 2 });
+    expect(next.currentPlayerId).toBe(2);
+    expect(state.players[0]).toMatchObject({ row: 5, col: 1 }); // not mutated
+  });
+
+  test("places a wall, spends it and blocks its edges", () => {
+    const state = createState([red, green]);
+    const next = applyAction(state, {
+      type: "WALL",
+      row: 4,
+      col: 1,
+      orientation: "V",
+    });
+
+    expect(next.walls).toHaveLength(1);
+    expect(next.players[0].wallsLeft).toBe(11);
+    expect(next.blockedEdges.has("5,1-5,2")).toBe(true);
+    expect(legalMoves(next, 0)).not.toContainEqual({ row: 5, col: 2 });
+  });
+
+  test("ends the game when a pawn reaches its goal", () => {
+    const state = createState([
+      { ...red, col: 9 },
+      { ...green, row: 1 },
+    ]);
+    const next = applyAction(state, { type: "MOVE", row: 5, col: 10 });
+
+    expect(next.winner).toBe(0);
+    expect(isTerminal(next)).toBe(true);
+    expect(legalActions(next)).toEqual([]);
+    expect(() => applyAction(next, { type: "MOVE", row: 5, col: 9 })).toThrow();
+  });
+
+  test("throws on illegal actions", () => {
+    const state = createState([red, green]);
+    expect(() => applyAction(state, { type: "MOVE", row: 5, col: 5 })).toThrow(
+      "Pawns move one cell or jump over another pawn"
+    );
+  });
+});
+
+describe("playing until placements", () => {
+  const four: EnginePlayer[] = [
+    { ...red, col: 9 },
+    { id: 1, row: 1, col: 5, goalSide: "BOTTOM", wallsLeft: 6 },
+    { ...green, id: 2, row: 7, col: 1 },
+    { id: 3, row: 9, col: 5, goalSide: "TOP", wallsLeft: 6 },
+  ];
+  const state = { ...createState(four), untilPlacements: true };
+
+  test("a finished player leaves the turn order", () => {
+    const next = applyAction(state, { type: "MOVE", row: 5, col: 10 });
+
+    expect(next.winner).toBeNull();
+    expect(next.finishOrder).toEqual([0]);
+    expect(next.currentPlayerId).toBe(1);
+    expect(nextPlayerId(next, 3)).toBe(1);
+  });
+
+  test("ends once one player is left racing; the first finisher wins", () => {
+    const next = applyAction(
+      { ...state, finishOrder: [0, 1], currentPlayerId: 2 },
+      { type: "MOVE", row: 7, col: 0 }
+    );
+
+    expect(next.finishOrder).toEqual([0, 1, 2]);
+    expect(next.winner).toBe(0);
+  });
+
+  test("forfeits leave the first finisher or the last one standing", () => {
+    const forfeit = (ids: number[]) =>
+      four.map((p) => ({ ...p, forfeited: ids.includes(p.id) }));
+
+    expect(
+      lastStandingWinner({
+        ...state,
+        players: forfeit([0, 2]),
+        finishOrder: [1],
+      })
+    ).toBe(1);
+    expect(lastStandingWinner({ ...state, players: forfeit([0, 1, 2]) })).toBe(
+      3
+    );
+    expect(lastStandingWinner({ ...state, players: forfeit([0]) })).toBeNull();
+  });
+});
+
+describe("team play", () => {
+  const four: EnginePlayer[] = [
+    red,
+    { id: 1, row: 1, col: 5, goalSide: "BOTTOM", wallsLeft: 0 },
+    green,
+    { id: 3, row: 9, col: 5, goalSide: "TOP", wallsLeft: 6 },
+  ];
+  const state = { ...createState(four), teams: true, sharedWalls: true };
+
+  test("the last team standing wins", () => {
+    const forfeit = (ids: number[]) =>
+      four.map((p) => ({ ...p, forfeited: ids.includes(p.id) }));
+
+    expect(lastStandingWinner({ ...state, players: forfeit([1]) })).toBeNull();
+    expect(lastStandingWinner({ ...state, players: forfeit([0, 2]) })).toBe(1);
+  });
+
+  test("shared walls come from the partner once a player runs out", () => {
+    expect(wallOwner(state, 1)).toBe(3);
+    expect(availableWalls(state, 1)).toBe(6);
+    expect(wallOwner({ ...state, sharedWalls: false }, 1)).toBeNull();
+
+    const next = applyAction(
+      { ...state, currentPlayerId: 1 },
+      { type: "WALL", row: 3, col: 3, orientation: "H" }
+    );
+    expect(next.players.map((p) => p.wallsLeft)).toEqual([12, 0, 12, 5]);
+    expect(next.walls[0].placedBy).toBe(1);
+  });
+});
+
+describe("smaller boards", () => {
+  const state = {
+    ...createState([
+      { ...red, row: 4, col: 6, wallsLeft: 9 },
+      { ...green, row: 4, col: 7, wallsLeft: 9 },
+    ]),
+    boardSize: 7,
+  };
+
+  test("the goal border moves in with the board", () => {
+    const next = applyAction(state, { type: "MOVE", row: 4, col: 8 });
+    expect(isTerminal(next)).toBe(true);
+    expect(next.winner).toBe(0);
+  });
+
+  test("walls stay inside the smaller grid", () => {
+    const walls = legalWalls(state, 0);
+    expect(walls).toHaveLength(112);
+    expect(walls.every((w) => w.row <= 7 && w.col <= 7)).toBe(true);
+    expect(validateWall(state, 0, 8, 3, "H")).toEqual({
+      valid: false,
+      reason: "OUT_OF_BOUNDS",
+    });
+  });
+});
+
+describe("shortestPath", () => {
+  test("ends on the goal border", () => {
+    const path = shortestPath(red, "RIGHT", new EdgeBitboard());
+    expect(path).toHaveLength(10);
+    expect(path?.[path.length - 1]).toEqual({ row: 5, col: 10 });
+  });
+});
+
+describe("analyzePosition", () => {
+  const state = createState([{ ...red, col: 3 }, green]);
+
+  test("gives every racing player their shortest path", () => {
+    const analysis = analyzePosition(state);
+
+    expect(analysis.map((a) => [a.playerId, a.distance])).toEqual([
+      [0, 7],
+      [2, 9],
+    ]);
+    expect(analysis[0].path?.[0]).toEqual({ row: 5, col: 3 });
+    expect(raceLead(state, analysis, 0)).toBe(2);
+    expect(raceLead(state, analysis, 2)).toBe(-2);
+  });
+
+  test("previews a wall without placing it", () => {
+    const preview = analyzePosition(state, {
+      row: 4,
+      col: 3,
+      orientation: "V",
+    });
+
+    expect(preview[0].distance).toBe(8);
+    expect(preview[1].distance).toBe(10);
+    expect(state.walls).toEqual([]);
+    expect(state.blockedEdges.size).toBe(0);
+  });
+
+  test("teams race with their closer partner", () => {
+    const teams = {
+      ...createState([
+        red,
+        { id: 1, row: 2, col: 5, goalSide: "BOTTOM", wallsLeft: 6 },
+        green,
+        { id: 3, row: 9, col: 5, goalSide: "TOP", wallsLeft: 6 },
+      ]),
+      teams: true,
+    };
+    const analysis = analyzePosition(teams);
+
+    expect(raceLead(teams, analysis, 0)).toBe(-1);
+    expect(raceLead(teams, analysis, 3)).toBe(1);
+  });
+});
+
+describe("fromRoom", () => {
+  test("converts DB rooms and orders players by seat", () => {
+    const state = fromRoom({
+      currentTurn: 2,
+      winner: null,
+      players: [
+        { playerId: 2, row: 5, col: 9, goalSide: "LEFT", wallsLeft: 12 },
+        { playerId: 0, row: 5, col: 1, goalSide: "RIGHT", wallsLeft: 11 },
+      ],
+      barriers: [{ row: 4, col: 1, orientation: "VERTICAL", placedBy: 0 }],
+    });
+
+    expect(state.players.map((p) => p.id)).toEqual([0, 2]);
+    expect(state.walls).toEqual([
+      { row: 4, col: 1, orientation: "V", placedBy: 0 },
+    ]);
+    expect(state.blockedEdges.toKeys()).toEqual(["4,1-4,2", "5,1-5,2"]);
+  });
+});
@@ -4,6 +4,7 @@
  */
 
 import { describe, test, expect } from "@jest/globals";
+import { blockedEdgesFromWalls, edgeKey, wallEdges } from "../src/lib/engine";
 
 // Mock game state types (matching src/types/game.ts)
 // type PlayerId = 0 | 1 | 2 | 3;
@@ -28,29 +29,9 @@ interface Barrier {
   id: string;
 }
 
-// Helper function to normalize edge keys (from game.tsx)
-const edgeKey = (r1: number, c1: number, r2: number, c2: number): string => {
-  if (r1 > r2 || (r1 === r2 && c1 > c2)) {
-    [r1, r2] = [r2, r1];
-    [c1, c2] = [c2, c1];
-  }
-  return `${r1},${c1}-${r2},${c2}`;
-};
-
 // Helper to compute blocked edges from barriers
-const computeBlockedEdges = (barriers: Barrier[]): Set<string> => {
-  const edges = new Set<string>();
-  for (const b of barriers) {
-    if (b.orientation === "H") {
-      edges.add(edgeKey(b.row, b.col, b.row + 1, b.col));
-      edges.add(edgeKey(b.row, b.col + 1, b.row + 1, b.col + 1));
-    } else {
-      edges.add(edgeKey(b.row, b.col, b.row, b.col + 1));
-      edges.add(edgeKey(b.row + 1, b.col, b.row + 1, b.col + 1));
-    }
-  }
-  return edges;
-};
+const computeBlockedEdges = (barriers: Barrier[]): Set<string> =>
+  new Set(blockedEdgesFromWalls(barriers));
 
 // Helper to check barrier validity (matching server logic)
 const isValidBarrierPlacement = (
@@ -83,14 +64,7 @@ const isValidBarrierPlacement = (
   }
 
   // 4. Edge overlap check
-  const newEdges: string[] = [];
-  if (orientation === "H") {
-    newEdges.push(edgeKey(row, col, row + 1, col));
-    newEdges.push(edgeKey(row, col + 1, row + 1, col + 1));
-  } else {
-    newEdges.push(edgeKey(row, col, row, col + 1));
-    newEdges.push(edgeKey(row + 1, col, row + 1, col + 1));
-  }
+  const newEdges = wallEdges(row, col, orientation);
 
   const existingEdges = computeBlockedEdges(existingBarriers);
   const hasOverlap = newEdges.some((edge) => existingEdges.has(edge));
@@ -0,0 +1,46 @@
+/**
+ * Shared fixtures for the bot test suites
+ * Builds GameSnapshots straight from pawns and walls, no database involved
+ */
+
+import { blockedEdgesFromWalls, toOrientation } from "../../src/lib/engine";
+import type {
+  BarrierSnapshot,
+  GameSnapshot,
+  PlayerSnapshot,
+} from "../../src/lib/bot/types";
+
+export const player = (
+  playerId: number,
+  row: number,
+  col: number,
+  goalSide: PlayerSnapshot["goalSide"],
+  wallsLeft = 6
+): PlayerSnapshot => ({
+  playerId,
+  row,
+  col,
+  goalSide,
+  wallsLeft,
+  name: `Bot ${playerId + 1}`,
+  playerType: "BOT_EASY",
+});
+
+/** 2 players: TWO_PLAYER, otherwise FOUR_PLAYER (`extra` overrides) */
+export const snapshot = (
+  players: PlayerSnapshot[],
+  barriers: Array<Omit<BarrierSnapshot, "id" | "placedBy">> = [],
+  extra: Partial<GameSnapshot> = {}
+): GameSnapshot => ({
+  roomCode: "BOTS",
+  turnNumber: 1,
+  currentTurn: players[0].playerId,
+  players,
+  barriers: barriers.map((b, i) => ({ ...b, id: `b${i}`, placedBy: 0 })),
+  blockedEdges: blockedEdgesFromWalls(
+    barriers.map((b) => ({ ...b, orientation: toOrientation(b.orientation) }))
+  ),
+  winner: null,
+  gameMode: players.length === 2 ? "TWO_PLAYER" : "FOUR_PLAYER",
+  ...extra,
+});
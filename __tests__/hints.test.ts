@@ -0,0 +1,143 @@
+/**
+ * Test suite for hints
+ * A hint is a legal action for the player to move, with an explanation
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import { explainHint, isHintStrength, suggestHint } from "../src/lib/hints";
+import { validateRoomAction } from "../src/lib/action-validation";
+import type { RoomWithPlayers } from "../src/types/room";
+
+const at = new Date(Date.UTC(2026, 0, 1, 10, 0, 0));
+
+const player = (
+  playerId: number,
+  row: number,
+  col: number,
+  goalSide: "RIGHT" | "LEFT"
+) => ({
+  id: `p${playerId}`,
+  roomId: "room-1",
+  userId: null,
+  sessionId: `session-${playerId}`,
+  playerId,
+  name: playerId === 0 ? "Ana" : "Bruno",
+  color: "#000000",
+  playerType: "HUMAN" as const,
+  botPersonality: null,
+  row,
+  col,
+  wallsLeft: 12,
+  goalSide,
+  timeLeftMs: null,
+  forfeited: false,
+  joinedAt: at,
+  lastActive: at,
+});
+
+const room: RoomWithPlayers = {
+  id: "room-1",
+  code: "HINT01",
+  status: "PLAYING",
+  gameMode: "TWO_PLAYER",
+  boardSize: 9,
+  hostSessionId: "session-0",
+  currentTurn: 0,
+  winner: null,
+  allowBots: false,
+  turnNumber: 5,
+  botSeed: "seed",
+  timeControl: "NONE",
+  timeLimitMs: null,
+  timeIncrementMs: 0,
+  timeoutAction: "SKIP",
+  turnStartedAt: at,
+  seriesId: null,
+  rematchVotes: [],
+  rematchCode: null,
+  untilPlacements: false,
+  finishOrder: [],
+  sharedWalls: false,
+  createdAt: at,
+  updatedAt: at,
+  players: [player(0, 5, 3, "RIGHT"), player(2, 5, 7, "LEFT")],
+  barriers: [],
+};
+
+describe("suggestHint", () => {
+  test.each(["MEDIUM", "HARD"] as const)(
+    "%s suggests a legal action for the player to move",
+    async (strength) => {
+      const hint = await suggestHint(room, 0, strength);
+
+      expect(validateRoomAction(room, 0, hint.action)).toEqual({
+        valid: true,
+      });
+      expect(hint.strength).toBe(strength);
+      expect(hint.notation).toMatch(/^([A-J@]\d+|[a-i]\d+[hv])$/);
+      expect(hint.explanation.length).toBeGreaterThan(0);
+    }
+  );
+
+  test("is deterministic for a position", async () => {
+    expect(await suggestHint(room, 0, "HARD")).toEqual(
+      await suggestHint(room, 0, "HARD")
+    );
+  });
+});
+
+describe("explainHint", () => {
+  const players = room.players;
+
+  test("names the blocked opponent", () => {
+    expect(
+      explainHint(
+        { type: "WALL", row: 4, col: 6, orientation: "V" },
+        {
+          strategy: "block_opponent",
+          targetOpponent: 2,
+          pathLengthIncrease: 2,
+        },
+        players
+      )
+    ).toBe(
+      "Bloqueie Bruno: o caminho até o objetivo fica 2 passos mais longo."
+    );
+  });
+
+  test("counts the steps left after a move", () => {
+    expect(
+      explainHint(
+        { type: "MOVE", row: 5, col: 4 },
+        { strategy: "weighted_selection", myDistanceAfter: 1 },
+        players
+      )
+    ).toBe("Avance: depois desta jogada falta 1 passo até o objetivo.");
+  });
+
+  test("mentions the search depth", () => {
+    expect(
+      explainHint(
+        { type: "WALL", row: 4, col: 2, orientation: "H" },
+        { strategy: "alpha_beta", depth: 4, opponentPathIncrease: 3 },
+        players
+      )
+    ).toBe(
+      "Esta barreira atrasa seus rivais em 3 passos (4 lances calculados)."
+    );
+  });
+
+  test("falls back to the action type", () => {
+    expect(explainHint({ type: "MOVE", row: 5, col: 4 }, null, players)).toBe(
+      "Avance em direção ao objetivo."
+    );
+  });
+});
+
+describe("isHintStrength", () => {
+  test("accepts the hint strategies only", () => {
+    expect(isHintStrength("MEDIUM")).toBe(true);
+    expect(isHintStrength("HARD")).toBe(true);
+    expect(isHintStrength("EASY")).toBe(false);
+  });
+});
@@ -4,9 +4,14 @@
  */
 
 import { describe, test, expect } from "@jest/globals";
+import {
+  blockedEdgesFromWalls,
+  checkPawnMove,
+  EdgeBitboard,
+  type GoalSide,
+} from "../src/lib/engine";
 
 type PlayerId = 0 | 1 | 2 | 3;
-type GoalSide = "TOP" | "RIGHT" | "BOTTOM" | "LEFT";
 
 interface Player {
   id: PlayerId;
@@ -26,31 +31,11 @@ interface Barrier {
   id: string;
 }
 
-// Helper to normalize edge keys
-const edgeKey = (r1: number, c1: number, r2: number, c2: number): string => {
-  if (r1 > r2 || (r1 === r2 && c1 > c2)) {
-    [r1, r2] = [r2, r1];
-    [c1, c2] = [c2, c1];
-  }
-  return `${r1},${c1}-${r2},${c2}`;
-};
-
 // Compute blocked edges from barriers
-const computeBlockedEdges = (barriers: Barrier[]): Set<string> => {
-  const edges = new Set<string>();
-  for (const b of barriers) {
-    if (b.orientation === "H") {
-      edges.add(edgeKey(b.row, b.col, b.row + 1, b.col));
-      edges.add(edgeKey(b.row, b.col + 1, b.row + 1, b.col + 1));
-    } else {
-      edges.add(edgeKey(b.row, b.col, b.row, b.col + 1));
-      edges.add(edgeKey(b.row + 1, b.col, b.row + 1, b.col + 1));
-    }
-  }
-  return edges;
-};
+const computeBlockedEdges = (barriers: Barrier[]): Set<string> =>
+  new Set(blockedEdgesFromWalls(barriers));
 
-// Simplified jump validation logic (based on game.tsx canPawnMoveTo)
+// Jump validation via the shared rules engine (same as game.tsx canPawnMoveTo)
 const canJumpTo = (
   fromRow: number,
   fromCol: number,
@@ -59,103 +44,22 @@ const canJumpTo = (
   players: Player[],
   blockedEdges: Set<string>
 ): { canJump: boolean; reason?: string } => {
-  const GRID_SIZE = 11;
-
-  // Check if target is in bounds
-  if (toRow < 0 || toRow >= GRID_SIZE || toCol < 0 || toCol >= GRID_SIZE) {
-    return { canJump: false, reason: "Out of bounds" };
-  }
-
-  // Check if another player is at target
-  const occupiedByPlayer = players.some(
-    (p) => p.row === toRow && p.col === toCol
-  );
-  if (occupiedByPlayer) {
-    return { canJump: false, reason: "Cell occupied by player" };
-  }
-
-  const rowDiff = Math.abs(toRow - fromRow);
-  const colDiff = Math.abs(toCol - fromCol);
-  const manhattan = rowDiff + colDiff;
-
   // Must be manhattan distance 2 for a jump
-  if (manhattan !== 2) {
+  if (Math.abs(toRow - fromRow) + Math.abs(toCol - fromCol) !== 2) {
     return { canJump: false, reason: "Not a valid jump distance" };
   }
 
-  // Check all 4 neighbors for jump opportunities
-  const neighbors = [
-    { dr: -1, dc: 0, name: "UP" },
-    { dr: 1, dc: 0, name: "DOWN" },
-    { dr: 0, dc: -1, name: "LEFT" },
-    { dr: 0, dc: 1, name: "RIGHT" },
-  ];
-
-  for (const { dr, dc } of neighbors) {
-    const nRow = fromRow + dr;
-    const nCol = fromCol + dc;
-
-    // Check if there's a player at this neighbor
-    const playerAtNeighbor = players.find(
-      (p) => p.row === nRow && p.col === nCol
-    );
-    if (!playerAtNeighbor) continue;
-
-    // Check if we can move to this neighbor (not blocked by barrier)
-    const edge = edgeKey(fromRow, fromCol, nRow, nCol);
-    if (blockedEdges.has(edge)) continue;
-
-    // STRAIGHT JUMP: Jump over player in same direction
-    const straightRow = fromRow + 2 * dr;
-    const straightCol = fromCol + 2 * dc;
-    if (straightRow === toRow && straightCol === toCol) {
-      // Check if path to straight jump is blocked
-      const straightEdge = edgeKey(nRow, nCol, straightRow, straightCol);
-      if (!blockedEdges.has(straightEdge)) {
-        // Check if straight landing cell is occupied
-        const straightOccupied = players.some(
-          (p) => p.row === straightRow && p.col === straightCol
-        );
-        if (!straightOccupied) {
-          return { canJump: true };
-        }
-      }
-    }
-
-    // SIDE-STEP JUMP: Jump to the side if straight is blocked
-    const straightRow2 = fromRow + 2 * dr;
-    const straightCol2 = fromCol + 2 * dc;
-    const straightEdge2 = edgeKey(nRow, nCol, straightRow2, straightCol2);
-
-    // Only allow side-step if straight path is blocked OR straight cell is occupied
-    const straightBlocked = blockedEdges.has(straightEdge2);
-    const straightOccupied = players.some(
-      (p) => p.row === straightRow2 && p.col === straightCol2
-    );
-
-    if (straightBlocked || straightOccupied) {
-      // Check perpendicular directions from the jumped player
-      const perpendiculars = neighbors.filter(
-        (n) =>
-          Math.abs(n.dr) !== Math.abs(dr) || Math.abs(n.dc) !== Math.abs(dc)
-      );
-
-      for (const { dr: pdr, dc: pdc } of perpendiculars) {
-        const sideRow = nRow + pdr;
-        const sideCol = nCol + pdc;
-
-        if (sideRow === toRow && sideCol === toCol) {
-          // Check if side-step path is blocked
-          const sideEdge = edgeKey(nRow, nCol, sideRow, sideCol);
-          if (!blockedEdges.has(sideEdge)) {
-            return { canJump: true };
-          }
-        }
-      }
-    }
-  }
-
-  return { canJump: false, reason: "No valid jump path found" };
+  const others = players.filter((p) => p.row !== fromRow || p.col !== fromCol);
+  const result = checkPawnMove(
+    { row: fromRow, col: fromCol },
+    "TOP",
+    { row: toRow, col: toCol },
+    others,
+    EdgeBitboard.from(blockedEdges)
+  );
+  return result.valid
+    ? { canJump: true }
+    : { canJump: false, reason: result.reason };
 };
 
 describe("Straight Jump Mechanics", () => {
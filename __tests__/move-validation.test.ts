@@ -0,0 +1,274 @@
+/**
+ * Test suite for pawn move validation
+ * Ensures the rules engine and makeMove enforce the client movement rules
+ */
+
+import { describe, test, expect, beforeEach, jest } from "@jest/globals";
+import {
+  blockedEdgesFromWalls,
+  checkPawnMove,
+  toOrientation,
+  type GoalSide,
+} from "../src/lib/engine";
+import { makeMove } from "../src/lib/actions/game-actions";
+
+jest.mock("../src/lib/session", () => ({
+  getOrCreateSessionId: jest.fn(() => Promise.resolve("test-session-123")),
+}));
+
+jest.mock("../src/lib/bot/scheduler", () => ({
+  afterMoveCommit: jest.fn(() => Promise.resolve()),
+  onGameStart: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock("../src/lib/db", () => ({
+  db: {
+    room: { findUnique: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+    player: { findFirst: jest.fn(), update: jest.fn() },
+    gameAction: { create: jest.fn() },
+    user: { update: jest.fn() },
+    $transaction: jest.fn(),
+  },
+}));
+
+import { db } from "../src/lib/db";
+
+type Pawn = { playerId: number; row: number; col: number };
+
+function validatePawnMove(
+  pawn: Pawn & { goalSide: string },
+  destRow: number,
+  destCol: number,
+  players: Pawn[],
+  barriers: Array<{ row: number; col: number; orientation: string }>
+) {
+  return checkPawnMove(
+    pawn,
+    pawn.goalSide as GoalSide,
+    { row: destRow, col: destCol },
+    players.filter((p) => p.playerId !== pawn.playerId),
+    blockedEdgesFromWalls(
+      barriers.map((b) => ({ ...b, orientation: toOrientation(b.orientation) }))
+    )
+  );
+}
+
+const red = { playerId: 0, row: 5, col: 1, goalSide: "RIGHT" };
+const blue = { playerId: 1, row: 1, col: 5, goalSide: "BOTTOM" };
+
+describe("validatePawnMove - basic steps", () => {
+  test("allows a single orthogonal step", () => {
+    expect(validatePawnMove(red, 5, 2, [red, blue], [])).toEqual({
+      valid: true,
+    });
+  });
+
+  test("rejects teleporting across the board", () => {
+    expect(validatePawnMove(red, 5, 10, [red, blue], [])).toEqual({
+      valid: false,
+      reason: "NOT_REACHABLE",
+    });
+  });
+
+  test("rejects moving onto the current cell", () => {
+    expect(validatePawnMove(red, 5, 1, [red], [])).toEqual({
+      valid: false,
+      reason: "SAME_CELL",
+    });
+  });
+
+  test("rejects destinations outside the grid", () => {
+    expect(validatePawnMove(red, 5, -1, [red], [])).toEqual({
+      valid: false,
+      reason: "OUT_OF_BOUNDS",
+    });
+  });
+
+  test("rejects entering a border that is not the goal side", () => {
+    // Red goal is RIGHT, col 0 is the LEFT border
+    expect(validatePawnMove(red, 5, 0, [red], [])).toEqual({
+      valid: false,
+      reason: "BORDER_NOT_GOAL",
+    });
+  });
+
+  test("allows entering the goal border", () => {
+    const nearGoal = { ...red, col: 9 };
+    expect(validatePawnMove(nearGoal, 5, 10, [nearGoal], [])).toEqual({
+      valid: true,
+    });
+  });
+
+  test("rejects moving onto an occupied cell", () => {
+    const neighbor = { playerId: 2, row: 5, col: 2 };
+    expect(validatePawnMove(red, 5, 2, [red, neighbor], [])).toEqual({
+      valid: false,
+      reason: "CELL_OCCUPIED",
+    });
+  });
+
+  test("rejects stepping through a barrier", () => {
+    // Vertical barrier at (4,1) blocks (4,1)-(4,2) and (5,1)-(5,2)
+    const barriers = [{ row: 4, col: 1, orientation: "VERTICAL" }];
+    expect(validatePawnMove(red, 5, 2, [red], barriers)).toEqual({
+      valid: false,
+      reason: "BLOCKED_BY_BARRIER",
+    });
+  });
+});
+
+describe("validatePawnMove - jumps", () => {
+  const jumper = { playerId: 0, row: 5, col: 4, goalSide: "RIGHT" };
+  const blocker = { playerId: 2, row: 5, col: 5 };
+
+  test("allows a straight jump over an adjacent pawn", () => {
+    expect(validatePawnMove(jumper, 5, 6, [jumper, blocker], [])).toEqual({
+      valid: true,
+    });
+  });
+
+  test("rejects a 2-cell move without a pawn in between", () => {
+    expect(validatePawnMove(jumper, 5, 6, [jumper], [])).toEqual({
+      valid: false,
+      reason: "NO_PAWN_TO_JUMP",
+    });
+  });
+
+  test("rejects a straight jump through a barrier behind the pawn", () => {
+    // Vertical barrier at (4,5) blocks (5,5)-(5,6)
+    const barriers = [{ row: 4, col: 5, orientation: "VERTICAL" }];
+    expect(validatePawnMove(jumper, 5, 6, [jumper, blocker], barriers)).toEqual(
+      { valid: false, reason: "BLOCKED_BY_BARRIER" }
+    );
+  });
+
+  test("rejects a side-step while the straight jump is open", () => {
+    expect(validatePawnMove(jumper, 4, 5, [jumper, blocker], [])).toEqual({
+      valid: false,
+      reason: "SIDE_STEP_NOT_ALLOWED",
+    });
+  });
+
+  test("allows a side-step when a barrier blocks the straight jump", () => {
+    const barriers = [{ row: 4, col: 5, orientation: "VERTICAL" }];
+    expect(validatePawnMove(jumper, 4, 5, [jumper, blocker], barriers)).toEqual(
+      { valid: true }
+    );
+    expect(validatePawnMove(jumper, 6, 5, [jumper, blocker], barriers)).toEqual(
+      { valid: true }
+    );
+  });
+
+  test("allows a side-step when a pawn occupies the landing cell", () => {
+    const behind = { playerId: 3, row: 5, col: 6 };
+    expect(
+      validatePawnMove(jumper, 6, 5, [jumper, blocker, behind], [])
+    ).toEqual({ valid: true });
+  });
+
+  test("rejects a diagonal move with no adjacent pawn", () => {
+    expect(validatePawnMove(jumper, 4, 5, [jumper], [])).toEqual({
+      valid: false,
+      reason: "NO_PAWN_TO_JUMP",
+    });
+  });
+});
+
+describe("makeMove - server validation", () => {
+  const mockRoom = {
+    id: "room-1",
+    code: "TEST01",
+    status: "PLAYING" as const,
+    currentTurn: 0,
+    winner: null,
+    turnNumber: 7,
+    players: [
+      {
+        id: "p0",
+        playerId: 0,
+        row: 5,
+        col: 1,
+        goalSide: "RIGHT",
+        userId: null,
+      },
+      {
+        id: "p1",
+        playerId: 1,
+        row: 1,
+        col: 5,
+        goalSide: "BOTTOM",
+        userId: null,
+      },
+    ],
+    barriers: [],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (db.player.findFirst as jest.Mock).mockImplementation(() =>
+      Promise.resolve({ ...mockRoom.players[0], sessionId: "test-session-123" })
+    );
+    (db.room.findUnique as jest.Mock).mockImplementation(() =>
+      Promise.resolve(mockRoom)
+    );
+    // Interactive transactions run against the mocked client
+    (db.$transaction as jest.Mock).mockImplementation((fn) =>
+      (fn as (tx: typeof db) => Promise<unknown>)(db)
+    );
+    (db.room.updateMany as jest.Mock).mockImplementation(() =>
+      Promise.resolve({ count: 1 })
+    );
+  });
+
+  test("rejects a teleport onto the goal row with a reason code", async () => {
+    const result = await makeMove("TEST01", 5, 10, 7);
+
+    expect(result).toEqual({
+      error: expect.any(String),
+      reason: "NOT_REACHABLE",
+    });
+    expect(db.$transaction).not.toHaveBeenCalled();
+  });
+
+  test("applies a legal single step", async () => {
+    const result = await makeMove("TEST01", 5, 2, 7);
+
+    expect(result).toEqual({ success: true });
+    expect(db.$transaction).toHaveBeenCalledTimes(1);
+    expect(db.room.updateMany).toHaveBeenCalledWith({
+      where: { id: "room-1", turnNumber: 7 },
+      data: expect.objectContaining({ turnNumber: { increment: 1 } }),
+    });
+    expect(db.player.update).toHaveBeenCalledTimes(1);
+  });
+
+  test("rejects a move based on an outdated turn", async () => {
+    const result = await makeMove("TEST01", 5, 2, 6);
+
+    expect(result).toEqual({ error: expect.stringContaining("Stale state") });
+    expect(db.$transaction).not.toHaveBeenCalled();
+  });
+
+  test("writes nothing when another action wins the race", async () => {
+    (db.room.updateMany as jest.Mock).mockImplementation(() =>
+      Promise.resolve({ count: 0 })
+    );
+
+    const result = await makeMove("TEST01", 5, 2, 7);
+
+    expect(result).toEqual({ error: expect.stringContaining("Stale state") });
+    expect(db.player.update).not.toHaveBeenCalled();
+    expect(db.gameAction.create).not.toHaveBeenCalled();
+  });
+
+  test("rejects a session without a seat (spectator)", async () => {
+    (db.player.findFirst as jest.Mock).mockImplementation(() =>
+      Promise.resolve(null)
+    );
+
+    const result = await makeMove("TEST01", 5, 2, 7);
+
+    expect(result).toEqual({ error: "Not in this room" });
+    expect(db.$transaction).not.toHaveBeenCalled();
+  });
+});
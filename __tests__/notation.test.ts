@@ -0,0 +1,271 @@
+/**
+ * Test suite for the Bloqueio game notation
+ * Records written from the action log must read back to the same game
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import {
+  cellToNotation,
+  formatGameRecord,
+  notationToCell,
+  notationToWall,
+  parseGameRecord,
+  wallToNotation,
+} from "../src/lib/notation";
+import { rebuildState, type LoggedAction } from "../src/lib/action-log";
+
+const seats = [
+  { playerId: 0, name: "Ana", goalSide: "RIGHT" },
+  { playerId: 2, name: "Bruno", goalSide: "LEFT" },
+];
+
+const move = (
+  turnNumber: number,
+  playerId: number,
+  from: [number, number],
+  to: [number, number]
+): LoggedAction => ({
+  turnNumber,
+  playerId,
+  type: "MOVE",
+  payload: { fromRow: from[0], fromCol: from[1], toRow: to[0], toCol: to[1] },
+});
+
+const log: LoggedAction[] = [
+  {
+    turnNumber: 0,
+    playerId: 0,
+    type: "START",
+    payload: {
+      players: [
+        { playerId: 0, row: 5, col: 1, wallsLeft: 12 },
+        { playerId: 2, row: 5, col: 9, wallsLeft: 12 },
+      ],
+    },
+  },
+  move(1, 0, [5, 1], [5, 2]),
+  {
+    turnNumber: 2,
+    playerId: 2,
+    type: "WALL",
+    payload: { row: 3, col: 5, orientation: "HORIZONTAL" },
+  },
+  move(3, 0, [5, 2], [5, 3]),
+  move(4, 2, [5, 9], [5, 8]),
+  { turnNumber: 5, playerId: 2, type: "UNDO", payload: { undoneTurn: 4 } },
+  { turnNumber: 6, playerId: 2, type: "SKIP", payload: {} },
+];
+
+describe("cell and wall labels", () => {
+  test("inner cells use A-I / 1-9", () => {
+    expect(cellToNotation(1, 1)).toBe("A1");
+    expect(cellToNotation(9, 9)).toBe("I9");
+    expect(notationToCell("E5")).toEqual({ row: 5, col: 5 });
+  });
+
+  test("goal borders extend the ranges", () => {
+    expect(cellToNotation(0, 5)).toBe("E0");
+    expect(cellToNotation(10, 5)).toBe("E10");
+    expect(cellToNotation(5, 10)).toBe("J5");
+    expect(cellToNotation(5, 0)).toBe("@5");
+    expect(notationToCell("@5")).toEqual({ row: 5, col: 0 });
+  });
+
+  test("rejects cells outside the board", () => {
+    expect(notationToCell("K5")).toBeNull();
+    expect(notationToCell("E11")).toBeNull();
+    expect(notationToCell("e5")).toBeNull();
+  });
+
+  test("walls are the lowercase base cell plus orientation", () => {
+    expect(wallToNotation(3, 5, "H")).toBe("e3h");
+    expect(wallToNotation(3, 5, "V")).toBe("e3v");
+    expect(notationToWall("e3h")).toEqual({ row: 3, col: 5, orientation: "H" });
+    expect(notationToWall("E3h")).toBeNull();
+  });
+});
+
+describe("formatGameRecord", () => {
+  const record = formatGameRecord(
+    { gameMode: "TWO_PLAYER", players: seats },
+    log
+  );
+
+  test("writes tags and one numbered round per turn cycle", () => {
+    expect(record).toBe(
+      [
+        '[Game "Bloqueio"]',
+        '[Mode "TWO_PLAYER"]',
+        '[P1 "Ana"]',
+        '[P3 "Bruno"]',
+        "",
+        "1. B5 e3h",
+        "2. C5 --",
+      ].join("\n")
+    );
+  });
+
+  test("marks the winning move and the result", () => {
+    const won = formatGameRecord({ gameMode: "TWO_PLAYER", players: seats }, [
+      {
+        ...log[0],
+        payload: {
+          players: [
+            { playerId: 0, row: 5, col: 9, wallsLeft: 12 },
+            { playerId: 2, row: 1, col: 9, wallsLeft: 12 },
+          ],
+        },
+      } as LoggedAction,
+      move(1, 0, [5, 9], [5, 10]),
+    ]);
+
+    expect(won).toContain('[Result "P1"]');
+    expect(won).toContain("1. J5#");
+    expect(won).toContain("[Setup");
+  });
+
+  test("writes the setup of a non-standard seat", () => {
+    const botRoom = formatGameRecord(
+      {
+        gameMode: "TWO_PLAYER",
+        players: [seats[0], { playerId: 1, name: "Bot 2", goalSide: "LEFT" }],
+      },
+      [
+        {
+          turnNumber: 0,
+          playerId: 0,
+          type: "START",
+          payload: {
+            players: [
+              { playerId: 0, row: 5, col: 1, wallsLeft: 12 },
+              { playerId: 1, row: 5, col: 9, wallsLeft: 12 },
+            ],
+          },
+        },
+      ]
+    );
+
+    expect(botRoom).toContain('[Setup "P1 A5 RIGHT 12, P2 I5 LEFT 12"]');
+  });
+});
+
+describe("parseGameRecord", () => {
+  test("reads back a written record", () => {
+    const record = formatGameRecord(
+      { gameMode: "TWO_PLAYER", players: seats },
+      log
+    );
+    const parsed = parseGameRecord(record);
+    if ("error" in parsed) throw new Error(parsed.error);
+
+    const expected = rebuildState(seats, log);
+    expect(
+      parsed.snapshot.players.map((p) => [p.id, p.row, p.col, p.wallsLeft])
+    ).toEqual(expected.players.map((p) => [p.id, p.row, p.col, p.wallsLeft]));
+    expect(parsed.snapshot.barriers).toHaveLength(1);
+    expect(parsed.snapshot.blockedEdges).toHaveLength(2);
+    expect(parsed.snapshot.currentPlayerId).toBe(expected.currentPlayerId);
+    expect(parsed.snapshot.players.map((p) => p.name)).toEqual([
+      "Ana",
+      "Bruno",
+    ]);
+  });
+
+  test("defaults to the standard 4-player start", () => {
+    const parsed = parseGameRecord("1. B5 E2 H5 E8\n2. c3v");
+    if ("error" in parsed) throw new Error(parsed.error);
+
+    expect(parsed.snapshot.gameMode).toBe("FOUR_PLAYER");
+    expect(parsed.snapshot.players).toHaveLength(4);
+    expect(parsed.actions).toHaveLength(6);
+    expect(parsed.snapshot.currentPlayerId).toBe(1);
+    expect(parsed.snapshot.players[0].wallsLeft).toBe(5);
+  });
+
+  test("rebuilds the winner", () => {
+    const parsed = parseGameRecord(
+      '[Setup "P1 I5 RIGHT 12, P3 A1 LEFT 12"]\n1. J5#'
+    );
+    if ("error" in parsed) throw new Error(parsed.error);
+
+    expect(parsed.snapshot.winner).toBe(0);
+  });
+
+  test("reads games played until placements", () => {
+    const parsed = parseGameRecord(
+      '[Rules "Placements"]\n[Setup "P1 I5 RIGHT 6, P2 A1 BOTTOM 6, P3 A9 LEFT 6"]\n1. J5# A2'
+    );
+    if ("error" in parsed) throw new Error(parsed.error);
+
+    expect(parsed.actions[0].payload).toMatchObject({ untilPlacements: true });
+    expect(parsed.snapshot.winner).toBeNull();
+    expect(parsed.snapshot.currentPlayerId).toBe(2);
+    expect(
+      formatGameRecord({ gameMode: "FOUR_PLAYER", players: [] }, parsed.actions)
+    ).toContain('[Rules "Placements"]');
+
+    expect(parseGameRecord('[Rules "Chess960"]')).toEqual({
+      error: 'Unknown rules "Chess960"',
+    });
+  });
+
+  test("reads team games with shared walls", () => {
+    const parsed = parseGameRecord(
+      '[Mode "TEAMS"]\n[Rules "SharedWalls"]\n[Setup "P1 E5 RIGHT 0, P2 E1 BOTTOM 6, P3 A9 LEFT 6, P4 I5 TOP 6"]\n1. c3h'
+    );
+    if ("error" in parsed) throw new Error(parsed.error);
+
+    expect(parsed.actions[1].payload).toMatchObject({ spentFrom: 2 });
+    expect(parsed.snapshot.players.map((p) => p.wallsLeft)).toEqual([
+      0, 6, 5, 6,
+    ]);
+    expect(
+      formatGameRecord({ gameMode: "TEAMS", players: [] }, parsed.actions)
+    ).toContain('[Rules "SharedWalls"]');
+  });
+
+  test("reads games on other board sizes", () => {
+    const parsed = parseGameRecord('[Mode "TWO_PLAYER"]\n[Size "7"]\n1. B4 F4');
+    if ("error" in parsed) throw new Error(parsed.error);
+
+    expect(parsed.snapshot.boardSize).toBe(7);
+    expect(
+      parsed.snapshot.players.map((p) => [p.id, p.row, p.col, p.wallsLeft])
+    ).toEqual([
+      [0, 4, 2, 9],
+      [2, 4, 6, 9],
+    ]);
+    expect(
+      formatGameRecord({ gameMode: "TWO_PLAYER", players: [] }, parsed.actions)
+    ).toContain('[Size "7"]');
+
+    expect(parseGameRecord('[Mode "TWO_PLAYER"]\n[Size "7"]\n1. H4')).toEqual({
+      error: expect.stringContaining("Ply 1 (H4)"),
+    });
+    expect(parseGameRecord('[Size "8"]')).toEqual({
+      error: 'Unknown board size "8"',
+    });
+  });
+
+  test("reports the first illegal or unreadable token", () => {
+    expect(parseGameRecord('[Mode "TWO_PLAYER"]\n1. B5 F5')).toEqual({
+      error: expect.stringContaining("Ply 2 (F5)"),
+    });
+    expect(parseGameRecord('[Mode "TWO_PLAYER"]\n1. xyz')).toEqual({
+      error: expect.stringContaining("unrecognized"),
+    });
+    expect(parseGameRecord('[Mode "THREE_PLAYER"]')).toEqual({
+      error: expect.stringContaining("Unknown game mode"),
+    });
+  });
+
+  test("rejects actions after the game is over", () => {
+    const parsed = parseGameRecord(
+      '[Setup "P1 I5 RIGHT 12, P3 A1 LEFT 12"]\n1. J5# B1'
+    );
+
+    expect(parsed).toEqual({
+      error: expect.stringContaining("already over"),
+    });
+  });
+});
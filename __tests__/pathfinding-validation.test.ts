@@ -4,8 +4,12 @@
  */
 
 import { describe, test, expect } from "@jest/globals";
-
-type GoalSide = "TOP" | "RIGHT" | "BOTTOM" | "LEFT";
+import {
+  blockedEdgesFromWalls,
+  EdgeBitboard,
+  hasPathToGoal as engineHasPathToGoal,
+  type GoalSide,
+} from "../src/lib/engine";
 
 interface Player {
   id: number;
@@ -22,78 +26,21 @@ interface Barrier {
   id: string;
 }
 
-const GRID_SIZE = 11;
-
-const edgeKey = (r1: number, c1: number, r2: number, c2: number): string => {
-  if (r1 > r2 || (r1 === r2 && c1 > c2)) {
-    [r1, r2] = [r2, r1];
-    [c1, c2] = [c2, c1];
-  }
-  return `${r1},${c1}-${r2},${c2}`;
-};
-
-const computeBlockedEdges = (barriers: Barrier[]): Set<string> => {
-  const edges = new Set<string>();
-  for (const b of barriers) {
-    if (b.orientation === "H") {
-      edges.add(edgeKey(b.row, b.col, b.row + 1, b.col));
-      edges.add(edgeKey(b.row, b.col + 1, b.row + 1, b.col + 1));
-    } else {
-      edges.add(edgeKey(b.row, b.col, b.row, b.col + 1));
-      edges.add(edgeKey(b.row + 1, b.col, b.row + 1, b.col + 1));
-    }
-  }
-  return edges;
-};
+const computeBlockedEdges = (barriers: Barrier[]): Set<string> =>
+  new Set(blockedEdgesFromWalls(barriers));
 
-// BFS pathfinding - matches server implementation
+// BFS pathfinding - shared rules engine (same as server and client)
 const hasPathToGoal = (
   playerRow: number,
   playerCol: number,
   goalSide: GoalSide,
   blockedEdges: Set<string>
-): boolean => {
-  const visited = new Set<string>();
-  const queue: Array<[number, number]> = [[playerRow, playerCol]];
-  visited.add(`${playerRow},${playerCol}`);
-
-  while (queue.length > 0) {
-    const [r, c] = queue.shift()!;
-
-    // Check if reached goal BORDER (row/col 0 or 10)
-    if (goalSide === "TOP" && r === 0) return true;
-    if (goalSide === "BOTTOM" && r === GRID_SIZE - 1) return true;
-    if (goalSide === "LEFT" && c === 0) return true;
-    if (goalSide === "RIGHT" && c === GRID_SIZE - 1) return true;
-
-    // Explore 4 neighbors
-    const neighbors = [
-      [r - 1, c],
-      [r + 1, c],
-      [r, c - 1],
-      [r, c + 1],
-    ];
-
-    for (const [nr, nc] of neighbors) {
-      // Check bounds (all cells: 0 to GRID_SIZE-1)
-      if (nr < 0 || nr >= GRID_SIZE || nc < 0 || nc >= GRID_SIZE) {
-        continue;
-      }
-
-      const key = `${nr},${nc}`;
-      if (visited.has(key)) continue;
-
-      // Check if edge is blocked
-      const edge = edgeKey(r, c, nr, nc);
-      if (blockedEdges.has(edge)) continue;
-
-      visited.add(key);
-      queue.push([nr, nc]);
-    }
-  }
-
-  return false;
-};
+): boolean =>
+  engineHasPathToGoal(
+    { row: playerRow, col: playerCol },
+    goalSide,
+    EdgeBitboard.from(blockedEdges)
+  );
 
 describe("Pathfinding Validation - Basic Cases", () => {
   test("should find path when no barriers exist", () => {
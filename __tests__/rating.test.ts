@@ -0,0 +1,159 @@
+/**
+ * Test suite for player ratings
+ * Elo updates for 2P duels and pairwise 4P results
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import {
+  computeRatingChanges,
+  expectedScore,
+  gamePlacements,
+  isRatedGame,
+  kFactor,
+} from "../src/lib/rating";
+import { RATING } from "../src/config/rating";
+
+const rated = (
+  userId: string,
+  placement: number,
+  rating = 1500,
+  gamesRated = 0
+) => ({ userId, placement, rating, gamesRated });
+
+describe("expectedScore", () => {
+  test("equal ratings expect a draw; both sides sum to 1", () => {
+    expect(expectedScore(1500, 1500)).toBe(0.5);
+    expect(expectedScore(1700, 1500) + expectedScore(1500, 1700)).toBeCloseTo(
+      1
+    );
+    expect(expectedScore(1900, 1500)).toBeCloseTo(0.909, 3);
+  });
+});
+
+describe("kFactor", () => {
+  test("provisional players move faster", () => {
+    expect(kFactor(0)).toBe(RATING.K_PROVISIONAL);
+    expect(kFactor(RATING.PROVISIONAL_GAMES)).toBe(RATING.K);
+  });
+});
+
+describe("computeRatingChanges", () => {
+  test("2P: the winner gains what the loser loses", () => {
+    const [winner, loser] = computeRatingChanges([
+      rated("a", 1),
+      rated("b", 2),
+    ]);
+
+    expect(winner).toEqual({
+      userId: "a",
+      placement: 1,
+      before: 1500,
+      after: 1520,
+    });
+    expect(loser.after).toBe(1480);
+  });
+
+  test("2P: beating a much stronger player is worth more", () => {
+    const [upset] = computeRatingChanges([
+      rated("a", 1, 1400, 30),
+      rated("b", 2, 1800, 30),
+    ]);
+    const [expected] = computeRatingChanges([
+      rated("a", 1, 1800, 30),
+      rated("b", 2, 1400, 30),
+    ]);
+
+    expect(upset.after - upset.before).toBeGreaterThan(
+      expected.after - expected.before
+    );
+  });
+
+  test("4P: pairwise results, ties between the losers", () => {
+    const updates = computeRatingChanges([
+      rated("a", 1),
+      rated("b", 2),
+      rated("c", 2),
+      rated("d", 2),
+    ]);
+
+    expect(updates.map((u) => u.after)).toEqual([1520, 1493, 1493, 1493]);
+  });
+
+  test("teams: partners are not rated against each other", () => {
+    const updates = computeRatingChanges([
+      { ...rated("a", 1), team: 0 },
+      { ...rated("b", 2), team: 1 },
+      { ...rated("c", 1), team: 0 },
+      { ...rated("d", 2), team: 1 },
+    ]);
+
+    expect(updates.map((u) => u.after)).toEqual([1520, 1480, 1520, 1480]);
+  });
+
+  test("a single rated player is not rated", () => {
+    expect(computeRatingChanges([rated("a", 1)])).toEqual([]);
+  });
+});
+
+describe("isRatedGame", () => {
+  const human = (userId: string | null) => ({ userId, playerType: "HUMAN" });
+
+  test("needs two signed-in humans", () => {
+    expect(isRatedGame([human("a"), human("b")])).toBe(true);
+    expect(isRatedGame([human("a"), human(null)])).toBe(false);
+    expect(
+      isRatedGame([human("a"), { userId: null, playerType: "BOT_HARD" }])
+    ).toBe(false);
+  });
+});
+
+describe("gamePlacements", () => {
+  test("the winner is first, everyone else shares second", () => {
+    const placements = gamePlacements(
+      [{ playerId: 0 }, { playerId: 1 }, { playerId: 2 }],
+      1
+    );
+
+    expect([...placements]).toEqual([
+      [0, 2],
+      [1, 1],
+      [2, 2],
+    ]);
+  });
+
+  test("finishers by order, then racing players, then forfeits", () => {
+    const placements = gamePlacements(
+      [
+        { playerId: 0, forfeited: true },
+        { playerId: 1 },
+        { playerId: 2 },
+        { playerId: 3 },
+      ],
+      2,
+      [2, 1]
+    );
+
+    expect([...placements].sort(([a], [b]) => a - b)).toEqual([
+      [0, 4],
+      [1, 2],
+      [2, 1],
+      [3, 3],
+    ]);
+  });
+
+  test("teams: both partners of the winner share first place", () => {
+    const placements = gamePlacements(
+      [{ playerId: 0 }, { playerId: 1 }, { playerId: 2 }, { playerId: 3 }],
+      3,
+      [],
+      true
+    );
+
+    expect([...placements]).toEqual([
+      [0, 2],
+      [1, 1],
+      [2, 2],
+      [3, 1],
+    ]);
+  });
+});
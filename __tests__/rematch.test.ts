@@ -0,0 +1,120 @@
+/**
+ * Test suite for rematch series
+ * Who still has to accept, the rotating first seat, the score and the seats
+ * of the new room
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import {
+  nextStartingSeat,
+  pendingRematchSeats,
+  rematchPlayers,
+  seriesScore,
+  seriesWins,
+} from "../src/lib/rematch";
+
+const at = new Date(Date.UTC(2026, 0, 1, 10));
+
+const player = (
+  playerId: number,
+  playerType: "HUMAN" | "BOT_EASY" = "HUMAN"
+) => ({
+  id: `p${playerId}`,
+  roomId: "room-1",
+  userId: playerType === "HUMAN" ? `user-${playerId}` : null,
+  sessionId: playerType === "HUMAN" ? `session-${playerId}` : null,
+  playerId,
+  name: `Player ${playerId + 1}`,
+  color: "#000000",
+  playerType,
+  botPersonality: playerType === "HUMAN" ? null : "RUNNER",
+  row: 5,
+  col: 5,
+  wallsLeft: 3,
+  goalSide: "RIGHT" as const,
+  timeLeftMs: 1000,
+  forfeited: playerId === 2,
+  joinedAt: at,
+  lastActive: at,
+});
+
+describe("pendingRematchSeats", () => {
+  const players = [player(0), player(1, "BOT_EASY"), player(2)];
+
+  test("every human has to accept; bots never do", () => {
+    expect(pendingRematchSeats({ players, rematchVotes: [] })).toEqual([0, 2]);
+    expect(pendingRematchSeats({ players, rematchVotes: [2] })).toEqual([0]);
+    expect(pendingRematchSeats({ players, rematchVotes: [2, 0] })).toEqual([]);
+  });
+});
+
+describe("nextStartingSeat", () => {
+  test("rotates to the next occupied seat", () => {
+    expect(nextStartingSeat([0, 1, 2, 3], 0)).toBe(1);
+    expect(nextStartingSeat([0, 2], 0)).toBe(2);
+    expect(nextStartingSeat([2, 0], 2)).toBe(0);
+    expect(nextStartingSeat([0, 1, 3], 1)).toBe(3);
+  });
+});
+
+describe("seriesScore", () => {
+  test("counts the winners of finished games only", () => {
+    expect(
+      seriesScore([
+        { status: "FINISHED", winner: 0, gameMode: "TWO_PLAYER" },
+        { status: "FINISHED", winner: 2, gameMode: "TWO_PLAYER" },
+        { status: "FINISHED", winner: 0, gameMode: "TWO_PLAYER" },
+        { status: "PLAYING", winner: null, gameMode: "TWO_PLAYER" },
+      ])
+    ).toEqual({ games: 3, teams: false, wins: { 0: 2, 2: 1 } });
+  });
+
+  test("counts a TEAMS series per team", () => {
+    const series = seriesScore([
+      { status: "FINISHED", winner: 0, gameMode: "TEAMS" },
+      { status: "FINISHED", winner: 2, gameMode: "TEAMS" },
+      { status: "FINISHED", winner: 3, gameMode: "TEAMS" },
+    ]);
+
+    expect(series).toEqual({ games: 3, teams: true, wins: { 0: 2, 1: 1 } });
+    // Partners share their team's score
+    expect([0, 1, 2, 3].map((seat) => seriesWins(series, seat))).toEqual([
+      2, 1, 2, 1,
+    ]);
+  });
+});
+
+describe("rematchPlayers", () => {
+  test("keeps seats and identities, back on the starting cells", () => {
+    const seats = rematchPlayers([player(0), player(1, "BOT_EASY")], {
+      players: [
+        { playerId: 0, row: 5, col: 1, wallsLeft: 12 },
+        { playerId: 1, row: 5, col: 9, wallsLeft: 12 },
+      ],
+    });
+
+    expect(seats).toEqual([
+      expect.objectContaining({
+        playerId: 0,
+        sessionId: "session-0",
+        userId: "user-0",
+        playerType: "HUMAN",
+        row: 5,
+        col: 1,
+        wallsLeft: 12,
+      }),
+      expect.objectContaining({
+        playerId: 1,
+        sessionId: null,
+        playerType: "BOT_EASY",
+        botPersonality: "RUNNER",
+        row: 5,
+        col: 9,
+        wallsLeft: 12,
+      }),
+    ]);
+    // Clocks and forfeits belong to the previous game
+    expect(seats[0]).not.toHaveProperty("timeLeftMs");
+    expect(seats[0]).not.toHaveProperty("forfeited");
+  });
+});
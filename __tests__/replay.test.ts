@@ -0,0 +1,196 @@
+/**
+ * Test suite for the game replay
+ * The action log must rebuild every position of the game
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import { buildReplayFrames } from "../src/lib/replay";
+import type { LoggedAction } from "../src/lib/action-log";
+import type { PublicRoom } from "../src/types/room";
+
+const at = (seconds: number) => new Date(Date.UTC(2026, 0, 1, 10, 0, seconds));
+
+const player = (
+  playerId: number,
+  row: number,
+  col: number,
+  goalSide: "RIGHT" | "LEFT",
+  wallsLeft: number
+) => ({
+  id: `p${playerId}`,
+  roomId: "room-1",
+  playerId,
+  name: `Player ${playerId + 1}`,
+  color: "#000000",
+  playerType: "HUMAN" as const,
+  botPersonality: null,
+  row,
+  col,
+  wallsLeft,
+  goalSide,
+  timeLeftMs: null,
+  forfeited: false,
+  joinedAt: at(0),
+  lastActive: at(0),
+});
+
+const start: LoggedAction = {
+  turnNumber: 0,
+  playerId: 0,
+  type: "START",
+  payload: {
+    players: [
+      { playerId: 0, row: 5, col: 1, wallsLeft: 12 },
+      { playerId: 2, row: 5, col: 9, wallsLeft: 12 },
+    ],
+  },
+};
+
+const move = (
+  turnNumber: number,
+  playerId: number,
+  from: [number, number],
+  to: [number, number]
+): LoggedAction => ({
+  turnNumber,
+  playerId,
+  type: "MOVE",
+  payload: { fromRow: from[0], fromCol: from[1], toRow: to[0], toCol: to[1] },
+});
+
+/** 2P game after: P1 moves, P3 places a wall, P1 moves again */
+const log: LoggedAction[] = [
+  start,
+  move(1, 0, [5, 1], [5, 2]),
+  {
+    turnNumber: 2,
+    playerId: 2,
+    type: "WALL",
+    payload: { row: 3, col: 3, orientation: "HORIZONTAL" },
+  },
+  move(3, 0, [5, 2], [5, 3]),
+];
+
+const room: PublicRoom = {
+  id: "room-1",
+  code: "REPLAY",
+  status: "PLAYING",
+  gameMode: "TWO_PLAYER",
+  boardSize: 9,
+  currentTurn: 2,
+  winner: null,
+  allowBots: false,
+  turnNumber: 4,
+  botSeed: null,
+  timeControl: "NONE",
+  timeLimitMs: null,
+  timeIncrementMs: 0,
+  timeoutAction: "SKIP",
+  turnStartedAt: at(30),
+  seriesId: null,
+  rematchVotes: [],
+  rematchCode: null,
+  untilPlacements: false,
+  finishOrder: [],
+  sharedWalls: false,
+  createdAt: at(0),
+  updatedAt: at(30),
+  players: [player(0, 5, 3, "RIGHT", 12), player(2, 5, 9, "LEFT", 11)],
+  barriers: [],
+  rated: false,
+};
+
+describe("buildReplayFrames", () => {
+  const frames = buildReplayFrames(room, log);
+
+  test("has the starting position plus one frame per action", () => {
+    expect(frames).toHaveLength(4);
+    expect(frames.map((f) => f.action.type)).toEqual([
+      "START",
+      "MOVE",
+      "WALL",
+      "MOVE",
+    ]);
+  });
+
+  test("starting position comes from the START entry", () => {
+    const { snapshot } = frames[0];
+    const p1 = snapshot.players.find((p) => p.id === 0)!;
+    const p3 = snapshot.players.find((p) => p.id === 2)!;
+
+    expect([p1.row, p1.col]).toEqual([5, 1]);
+    expect(p3.wallsLeft).toBe(12);
+    expect(snapshot.barriers).toEqual([]);
+    expect(snapshot.currentPlayerId).toBe(0);
+  });
+
+  test("each frame applies one action and shows who plays next", () => {
+    expect(frames[1].snapshot.players.find((p) => p.id === 0)).toMatchObject({
+      row: 5,
+      col: 2,
+    });
+    expect(frames[1].snapshot.currentPlayerId).toBe(2);
+
+    expect(frames[2].snapshot.barriers).toHaveLength(1);
+    expect(frames[2].snapshot.blockedEdges).toHaveLength(2);
+    expect(frames[2].snapshot.players.find((p) => p.id === 2)?.wallsLeft).toBe(
+      11
+    );
+    expect(frames[2].snapshot.currentPlayerId).toBe(0);
+  });
+
+  test("last frame matches the room", () => {
+    const last = frames[frames.length - 1].snapshot;
+
+    expect(last.players.map((p) => [p.id, p.row, p.col, p.wallsLeft])).toEqual(
+      room.players.map((p) => [p.playerId, p.row, p.col, p.wallsLeft])
+    );
+    expect(last.currentPlayerId).toBe(room.currentTurn);
+    expect(last.winner).toBeNull();
+  });
+
+  test("keeps player names and colors from the room", () => {
+    expect(frames[0].snapshot.players.map((p) => p.name)).toEqual([
+      "Player 1",
+      "Player 3",
+    ]);
+  });
+
+  test("undone actions are left out", () => {
+    const replay = buildReplayFrames(room, [
+      ...log,
+      move(4, 2, [5, 9], [5, 8]),
+      { turnNumber: 5, playerId: 2, type: "UNDO", payload: { undoneTurn: 4 } },
+    ]);
+
+    expect(replay).toHaveLength(4);
+  });
+
+  test("a timed-out turn is its own step", () => {
+    const replay = buildReplayFrames(room, [
+      ...log,
+      { turnNumber: 4, playerId: 2, type: "SKIP", payload: {} },
+    ]);
+
+    expect(replay).toHaveLength(5);
+    expect(replay[4].snapshot.currentPlayerId).toBe(0);
+  });
+
+  test("a move into the goal shows the winner", () => {
+    const replay = buildReplayFrames(room, [
+      {
+        ...start,
+        payload: {
+          players: [
+            { playerId: 0, row: 4, col: 9, wallsLeft: 12 },
+            { playerId: 2, row: 5, col: 9, wallsLeft: 12 },
+          ],
+        },
+      },
+      move(1, 0, [4, 9], [4, 10]),
+    ]);
+
+    expect(replay[0].snapshot.winner).toBeNull();
+    expect(replay[1].snapshot.winner).toBe(0);
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Test suite for the room event stream protocol
+ * Deltas must rebuild exactly the room the server loaded
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import {
+  applyRoomDelta,
+  diffRoom,
+  formatRoomEvent,
+  reviveDelta,
+  reviveRoom,
+  roomFingerprint,
+  snapshotEvent,
+} from "../src/lib/room-events";
+import type { PublicRoom, RoomWithPlayers } from "../src/types/room";
+
+const at = (iso: string) => new Date(iso);
+
+const player = (playerId: number, row: number, col: number) => ({
+  id: `p${playerId}`,
+  roomId: "room-1",
+  playerId,
+  name: `Player ${playerId + 1}`,
+  color: "#000000",
+  playerType: "HUMAN" as const,
+  botPersonality: null,
+  row,
+  col,
+  wallsLeft: 6,
+  goalSide: "RIGHT" as const,
+  timeLeftMs: null,
+  forfeited: false,
+  joinedAt: at("2026-01-01T10:00:00Z"),
+  lastActive: at("2026-01-01T10:00:00Z"),
+});
+
+const baseRoom: PublicRoom = {
+  id: "room-1",
+  code: "EVENT1",
+  status: "PLAYING",
+  gameMode: "FOUR_PLAYER",
+  boardSize: 9,
+  currentTurn: 0,
+  winner: null,
+  allowBots: false,
+  turnNumber: 4,
+  botSeed: null,
+  timeControl: "PER_MOVE",
+  timeLimitMs: 30_000,
+  timeIncrementMs: 0,
+  timeoutAction: "SKIP",
+  turnStartedAt: at("2026-01-01T10:05:00Z"),
+  seriesId: null,
+  rematchVotes: [],
+  rematchCode: null,
+  untilPlacements: false,
+  finishOrder: [],
+  sharedWalls: false,
+  createdAt: at("2026-01-01T10:00:00Z"),
+  updatedAt: at("2026-01-01T10:05:00Z"),
+  players: [player(0, 5, 1), player(1, 1, 5)],
+  barriers: [
+    {
+      id: "b1",
+      roomId: "room-1",
+      row: 4,
+      col: 4,
+      orientation: "HORIZONTAL",
+      placedBy: 1,
+      createdAt: at("2026-01-01T10:04:00Z"),
+    },
+  ],
+  rated: false,
+};
+
+/** The same room as the server loads it, with session IDs */
+const serverRoom: RoomWithPlayers = {
+  ...baseRoom,
+  hostSessionId: "session-0",
+  players: baseRoom.players.map((p) => ({
+    ...p,
+    userId: null,
+    sessionId: `session-${p.playerId}`,
+  })),
+};
+
+/** Send through JSON like the SSE route does */
+const overTheWire = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+describe("diffRoom / applyRoomDelta", () => {
+  test("a move only sends the changed player and room fields", () => {
+    const next: PublicRoom = {
+      ...baseRoom,
+      currentTurn: 1,
+      turnNumber: 5,
+      updatedAt: at("2026-01-01T10:06:00Z"),
+      players: [player(0, 5, 2), player(1, 1, 5)],
+    };
+    const delta = diffRoom(baseRoom, next);
+
+    expect(Object.keys(delta.room).sort()).toEqual([
+      "currentTurn",
+      "turnNumber",
+      "updatedAt",
+    ]);
+    expect(delta.players.map((p) => p.id)).toEqual(["p0"]);
+    expect(delta.barriers).toEqual([]);
+    expect(applyRoomDelta(baseRoom, delta)).toEqual(next);
+  });
+
+  test("joins, new barriers and undone barriers round-trip", () => {
+    const next: PublicRoom = {
+      ...baseRoom,
+      turnNumber: 6,
+      players: [...baseRoom.players, player(2, 5, 9)],
+      barriers: [
+        {
+          id: "b2",
+          roomId: "room-1",
+          row: 2,
+          col: 7,
+          orientation: "VERTICAL",
+          placedBy: 0,
+          createdAt: at("2026-01-01T10:07:00Z"),
+        },
+      ],
+    };
+    const delta = diffRoom(baseRoom, next);
+
+    expect(delta.players.map((p) => p.id)).toEqual(["p2"]);
+    expect(delta.barriers.map((b) => b.id)).toEqual(["b2"]);
+    expect(delta.removedBarriers).toEqual(["b1"]);
+    expect(applyRoomDelta(baseRoom, delta)).toEqual(next);
+  });
+
+  test("survives JSON serialization with dates restored", () => {
+    const next: PublicRoom = {
+      ...baseRoom,
+      status: "FINISHED",
+      winner: 0,
+      turnStartedAt: at("2026-01-01T10:08:00Z"),
+      updatedAt: at("2026-01-01T10:08:00Z"),
+      players: [player(0, 5, 10), player(1, 1, 5)],
+    };
+    const room = reviveRoom(overTheWire(baseRoom));
+    const delta = reviveDelta(overTheWire(diffRoom(baseRoom, next)));
+
+    expect(room).toEqual(baseRoom);
+    expect(applyRoomDelta(room, delta)).toEqual(next);
+  });
+});
+
+describe("snapshotEvent", () => {
+  test("tells a seated session its seat without sending session IDs", () => {
+    const event = snapshotEvent(serverRoom, "session-1");
+    const wire = formatRoomEvent(event);
+
+    expect(event).toMatchObject({ type: "snapshot", version: 0 });
+    expect(event.type === "snapshot" && event.myPlayerId).toBe(1);
+    expect(wire).not.toContain("session-");
+    expect(wire).not.toContain("hostSessionId");
+    expect(wire).not.toContain("userId");
+  });
+
+  test("a spectator gets no seat and no session IDs", () => {
+    for (const sessionId of ["spectator-session", null]) {
+      const event = snapshotEvent(serverRoom, sessionId);
+      if (event.type !== "snapshot") throw new Error("Expected a snapshot");
+
+      expect(event.myPlayerId).toBeNull();
+      for (const p of event.room.players) {
+        expect(p).not.toHaveProperty("sessionId");
+      }
+      expect(event.room).not.toHaveProperty("hostSessionId");
+    }
+  });
+});
+
+describe("wire format", () => {
+  test("fingerprint changes on turns, joins, status changes and rematches", () => {
+    const base = {
+      turnNumber: 4,
+      status: "PLAYING",
+      playerCount: 2,
+      rematchVotes: [],
+      rematchCode: null,
+    };
+    const fingerprint = roomFingerprint(base);
+
+    expect(roomFingerprint({ ...base })).toBe(fingerprint);
+    expect(roomFingerprint({ ...base, turnNumber: 5 })).not.toBe(fingerprint);
+    expect(roomFingerprint({ ...base, playerCount: 3 })).not.toBe(fingerprint);
+    expect(roomFingerprint({ ...base, status: "FINISHED" })).not.toBe(
+      fingerprint
+    );
+    expect(roomFingerprint({ ...base, rematchVotes: [0] })).not.toBe(
+      fingerprint
+    );
+    expect(roomFingerprint({ ...base, rematchCode: "NEXT01" })).not.toBe(
+      fingerprint
+    );
+  });
+
+  test("formats named SSE events", () => {
+    const text = formatRoomEvent({
+      type: "unavailable",
+      error: "Room not found",
+    });
+
+    expect(text).toBe(
+      'event: unavailable\ndata: {"type":"unavailable","error":"Room not found"}\n\n'
+    );
+  });
+});
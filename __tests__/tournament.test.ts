@@ -0,0 +1,149 @@
+/**
+ * Test suite for the bot tournament harness
+ * Seeded bot-vs-bot games on the pure engine and their statistics
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import {
+  formatReport,
+  parseEntrant,
+  percentile,
+  runTournament,
+  type Entrant,
+} from "../src/lib/bot/tournament";
+import { SeededRNG } from "../src/lib/bot/rng";
+import { player, snapshot } from "./helpers/bot-fixtures";
+
+const entrant = (token: string): Entrant => {
+  const result = parseEntrant(token);
+  if ("error" in result) throw new Error(result.error);
+  return result;
+};
+
+describe("parseEntrant", () => {
+  test("reads strategies and search limits", () => {
+    expect(entrant("medium")).toMatchObject({
+      label: "medium",
+      playerType: "BOT_MEDIUM",
+    });
+    expect(entrant("hard:2")).toMatchObject({
+      label: "hard:2",
+      playerType: "BOT_HARD",
+    });
+    expect(entrant("hard:2@runner")).toMatchObject({
+      label: "hard:2@runner",
+      playerType: "BOT_HARD",
+    });
+  });
+
+  test("rejects unknown strategies, bad limits and unused personalities", () => {
+    expect(parseEntrant("grandmaster")).toEqual({
+      error: 'Unknown strategy "grandmaster"',
+    });
+    expect(parseEntrant("hard:0")).toEqual({
+      error: 'Invalid search limit in "hard:0"',
+    });
+    expect(parseEntrant("easy:3")).toEqual({
+      error: '"easy" takes no search limit',
+    });
+    expect(parseEntrant("medium@reckless")).toEqual({
+      error: 'Unknown personality "reckless"',
+    });
+    // Easy bots play the same with every personality
+    expect(parseEntrant("easy@runner")).toEqual({
+      error: '"easy" takes no personality',
+    });
+  });
+
+  test("searches without a time budget, with or without a limit", async () => {
+    const state = snapshot([
+      player(0, 5, 1, "RIGHT", 10),
+      player(2, 5, 9, "LEFT", 10),
+    ]);
+    const bot = entrant("hard").create(new SeededRNG("parse"));
+    const decision = await bot.selectMove(state, 0);
+    // The registry's full depth, whatever the machine load
+    expect(decision.reasoning).toMatchObject({ depth: 4 });
+  });
+});
+
+describe("percentile", () => {
+  test("uses the nearest rank", () => {
+    const values = [5, 1, 4, 2, 3];
+    expect(percentile(values, 50)).toBe(3);
+    expect(percentile(values, 90)).toBe(5);
+    expect(percentile(values, 100)).toBe(5);
+    expect(percentile([], 50)).toBe(0);
+  });
+});
+
+describe("runTournament", () => {
+  test("accounts for every game", async () => {
+    const report = await runTournament({
+      entrants: [entrant("easy"), entrant("medium")],
+      games: 4,
+      seed: "test",
+    });
+
+    const wins = report.entrants.reduce((sum, e) => sum + e.wins, 0);
+    expect(wins + report.draws).toBe(4);
+    expect(report.averagePlies).toBeGreaterThan(0);
+    expect(report.entrants.map((e) => e.illegalDecisions)).toEqual([0, 0]);
+    expect(report.entrants[0].wallsPerGame).toBe(0); // EasyBot only moves
+  });
+
+  test("plays 4-player games", async () => {
+    const report = await runTournament({
+      entrants: ["easy", "easy", "medium", "easy"].map(entrant),
+      games: 2,
+      seed: "four",
+    });
+    expect(report.entrants).toHaveLength(4);
+    expect(
+      report.entrants.reduce((sum, e) => sum + e.wins, 0) + report.draws
+    ).toBe(2);
+  });
+
+  test("is reproducible for a seed", async () => {
+    const play = () =>
+      runTournament({
+        entrants: [entrant("medium"), entrant("medium")],
+        games: 3,
+        seed: "same",
+      });
+    const [a, b] = [await play(), await play()];
+    expect(a.averagePlies).toBe(b.averagePlies);
+    expect(a.entrants.map((e) => e.wins)).toEqual(
+      b.entrants.map((e) => e.wins)
+    );
+  });
+
+  test("calls long games draws", async () => {
+    const report = await runTournament({
+      entrants: [entrant("easy"), entrant("easy")],
+      games: 2,
+      seed: "short",
+      maxPlies: 4,
+    });
+    expect(report.draws).toBe(2);
+    expect(report.averagePlies).toBe(4);
+  });
+
+  test("needs 2 or 4 entrants", async () => {
+    await expect(
+      runTournament({ entrants: [entrant("easy")], games: 1, seed: "x" })
+    ).rejects.toThrow("A tournament needs 2 or 4 entrants");
+  });
+
+  test("formats a table", async () => {
+    const report = await runTournament({
+      entrants: [entrant("easy"), entrant("easy")],
+      games: 1,
+      seed: "table",
+      maxPlies: 2,
+    });
+    expect(formatReport(report)).toContain(
+      "1 games, 1 draws, 2.0 turns per game"
+    );
+  });
+});
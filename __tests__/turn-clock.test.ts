@@ -0,0 +1,189 @@
+/**
+ * Test suite for per-turn clocks
+ * Per-move limits, Fischer banks and what happens when time runs out
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import {
+  bankAfterTurn,
+  formatClock,
+  isTurnExpired,
+  playerClocks,
+  resolveTimeout,
+  turnRemainingMs,
+  validateTimeControl,
+  type TimeoutRoom,
+} from "../src/lib/clock";
+import { createState, nextPlayerId } from "../src/lib/engine";
+
+const START = new Date("2026-01-01T10:00:00Z").getTime();
+
+const seat = (playerId: number, timeLeftMs: number | null = null) => ({
+  playerId,
+  row: 5,
+  col: 5,
+  goalSide: "RIGHT",
+  wallsLeft: 6,
+  timeLeftMs,
+  forfeited: false,
+});
+
+const timedRoom = (overrides: Partial<TimeoutRoom> = {}): TimeoutRoom => ({
+  status: "PLAYING",
+  currentTurn: 0,
+  winner: null,
+  timeControl: "PER_MOVE",
+  timeLimitMs: 30_000,
+  timeIncrementMs: 0,
+  timeoutAction: "SKIP",
+  turnStartedAt: new Date(START),
+  players: [seat(0), seat(1), seat(2), seat(3)],
+  barriers: [],
+  ...overrides,
+});
+
+describe("Turn clock", () => {
+  test("per-move clock counts down from the limit", () => {
+    const room = timedRoom();
+
+    expect(turnRemainingMs(room, START + 12_000)).toBe(18_000);
+    expect(isTurnExpired(room, START + 29_999)).toBe(false);
+    expect(isTurnExpired(room, START + 30_000)).toBe(true);
+    expect(turnRemainingMs(room, START + 45_000)).toBe(0);
+  });
+
+  test("no clock without a time control or before the game starts", () => {
+    expect(
+      turnRemainingMs(timedRoom({ timeControl: "NONE" }), START + 60_000)
+    ).toBeNull();
+    expect(
+      turnRemainingMs(timedRoom({ status: "WAITING" }), START + 60_000)
+    ).toBeNull();
+    expect(
+      isTurnExpired(timedRoom({ turnStartedAt: null }), START + 60_000)
+    ).toBe(false);
+  });
+
+  test("Fischer bank: time spent is taken off, increment added", () => {
+    const room = timedRoom({
+      timeControl: "FISCHER",
+      timeLimitMs: 180_000,
+      timeIncrementMs: 2_000,
+      players: [seat(0, 50_000), seat(1, 180_000)],
+    });
+
+    expect(turnRemainingMs(room, START + 20_000)).toBe(30_000);
+    expect(bankAfterTurn(room, 0, START + 20_000)).toBe(32_000);
+    expect(bankAfterTurn(timedRoom(), 0, START + 20_000)).toBeNull();
+    expect(playerClocks(room, START + 20_000)).toEqual(
+      new Map([
+        [0, 30_000],
+        [1, 180_000],
+      ])
+    );
+  });
+});
+
+describe("Timeouts", () => {
+  test("skip passes the turn to the next player", () => {
+    const outcome = resolveTimeout(timedRoom({ currentTurn: 1 }));
+
+    expect(outcome).toEqual({
+      playerId: 1,
+      forfeited: false,
+      nextTurn: 2,
+      winner: null,
+      timeLeftMs: null,
+    });
+  });
+
+  test("a skipped Fischer player resumes with only the increment", () => {
+    const outcome = resolveTimeout(
+      timedRoom({
+        timeControl: "FISCHER",
+        timeIncrementMs: 5_000,
+        players: [seat(0, 0), seat(2, 60_000)],
+      })
+    );
+
+    expect(outcome.timeLeftMs).toBe(5_000);
+    expect(outcome.nextTurn).toBe(2);
+  });
+
+  test("forfeit skips the player from then on", () => {
+    const room = timedRoom({ currentTurn: 1, timeoutAction: "FORFEIT" });
+    room.players[2].forfeited = true;
+
+    const outcome = resolveTimeout(room);
+
+    expect(outcome.forfeited).toBe(true);
+    expect(outcome.nextTurn).toBe(3);
+    expect(outcome.winner).toBeNull();
+  });
+
+  test("the last player left wins by forfeit", () => {
+    const outcome = resolveTimeout(
+      timedRoom({
+        timeoutAction: "FORFEIT",
+        players: [seat(0), seat(2)],
+      })
+    );
+
+    expect(outcome.winner).toBe(2);
+    expect(outcome.nextTurn).toBe(2);
+  });
+
+  test("turn order skips forfeited players", () => {
+    const state = createState([
+      { id: 0, row: 5, col: 1, goalSide: "RIGHT", wallsLeft: 6 },
+      { id: 1, row: 1, col: 5, goalSide: "BOTTOM", wallsLeft: 6 },
+      {
+        id: 2,
+        row: 5,
+        col: 9,
+        goalSide: "LEFT",
+        wallsLeft: 6,
+        forfeited: true,
+      },
+      { id: 3, row: 9, col: 5, goalSide: "TOP", wallsLeft: 6, forfeited: true },
+    ]);
+
+    expect(nextPlayerId(state, 1)).toBe(0);
+    expect(nextPlayerId(state, 0)).toBe(1);
+  });
+});
+
+describe("validateTimeControl", () => {
+  test("accepts the presets and rejects unusable clocks", () => {
+    const base = {
+      timeControl: "FISCHER" as const,
+      timeLimitMs: 180_000,
+      timeIncrementMs: 2_000,
+      timeoutAction: "SKIP" as const,
+    };
+
+    expect(validateTimeControl(base)).toBeNull();
+    expect(
+      validateTimeControl({ ...base, timeControl: "NONE", timeLimitMs: null })
+    ).toBeNull();
+    expect(validateTimeControl({ ...base, timeLimitMs: 1_000 })).toBe(
+      "Invalid time limit"
+    );
+    expect(validateTimeControl({ ...base, timeIncrementMs: 0 })).toBe(
+      "Fischer clocks that skip turns need an increment"
+    );
+    expect(
+      validateTimeControl({
+        ...base,
+        timeIncrementMs: 0,
+        timeoutAction: "FORFEIT",
+      })
+    ).toBeNull();
+  });
+
+  test("formats clocks as m:ss, rounding up", () => {
+    expect(formatClock(90_000)).toBe("1:30");
+    expect(formatClock(4_001)).toBe("0:05");
+    expect(formatClock(0)).toBe("0:00");
+  });
+});
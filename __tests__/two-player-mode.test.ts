@@ -4,7 +4,8 @@
  */
 
 import { describe, test, expect } from "@jest/globals";
-import { getGameModeConfig } from "../src/types/game";
+import { getGameModeConfig, getWallsPerPlayer } from "../src/types/game";
+import { startingCell } from "../src/config/players";
 
 describe("Two-Player Mode Configuration", () => {
   test("should have correct configuration for TWO_PLAYER mode", () => {
@@ -38,3 +39,20 @@ describe("Two-Player Mode Configuration", () => {
     expect(playerSlots).not.toContain(3); // No left player
   });
 });
+
+describe("Board Sizes", () => {
+  test("should scale walls with the board's side", () => {
+    expect(getWallsPerPlayer("TWO_PLAYER")).toBe(12);
+    expect(getWallsPerPlayer("TWO_PLAYER", 7)).toBe(9);
+    expect(getWallsPerPlayer("TWO_PLAYER", 11)).toBe(15);
+    expect(getWallsPerPlayer("FOUR_PLAYER", 7)).toBe(5);
+  });
+
+  test("should start every pawn centered on its side", () => {
+    expect(startingCell(0)).toEqual({ row: 5, col: 1 });
+    expect(startingCell(0, 7)).toEqual({ row: 4, col: 1 });
+    expect(startingCell(1, 11)).toEqual({ row: 1, col: 6 });
+    expect(startingCell(2, 11)).toEqual({ row: 6, col: 11 });
+    expect(startingCell(3, 7)).toEqual({ row: 7, col: 4 });
+  });
+});
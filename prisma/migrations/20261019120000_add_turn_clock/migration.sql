@@ -0,0 +1,16 @@
+-- CreateEnum
+CREATE TYPE "TimeControl" AS ENUM ('NONE', 'PER_MOVE', 'FISCHER');
+
+-- CreateEnum
+CREATE TYPE "TimeoutAction" AS ENUM ('SKIP', 'FORFEIT');
+
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN     "timeControl" "TimeControl" NOT NULL DEFAULT 'NONE',
+ADD COLUMN     "timeLimitMs" INTEGER,
+ADD COLUMN     "timeIncrementMs" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "timeoutAction" "TimeoutAction" NOT NULL DEFAULT 'SKIP',
+ADD COLUMN     "turnStartedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Player" ADD COLUMN     "timeLeftMs" INTEGER,
+ADD COLUMN     "forfeited" BOOLEAN NOT NULL DEFAULT false;
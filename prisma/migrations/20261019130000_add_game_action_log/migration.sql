@@ -0,0 +1,96 @@
+-- CreateEnum
+CREATE TYPE "GameActionType" AS ENUM ('START', 'MOVE', 'WALL', 'SKIP', 'FORFEIT', 'UNDO');
+
+-- CreateTable
+CREATE TABLE "GameAction" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "turnNumber" INTEGER NOT NULL,
+    "playerId" INTEGER NOT NULL,
+    "type" "GameActionType" NOT NULL,
+    "payload" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GameAction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "GameAction_roomId_idx" ON "GameAction"("roomId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GameAction_roomId_turnNumber_key" ON "GameAction"("roomId", "turnNumber");
+
+-- AddForeignKey
+ALTER TABLE "GameAction" ADD CONSTRAINT "GameAction_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill START: each pawn where its first recorded move left from (or
+-- where it is now), with every barrier it placed back in hand
+INSERT INTO "GameAction" ("id", "roomId", "turnNumber", "playerId", "type", "payload", "createdAt")
+SELECT
+  gen_random_uuid()::text,
+  r."id",
+  0,
+  0,
+  'START',
+  jsonb_build_object('players', (
+    SELECT jsonb_agg(jsonb_build_object(
+      'playerId', p."playerId",
+      'row', COALESCE(fm."fromRow", p."row"),
+      'col', COALESCE(fm."fromCol", p."col"),
+      'wallsLeft', p."wallsLeft" + (
+        SELECT COUNT(*) FROM "Barrier" b
+        WHERE b."roomId" = r."id" AND b."placedBy" = p."playerId"
+      )
+    ) ORDER BY p."playerId")
+    FROM "Player" p
+    LEFT JOIN LATERAL (
+      SELECT m."fromRow", m."fromCol" FROM "Move" m
+      WHERE m."roomId" = r."id" AND m."playerId" = p."playerId"
+      ORDER BY m."createdAt", m."id"
+      LIMIT 1
+    ) fm ON TRUE
+    WHERE p."roomId" = r."id"
+  )),
+  r."createdAt"
+FROM "Room" r
+WHERE r."status" <> 'WAITING';
+
+-- Backfill MOVE / WALL from the old histories, numbered 1..n by time
+INSERT INTO "GameAction" ("id", "roomId", "turnNumber", "playerId", "type", "payload", "createdAt")
+SELECT
+  gen_random_uuid()::text,
+  h."roomId",
+  ROW_NUMBER() OVER (PARTITION BY h."roomId" ORDER BY h."createdAt", h."sourceId"),
+  h."playerId",
+  h."type"::"GameActionType",
+  h."payload",
+  h."createdAt"
+FROM (
+  SELECT m."roomId", m."id" AS "sourceId", m."playerId", 'MOVE' AS "type",
+    jsonb_build_object(
+      'fromRow', m."fromRow", 'fromCol', m."fromCol",
+      'toRow', m."toRow", 'toCol', m."toCol"
+    ) AS "payload",
+    m."createdAt"
+  FROM "Move" m
+  UNION ALL
+  SELECT b."roomId", b."id", b."placedBy", 'WALL',
+    jsonb_build_object(
+      'row', b."row", 'col', b."col", 'orientation', b."orientation"
+    ),
+    b."createdAt"
+  FROM "Barrier" b
+) h
+JOIN "Room" r ON r."id" = h."roomId"
+WHERE r."status" <> 'WAITING';
+
+-- Next action must not reuse a backfilled turnNumber (also invalidates any
+-- action or bot job based on the pre-migration state)
+UPDATE "Room" r
+SET "turnNumber" = GREATEST(r."turnNumber", (
+  SELECT COALESCE(MAX(a."turnNumber"), 0) FROM "GameAction" a WHERE a."roomId" = r."id"
+)) + 1
+WHERE r."status" <> 'WAITING';
+
+-- DropTable (history now lives in GameAction)
+DROP TABLE "Move";
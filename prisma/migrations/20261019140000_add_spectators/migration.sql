@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "Spectator" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "lastSeen" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Spectator_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Spectator_roomId_lastSeen_idx" ON "Spectator"("roomId", "lastSeen");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Spectator_roomId_sessionId_key" ON "Spectator"("roomId", "sessionId");
+
+-- AddForeignKey
+ALTER TABLE "Spectator" ADD CONSTRAINT "Spectator_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateEnum
+CREATE TYPE "ChatMessageKind" AS ENUM ('TEXT', 'EMOTE');
+
+-- CreateTable
+CREATE TABLE "ChatMessage" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "playerId" INTEGER NOT NULL,
+    "kind" "ChatMessageKind" NOT NULL DEFAULT 'TEXT',
+    "text" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ChatMessage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ChatMessage_code_createdAt_idx" ON "ChatMessage"("code", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ChatMessage" ADD CONSTRAINT "ChatMessage_code_fkey" FOREIGN KEY ("code") REFERENCES "Room"("code") ON DELETE CASCADE ON UPDATE CASCADE;
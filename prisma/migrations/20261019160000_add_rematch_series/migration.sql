@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN     "seriesId" TEXT,
+ADD COLUMN     "rematchVotes" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+ADD COLUMN     "rematchCode" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Room_seriesId_idx" ON "Room"("seriesId");
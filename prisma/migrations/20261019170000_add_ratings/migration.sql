@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "UserRating" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "gameMode" "GameMode" NOT NULL,
+    "rating" INTEGER NOT NULL DEFAULT 1500,
+    "gamesRated" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UserRating_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RatingChange" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "gameMode" "GameMode" NOT NULL,
+    "placement" INTEGER NOT NULL,
+    "before" INTEGER NOT NULL,
+    "after" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RatingChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserRating_userId_gameMode_key" ON "UserRating"("userId", "gameMode");
+
+-- CreateIndex
+CREATE INDEX "UserRating_gameMode_rating_idx" ON "UserRating"("gameMode", "rating");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RatingChange_userId_roomId_key" ON "RatingChange"("userId", "roomId");
+
+-- CreateIndex
+CREATE INDEX "RatingChange_userId_gameMode_createdAt_idx" ON "RatingChange"("userId", "gameMode", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "UserRating" ADD CONSTRAINT "UserRating_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RatingChange" ADD CONSTRAINT "RatingChange_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN     "untilPlacements" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "finishOrder" INTEGER[] DEFAULT ARRAY[]::INTEGER[];
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "GameMode" ADD VALUE 'TEAMS';
+
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN     "sharedWalls" BOOLEAN NOT NULL DEFAULT false;
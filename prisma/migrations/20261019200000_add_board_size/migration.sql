@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN     "boardSize" INTEGER NOT NULL DEFAULT 9;
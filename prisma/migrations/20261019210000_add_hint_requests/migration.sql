@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "HintRequest" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "playerId" INTEGER NOT NULL,
+    "slot" INTEGER NOT NULL,
+    "turnNumber" INTEGER NOT NULL,
+    "strength" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "HintRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "HintRequest_code_playerId_slot_key" ON "HintRequest"("code", "playerId", "slot");
+
+-- AddForeignKey
+ALTER TABLE "HintRequest" ADD CONSTRAINT "HintRequest_code_fkey" FOREIGN KEY ("code") REFERENCES "Room"("code") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "PlayerType" ADD VALUE 'BOT_EXPERT';
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Player" ADD COLUMN "botPersonality" TEXT;
+
+-- AlterTable
+ALTER TABLE "BotDecisionLog" ADD COLUMN "personality" TEXT;
@@ -0,0 +1,108 @@
+/**
+ * Bot-vs-bot tournament (offline, no database)
+ *
+ * Usage:
+ *   pnpm tournament <strategy> <strategy> [<strategy> <strategy>] [options]
+ *
+ * Two strategies play 2-player games, four play 4-player games. Strategies
+ * are easy, medium, hard and expert; "hard:N" searches N plies deep and
+ * "expert:N" runs N iterations. A suffix such as "@runner" picks a bot
+ * personality for medium, hard and expert (see src/lib/bot/tournament.ts
+ * and config/personalities.ts).
+ *
+ * Options:
+ *   --games N      Games to play (default 100)
+ *   --seed S       Seed of the first game (default "tournament")
+ *   --size N       Board size: 7, 9 or 11 (default 9)
+ *   --max-plies N  Turns before a game is a draw (default 400)
+ *   --json         Print the report as JSON
+ *
+ * Example:
+ *   pnpm tournament medium hard:2 --games 1000 --seed tuning
+ *   pnpm tournament hard:2@aggressive hard:2@runner --games 200
+ */
+
+import {
+  formatReport,
+  parseEntrant,
+  runTournament,
+  type Entrant,
+} from "@/lib/bot/tournament";
+import { isBoardSize } from "@/types/game";
+
+function fail(message: string): never {
+  console.error(`❌ ${message}`);
+  process.exit(1);
+}
+
+function positiveInteger(flag: string, value: string | undefined): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) fail(`${flag} expects a positive integer`);
+  return n;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const entrants: Entrant[] = [];
+  let games = 100;
+  let seed = "tournament";
+  let boardSize = 9;
+  let maxPlies: number | undefined;
+  let json = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case "--games":
+        games = positiveInteger(arg, args[++i]);
+        break;
+      case "--seed":
+        seed = args[++i] ?? fail("--seed expects a value");
+        break;
+      case "--size":
+        boardSize = positiveInteger(arg, args[++i]);
+        if (!isBoardSize(boardSize)) fail("--size must be 7, 9 or 11");
+        break;
+      case "--max-plies":
+        maxPlies = positiveInteger(arg, args[++i]);
+        break;
+      case "--json":
+        json = true;
+        break;
+      default: {
+        if (arg.startsWith("--")) fail(`Unknown option ${arg}`);
+        const entrant = parseEntrant(arg);
+        if ("error" in entrant) fail(entrant.error);
+        entrants.push(entrant);
+      }
+    }
+  }
+
+  if (entrants.length !== 2 && entrants.length !== 4) {
+    fail("Give 2 strategies (2-player games) or 4 (4-player games)");
+  }
+
+  console.error(
+    `🤖 ${entrants.map((e) => e.label).join(" vs ")}: ${games} games, seed "${seed}", ${boardSize}x${boardSize}`
+  );
+
+  const startTime = Date.now();
+  const report = await runTournament(
+    { entrants, games, seed, boardSize, maxPlies },
+    (played) => {
+      if (played % 10 === 0 || played === games) {
+        process.stderr.write(`\r   ${played}/${games} games`);
+      }
+    }
+  );
+  console.error(
+    `\n✅ Done in ${((Date.now() - startTime) / 1000).toFixed(1)}s\n`
+  );
+
+  console.log(json ? JSON.stringify(report, null, 2) : formatReport(report));
+}
+
+main().catch((error) => {
+  console.error("❌ Tournament failed:", error);
+  process.exit(1);
+});
@@ -1,8 +1,9 @@
 import { NextResponse } from "next/server";
 import { processPendingBotJobs } from "@/lib/bot/worker";
+import { enforceExpiredClocks } from "@/lib/turn-timeout";
 
 /**
- * API route for processing bot jobs
+ * API route for processing bot jobs (and expired turn clocks)
  * Can be triggered by:
  * 1. Vercel Cron (recommended for production)
  * 2. Manual HTTP call during development
@@ -24,6 +25,9 @@ export async function GET(request: Request) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
+    // Time out abandoned turns first (may schedule bot jobs)
+    const timedOut = await enforceExpiredClocks();
+
     console.log("[Bot Worker] Processing bot jobs...");
     const result = await processPendingBotJobs();
 
@@ -31,6 +35,7 @@ export async function GET(request: Request) {
       success: true,
       processed: result.processed,
       failed: result.failed,
+      timedOut,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
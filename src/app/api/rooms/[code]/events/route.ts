@@ -0,0 +1,243 @@
+import { db } from "@/lib/db";
+import { ROOM_STREAM, SPECTATOR_PRESENCE } from "@/config/polling";
+import { isTurnExpired } from "@/lib/clock";
+import { enforceTurnClock } from "@/lib/turn-timeout";
+import { getSessionId } from "@/lib/session";
+import { toChatEntry } from "@/lib/chat";
+import {
+  activeSpectators,
+  removeSpectator,
+  touchSpectator,
+} from "@/lib/spectators";
+import { toPublicRoom } from "@/lib/public-room";
+import {
+  diffRoom,
+  formatRoomEvent,
+  roomFingerprint,
+  snapshotEvent,
+  type RoomEvent,
+} from "@/lib/room-events";
+
+export const dynamic = "force-dynamic";
+
+/** Load the room (server-side: includes session IDs) */
+function loadRoom(code: string) {
+  return db.room.findUnique({
+    where: { code },
+    include: {
+      players: { orderBy: { playerId: "asc" } },
+      barriers: true,
+    },
+  });
+}
+
+/** Last chat message a stream has sent or skipped (null: none yet) */
+type ChatCursor = { createdAt: Date; id: string } | null;
+
+/** Newest stored chat message of a room: where a new stream starts */
+function latestChat(code: string) {
+  return db.chatMessage.findFirst({
+    where: { code },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    select: { createdAt: true, id: true },
+  });
+}
+
+/**
+ * Chat messages stored after the cursor, oldest first
+ * Ordered by (createdAt, id), so messages sharing a timestamp are neither
+ * skipped nor sent twice.
+ */
+function chatAfter(code: string, cursor: ChatCursor) {
+  return db.chatMessage.findMany({
+    where: {
+      code,
+      ...(cursor && {
+        OR: [
+          { createdAt: { gt: cursor.createdAt } },
+          { createdAt: cursor.createdAt, id: { gt: cursor.id } },
+        ],
+      }),
+    },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+  });
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Room update stream (Server-Sent Events)
+ * Sends a snapshot on connect, then a versioned delta whenever turnNumber
+ * changes, a player joins, the room status changes or a rematch vote comes
+ * in. See room-events.ts for the protocol.
+ *
+ * Chat messages are pushed as they are posted.
+ *
+ * Rooms go out without session IDs (see public-room.ts); the snapshot
+ * tells the connecting session its own seat.
+ *
+ * `?watch=1` (spectators): a session without a seat counts as a spectator
+ * while the stream is open.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  const { code } = await params;
+  const watch = new URL(request.url).searchParams.get("watch") === "1";
+  const sessionId = await getSessionId();
+  const encoder = new TextEncoder();
+  let closed = false;
+  let spectatorRoomId: string | null = null;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+      const send = (event: RoomEvent) => write(formatRoomEvent(event));
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        controller.close();
+      };
+      request.signal.addEventListener("abort", close);
+
+      try {
+        const loaded = await loadRoom(code);
+        if (!loaded) {
+          send({ type: "unavailable", error: "Room not found" });
+          return close();
+        }
+        const snapshot = snapshotEvent(loaded, sessionId);
+        let current = toPublicRoom(loaded);
+
+        // Count this session as a spectator while connected
+        spectatorRoomId =
+          watch &&
+          sessionId &&
+          !loaded.players.some((p) => p.sessionId === sessionId)
+            ? loaded.id
+            : null;
+        if (spectatorRoomId && sessionId) {
+          await touchSpectator(spectatorRoomId, sessionId);
+        }
+
+        let version = 0;
+        let fingerprint = roomFingerprint({
+          ...current,
+          playerCount: current.players.length,
+        });
+        let spectators = -1;
+        // Count before the cursor: a message posted in between is then
+        // either behind the cursor or makes the count change
+        let chatCount = await db.chatMessage.count({ where: { code } });
+        let chatCursor: ChatCursor = await latestChat(code);
+        write(`retry: ${ROOM_STREAM.RETRY}\n\n`);
+        send(snapshot);
+
+        const startedAt = Date.now();
+        let lastWrite = startedAt;
+        let lastPresence = startedAt;
+
+        while (!closed) {
+          await sleep(ROOM_STREAM.CHECK_INTERVAL);
+          if (closed) break;
+
+          // Let the client reconnect instead of holding the function forever
+          if (Date.now() - startedAt > ROOM_STREAM.MAX_DURATION) break;
+
+          // Clock ran out: the timeout advances the turn, sent as a delta below
+          if (isTurnExpired(current)) await enforceTurnClock(code);
+
+          if (
+            spectatorRoomId &&
+            sessionId &&
+            Date.now() - lastPresence > SPECTATOR_PRESENCE.HEARTBEAT
+          ) {
+            await touchSpectator(spectatorRoomId, sessionId);
+            lastPresence = Date.now();
+          }
+
+          const head = await db.room.findUnique({
+            where: { code },
+            select: {
+              turnNumber: true,
+              status: true,
+              rematchVotes: true,
+              rematchCode: true,
+              _count: {
+                select: {
+                  players: true,
+                  spectators: { where: activeSpectators() },
+                  chat: true,
+                },
+              },
+            },
+          });
+          if (!head) {
+            send({ type: "unavailable", error: "Room not found" });
+            break;
+          }
+
+          if (head._count.spectators !== spectators) {
+            spectators = head._count.spectators;
+            send({ type: "spectators", count: spectators });
+            lastWrite = Date.now();
+          }
+
+          if (head._count.chat !== chatCount) {
+            chatCount = head._count.chat;
+            const messages = await chatAfter(code, chatCursor);
+            if (messages.length > 0) {
+              const { createdAt, id } = messages[messages.length - 1];
+              chatCursor = { createdAt, id };
+              send({ type: "chat", messages: messages.map(toChatEntry) });
+              lastWrite = Date.now();
+            }
+          }
+
+          const next = roomFingerprint({
+            ...head,
+            playerCount: head._count.players,
+          });
+          if (next !== fingerprint) {
+            const loadedRoom = await loadRoom(code);
+            if (!loadedRoom) continue;
+            const room = toPublicRoom(loadedRoom);
+
+            version++;
+            send({ type: "delta", version, delta: diffRoom(current, room) });
+            current = room;
+            fingerprint = roomFingerprint({
+              ...room,
+              playerCount: room.players.length,
+            });
+            lastWrite = Date.now();
+          } else if (Date.now() - lastWrite > ROOM_STREAM.HEARTBEAT_INTERVAL) {
+            write(": heartbeat\n\n");
+            lastWrite = Date.now();
+          }
+        }
+      } catch (error) {
+        console.error(`[Room Events] Stream error (${code}):`, error);
+      }
+
+      if (spectatorRoomId && sessionId) {
+        await removeSpectator(spectatorRoomId, sessionId).catch(() => {});
+      }
+      close();
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
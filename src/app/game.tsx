@@ -21,7 +21,29 @@ import type {
   GameSnapshot,
   GameMode,
 } from "@/types/game";
-import { PLAYER_BASE_COLORS, getGameModeConfig } from "@/types/game";
+import {
+  PLAYER_BASE_COLORS,
+  getGameModeConfig,
+  getWallsPerPlayer,
+} from "@/types/game";
+import {
+  BOARD_SIZE,
+  EdgeBitboard,
+  INNER_SIZE,
+  analyzePosition,
+  availableWalls,
+  canPawnMoveTo,
+  isGoal,
+  partnerOf,
+  raceLead,
+  teamOf,
+  validateWall,
+  wallEdges,
+  wallOwner,
+  type EngineAction,
+  type EngineState,
+  type EngineWall,
+} from "@/lib/engine";
 
 /**
  * Props for controlled BloqueioPage component
@@ -34,41 +56,17 @@ interface BloqueioPageProps {
   onGameStateChange?: (newState: GameSnapshot) => void;
   myPlayerId?: number | null;
   disabled?: boolean;
-  gameMode?: GameMode; // NEW: Game mode (2P or 4P)
-}
-
-// Tabuleiro original interno é 9x9, com uma borda extra em volta
-const INNER_SIZE = 9;
-const SIZE = INNER_SIZE + 2; // 11x11 com bordas
-
-function edgeKey(r1: number, c1: number, r2: number, c2: number) {
-  if (r1 > r2 || (r1 === r2 && c1 > c2)) {
-    [r1, r2] = [r2, r1];
-    [c1, c2] = [c2, c1];
-  }
-  return `${r1},${c1}-${r2},${c2}`;
-}
-
-function isInside(row: number, col: number) {
-  return row >= 0 && row < SIZE && col >= 0 && col < SIZE;
-}
-
-// Objetivo é alcançar a BORDA externa (0 ou SIZE-1)
-function isGoal(row: number, col: number, goalSide: GoalSide) {
-  switch (goalSide) {
-    case "TOP":
-      return row === 0;
-    case "BOTTOM":
-      return row === SIZE - 1;
-    case "LEFT":
-      return col === 0;
-    case "RIGHT":
-      return col === SIZE - 1;
-  }
+  gameMode?: GameMode; // NEW: Game mode (2P, 4P or 2v2)
+  hint?: EngineAction | null; // Suggested action to highlight (hints)
 }
 
-function createInitialPlayers(gameMode: GameMode = "FOUR_PLAYER"): Player[] {
-  const mid = Math.floor(SIZE / 2); // centro do 11x11
+// Tabuleiro interno 9x9 (ou 7x7 / 11x11, ver Room.boardSize), com uma
+// borda extra em volta
+function createInitialPlayers(
+  gameMode: GameMode = "FOUR_PLAYER",
+  size: number = BOARD_SIZE
+): Player[] {
+  const mid = Math.floor(size / 2); // centro do tabuleiro
   const config = getGameModeConfig(gameMode);
 
   const allPlayers = [
@@ -85,7 +83,7 @@ function createInitialPlayers(gameMode: GameMode = "FOUR_PLAYER"): Player[] {
     {
       id: 1 as PlayerId,
       row: mid,
-      col: SIZE - 2, // segunda coluna a partir da direita
+      col: size - 2, // segunda coluna a partir da direita
       goalSide: "LEFT" as GoalSide,
       wallsLeft: config.wallsPerPlayer,
       color: "#3b82f6",
@@ -94,7 +92,7 @@ function createInitialPlayers(gameMode: GameMode = "FOUR_PLAYER"): Player[] {
     },
     {
       id: 2 as PlayerId,
-      row: SIZE - 2, // segunda linha a partir de baixo
+      row: size - 2, // segunda linha a partir de baixo
       col: mid,
       goalSide: "TOP" as GoalSide,
       wallsLeft: config.wallsPerPlayer,
@@ -118,241 +116,12 @@ function createInitialPlayers(gameMode: GameMode = "FOUR_PLAYER"): Player[] {
   return config.playerSlots.map((slotId) => allPlayers[slotId]);
 }
 
-// BFS para checar se ainda existe algum caminho até o objetivo
-function hasPathToGoal(player: Player, blockedEdges: Set<string>): boolean {
-  console.log(
-    `[BFS DEBUG] Starting for ${player.name} at (${player.row},${player.col}) goal=${player.goalSide}`
-  );
-  console.log(`[BFS DEBUG] INNER_SIZE=${INNER_SIZE}, SIZE=${SIZE}`);
-  console.log(`[BFS DEBUG] Blocked edges:`, Array.from(blockedEdges));
-
-  const visited = Array.from({ length: SIZE }, () => Array(SIZE).fill(false));
-  const queue: Cell[] = [{ row: player.row, col: player.col }];
-  visited[player.row][player.col] = true;
-
-  let cellsExplored = 0;
-
-  const directions = [
-    { dr: -1, dc: 0 },
-    { dr: 1, dc: 0 },
-    { dr: 0, dc: -1 },
-    { dr: 0, dc: 1 },
-  ];
-
-  while (queue.length > 0) {
-    const { row, col } = queue.shift() as Cell;
-    cellsExplored++;
-
-    // Check if this cell is ADJACENT to the goal border (one move away from winning)
-    // We just check if player can REACH this position, not if they can make the final winning move
-    if (player.goalSide === "TOP" && row === 1) {
-      console.log(
-        `[BFS DEBUG] SUCCESS! Reached row=1, can reach TOP goal. Explored ${cellsExplored} cells.`
-      );
-      return true;
-    }
-    if (player.goalSide === "BOTTOM" && row === INNER_SIZE) {
-      console.log(
-        `[BFS DEBUG] SUCCESS! Reached row=${INNER_SIZE}, can reach BOTTOM goal. Explored ${cellsExplored} cells.`
-      );
-      return true;
-    }
-    if (player.goalSide === "LEFT" && col === 1) {
-      console.log(
-        `[BFS DEBUG] SUCCESS! Reached col=1, can reach LEFT goal. Explored ${cellsExplored} cells.`
-      );
-      return true;
-    }
-    if (player.goalSide === "RIGHT" && col === INNER_SIZE) {
-      console.log(
-        `[BFS DEBUG] SUCCESS! Reached col=${INNER_SIZE}, can reach RIGHT goal. Explored ${cellsExplored} cells.`
-      );
-      return true;
-    }
-
-    for (const { dr, dc } of directions) {
-      const nr = row + dr;
-      const nc = col + dc;
-
-      // CRITICAL: Only explore INTERNAL cells (1-9)
-      // Players cannot walk through border cells!
-      if (nr < 1 || nr > INNER_SIZE || nc < 1 || nc > INNER_SIZE) continue;
-
-      if (visited[nr][nc]) continue;
-      if (blockedEdges.has(edgeKey(row, col, nr, nc))) continue;
-
-      visited[nr][nc] = true;
-      queue.push({ row: nr, col: nc });
-    }
-  }
-
-  console.log(
-    `[BFS DEBUG] FAILED! No path found after exploring ${cellsExplored} cells.`
-  );
-  return false;
-}
-
-// Versão genérica do movimento (com paredes arbitrárias e todos os peões)
-function canPawnMoveTo(
-  player: Player,
-  destRow: number,
-  destCol: number,
-  blockedEdges: Set<string>,
-  players: Player[]
-): boolean {
-  if (!isInside(destRow, destCol)) return false;
-  if (destRow === player.row && destCol === player.col) return false;
-
-  // Não pode entrar na borda externa, exceto no lado de objetivo
-  const isBorder =
-    destRow === 0 ||
-    destRow === SIZE - 1 ||
-    destCol === 0 ||
-    destCol === SIZE - 1;
-  if (isBorder && !isGoal(destRow, destCol, player.goalSide)) {
-    return false;
-  }
-
-  // destino não pode estar ocupado
-  const occupied = players.some(
-    (p) => p.id !== player.id && p.row === destRow && p.col === destCol
-  );
-  if (occupied) return false;
-
-  const dr = destRow - player.row;
-  const dc = destCol - player.col;
-  const adr = Math.abs(dr);
-  const adc = Math.abs(dc);
-  const manhattan = adr + adc;
-
-  // 1) passo normal
-  if (manhattan === 1) {
-    if (blockedEdges.has(edgeKey(player.row, player.col, destRow, destCol))) {
-      return false;
-    }
-    return true;
-  }
-
-  // 2) pulo em linha reta (2 casas na mesma direção)
-  const isStraightTwo = (adr === 2 && adc === 0) || (adr === 0 && adc === 2);
-  if (isStraightTwo) {
-    const midRow = player.row + (dr === 0 ? 0 : dr > 0 ? 1 : -1);
-    const midCol = player.col + (dc === 0 ? 0 : dc > 0 ? 1 : -1);
-
-    if (!isInside(midRow, midCol)) return false;
-
-    const middlePawn = players.find(
-      (p) => p.row === midRow && p.col === midCol
-    );
-    if (!middlePawn) return false;
-
-    // Check if path is clear
-    if (
-      blockedEdges.has(edgeKey(player.row, player.col, midRow, midCol)) ||
-      blockedEdges.has(edgeKey(midRow, midCol, destRow, destCol))
-    ) {
-      return false;
-    }
-
-    return true;
-  }
-
-  // 3) Side-step jump (diagonal move when jumping over adjacent player)
-  // Manhattan distance of 2, but diagonal (e.g., 1 up + 1 right)
-  if (manhattan === 2 && adr === 1 && adc === 1) {
-    // Check all 4 orthogonal neighbors for a player to jump over
-    const neighbors = [
-      { dr: -1, dc: 0 }, // up
-      { dr: 1, dc: 0 }, // down
-      { dr: 0, dc: -1 }, // left
-      { dr: 0, dc: 1 }, // right
-    ];
-
-    for (const { dr: ndr, dc: ndc } of neighbors) {
-      const neighborRow = player.row + ndr;
-      const neighborCol = player.col + ndc;
-
-      if (!isInside(neighborRow, neighborCol)) continue;
-
-      // Is there a player at this neighbor position?
-      const neighborPawn = players.find(
-        (p) => p.row === neighborRow && p.col === neighborCol
-      );
-      if (!neighborPawn) continue;
-
-      // CRITICAL: Can we reach this neighbor (no barrier blocking)?
-      if (
-        blockedEdges.has(
-          edgeKey(player.row, player.col, neighborRow, neighborCol)
-        )
-      ) {
-        continue;
-      }
-
-      // Calculate the straight-ahead position from neighbor
-      const straightRow = neighborRow + ndr;
-      const straightCol = neighborCol + ndc;
-
-      // Check if straight jump is blocked (barrier or edge)
-      const straightBlocked =
-        !isInside(straightRow, straightCol) ||
-        blockedEdges.has(
-          edgeKey(neighborRow, neighborCol, straightRow, straightCol)
-        ) ||
-        // Also check if destination cell would be occupied
-        players.some((p) => p.row === straightRow && p.col === straightCol);
-
-      if (!straightBlocked) {
-        // Straight jump is possible, side-step not allowed in this direction
-        continue;
-      }
-
-      // Straight is blocked, check if we can side-step to destination
-      // Destination must be perpendicular to the jump direction AND adjacent to neighbor
-      const isPerpendicularJump =
-        (ndr !== 0 &&
-          destRow === neighborRow &&
-          Math.abs(destCol - neighborCol) === 1) ||
-        (ndc !== 0 &&
-          destCol === neighborCol &&
-          Math.abs(destRow - neighborRow) === 1);
-
-      if (!isPerpendicularJump) continue;
-
-      // CRITICAL: Verify destination is actually reachable from neighbor position
-      // Must be exactly adjacent to the neighbor (already checked above)
-      // AND verify no barrier blocks the side-step
-      if (
-        blockedEdges.has(edgeKey(neighborRow, neighborCol, destRow, destCol))
-      ) {
-        continue;
-      }
-
-      // Additional check: The destination must actually form a valid diagonal
-      // from our current position (must go through the neighbor)
-      const isDiagonalThroughNeighbor =
-        Math.abs(destRow - player.row) === 1 &&
-        Math.abs(destCol - player.col) === 1;
-
-      if (!isDiagonalThroughNeighbor) continue;
-
-      // Valid side-step jump!
-      return true;
-    }
-
-    // No valid side-step jump found
-    return false;
-  }
-
-  // Invalid move
-  return false;
-}
-
 export default function BloqueioPage({
   gameState: externalGameState,
   onGameStateChange,
   disabled = false,
   gameMode = "FOUR_PLAYER", // Default to 4-player mode
+  hint = null,
 }: BloqueioPageProps = {}) {
   // Internal state for local-only play (when no props provided)
   const [localPlayers, setLocalPlayers] = useState<Player[]>(() =>
@@ -380,18 +149,23 @@ export default function BloqueioPage({
     : localCurrentPlayerId;
   const winner = isControlled ? externalGameState.winner : localWinner;
 
+  // Tamanho do tabuleiro: interno (7, 9 ou 11) e com bordas
+  const innerSize = externalGameState?.boardSize ?? INNER_SIZE;
+  const SIZE = innerSize + 2;
+
   // Derive game mode from player count or use prop
   const activeGameMode: GameMode =
     externalGameState?.gameMode ||
     gameMode ||
     (players.length === 2 ? "TWO_PLAYER" : "FOUR_PLAYER");
-  const modeConfig = getGameModeConfig(activeGameMode);
+  const wallsPerPlayer = getWallsPerPlayer(activeGameMode, innerSize);
 
   // UI-only state (not synced)
   const [mode, setMode] = useState<Mode>("move");
   const [history, setHistory] = useState<GameSnapshot[]>([]);
   const [wallOrientation, setWallOrientation] = useState<Orientation>("H");
   const [hoveredCell, setHoveredCell] = useState<Cell | null>(null);
+  const [showAnalysis, setShowAnalysis] = useState(false);
 
   // Barrier confirmation state
   const [pendingBarrier, setPendingBarrier] = useState<{
@@ -411,6 +185,23 @@ export default function BloqueioPage({
 
   const currentPlayer = players.find((p) => p.id === currentPlayerId);
 
+  // Estado no formato do motor de regras (src/lib/engine)
+  const engineState: EngineState = {
+    players,
+    walls: barriers,
+    blockedEdges: EdgeBitboard.from(blockedEdges),
+    currentPlayerId,
+    winner,
+    teams: activeGameMode === "TEAMS",
+    sharedWalls: externalGameState?.sharedWalls ?? false,
+    boardSize: innerSize,
+  };
+
+  // Walls the current player can place (their partner's too when shared)
+  const wallsAvailable = currentPlayer
+    ? availableWalls(engineState, currentPlayer.id)
+    : 0;
+
   // Safety check: if currentPlayer is undefined, reset to first player
   useEffect(() => {
     if (!currentPlayer && players.length > 0) {
@@ -517,7 +308,7 @@ export default function BloqueioPage({
     if (winner !== null) return false;
     const cur = currentPlayer;
     if (!cur) return false; // Safety check
-    return canPawnMoveTo(cur, row, col, blockedEdges, players);
+    return canPawnMoveTo(engineState, cur.id, row, col);
   }
 
   type WallCheckResult = {
@@ -547,7 +338,7 @@ export default function BloqueioPage({
       };
     }
 
-    if (currentPlayer && currentPlayer.wallsLeft <= 0) {
+    if (currentPlayer && wallsAvailable <= 0) {
       if (!silent) toast.error("Sem barreiras restantes!");
       return {
         ok: false,
@@ -581,7 +372,8 @@ export default function BloqueioPage({
     // Horizontal barrier at baseRow blocks edges between rows baseRow and baseRow+1
     // Vertical barrier at baseCol blocks edges between cols baseCol and baseCol+1
     //
-    // Grid: 0-10 (SIZE=11), Internal cells: 1-9, Borders: 0 and 10
+    // Standard grid: 0-10 (SIZE=11), Internal cells: 1-9, Borders: 0 and 10
+    // (7x7 and 11x11 boards shift the far border; the mapping uses SIZE)
     // Valid click cells (internal): row/col 1-9
     //
     // Valid base positions:
@@ -599,7 +391,7 @@ export default function BloqueioPage({
 
       // baseCol can be 0-9 (allows barriers at border intersections)
       // Clicks at col 8 and 9 both should map to baseCol 8
-      if (clickCol >= INNER_SIZE) {
+      if (clickCol >= innerSize) {
         // Clicking col 8 or 9 → baseCol 8 (rightmost valid)
         baseCol = SIZE - 3; // 8
       } else {
@@ -613,7 +405,7 @@ export default function BloqueioPage({
 
       // baseRow can be 0-9 (allows barriers at border intersections)
       // Clicks at row 8 and 9 both should map to baseRow 8
-      if (clickRow >= INNER_SIZE) {
+      if (clickRow >= innerSize) {
         // Clicking row 8 or 9 → baseRow 8 (bottommost valid)
         baseRow = SIZE - 3; // 8
       } else {
@@ -622,114 +414,48 @@ export default function BloqueioPage({
       }
     }
 
-    const edgesToAdd: string[] = [];
     const orientation = effectiveOrientation;
+    const edgesToAdd = wallEdges(baseRow, baseCol, orientation);
+    const fail = (message?: string): WallCheckResult => {
+      if (message && !silent) toast.error(message);
+      return { ok: false, baseRow, baseCol, orientation, edgesToAdd };
+    };
 
-    if (orientation === "H") {
-      // barreira horizontal entre baseRow e baseRow+1, cobrindo duas colunas
-      if (baseRow + 1 >= SIZE || baseCol + 1 >= SIZE) {
-        return {
-          ok: false,
-          baseRow,
-          baseCol,
-          orientation,
-          edgesToAdd,
-        };
-      }
-      edgesToAdd.push(edgeKey(baseRow, baseCol, baseRow + 1, baseCol));
-      edgesToAdd.push(edgeKey(baseRow, baseCol + 1, baseRow + 1, baseCol + 1));
-    } else {
-      // barreira vertical entre baseCol e baseCol+1, cobrindo duas linhas
-      if (baseRow + 1 >= SIZE || baseCol + 1 >= SIZE) {
-        return {
-          ok: false,
-          baseRow,
-          baseCol,
-          orientation,
-          edgesToAdd,
-        };
-      }
-      edgesToAdd.push(edgeKey(baseRow, baseCol, baseRow, baseCol + 1));
-      edgesToAdd.push(edgeKey(baseRow + 1, baseCol, baseRow + 1, baseCol + 1));
-    }
-
-    // 1) Cannot reuse blocked edges
-    const anyAlreadyBlocked = edgesToAdd.some((e) => blockedEdges.has(e));
-    if (anyAlreadyBlocked) {
-      if (!silent) toast.error("Já existe uma barreira neste espaço");
-      return {
-        ok: false,
-        baseRow,
-        baseCol,
-        orientation,
-        edgesToAdd,
-      };
-    }
-
-    // 2) Cannot cross another barrier in X pattern at the same 2x2 block
-    const crossesExisting = barriers.some(
-      (b) =>
-        b.row === baseRow && b.col === baseCol && b.orientation !== orientation
-    );
-    if (crossesExisting) {
-      if (!silent) toast.error("Não pode cruzar barreiras em X");
-      return {
-        ok: false,
-        baseRow,
-        baseCol,
-        orientation,
-        edgesToAdd,
-      };
-    }
-
-    const newBlocked = new Set(blockedEdges);
-    edgesToAdd.forEach((e) => newBlocked.add(e));
-
-    console.log(
-      `[CLIENT PATHFINDING] Checking barrier at (${baseRow},${baseCol}) ${orientation}`
-    );
-    console.log(`[CLIENT PATHFINDING] New edges:`, edgesToAdd);
-    console.log(
-      `[CLIENT PATHFINDING] Total blocked edges:`,
-      Array.from(newBlocked)
+    const result = validateWall(
+      engineState,
+      currentPlayerId,
+      baseRow,
+      baseCol,
+      orientation
     );
 
-    // 3) ainda existe algum caminho até o lado objetivo (pode andar pra trás)
-    const pathResults = players.map((player) => {
-      const hasPath = hasPathToGoal(player, newBlocked);
-      console.log(
-        `[CLIENT PATHFINDING] Player ${player.name} at (${player.row},${
-          player.col
-        }) goal ${player.goalSide}: ${hasPath ? "✅ HAS PATH" : "❌ BLOCKED"}`
-      );
-      return hasPath;
-    });
-
-    const allHavePath = pathResults.every((hasPath) => hasPath);
-
-    if (!allHavePath) {
-      const blockedPlayers = players.filter((_, i) => !pathResults[i]);
-      console.error(
-        `[CLIENT PATHFINDING] BLOCKING! Players trapped:`,
-        blockedPlayers.map((p) => p.name)
-      );
-      if (!silent)
-        toast.error(
-          `Esta barreira bloquearia ${
-            blockedPlayers[0]?.name ?? "um jogador"
-          } de alcançar seu objetivo`
-        );
-      return {
-        ok: false,
-        baseRow,
-        baseCol,
-        orientation,
-        edgesToAdd,
-      };
+    if (!result.valid) {
+      switch (result.reason) {
+        case "NO_WALLS_LEFT":
+          return fail("Sem barreiras restantes!");
+        case "DUPLICATE":
+        case "OVERLAP":
+          // 1) Cannot reuse blocked edges
+          return fail("Já existe uma barreira neste espaço");
+        case "CROSSING":
+          // 2) Cannot cross another barrier in X pattern at the same 2x2 block
+          return fail("Não pode cruzar barreiras em X");
+        case "BLOCKS_PATH": {
+          // 3) ainda existe algum caminho até o lado objetivo (pode andar pra trás)
+          const blockedPlayer = players.find(
+            (p) => p.id === result.blockedPlayerId
+          );
+          return fail(
+            `Esta barreira bloquearia ${
+              blockedPlayer?.name ?? "um jogador"
+            } de alcançar seu objetivo`
+          );
+        }
+        default:
+          return fail();
+      }
     }
 
-    console.log(`[CLIENT PATHFINDING] All players can still reach goals ✅`);
-
     return {
       ok: true,
       baseRow,
@@ -771,7 +497,7 @@ export default function BloqueioPage({
       p.id === cur.id ? { ...p, row, col } : p
     );
 
-    const isWinningMove = isGoal(row, col, cur.goalSide);
+    const isWinningMove = isGoal(row, col, cur.goalSide, innerSize);
 
     updateGameState({
       players: newPlayers,
@@ -812,8 +538,9 @@ export default function BloqueioPage({
       placedBy: currentPlayer.id,
     };
 
+    const owner = wallOwner(engineState, currentPlayer.id);
     const newPlayers = players.map((p) =>
-      p.id === currentPlayer.id ? { ...p, wallsLeft: p.wallsLeft - 1 } : p
+      p.id === owner ? { ...p, wallsLeft: p.wallsLeft - 1 } : p
     );
 
     updateGameState({
@@ -861,8 +588,9 @@ export default function BloqueioPage({
       placedBy: currentPlayer.id,
     };
 
+    const owner = wallOwner(engineState, currentPlayer.id);
     const newPlayers = players.map((p) =>
-      p.id === currentPlayer.id ? { ...p, wallsLeft: p.wallsLeft - 1 } : p
+      p.id === owner ? { ...p, wallsLeft: p.wallsLeft - 1 } : p
     );
 
     updateGameState({
@@ -890,7 +618,7 @@ export default function BloqueioPage({
       return;
     }
 
-    setLocalPlayers(createInitialPlayers(gameMode));
+    setLocalPlayers(createInitialPlayers(gameMode, SIZE));
     setLocalBlockedEdges(new Set());
     setLocalBarriers([]);
     setLocalCurrentPlayerId(0);
@@ -964,6 +692,10 @@ export default function BloqueioPage({
         }
       }
 
+      // casa sugerida pela dica
+      const isHintCell =
+        hint?.type === "MOVE" && hint.row === row && hint.col === col;
+
       const pawn = playerOnCell ? (
         <div
           style={{
@@ -1012,6 +744,8 @@ export default function BloqueioPage({
                     ? currentPlayer?.color ?? "#ffffff"
                     : "#facc15"
                 } inset`
+              : isHintCell
+              ? "0 0 0 3px #38bdf8 inset" // Sky blue for the suggested move
               : "none",
             transition: "box-shadow 0.08s ease-out, background 0.08s ease-out",
           }}
@@ -1048,18 +782,22 @@ export default function BloqueioPage({
 
   function renderBarrier(
     b: Barrier,
-    opts?: { ghost?: boolean; pending?: boolean }
+    opts?: { ghost?: boolean; pending?: boolean; hint?: boolean }
   ): JSX.Element {
-    const ghost = opts?.ghost ?? false;
+    const hinted = opts?.hint ?? false;
+    const ghost = (opts?.ghost ?? false) || hinted;
     const pending = opts?.pending ?? false;
 
     // Get the color of the player who placed the barrier
     // For pending barriers (confirmation), use amber color
+    // For the suggested barrier (hint), use sky blue
     // For ghost barriers, use current player's color
     // For placed barriers, use the placedBy player's color (fallback to yellow for old barriers)
     let barrierColor: string;
     if (pending) {
       barrierColor = "#f59e0b"; // Amber color for pending confirmation
+    } else if (hinted) {
+      barrierColor = "#38bdf8"; // Sky blue for the suggested barrier (hint)
     } else if (ghost) {
       barrierColor = currentPlayer?.color ?? "#ffffff";
     } else if (b.placedBy !== undefined) {
@@ -1130,8 +868,24 @@ export default function BloqueioPage({
     barrierOverlays.push(renderBarrier(b));
   }
 
+  // barreira sugerida pela dica
+  if (hint?.type === "WALL") {
+    barrierOverlays.push(
+      renderBarrier(
+        {
+          row: hint.row,
+          col: hint.col,
+          orientation: hint.orientation,
+          id: "hint",
+        },
+        { hint: true }
+      )
+    );
+  }
+
   // barreira fantasma (hover) or pending barrier preview
   let ghostBarrier: JSX.Element | null = null;
+  let previewWall: EngineWall | null = null;
 
   // Show pending barrier in amber during confirmation
   if (pendingBarrier && showBarrierConfirmation) {
@@ -1142,6 +896,7 @@ export default function BloqueioPage({
       id: "pending",
     };
     ghostBarrier = renderBarrier(pending, { ghost: true, pending: true });
+    previewWall = pending;
   } else if (isMobile && mode === "wall" && mobilePreviewBarrier) {
     // Mobile preview mode: show barrier at preview position
     const res = checkWallPlacement(
@@ -1159,6 +914,7 @@ export default function BloqueioPage({
         id: "ghost-mobile",
       };
       ghostBarrier = renderBarrier(ghost, { ghost: true });
+      previewWall = ghost;
     }
   } else if (mode === "wall" && hoveredCell && !isMobile) {
     // Desktop hover preview (only when not mobile)
@@ -1173,13 +929,71 @@ export default function BloqueioPage({
         id: "ghost",
       };
       ghostBarrier = renderBarrier(ghost, { ghost: true });
+      previewWall = ghost;
     }
   }
 
+  // Análise: caminho mais curto de cada jogador e o efeito da barreira
+  // em pré-visualização sobre todas as distâncias
+  const analysis = showAnalysis ? analyzePosition(engineState) : [];
+  const previewAnalysis =
+    showAnalysis && previewWall
+      ? analyzePosition(engineState, previewWall)
+      : null;
+
+  function renderPath(
+    playerId: number,
+    path: Cell[],
+    opts?: { preview?: boolean }
+  ): JSX.Element {
+    const color = players.find((p) => p.id === playerId)?.color ?? "#ffffff";
+    // Offset each player's line a little so overlapping paths stay visible
+    const offset = 0.5 + (playerId - 1.5) * 0.08;
+
+    return (
+      <polyline
+        key={`${playerId}${opts?.preview ? "-preview" : ""}`}
+        points={path
+          .map(({ row, col }) => `${col + offset},${row + offset}`)
+          .join(" ")}
+        fill="none"
+        stroke={color}
+        strokeWidth={0.12}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeDasharray={opts?.preview ? "0.25 0.2" : undefined}
+        opacity={opts?.preview ? 0.9 : previewAnalysis ? 0.3 : 0.7}
+      />
+    );
+  }
+
+  const pathOverlay = showAnalysis ? (
+    <svg
+      viewBox={`0 0 ${SIZE} ${SIZE}`}
+      style={{
+        position: "absolute",
+        inset: 0,
+        width: "100%",
+        height: "100%",
+        pointerEvents: "none",
+      }}
+    >
+      {analysis.map((a) => a.path && renderPath(a.playerId, a.path))}
+      {previewAnalysis?.map(
+        (a) => a.path && renderPath(a.playerId, a.path, { preview: true })
+      )}
+    </svg>
+  ) : null;
+
   const statusText = (() => {
     if (winner !== null) {
       const p = players.find((pl) => pl.id === winner)!;
-      return `${p.name} venceu!`;
+      const partner = players.find(
+        (pl) => pl.id === partnerOf(engineState, winner)?.id
+      );
+      return partner
+        ? `${p.name} e ${partner.name} venceram!`
+        : `${p.name} venceu!`;
     }
 
     // Check if current player is a bot
@@ -1304,6 +1118,7 @@ export default function BloqueioPage({
 
               {barrierOverlays}
               {ghostBarrier}
+              {pathOverlay}
             </div>
           </div>
 
@@ -1364,7 +1179,7 @@ export default function BloqueioPage({
                 >
                   Mover peão
                 </button>
-                {currentPlayer && currentPlayer.wallsLeft > 0 && (
+                {currentPlayer && wallsAvailable > 0 && (
                   <button
                     type="button"
                     onClick={() => setMode("wall")}
@@ -1385,10 +1200,30 @@ export default function BloqueioPage({
                       cursor: "pointer",
                     }}
                   >
-                    Colocar barreira ({currentPlayer.wallsLeft}/
-                    {modeConfig.wallsPerPlayer})
+                    Colocar barreira ({wallsAvailable}/
+                    {wallsPerPlayer * (engineState.sharedWalls ? 2 : 1)})
                   </button>
                 )}
+                <button
+                  type="button"
+                  onClick={() => setShowAnalysis((show) => !show)}
+                  aria-pressed={showAnalysis}
+                  style={{
+                    padding: "0.4rem 0.8rem",
+                    borderRadius: 999,
+                    border: showAnalysis
+                      ? "2px solid #38bdf8"
+                      : "1px solid #1f2937",
+                    background: showAnalysis
+                      ? "rgba(56,189,248,0.15)"
+                      : "rgba(15,23,42,0.9)",
+                    color: "#e5e7eb",
+                    fontSize: "0.85rem",
+                    cursor: "pointer",
+                  }}
+                >
+                  📊 Análise
+                </button>
                 {!isControlled && (
                   <button
                     type="button"
@@ -1582,13 +1417,129 @@ export default function BloqueioPage({
                         </span>
                       )}
                     </span>
+                    {engineState.teams && (
+                      <span style={{ color: "#9ca3af", fontSize: "0.75rem" }}>
+                        Dupla {teamOf(p.id) === 0 ? "A" : "B"}
+                      </span>
+                    )}
                     <span style={{ color: "#9ca3af", marginLeft: "auto" }}>
-                      Barreiras: {p.wallsLeft}/{modeConfig.wallsPerPlayer}
+                      Barreiras: {p.wallsLeft}/{wallsPerPlayer}
                     </span>
                   </li>
                 ))}
               </ul>
             </div>
+
+            {showAnalysis && (
+              <div
+                style={{
+                  padding: "0.75rem",
+                  borderRadius: "0.75rem",
+                  border: "1px solid #1f2937",
+                  background: "rgba(15,23,42,0.9)",
+                }}
+              >
+                <h2
+                  style={{
+                    fontSize: "1rem",
+                    fontWeight: 600,
+                    marginBottom: "0.5rem",
+                  }}
+                >
+                  Análise
+                </h2>
+                <ul
+                  style={{
+                    listStyle: "none",
+                    padding: 0,
+                    margin: 0,
+                    display: "flex",
+                    flexDirection: "column",
+                    gap: "0.35rem",
+                  }}
+                >
+                  {analysis.map((a) => {
+                    const p = players.find((pl) => pl.id === a.playerId);
+                    const lead = raceLead(engineState, analysis, a.playerId);
+                    const preview = previewAnalysis?.find(
+                      (pa) => pa.playerId === a.playerId
+                    );
+                    const change =
+                      preview &&
+                      preview.distance !== null &&
+                      a.distance !== null
+                        ? preview.distance - a.distance
+                        : 0;
+
+                    return (
+                      <li
+                        key={a.playerId}
+                        style={{
+                          display: "flex",
+                          alignItems: "center",
+                          gap: "0.5rem",
+                          fontSize: "0.85rem",
+                        }}
+                      >
+                        <span
+                          style={{
+                            width: 12,
+                            height: 12,
+                            borderRadius: 999,
+                            background: p?.color,
+                            border: "1px solid #f9fafb",
+                          }}
+                        />
+                        <span>{p?.name}</span>
+                        <span style={{ color: "#9ca3af" }}>
+                          {a.distance ?? "—"} passos
+                          {change !== 0 && (
+                            <span
+                              style={{
+                                marginLeft: "0.35rem",
+                                fontWeight: 600,
+                                color: change > 0 ? "#f87171" : "#4ade80",
+                              }}
+                            >
+                              → {preview?.distance} ({change > 0 ? "+" : ""}
+                              {change})
+                            </span>
+                          )}
+                        </span>
+                        {lead !== null && (
+                          <span
+                            title="Passos de vantagem sobre o rival mais próximo"
+                            style={{
+                              marginLeft: "auto",
+                              fontWeight: 600,
+                              color:
+                                lead > 0
+                                  ? "#4ade80"
+                                  : lead < 0
+                                    ? "#f87171"
+                                    : "#9ca3af",
+                            }}
+                          >
+                            {lead > 0 ? `+${lead}` : lead === 0 ? "=" : lead}
+                          </span>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+                <p
+                  style={{
+                    fontSize: "0.75rem",
+                    color: "#9ca3af",
+                    marginTop: "0.5rem",
+                  }}
+                >
+                  {mode === "wall"
+                    ? "Passe sobre o tabuleiro para ver como a barreira muda cada distância."
+                    : "Vantagem: passos a menos que o rival mais próximo."}
+                </p>
+              </div>
+            )}
           </aside>
         </section>
       </div>
@@ -1634,9 +1585,9 @@ export default function BloqueioPage({
           />
           <div style={{ flex: 1 }}>
             <p style={{ fontSize: "0.9rem", color: "#e5e7eb" }}>
-              Você tem <strong>{currentPlayer?.wallsLeft ?? 0}</strong> barreira
-              {(currentPlayer?.wallsLeft ?? 0) !== 1 ? "s" : ""} restante
-              {(currentPlayer?.wallsLeft ?? 0) !== 1 ? "s" : ""}.
+              Você tem <strong>{wallsAvailable}</strong> barreira
+              {wallsAvailable !== 1 ? "s" : ""} restante
+              {wallsAvailable !== 1 ? "s" : ""}.
             </p>
             <p style={{ fontSize: "0.8rem", color: "#9ca3af", marginTop: 4 }}>
               A barreira está destacada em âmbar no tabuleiro.
@@ -0,0 +1,12 @@
+/**
+ * Offline Page
+ *
+ * URL: /offline
+ * Local hot-seat game on one device (no room, nothing saved)
+ */
+
+import { OfflineGame } from "@/components/OfflineGame";
+
+export default function OfflinePage() {
+  return <OfflineGame />;
+}
@@ -0,0 +1,32 @@
+/**
+ * Replay Page - Dynamic Route
+ *
+ * URL: /room/[code]/replay
+ * Step through a game action by action (read-only)
+ */
+
+import { ReplayViewer } from "@/components/ReplayViewer";
+import { getRoomState } from "@/lib/actions/room-actions";
+import { redirect } from "next/navigation";
+
+interface PageProps {
+  params: Promise<{ code: string }>;
+}
+
+export default async function ReplayPage({ params }: PageProps) {
+  const { code } = await params;
+
+  // Verify room exists and game has started
+  const result = await getRoomState(code);
+
+  if (result.error || !result.room) {
+    redirect("/");
+  }
+
+  if (result.room.status === "WAITING") {
+    // Nothing to replay yet
+    redirect(`/room/${code}/lobby`);
+  }
+
+  return <ReplayViewer roomCode={code} />;
+}
@@ -0,0 +1,27 @@
+/**
+ * Watch Page - Dynamic Route
+ *
+ * URL: /room/[code]/watch
+ * Follow a game live as a spectator (read-only, no seat needed)
+ */
+
+import { GameBoard } from "@/components/GameBoard";
+import { getRoomState } from "@/lib/actions/room-actions";
+import { redirect } from "next/navigation";
+
+interface PageProps {
+  params: Promise<{ code: string }>;
+}
+
+export default async function WatchPage({ params }: PageProps) {
+  const { code } = await params;
+
+  // Verify room exists
+  const result = await getRoomState(code);
+
+  if (result.error || !result.room) {
+    redirect("/");
+  }
+
+  return <GameBoard roomCode={code} spectator />;
+}
@@ -0,0 +1,195 @@
+/**
+ * ChatPanel Component - Room chat with quick emotes
+ *
+ * Collapsible panel used next to the board (GameBoard) and in the lobby
+ * (WaitingLobby). Messages come from useRoomChat; only seated players can
+ * write, spectators just read.
+ */
+
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { toast } from "@/lib/toast";
+import { CHAT_LIMITS, QUICK_EMOTES } from "@/config/chat";
+import { findEmote } from "@/lib/chat";
+import type { RoomChat } from "@/hooks/useRoomChat";
+
+interface ChatPanelProps {
+  chat: RoomChat;
+  players: Array<{ playerId: number; name: string; color: string }>;
+  /** null for spectators (read-only) */
+  myPlayerId: number | null;
+  defaultOpen?: boolean;
+  className?: string;
+}
+
+export function ChatPanel({
+  chat,
+  players,
+  myPlayerId,
+  defaultOpen = false,
+  className = "",
+}: ChatPanelProps) {
+  const [open, setOpen] = useState(defaultOpen);
+  const [draft, setDraft] = useState("");
+  const [sending, setSending] = useState(false);
+  // Messages after this are unread while the panel is closed
+  const [seenAt, setSeenAt] = useState(() => new Date().toISOString());
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const { messages } = chat;
+  const unread = open
+    ? 0
+    : messages.filter((m) => m.createdAt > seenAt && m.playerId !== myPlayerId)
+        .length;
+
+  // Keep the newest message in view
+  useEffect(() => {
+    if (open && listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [open, messages]);
+
+  const toggle = () => {
+    if (open) {
+      setSeenAt(messages[messages.length - 1]?.createdAt ?? seenAt);
+    }
+    setOpen(!open);
+  };
+
+  const submit = async (
+    send: () => Promise<{ success: true } | { error: string }>
+  ) => {
+    if (sending) return false;
+
+    setSending(true);
+    const result = await send();
+    setSending(false);
+
+    if ("error" in result) {
+      toast.error(result.error);
+      return false;
+    }
+    return true;
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+
+    if (await submit(() => chat.send(draft))) setDraft("");
+  };
+
+  const sender = (playerId: number) =>
+    players.find((p) => p.playerId === playerId);
+
+  return (
+    <div
+      className={`bg-slate-800/95 backdrop-blur border border-slate-700 rounded-lg shadow-lg text-sm ${className}`}
+    >
+      <button
+        onClick={toggle}
+        aria-expanded={open}
+        className="w-full flex items-center justify-between gap-2 px-3 py-2 text-white font-semibold"
+      >
+        <span>💬 Chat</span>
+        <span className="flex items-center gap-2">
+          {unread > 0 && (
+            <span className="px-2 py-0.5 bg-blue-600 text-white text-xs rounded-full">
+              {unread}
+            </span>
+          )}
+          <span className="text-slate-400 text-xs">{open ? "▾" : "▸"}</span>
+        </span>
+      </button>
+
+      {open && (
+        <div className="border-t border-slate-700 p-3 space-y-2">
+          <div
+            ref={listRef}
+            className="max-h-48 overflow-y-auto space-y-1.5 pr-1"
+            aria-live="polite"
+          >
+            {messages.length === 0 ? (
+              <p className="text-xs text-slate-500 text-center py-2">
+                Nenhuma mensagem ainda
+              </p>
+            ) : (
+              messages.map((message) => {
+                const player = sender(message.playerId);
+                const emote =
+                  message.kind === "EMOTE" ? findEmote(message.text) : null;
+
+                return (
+                  <div key={message.id} className="text-xs leading-snug">
+                    <span
+                      className="inline-block w-2 h-2 rounded-full mr-1 align-middle"
+                      style={{ backgroundColor: player?.color ?? "#64748b" }}
+                    />
+                    <span className="font-semibold text-slate-200">
+                      {player?.name ?? `Jogador ${message.playerId + 1}`}:
+                    </span>{" "}
+                    {emote ? (
+                      <span className="text-slate-300">
+                        <span className="text-base align-middle">
+                          {emote.emoji}
+                        </span>{" "}
+                        {emote.label}
+                      </span>
+                    ) : (
+                      <span className="text-slate-300 break-words">
+                        {message.text}
+                      </span>
+                    )}
+                  </div>
+                );
+              })
+            )}
+          </div>
+
+          {myPlayerId === null ? (
+            <p className="text-xs text-slate-500 text-center">
+              Apenas jogadores podem enviar mensagens
+            </p>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-1">
+                {QUICK_EMOTES.map((emote) => (
+                  <button
+                    key={emote.id}
+                    onClick={() => submit(() => chat.sendEmote(emote.id))}
+                    disabled={sending}
+                    title={emote.label}
+                    aria-label={emote.label}
+                    className="px-1.5 py-0.5 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 rounded transition-colors"
+                  >
+                    {emote.emoji}
+                  </button>
+                ))}
+              </div>
+
+              <form onSubmit={handleSend} className="flex gap-2">
+                <input
+                  type="text"
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  maxLength={CHAT_LIMITS.MAX_LENGTH}
+                  placeholder="Mensagem..."
+                  aria-label="Mensagem"
+                  className="flex-1 min-w-0 px-2 py-1 bg-slate-900 text-white text-xs rounded border border-slate-600 focus:border-blue-500 focus:outline-none"
+                />
+                <button
+                  type="submit"
+                  disabled={sending || !draft.trim()}
+                  className="px-3 py-1 bg-blue-600 hover:bg-blue-700 disabled:opacity-40 text-white text-xs rounded transition-colors"
+                >
+                  Enviar
+                </button>
+              </form>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
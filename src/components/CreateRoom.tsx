@@ -13,7 +13,26 @@
 import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { createRoom } from "@/lib/actions/room-actions";
-import { getGameModeConfig, type GameMode } from "@/types/game";
+import {
+  BOARD_SIZE_CONFIG,
+  BOARD_SIZES,
+  DEFAULT_BOARD_SIZE,
+  getGameModeConfig,
+  getWallsPerPlayer,
+  type BoardSize,
+  type GameMode,
+} from "@/types/game";
+import {
+  TIME_CONTROL_PRESETS,
+  TIMEOUT_ACTION_LABELS,
+  type TimeControlPresetId,
+} from "@/config/time-control";
+import {
+  BOT_PERSONALITIES,
+  BOT_PERSONALITY_LABELS,
+  DEFAULT_BOT_PERSONALITY,
+  type BotPersonality,
+} from "@/config/personalities";
 
 interface CreateRoomProps {
   onCancel: () => void;
@@ -24,7 +43,8 @@ type PlayerSlotType =
   | "HUMAN"
   | "BOT_EASY"
   | "BOT_MEDIUM"
-  | "BOT_HARD";
+  | "BOT_HARD"
+  | "BOT_EXPERT";
 
 export function CreateRoom({ onCancel }: CreateRoomProps) {
   const router = useRouter();
@@ -38,6 +58,15 @@ export function CreateRoom({ onCancel }: CreateRoomProps) {
     "HUMAN",
     "HUMAN",
   ]);
+  const [botPersonalities, setBotPersonalities] = useState<BotPersonality[]>(
+    Array(4).fill(DEFAULT_BOT_PERSONALITY)
+  );
+  const [timePreset, setTimePreset] = useState<TimeControlPresetId>("NONE");
+  const [timeoutAction, setTimeoutAction] =
+    useState<keyof typeof TIMEOUT_ACTION_LABELS>("SKIP");
+  const [untilPlacements, setUntilPlacements] = useState(false);
+  const [sharedWalls, setSharedWalls] = useState(false);
+  const [boardSize, setBoardSize] = useState<BoardSize>(DEFAULT_BOARD_SIZE);
 
   const handleCreateRoom = async () => {
     setLoading(true);
@@ -46,11 +75,17 @@ export function CreateRoom({ onCancel }: CreateRoomProps) {
     try {
       const config = getGameModeConfig(selectedMode);
       const maxPlayers = config.maxPlayers;
+      const preset = TIME_CONTROL_PRESETS.find((p) => p.id === timePreset);
 
       // Only pass slot configuration if bots are enabled
       const result = await createRoom(
         selectedMode,
-        allowBots ? playerSlots.slice(0, maxPlayers) : undefined
+        allowBots ? playerSlots.slice(0, maxPlayers) : undefined,
+        preset && { ...preset.settings, timeoutAction },
+        selectedMode === "FOUR_PLAYER" && untilPlacements,
+        selectedMode === "TEAMS" && sharedWalls,
+        boardSize,
+        allowBots ? botPersonalities.slice(0, maxPlayers) : undefined
       );
 
       if ("error" in result) {
@@ -69,7 +104,8 @@ export function CreateRoom({ onCancel }: CreateRoomProps) {
             (slot) =>
               slot === "BOT_EASY" ||
               slot === "BOT_MEDIUM" ||
-              slot === "BOT_HARD"
+              slot === "BOT_HARD" ||
+              slot === "BOT_EXPERT"
           );
 
           // If playing only against bots, skip lobby and go straight to game
@@ -95,6 +131,12 @@ export function CreateRoom({ onCancel }: CreateRoomProps) {
     setPlayerSlots(newSlots);
   };
 
+  const updateBotPersonality = (index: number, personality: BotPersonality) => {
+    const newPersonalities = [...botPersonalities];
+    newPersonalities[index] = personality;
+    setBotPersonalities(newPersonalities);
+  };
+
   const getSlotLabel = (type: PlayerSlotType): string => {
     switch (type) {
       case "EMPTY":
@@ -107,6 +149,8 @@ export function CreateRoom({ onCancel }: CreateRoomProps) {
         return "Bot (Medium)";
       case "BOT_HARD":
         return "Bot (Hard)";
+      case "BOT_EXPERT":
+        return "Bot (Expert)";
     }
   };
 
@@ -122,6 +166,8 @@ export function CreateRoom({ onCancel }: CreateRoomProps) {
         return "🤖";
       case "BOT_HARD":
         return "🤖";
+      case "BOT_EXPERT":
+        return "🤖";
     }
   };
 
@@ -187,9 +233,161 @@ export function CreateRoom({ onCancel }: CreateRoomProps) {
                   <div>• Mais estratégico</div>
                 </div>
               </button>
+
+              {/* 2v2 Teams Card */}
+              <button
+                onClick={() => setSelectedMode("TEAMS")}
+                disabled={loading}
+                className={`sm:col-span-2 p-6 rounded-xl border-2 transition-all duration-200 ${
+                  selectedMode === "TEAMS"
+                    ? "border-blue-500 bg-blue-900/30 shadow-lg shadow-blue-500/20"
+                    : "border-slate-700 bg-slate-800/50 hover:border-slate-600"
+                }`}
+              >
+                <div className="text-4xl mb-3">🤝</div>
+                <h3 className="text-xl font-bold text-white mb-2">
+                  Duplas (2v2)
+                </h3>
+                <p className="text-sm text-slate-300 mb-3">
+                  Parceiros em lados opostos
+                </p>
+                <div className="text-xs text-slate-400 space-y-1">
+                  <div>• 6 barreiras cada</div>
+                  <div>• A dupla vence quando um parceiro chega</div>
+                </div>
+              </button>
             </div>
           </div>
 
+          {/* Placements (4-player only) */}
+          {selectedMode === "FOUR_PLAYER" && (
+            <label className="flex items-center justify-between gap-3 p-3 bg-slate-800/50 rounded-lg border border-slate-700 cursor-pointer">
+              <div>
+                <div className="text-sm font-medium text-white">
+                  🏁 Jogar até definir colocações
+                </div>
+                <div className="text-xs text-slate-400">
+                  A partida continua até 2º, 3º e 4º lugares serem decididos
+                </div>
+              </div>
+              <input
+                type="checkbox"
+                checked={untilPlacements}
+                onChange={(e) => setUntilPlacements(e.target.checked)}
+                disabled={loading}
+                className="w-5 h-5 accent-blue-600"
+              />
+            </label>
+          )}
+
+          {/* Shared walls (teams only) */}
+          {selectedMode === "TEAMS" && (
+            <label className="flex items-center justify-between gap-3 p-3 bg-slate-800/50 rounded-lg border border-slate-700 cursor-pointer">
+              <div>
+                <div className="text-sm font-medium text-white">
+                  🧱 Barreiras compartilhadas
+                </div>
+                <div className="text-xs text-slate-400">
+                  Sem barreiras, o jogador usa as do parceiro
+                </div>
+              </div>
+              <input
+                type="checkbox"
+                checked={sharedWalls}
+                onChange={(e) => setSharedWalls(e.target.checked)}
+                disabled={loading}
+                className="w-5 h-5 accent-blue-600"
+              />
+            </label>
+          )}
+
+          {/* Board Size Section */}
+          <div className="space-y-3 pt-4 border-t border-slate-700">
+            <div>
+              <h2 className="text-lg font-semibold text-white">📐 Tabuleiro</h2>
+              <p className="text-sm text-slate-400">
+                As barreiras acompanham o tamanho do tabuleiro
+              </p>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+              {BOARD_SIZES.map((size) => (
+                <button
+                  key={size}
+                  onClick={() => setBoardSize(size)}
+                  disabled={loading}
+                  title={BOARD_SIZE_CONFIG[size].description}
+                  className={`px-3 py-2 rounded-lg border text-sm transition-all duration-200 ${
+                    boardSize === size
+                      ? "border-blue-500 bg-blue-900/30 text-white"
+                      : "border-slate-700 bg-slate-800/50 text-slate-300 hover:border-slate-600"
+                  }`}
+                >
+                  <div className="font-semibold">
+                    {BOARD_SIZE_CONFIG[size].label}
+                  </div>
+                  <div className="text-xs text-slate-400">
+                    {getWallsPerPlayer(selectedMode, size)} barreiras
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Time Control Section */}
+          <div className="space-y-3 pt-4 border-t border-slate-700">
+            <div>
+              <h2 className="text-lg font-semibold text-white">⏱️ Relógio</h2>
+              <p className="text-sm text-slate-400">
+                Limite de tempo para cada jogador
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              {TIME_CONTROL_PRESETS.map((preset) => (
+                <button
+                  key={preset.id}
+                  onClick={() => setTimePreset(preset.id)}
+                  disabled={loading}
+                  title={preset.description}
+                  className={`px-3 py-2 rounded-lg border text-sm transition-all duration-200 ${
+                    timePreset === preset.id
+                      ? "border-blue-500 bg-blue-900/30 text-white"
+                      : "border-slate-700 bg-slate-800/50 text-slate-300 hover:border-slate-600"
+                  }`}
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+
+            {timePreset !== "NONE" && (
+              <div className="flex items-center justify-between gap-3 p-3 bg-slate-800/50 rounded-lg border border-slate-700">
+                <span className="text-sm text-slate-300">
+                  Quando o tempo acabar:
+                </span>
+                <select
+                  value={timeoutAction}
+                  onChange={(e) =>
+                    setTimeoutAction(
+                      e.target.value as keyof typeof TIMEOUT_ACTION_LABELS
+                    )
+                  }
+                  disabled={loading}
+                  className="px-3 py-1.5 bg-slate-700 text-white text-sm rounded border border-slate-600 focus:border-blue-500 focus:outline-none"
+                >
+                  {Object.entries(TIMEOUT_ACTION_LABELS).map(
+                    ([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    )
+                  )}
+                </select>
+              </div>
+            )}
+          </div>
+
           {/* Bot Configuration Section */}
           <div className="space-y-4 pt-4 border-t border-slate-700">
             <div className="flex items-center justify-between">
@@ -272,8 +470,33 @@ export function CreateRoom({ onCancel }: CreateRoomProps) {
                           <option value="BOT_EASY">Bot - Easy</option>
                           <option value="BOT_MEDIUM">Bot - Medium</option>
                           <option value="BOT_HARD">Bot - Hard</option>
+                          <option value="BOT_EXPERT">Bot - Expert</option>
                         </select>
                       )}
+
+                      {/* Easy bots play at random, so style has no effect */}
+                      {index > 0 &&
+                        playerSlots[index] !== "HUMAN" &&
+                        playerSlots[index] !== "BOT_EASY" && (
+                          <select
+                            value={botPersonalities[index]}
+                            onChange={(e) =>
+                              updateBotPersonality(
+                                index,
+                                e.target.value as BotPersonality
+                              )
+                            }
+                            disabled={loading}
+                            aria-label={`Player ${index + 1} personality`}
+                            className="px-3 py-1.5 bg-slate-700 text-white text-sm rounded border border-slate-600 focus:border-blue-500 focus:outline-none"
+                          >
+                            {BOT_PERSONALITIES.map((personality) => (
+                              <option key={personality} value={personality}>
+                                {BOT_PERSONALITY_LABELS[personality]}
+                              </option>
+                            ))}
+                          </select>
+                        )}
                     </div>
                   ))}
 
@@ -3,126 +3,237 @@
  * GameBoard Component - Multiplayer Game Interface
  *
  * Wraps the game logic with Prisma-based multiplayer state:
- * - Polls database for real-time updates
+ * - Live updates over SSE, falling back to adaptive polling
  * - Syncs moves via server actions
  * - Validates turns server-side
+ * - Shows the turn clock (the server enforces timeouts)
+ * - Rematch: follows everyone to the new room and shows the series score
+ * - Placements mode: shows who already finished and the final standings
+ * - Teams mode: both partners share the win
  */
 
 "use client";
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import { toast } from "@/lib/toast";
 import { Loading } from "./Loading";
 import { playTurnSound } from "@/lib/sounds";
-import { getRoomState } from "@/lib/actions/room-actions";
+import { getRoomState, watchRoom } from "@/lib/actions/room-actions";
 import {
   makeMove,
   placeBarrier,
   undoLastAction,
 } from "@/lib/actions/game-actions";
+import { getGameRecord } from "@/lib/actions/replay-actions";
+import { acceptRematch, getSeriesScore } from "@/lib/actions/rematch-actions";
+import { requestHint } from "@/lib/actions/hint-actions";
 import { getAdaptiveInterval } from "@/config/polling";
-import type { Barrier } from "@prisma/client";
+import {
+  HINT_STRENGTHS,
+  HINT_STRENGTH_LABELS,
+  type HintStrength,
+} from "@/config/hints";
+import { useRoomEvents } from "@/hooks/useRoomEvents";
+import { useRoomChat } from "@/hooks/useRoomChat";
+import { roomToGameSnapshot } from "@/lib/game-snapshot";
+import { formatClock, playerClocks } from "@/lib/clock";
+import {
+  fromRoom,
+  nextPlayerId,
+  partnerOf,
+  teamOf,
+  turnAfterMove,
+  wallOwner,
+} from "@/lib/engine";
+import {
+  pendingRematchSeats,
+  seriesWins,
+  type SeriesScore,
+} from "@/lib/rematch";
+import { gamePlacements } from "@/lib/rating";
+import type { Hint } from "@/lib/hints";
 import BloqueioPage from "@/app/game";
+import { ChatPanel } from "./ChatPanel";
 import type { GameSnapshot } from "@/types/game";
-import type { RoomWithPlayers } from "@/types/room";
+import type { PublicRoom } from "@/types/room";
 
 interface GameBoardProps {
   roomCode: string;
+  /** Read-only view for non-players (/room/[code]/watch) */
+  spectator?: boolean;
 }
 
-export function GameBoard({ roomCode }: GameBoardProps) {
+export function GameBoard({ roomCode, spectator = false }: GameBoardProps) {
   const router = useRouter();
-  const [room, setRoom] = useState<RoomWithPlayers | null>(null);
+  const [room, setRoom] = useState<PublicRoom | null>(null);
   const [myPlayerId, setMyPlayerId] = useState<number | null>(null);
   const [showGameOver, setShowGameOver] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [canUndo, setCanUndo] = useState(false);
+  const [spectatorCount, setSpectatorCount] = useState(0);
+  const [series, setSeries] = useState<SeriesScore | null>(null);
+  const [acceptingRematch, setAcceptingRematch] = useState(false);
+  // Latest hint and the turn it was computed for (see lib/hints.ts)
+  const [hint, setHint] = useState<(Hint & { turnNumber: number }) | null>(
+    null
+  );
+  const [hintsLeft, setHintsLeft] = useState<number | null>(null);
+  const [hintStrength, setHintStrength] = useState<HintStrength>("MEDIUM");
+  const [loadingHint, setLoadingHint] = useState(false);
+  // Server time minus local time, so clocks agree with the server
+  const [clockOffset, setClockOffset] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
 
   // Track previous turn to detect when it becomes player's turn
   const prevTurnRef = useRef<number | null>(null);
 
-  // Poll for game state updates - ONLY when waiting for opponent
-  useEffect(() => {
-    const loadRoom = async () => {
-      const result = await getRoomState(roomCode);
-
-      if ("error" in result) {
-        console.error("Failed to load room:", result.error);
-        return;
-      }
-
-      setRoom(result.room);
-      setMyPlayerId(result.myPlayerId);
+  // Apply a room state from the server (initial load, stream or polling)
+  const applyRoomState = useCallback(
+    (nextRoom: PublicRoom, playerId: number | null) => {
+      setRoom(nextRoom);
 
       // Validate that current player exists in players array
-      const currentPlayer = result.room.players.find(
-        (p) => p.playerId === result.room.currentTurn
+      const currentPlayer = nextRoom.players.find(
+        (p) => p.playerId === nextRoom.currentTurn
       );
 
-      if (!currentPlayer && result.room.players.length > 0) {
+      if (!currentPlayer && nextRoom.players.length > 0) {
         console.error(
-          `[GameBoard] Current turn ${result.room.currentTurn} not found in players`,
-          result.room.players.map((p) => ({ id: p.playerId, name: p.name }))
+          `[GameBoard] Current turn ${nextRoom.currentTurn} not found in players`,
+          nextRoom.players.map((p) => ({ id: p.playerId, name: p.name }))
         );
         toast.error("Erro no estado do jogo. Retornando ao início...");
         setTimeout(() => router.push("/"), 2000);
         return;
       }
 
-      // Check if player can undo (they just moved and it's now opponent's turn)
-      const previousPlayerId =
-        (result.room.currentTurn - 1 + result.room.players.length) %
-        result.room.players.length;
+      // Check if player can undo (they just moved and it's now the next
+      // player's turn - the server checks the action log)
       setCanUndo(
-        result.myPlayerId === previousPlayerId && result.room.winner === null
+        playerId !== null &&
+          playerId !== nextRoom.currentTurn &&
+          nextPlayerId(fromRoom(nextRoom), playerId) === nextRoom.currentTurn &&
+          nextRoom.winner === null
       );
 
       // Check for winner
-      if (result.room.winner !== null && !showGameOver) {
+      if (nextRoom.winner !== null) {
         setShowGameOver(true);
       }
 
-      // If returned to waiting, go to lobby
-      if (result.room.status === "WAITING") {
+      // If returned to waiting, go to lobby (spectators wait here)
+      if (nextRoom.status === "WAITING" && !spectator) {
         router.push(`/room/${roomCode}/lobby`);
       }
-    };
 
-    loadRoom(); // Initial load
+      // Rematch created: everyone follows to the new room
+      if (nextRoom.rematchCode) {
+        router.push(
+          `/room/${nextRoom.rematchCode}/${spectator ? "watch" : "game"}`
+        );
+      }
+    },
+    [roomCode, router, spectator]
+  );
 
-    // Adaptive polling - only when it's NOT your turn
-    let intervalId: NodeJS.Timeout | null = null;
+  const loadRoom = useCallback(async () => {
+    // Spectators register their presence on every load
+    const result = await (spectator ? watchRoom : getRoomState)(roomCode);
 
-    const startPolling = () => {
-      if (intervalId) clearInterval(intervalId);
+    if ("error" in result) {
+      console.error("Failed to load room:", result.error);
+      return;
+    }
 
-      // Calculate adaptive interval from config
-      const interval = room
-        ? getAdaptiveInterval(new Date(room.updatedAt).getTime())
-        : 15000; // Default while loading
+    const playerId = spectator ? null : result.myPlayerId;
+    setMyPlayerId(playerId);
+    setSpectatorCount(result.spectatorCount);
+    setClockOffset(result.serverTime - Date.now());
+    applyRoomState(result.room, playerId);
+  }, [roomCode, spectator, applyRoomState]);
+
+  // Live updates over SSE; polling below only runs while it is down
+  const streamConnected = useRoomEvents(
+    roomCode,
+    (nextRoom, streamPlayerId) => {
+      const playerId = spectator ? null : streamPlayerId;
+      setMyPlayerId(playerId);
+      applyRoomState(nextRoom, playerId);
+    },
+    {
+      spectate: spectator,
+      onSpectators: setSpectatorCount,
+      onChat: (messages) => chat.receive(messages),
+    }
+  );
+  const chat = useRoomChat(roomCode, streamConnected);
 
-      console.log("Using polling interval:", interval);
+  // Initial load (timeout avoids synchronous setState in effect)
+  useEffect(() => {
+    const timer = setTimeout(loadRoom, 0);
+    return () => clearTimeout(timer);
+  }, [loadRoom]);
+
+  // Fallback: adaptive polling - ONLY when waiting for opponent (always
+  // for spectators)
+  const currentTurn = room?.currentTurn;
+  const lastUpdate = room ? new Date(room.updatedAt).getTime() : null;
+  useEffect(() => {
+    if (streamConnected || lastUpdate === null) return;
+    if (!spectator && (myPlayerId === null || currentTurn === myPlayerId)) {
+      return;
+    }
 
-      if (interval === null) {
-        // Room is very idle, stop polling
-        return;
-      }
+    // Calculate adaptive interval from config (null: room is very idle)
+    const interval = getAdaptiveInterval(lastUpdate);
+    if (interval === null) return;
+
+    const intervalId = setInterval(loadRoom, interval);
+    return () => clearInterval(intervalId);
+  }, [
+    streamConnected,
+    currentTurn,
+    lastUpdate,
+    myPlayerId,
+    spectator,
+    loadRoom,
+  ]);
+
+  // Series score (reloaded when a game of the series ends)
+  const seriesId = room?.seriesId ?? null;
+  const winner = room?.winner ?? null;
+  useEffect(() => {
+    if (!seriesId) return;
+
+    const timer = setTimeout(async () => {
+      const result = await getSeriesScore(roomCode);
+      if (!("error" in result)) setSeries(result.series);
+    }, 0);
+    return () => clearTimeout(timer);
+  }, [roomCode, seriesId, winner]);
+
+  // Tick the turn clock while a timed game is running
+  const clockRunning =
+    room?.status === "PLAYING" && room.timeControl !== "NONE";
+  useEffect(() => {
+    if (!clockRunning) return;
 
-      intervalId = setInterval(() => {
-        if (room && myPlayerId !== null && room.currentTurn !== myPlayerId) {
-          loadRoom();
-        }
-      }, interval);
-    };
+    const intervalId = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(intervalId);
+  }, [clockRunning]);
+
+  const clocks = room ? playerClocks(room, now + clockOffset) : null;
+  const turnRemaining = room ? (clocks?.get(room.currentTurn) ?? null) : null;
 
-    startPolling();
+  // Clock ran out: reload until the server has applied the timeout
+  const turnExpired = turnRemaining === 0;
+  useEffect(() => {
+    if (!turnExpired) return;
 
-    // Restart polling when room changes (adjusts interval)
-    return () => {
-      if (intervalId) clearInterval(intervalId);
-    };
-  }, [roomCode, router, showGameOver, room, myPlayerId]);
+    const intervalId = setInterval(loadRoom, 2000);
+    return () => clearInterval(intervalId);
+  }, [turnExpired, loadRoom]);
 
   // Play sound when it becomes the player's turn
   useEffect(() => {
@@ -139,78 +250,8 @@ export function GameBoard({ roomCode }: GameBoardProps) {
     }
   }, [room?.currentTurn, myPlayerId, room]);
 
-  // Helper function to compute blocked edges from barriers
-  const computeBlockedEdges = (barriers: Barrier[]): string[] => {
-    const edges: string[] = [];
-
-    const edgeKey = (r1: number, c1: number, r2: number, c2: number) => {
-      if (r1 > r2 || (r1 === r2 && c1 > c2)) {
-        [r1, r2] = [r2, r1];
-        [c1, c2] = [c2, c1];
-      }
-      return `${r1},${c1}-${r2},${c2}`;
-    };
-
-    for (const barrier of barriers) {
-      if (barrier.orientation === "HORIZONTAL") {
-        // Horizontal barrier blocks 2 edges
-        edges.push(
-          edgeKey(barrier.row, barrier.col, barrier.row + 1, barrier.col)
-        );
-        edges.push(
-          edgeKey(
-            barrier.row,
-            barrier.col + 1,
-            barrier.row + 1,
-            barrier.col + 1
-          )
-        );
-      } else {
-        // Vertical barrier blocks 2 edges
-        edges.push(
-          edgeKey(barrier.row, barrier.col, barrier.row, barrier.col + 1)
-        );
-        edges.push(
-          edgeKey(
-            barrier.row + 1,
-            barrier.col,
-            barrier.row + 1,
-            barrier.col + 1
-          )
-        );
-      }
-    }
-
-    return edges;
-  };
-
   // Convert Prisma models to GameSnapshot format
-  const gameState: GameSnapshot | null = room
-    ? {
-        players: room.players.map((p) => ({
-          id: p.playerId as 0 | 1 | 2 | 3,
-          row: p.row,
-          col: p.col,
-          goalSide: p.goalSide as "TOP" | "RIGHT" | "BOTTOM" | "LEFT",
-          wallsLeft: p.wallsLeft,
-          color: p.color,
-          label: `P${p.playerId + 1}`,
-          name: p.name,
-          playerType: p.playerType, // Pass bot type info to game UI
-        })),
-        barriers: room.barriers.map((b) => ({
-          id: b.id,
-          row: b.row,
-          col: b.col,
-          orientation:
-            b.orientation === "HORIZONTAL" ? ("H" as const) : ("V" as const),
-          placedBy: b.placedBy as 0 | 1 | 2 | 3,
-        })),
-        blockedEdges: computeBlockedEdges(room.barriers),
-        currentPlayerId: room.currentTurn as 0 | 1 | 2 | 3,
-        winner: room.winner as (0 | 1 | 2 | 3) | null,
-      }
-    : null;
+  const gameState: GameSnapshot | null = room ? roomToGameSnapshot(room) : null;
 
   // Handle moves from BloqueioPage with optimistic updates
   const handleGameStateChange = async (newState: GameSnapshot) => {
@@ -232,18 +273,23 @@ export function GameBoard({ roomCode }: GameBoardProps) {
 
     if (movedPosition) {
       // OPTIMISTIC UPDATE: Apply move immediately to UI
-      const optimisticRoom: RoomWithPlayers = {
+      const turn = turnAfterMove(
+        fromRoom(room),
+        myPlayerId,
+        newPlayerState.row,
+        newPlayerState.col
+      );
+      const optimisticRoom: PublicRoom = {
         ...room,
         players: room.players.map((p) =>
           p.playerId === myPlayerId
             ? { ...p, row: newPlayerState.row, col: newPlayerState.col }
             : p
         ),
-        currentTurn: ((room.currentTurn + 1) % room.players.length) as
-          | 0
-          | 1
-          | 2
-          | 3,
+        currentTurn: turn.currentPlayerId as 0 | 1 | 2 | 3,
+        finishOrder: turn.finishOrder ?? room.finishOrder,
+        turnNumber: room.turnNumber + 1,
+        turnStartedAt: new Date(Date.now() + clockOffset),
         updatedAt: new Date(),
       };
 
@@ -253,7 +299,8 @@ export function GameBoard({ roomCode }: GameBoardProps) {
       const result = await makeMove(
         roomCode,
         newPlayerState.row,
-        newPlayerState.col
+        newPlayerState.col,
+        room.turnNumber
       );
 
       if ("error" in result) {
@@ -273,7 +320,7 @@ export function GameBoard({ roomCode }: GameBoardProps) {
       const orientation =
         newBarrier.orientation === "H" ? "HORIZONTAL" : "VERTICAL";
 
-      const optimisticRoom: RoomWithPlayers = {
+      const optimisticRoom: PublicRoom = {
         ...room,
         barriers: [
           ...room.barriers,
@@ -288,13 +335,17 @@ export function GameBoard({ roomCode }: GameBoardProps) {
           },
         ],
         players: room.players.map((p) =>
-          p.playerId === myPlayerId ? { ...p, wallsLeft: p.wallsLeft - 1 } : p
+          p.playerId === wallOwner(fromRoom(room), myPlayerId)
+            ? { ...p, wallsLeft: p.wallsLeft - 1 }
+            : p
         ),
-        currentTurn: ((room.currentTurn + 1) % room.players.length) as
+        currentTurn: nextPlayerId(fromRoom(room), room.currentTurn) as
           | 0
           | 1
           | 2
           | 3,
+        turnNumber: room.turnNumber + 1,
+        turnStartedAt: new Date(Date.now() + clockOffset),
         updatedAt: new Date(),
       };
 
@@ -305,7 +356,8 @@ export function GameBoard({ roomCode }: GameBoardProps) {
         roomCode,
         newBarrier.row,
         newBarrier.col,
-        orientation
+        orientation,
+        room.turnNumber
       );
 
       if ("error" in result) {
@@ -330,14 +382,19 @@ export function GameBoard({ roomCode }: GameBoardProps) {
 
   // Handle undo action
   const handleUndo = async () => {
-    if (!canUndo || isLoading) return;
+    if (!room || !canUndo || isLoading) return;
 
     setIsLoading(true);
 
-    const result = await undoLastAction(roomCode);
+    const result = await undoLastAction(roomCode, room.turnNumber);
 
     if ("error" in result) {
       toast.error(result.error);
+      // The turn may have advanced meanwhile: resync
+      const refreshResult = await getRoomState(roomCode);
+      if (!("error" in refreshResult)) {
+        setRoom(refreshResult.room);
+      }
     } else {
       toast.success("Ação desfeita");
       // Refresh state from server
@@ -351,6 +408,59 @@ export function GameBoard({ roomCode }: GameBoardProps) {
     setIsLoading(false);
   };
 
+  // Accept a rematch (the last human to accept creates the room)
+  const handleRematch = async () => {
+    setAcceptingRematch(true);
+
+    const result = await acceptRematch(roomCode);
+
+    if ("error" in result) {
+      toast.error(result.error);
+    } else if (result.rematchCode) {
+      router.push(`/room/${result.rematchCode}/game`);
+      return;
+    } else {
+      await loadRoom();
+    }
+
+    setAcceptingRematch(false);
+  };
+
+  // Ask for a suggested action on our turn
+  const handleHint = async () => {
+    if (!room || loadingHint) return;
+
+    setLoadingHint(true);
+
+    const result = await requestHint(roomCode, hintStrength);
+
+    if ("error" in result) {
+      toast.error(result.error);
+    } else {
+      setHint({ ...result.hint, turnNumber: room.turnNumber });
+      setHintsLeft(result.hintsLeft);
+    }
+
+    setLoadingHint(false);
+  };
+
+  // Copy the game record (Bloqueio notation) to the clipboard
+  const handleCopyRecord = async () => {
+    const result = await getGameRecord(roomCode);
+
+    if ("error" in result) {
+      toast.error(result.error);
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(result.record);
+      toast.success("Notação da partida copiada");
+    } catch {
+      toast.error("Não foi possível copiar a notação");
+    }
+  };
+
   if (!room || !gameState) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-radial from-slate-950 to-black">
@@ -370,6 +480,59 @@ export function GameBoard({ roomCode }: GameBoardProps) {
     (p) => p.id === gameState.currentPlayerId
   );
 
+  // Rematch votes: humans who still have to accept
+  const rematchPending = room.players.filter((p) =>
+    pendingRematchSeats(room).includes(p.playerId)
+  );
+  const acceptedRematch =
+    myPlayerId !== null && room.rematchVotes.includes(myPlayerId);
+
+  // Placements mode: finished players sit out until the standings are set
+  const myFinish =
+    myPlayerId !== null ? room.finishOrder.indexOf(myPlayerId) : -1;
+  const teamGame = room.gameMode === "TEAMS";
+  const placements =
+    (room.untilPlacements || teamGame) && gameState.winner !== null
+      ? gamePlacements(
+          room.players,
+          gameState.winner,
+          room.finishOrder,
+          teamGame
+        )
+      : null;
+
+  // Winning seats: the winner, with their partner in a team game
+  const winnerPartner =
+    gameState.winner !== null
+      ? partnerOf(fromRoom(room), gameState.winner)
+      : null;
+  const winners = [gameState.winner, winnerPartner?.id ?? null].filter(
+    (id): id is number => id !== null
+  );
+
+  // Series score: one entry per seat, or per team in a TEAMS series
+  const seriesSides = series?.teams
+    ? [0, 1]
+        .map((team) => room.players.filter((p) => teamOf(p.playerId) === team))
+        .filter((side) => side.length > 0)
+    : room.players.map((p) => [p]);
+
+  // Hints: on our turn, outside rated games; a hint expires with its turn
+  const hintsEnabled =
+    !spectator && isMyTurn && gameState.winner === null && !room.rated;
+  const activeHint = hint && hint.turnNumber === room.turnNumber ? hint : null;
+  const winnerNames = winners
+    .map(
+      (id) =>
+        gameState.players.find((p) => p.id === id)?.name ?? `Jogador ${id + 1}`
+    )
+    .join(" e ");
+  const finalStandings = placements
+    ? [...gameState.players].sort(
+        (a, b) => (placements.get(a.id) ?? 0) - (placements.get(b.id) ?? 0)
+      )
+    : gameState.players;
+
   return (
     <div className="relative">
       {/* Game Info Header - responsive positioning */}
@@ -381,6 +544,22 @@ export function GameBoard({ roomCode }: GameBoardProps) {
               <span className="font-mono font-semibold text-white">
                 {roomCode}
               </span>
+              <button
+                onClick={handleCopyRecord}
+                title="Copiar notação da partida"
+                aria-label="Copiar notação da partida"
+                className="text-xs text-slate-400 hover:text-white transition-colors"
+              >
+                📋
+              </button>
+              {spectatorCount > 0 && (
+                <span
+                  title="Espectadores"
+                  className="text-xs text-slate-400 whitespace-nowrap"
+                >
+                  👁 {spectatorCount}
+                </span>
+              )}
             </div>
             {myPlayer && (
               <div className="flex items-center gap-2">
@@ -408,9 +587,57 @@ export function GameBoard({ roomCode }: GameBoardProps) {
                   {currentTurnPlayer?.name ??
                     `Jogador ${gameState.currentPlayerId + 1}`}
                 </span>
+                {turnRemaining !== null && (
+                  <span
+                    className={`font-mono text-xs font-semibold ${
+                      turnRemaining <= 10_000
+                        ? "text-red-400 animate-pulse"
+                        : "text-slate-200"
+                    }`}
+                  >
+                    ⏱️ {formatClock(turnRemaining)}
+                  </span>
+                )}
               </div>
             </div>
-            {isMyTurn ? (
+            {room.timeControl === "FISCHER" && clocks && (
+              <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1">
+                {room.players.map((p) => {
+                  const clock = clocks.get(p.playerId) ?? null;
+                  return (
+                    <div
+                      key={p.playerId}
+                      className="flex items-center gap-1 text-xs"
+                    >
+                      <div
+                        className="w-2 h-2 rounded-full"
+                        style={{ backgroundColor: p.color }}
+                      />
+                      <span
+                        className={`font-mono ${
+                          p.playerId === room.currentTurn
+                            ? "text-white font-semibold"
+                            : "text-slate-400"
+                        }`}
+                      >
+                        {clock === null ? "W.O." : formatClock(clock)}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+            {spectator ? (
+              <p className="text-slate-300 text-xs mt-1 text-center sm:text-left">
+                {room.status === "WAITING"
+                  ? "👁 Aguardando o início da partida..."
+                  : "👁 Assistindo"}
+              </p>
+            ) : myFinish >= 0 && gameState.winner === null ? (
+              <p className="text-green-400 font-semibold text-xs mt-1 text-center sm:text-left">
+                🏁 Você terminou em {myFinish + 1}º lugar
+              </p>
+            ) : isMyTurn ? (
               <p className="text-green-400 font-semibold text-xs mt-1 text-center sm:text-left">
                 ✓ Sua vez!
               </p>
@@ -423,13 +650,44 @@ export function GameBoard({ roomCode }: GameBoardProps) {
           {gameState.winner !== null && (
             <div className="border-t border-slate-600 pt-2 mt-2">
               <p className="text-yellow-400 font-bold text-center">
-                🏆{" "}
-                {gameState.players.find((p) => p.id === gameState.winner)
-                  ?.name ?? `Jogador ${gameState.winner + 1}`}{" "}
-                venceu!
+                🏆 {winnerNames} {winnerPartner ? "venceram" : "venceu"}!
               </p>
             </div>
           )}
+          {room.finishOrder.length > 0 && gameState.winner === null && (
+            <div className="border-t border-slate-600 pt-2 mt-2 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs">
+              <span className="text-slate-400">🏁</span>
+              {room.finishOrder.map((id, i) => (
+                <span key={id} className="text-white">
+                  {i + 1}º{" "}
+                  {gameState.players.find((p) => p.id === id)?.name ??
+                    `Jogador ${id + 1}`}
+                </span>
+              ))}
+            </div>
+          )}
+          {series && series.games > 0 && (
+            <div className="border-t border-slate-600 pt-2 mt-2 flex items-center gap-3 text-xs">
+              <span className="text-slate-400">Série:</span>
+              {seriesSides.map((side) => (
+                <span
+                  key={side[0].playerId}
+                  className="flex items-center gap-1"
+                >
+                  {side.map((p) => (
+                    <span
+                      key={p.playerId}
+                      className="w-2 h-2 rounded-full"
+                      style={{ backgroundColor: p.color }}
+                    />
+                  ))}
+                  <span className="font-mono text-white">
+                    {seriesWins(series, side[0].playerId)}
+                  </span>
+                </span>
+              ))}
+            </div>
+          )}
         </div>
       </div>
 
@@ -463,6 +721,48 @@ export function GameBoard({ roomCode }: GameBoardProps) {
         </div>
       )}
 
+      {/* Hint Button - suggested action on the player's turn */}
+      {hintsEnabled && (
+        <div className="fixed sm:absolute bottom-20 sm:bottom-auto right-4 sm:top-4 z-10 w-64 max-w-[calc(100vw-2rem)] space-y-2">
+          <div className="flex items-center justify-end gap-2">
+            <select
+              value={hintStrength}
+              onChange={(e) => setHintStrength(e.target.value as HintStrength)}
+              disabled={loadingHint}
+              aria-label="Força da dica"
+              className="bg-slate-800 border border-slate-600 text-white text-xs rounded-lg px-2 py-2"
+            >
+              {HINT_STRENGTHS.map((s) => (
+                <option key={s} value={s}>
+                  {HINT_STRENGTH_LABELS[s]}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleHint}
+              disabled={loadingHint || hintsLeft === 0}
+              className="flex items-center gap-2 px-3 py-2 sm:px-4 bg-sky-600 hover:bg-sky-700 disabled:bg-sky-800 disabled:opacity-50 text-white font-medium rounded-lg transition-colors shadow-lg text-sm"
+            >
+              {loadingHint ? <Loading size="sm" /> : <span>💡</span>}
+              Dica{hintsLeft !== null && ` (${hintsLeft})`}
+            </button>
+          </div>
+          {activeHint && (
+            <div className="bg-slate-800/95 border border-sky-500/50 rounded-lg px-3 py-2 text-sm text-slate-200 shadow-lg">
+              <span className="font-mono font-semibold text-sky-300">
+                {activeHint.notation}
+              </span>{" "}
+              {activeHint.explanation}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Chat - collapsible, next to the board */}
+      <div className="fixed top-4 right-4 sm:top-auto sm:bottom-4 z-10 w-72 max-w-[calc(100vw-2rem)]">
+        <ChatPanel chat={chat} players={room.players} myPlayerId={myPlayerId} />
+      </div>
+
       {/* Loading Overlay */}
       {isLoading && (
         <div className="absolute inset-0 bg-black/30 flex items-center justify-center z-20 pointer-events-none">
@@ -479,6 +779,7 @@ export function GameBoard({ roomCode }: GameBoardProps) {
         onGameStateChange={handleGameStateChange}
         myPlayerId={myPlayerId}
         disabled={!isMyTurn || gameState.winner !== null || isLoading}
+        hint={activeHint?.action ?? null}
       />
 
       {/* Game Over Modal */}
@@ -492,12 +793,9 @@ export function GameBoard({ roomCode }: GameBoardProps) {
                   Fim de Jogo!
                 </h2>
                 <p className="text-xl sm:text-2xl text-white">
-                  {myPlayerId === gameState.winner
+                  {myPlayerId !== null && winners.includes(myPlayerId)
                     ? "Você Venceu!"
-                    : `${
-                        gameState.players.find((p) => p.id === gameState.winner)
-                          ?.name ?? `Jogador ${gameState.winner + 1}`
-                      } Venceu!`}
+                    : `${winnerNames} ${winnerPartner ? "Venceram" : "Venceu"}!`}
                 </p>
               </div>
 
@@ -505,27 +803,57 @@ export function GameBoard({ roomCode }: GameBoardProps) {
               <div className="bg-slate-900/50 border border-slate-700 rounded-lg p-4">
                 <h3 className="text-sm font-semibold text-slate-400 mb-2">
                   Resultado Final
+                  {series && series.games > 0 && (
+                    <span className="font-normal">
+                      {" "}
+                      · Série ({series.games}{" "}
+                      {series.games === 1 ? "jogo" : "jogos"})
+                    </span>
+                  )}
                 </h3>
                 <div className="space-y-2">
-                  {gameState.players.map((player) => (
+                  {finalStandings.map((player) => (
                     <div
                       key={player.id}
                       className={`flex items-center gap-3 p-2 rounded ${
-                        player.id === gameState.winner
+                        winners.includes(player.id)
                           ? "bg-yellow-900/30 border border-yellow-600"
                           : "bg-slate-800/30"
                       }`}
                     >
+                      {placements && (
+                        <span className="w-6 font-mono text-sm text-slate-300">
+                          {placements.get(player.id)}º
+                        </span>
+                      )}
                       <div
                         className="w-6 h-6 rounded-full border-2 border-white shrink-0"
                         style={{ backgroundColor: player.color }}
                       />
                       <span className="text-white text-sm flex-1">
                         {player.name}
+                        {room.players.find((p) => p.playerId === player.id)
+                          ?.forfeited && (
+                          <span className="ml-2 text-xs text-red-400">
+                            (tempo esgotado)
+                          </span>
+                        )}
                       </span>
-                      {player.id === gameState.winner && (
+                      {winners.includes(player.id) && (
                         <span className="text-yellow-400 text-lg">👑</span>
                       )}
+                      {series && series.games > 0 && (
+                        <span
+                          title={
+                            series.teams
+                              ? "Vitórias da equipe na série"
+                              : "Vitórias na série"
+                          }
+                          className="font-mono text-sm text-slate-300"
+                        >
+                          {seriesWins(series, player.id)}
+                        </span>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -533,6 +861,30 @@ export function GameBoard({ roomCode }: GameBoardProps) {
 
               {/* Actions */}
               <div className="space-y-3">
+                {myPlayerId !== null && (
+                  <div className="space-y-1">
+                    <button
+                      onClick={handleRematch}
+                      disabled={acceptedRematch || acceptingRematch}
+                      className="w-full py-3 bg-green-600 hover:bg-green-700 disabled:bg-green-800 disabled:opacity-60 text-white font-semibold rounded-lg transition-colors"
+                    >
+                      {acceptedRematch ? "✓ Revanche aceita" : "🔁 Revanche"}
+                    </button>
+                    {room.rematchVotes.length > 0 &&
+                      rematchPending.length > 0 && (
+                        <p className="text-xs text-slate-400">
+                          Aguardando{" "}
+                          {rematchPending.map((p) => p.name).join(", ")}...
+                        </p>
+                      )}
+                  </div>
+                )}
+                <button
+                  onClick={() => router.push(`/room/${roomCode}/replay`)}
+                  className="w-full py-3 bg-slate-700 hover:bg-slate-600 text-white font-semibold rounded-lg transition-colors"
+                >
+                  Ver Replay
+                </button>
                 <button
                   onClick={() => router.push("/")}
                   className="w-full py-3 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors"
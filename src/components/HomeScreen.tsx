@@ -97,6 +97,7 @@ export function HomeScreen({
         ) : user ? (
           <UserMenu
             user={{
+              id: user.id,
               name: user.name,
               email: user.email,
               image: user.image,
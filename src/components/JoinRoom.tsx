@@ -169,6 +169,14 @@ export function JoinRoom({ onCancel }: JoinRoomProps) {
             )}
           </button>
 
+          <button
+            onClick={() => router.push(`/room/${code.join("")}/watch`)}
+            disabled={!isCodeComplete || joining}
+            className="w-full py-3 px-6 bg-slate-800 hover:bg-slate-700 border border-slate-600 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg transition-colors duration-200"
+          >
+            👁 Assistir Partida
+          </button>
+
           <button
             onClick={onCancel}
             disabled={joining}
@@ -1,26 +1,37 @@
 /**
  * Leaderboard Component
  *
- * Displays top players ranked by wins.
+ * Displays top players ranked by rating, one list per game mode.
  */
 
 "use client";
 
 import { useState, useEffect } from "react";
-import { getLeaderboard, type LeaderboardEntry } from "@/lib/actions/leaderboard-actions";
+import {
+  getLeaderboard,
+  type RatedLeaderboardEntry,
+} from "@/lib/actions/leaderboard-actions";
+import type { GameMode } from "@/types/game";
+
+const MODE_TABS: Array<{ mode: GameMode; label: string }> = [
+  { mode: "TWO_PLAYER", label: "2P" },
+  { mode: "FOUR_PLAYER", label: "4P" },
+  { mode: "TEAMS", label: "2v2" },
+];
 
 interface LeaderboardProps {
   limit?: number;
 }
 
 export function Leaderboard({ limit = 5 }: LeaderboardProps) {
-  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [gameMode, setGameMode] = useState<GameMode>("TWO_PLAYER");
+  const [entries, setEntries] = useState<RatedLeaderboardEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     const loadLeaderboard = async () => {
-      const result = await getLeaderboard(limit);
+      const result = await getLeaderboard(limit, gameMode);
 
       if ("error" in result) {
         setError(result.error);
@@ -31,14 +42,40 @@ export function Leaderboard({ limit = 5 }: LeaderboardProps) {
     };
 
     loadLeaderboard();
-  }, [limit]);
+  }, [limit, gameMode]);
+
+  const selectMode = (mode: GameMode) => {
+    if (mode === gameMode) return;
+    setLoading(true);
+    setError(null);
+    setGameMode(mode);
+  };
+
+  const title = (
+    <h3 className="text-lg font-semibold text-white mb-3 flex items-center justify-between gap-2">
+      <span>Leaderboard</span>
+      <span className="flex gap-1">
+        {MODE_TABS.map((tab) => (
+          <button
+            key={tab.mode}
+            onClick={() => selectMode(tab.mode)}
+            className={`px-2 py-0.5 rounded text-xs font-medium transition-colors ${
+              tab.mode === gameMode
+                ? "bg-blue-600 text-white"
+                : "bg-slate-700 text-slate-300 hover:bg-slate-600"
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </span>
+    </h3>
+  );
 
   if (loading) {
     return (
       <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-4">
-        <h3 className="text-lg font-semibold text-white mb-3 flex items-center gap-2">
-          <span>Leaderboard</span>
-        </h3>
+        {title}
         <div className="space-y-2">
           {[...Array(3)].map((_, i) => (
             <div
@@ -54,7 +91,7 @@ export function Leaderboard({ limit = 5 }: LeaderboardProps) {
   if (error) {
     return (
       <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-4">
-        <h3 className="text-lg font-semibold text-white mb-3">Leaderboard</h3>
+        {title}
         <p className="text-red-400 text-sm">{error}</p>
       </div>
     );
@@ -63,9 +100,9 @@ export function Leaderboard({ limit = 5 }: LeaderboardProps) {
   if (entries.length === 0) {
     return (
       <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-4">
-        <h3 className="text-lg font-semibold text-white mb-3">Leaderboard</h3>
+        {title}
         <p className="text-slate-400 text-sm text-center py-4">
-          No games played yet. Be the first!
+          No rated games yet. Be the first!
         </p>
       </div>
     );
@@ -86,9 +123,7 @@ export function Leaderboard({ limit = 5 }: LeaderboardProps) {
 
   return (
     <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-4">
-      <h3 className="text-lg font-semibold text-white mb-3 flex items-center gap-2">
-        <span>Leaderboard</span>
-      </h3>
+      {title}
       <div className="space-y-2">
         {entries.map((entry, index) => (
           <div
@@ -123,6 +158,12 @@ export function Leaderboard({ limit = 5 }: LeaderboardProps) {
                 {entry.gamesWon}W / {entry.gamesPlayed}G ({entry.winRate}%)
               </p>
             </div>
+            <div className="text-right shrink-0">
+              <p className="text-white text-sm font-mono font-semibold">
+                {entry.rating}
+              </p>
+              <p className="text-slate-500 text-xs">{entry.gamesRated} rated</p>
+            </div>
           </div>
         ))}
       </div>
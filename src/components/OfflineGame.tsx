@@ -0,0 +1,143 @@
+/**
+ * OfflineGame Component - Local hot-seat game
+ *
+ * Everyone plays on the same device; the board is plain React state:
+ * - New 2P / 4P game
+ * - Load a position from a game record (Bloqueio notation, see
+ *   lib/notation.ts) and keep playing from there
+ */
+
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "@/lib/toast";
+import { parseGameRecord } from "@/lib/notation";
+import BloqueioPage from "@/app/game";
+import {
+  GAME_MODE_CONFIG,
+  type GameMode,
+  type GameSnapshot,
+} from "@/types/game";
+
+/** Starting position of a new game (an empty record) */
+function newGame(gameMode: GameMode): GameSnapshot {
+  const result = parseGameRecord(`[Mode "${gameMode}"]`);
+  if ("error" in result) throw new Error(result.error);
+  return result.snapshot;
+}
+
+export function OfflineGame() {
+  const router = useRouter();
+  const [gameState, setGameState] = useState<GameSnapshot>(() =>
+    newGame("FOUR_PLAYER")
+  );
+  const [showLoad, setShowLoad] = useState(false);
+  const [record, setRecord] = useState("");
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const currentPlayer = gameState.players.find(
+    (p) => p.id === gameState.currentPlayerId
+  );
+  const winner = gameState.players.find((p) => p.id === gameState.winner);
+
+  const handleLoad = () => {
+    const result = parseGameRecord(record);
+
+    if ("error" in result) {
+      setLoadError(result.error);
+      return;
+    }
+
+    setGameState(result.snapshot);
+    setShowLoad(false);
+    setLoadError(null);
+    toast.success("Partida carregada");
+  };
+
+  return (
+    <div className="relative">
+      {/* Game Controls - responsive positioning */}
+      <div className="fixed sm:absolute bottom-4 left-4 right-4 sm:right-auto sm:bottom-auto sm:top-4 z-10 sm:w-80">
+        <div className="bg-slate-800/95 backdrop-blur border border-slate-700 rounded-lg p-3 sm:p-4 shadow-lg text-sm space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-semibold text-white">Jogo Offline</span>
+            <div className="flex items-center gap-2">
+              {currentPlayer && (
+                <div
+                  className="w-2.5 h-2.5 rounded-full"
+                  style={{ backgroundColor: currentPlayer.color }}
+                />
+              )}
+              <span className="text-white text-xs font-medium">
+                {winner
+                  ? `🏆 ${winner.name} venceu!`
+                  : `Vez de ${currentPlayer?.name ?? "..."}`}
+              </span>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {(Object.keys(GAME_MODE_CONFIG) as GameMode[]).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => setGameState(newGame(mode))}
+                className="py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors text-xs"
+              >
+                Novo: {GAME_MODE_CONFIG[mode].label}
+              </button>
+            ))}
+          </div>
+
+          <button
+            onClick={() => setShowLoad(!showLoad)}
+            className="w-full py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors text-xs"
+          >
+            📋 Carregar notação
+          </button>
+
+          {showLoad && (
+            <div className="space-y-2">
+              <textarea
+                value={record}
+                onChange={(e) => setRecord(e.target.value)}
+                rows={6}
+                placeholder={'[Mode "TWO_PLAYER"]\n\n1. B5 H5\n2. e3h G5'}
+                aria-label="Notação da partida"
+                className="w-full px-2 py-1 bg-slate-900 text-white font-mono text-xs rounded border border-slate-600 focus:border-blue-500 focus:outline-none"
+              />
+              {loadError && (
+                <p className="text-red-300 text-xs">
+                  Notação inválida: {loadError}
+                </p>
+              )}
+              <button
+                onClick={handleLoad}
+                disabled={!record.trim()}
+                className="w-full py-2 bg-green-600 hover:bg-green-700 disabled:opacity-40 text-white rounded-lg transition-colors text-xs"
+              >
+                Carregar
+              </button>
+            </div>
+          )}
+
+          <button
+            onClick={() => router.push("/")}
+            className="w-full py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors text-xs"
+          >
+            Voltar ao Início
+          </button>
+        </div>
+      </div>
+
+      {/* Game board (hot-seat: every player moves on this device) */}
+      <BloqueioPage
+        gameState={gameState}
+        onGameStateChange={(next) =>
+          setGameState({ ...next, gameMode: gameState.gameMode })
+        }
+        disabled={gameState.winner !== null}
+      />
+    </div>
+  );
+}
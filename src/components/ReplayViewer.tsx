@@ -0,0 +1,287 @@
+/**
+ * ReplayViewer Component - Watch a game move by move
+ *
+ * Rebuilds the board from the game's action log (see lib/replay.ts)
+ * and renders it with BloqueioPage in read-only mode:
+ * - Step forward/back (also ← / → keys)
+ * - Scrub to any action
+ * - Autoplay at adjustable speed
+ */
+
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loading } from "./Loading";
+import { getReplay } from "@/lib/actions/replay-actions";
+import { buildReplayFrames } from "@/lib/replay";
+import type { LoggedAction } from "@/lib/action-log";
+import BloqueioPage from "@/app/game";
+import type { PublicRoom } from "@/types/room";
+
+interface ReplayViewerProps {
+  roomCode: string;
+}
+
+/** Autoplay delay per action, by speed */
+const AUTOPLAY_SPEEDS = [
+  { label: "0.5x", delay: 2000 },
+  { label: "1x", delay: 1000 },
+  { label: "2x", delay: 500 },
+  { label: "4x", delay: 250 },
+] as const;
+
+export function ReplayViewer({ roomCode }: ReplayViewerProps) {
+  const router = useRouter();
+  const [replay, setReplay] = useState<{
+    room: PublicRoom;
+    actions: LoggedAction[];
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [step, setStep] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const loadReplay = useCallback(async () => {
+    const result = await getReplay(roomCode);
+
+    if ("error" in result) {
+      setError(result.error);
+      return;
+    }
+
+    setReplay(result);
+  }, [roomCode]);
+
+  // Initial load (timeout avoids synchronous setState in effect)
+  useEffect(() => {
+    const timer = setTimeout(loadReplay, 0);
+    return () => clearTimeout(timer);
+  }, [loadReplay]);
+
+  const frames = useMemo(() => {
+    if (!replay) return [];
+    try {
+      return buildReplayFrames(replay.room, replay.actions);
+    } catch (err) {
+      console.error("Error rebuilding replay:", err);
+      return null;
+    }
+  }, [replay]);
+  const lastStep = Math.max(0, (frames?.length ?? 0) - 1);
+
+  // Autoplay: advance one action per tick, stop at the end
+  useEffect(() => {
+    if (!playing) return;
+
+    const timer = setTimeout(() => {
+      if (step >= lastStep) {
+        setPlaying(false);
+      } else {
+        setStep(step + 1);
+      }
+    }, AUTOPLAY_SPEEDS[speed].delay);
+    return () => clearTimeout(timer);
+  }, [playing, step, lastStep, speed]);
+
+  const goTo = useCallback(
+    (target: number) => {
+      setPlaying(false);
+      setStep(Math.min(lastStep, Math.max(0, target)));
+    },
+    [lastStep]
+  );
+
+  // Keyboard: ← / → step, space toggles autoplay
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === "ArrowLeft") goTo(step - 1);
+      if (event.key === "ArrowRight") goTo(step + 1);
+      if (event.key === " ") {
+        event.preventDefault();
+        setPlaying((p) => !p);
+      }
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [goTo, step]);
+
+  if (error || frames === null) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-radial from-slate-950 to-black">
+        <div className="text-center space-y-4">
+          <p className="text-red-300">
+            Replay indisponível: {error ?? "histórico incompleto"}
+          </p>
+          <button
+            onClick={() => router.push("/")}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+          >
+            Voltar ao Início
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!replay || frames.length === 0) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-radial from-slate-950 to-black">
+        <div className="text-center">
+          <Loading size="xl" color="border-blue-500" className="mx-auto mb-4" />
+          <p className="text-slate-400">Carregando replay...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { action, snapshot: frame } = frames[step];
+  const actor = frame.players.find((p) => p.id === action.playerId);
+
+  const describeAction = (a: LoggedAction) => {
+    switch (a.type) {
+      case "MOVE":
+        return `moveu para (${a.payload.toRow}, ${a.payload.toCol})`;
+      case "WALL":
+        return `colocou barreira ${
+          a.payload.orientation === "HORIZONTAL" ? "horizontal" : "vertical"
+        } em (${a.payload.row}, ${a.payload.col})`;
+      case "SKIP":
+        return "perdeu a vez (tempo esgotado)";
+      case "FORFEIT":
+        return "foi eliminado (tempo esgotado)";
+      default:
+        return "";
+    }
+  };
+
+  return (
+    <div className="relative">
+      {/* Replay Controls - responsive positioning */}
+      <div className="fixed sm:absolute bottom-4 left-4 right-4 sm:right-auto sm:bottom-auto sm:top-4 z-10 sm:w-80">
+        <div className="bg-slate-800/95 backdrop-blur border border-slate-700 rounded-lg p-3 sm:p-4 shadow-lg text-sm space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <span className="text-slate-400 text-xs">Replay:</span>
+              <span className="font-mono font-semibold text-white">
+                {roomCode}
+              </span>
+            </div>
+            <span className="text-slate-400 text-xs">
+              {step}/{lastStep}
+            </span>
+          </div>
+
+          <p className="text-xs text-slate-300 min-h-[1rem]">
+            {action.type !== "START" && actor ? (
+              <>
+                <span
+                  className="inline-block w-2.5 h-2.5 rounded-full mr-1 align-middle"
+                  style={{ backgroundColor: actor.color }}
+                />
+                {actor.name} {describeAction(action)}
+              </>
+            ) : (
+              "Posição inicial"
+            )}
+          </p>
+
+          <input
+            type="range"
+            min={0}
+            max={lastStep}
+            value={step}
+            onChange={(e) => goTo(Number(e.target.value))}
+            aria-label="Posição no replay"
+            className="w-full accent-blue-500"
+          />
+
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => goTo(0)}
+                disabled={step === 0}
+                aria-label="Início"
+                className="px-2 py-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-white rounded transition-colors"
+              >
+                ⏮
+              </button>
+              <button
+                onClick={() => goTo(step - 1)}
+                disabled={step === 0}
+                aria-label="Voltar"
+                className="px-2 py-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-white rounded transition-colors"
+              >
+                ◀
+              </button>
+              <button
+                onClick={() => {
+                  if (step >= lastStep) setStep(0);
+                  setPlaying(!playing);
+                }}
+                disabled={lastStep === 0}
+                aria-label={playing ? "Pausar" : "Reproduzir"}
+                className="px-3 py-1 bg-blue-600 hover:bg-blue-700 disabled:opacity-40 text-white rounded transition-colors"
+              >
+                {playing ? "⏸" : "▶"}
+              </button>
+              <button
+                onClick={() => goTo(step + 1)}
+                disabled={step === lastStep}
+                aria-label="Avançar"
+                className="px-2 py-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-white rounded transition-colors"
+              >
+                ▶
+              </button>
+              <button
+                onClick={() => goTo(lastStep)}
+                disabled={step === lastStep}
+                aria-label="Fim"
+                className="px-2 py-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-white rounded transition-colors"
+              >
+                ⏭
+              </button>
+            </div>
+
+            <select
+              value={speed}
+              onChange={(e) => setSpeed(Number(e.target.value))}
+              aria-label="Velocidade"
+              className="px-2 py-1 bg-slate-700 text-white text-xs rounded border border-slate-600 focus:border-blue-500 focus:outline-none"
+            >
+              {AUTOPLAY_SPEEDS.map((s, index) => (
+                <option key={s.label} value={index}>
+                  {s.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {frame.winner !== null && (
+            <p className="text-yellow-400 font-bold text-center border-t border-slate-600 pt-2">
+              🏆{" "}
+              {frame.players.find((p) => p.id === frame.winner)?.name ??
+                `Jogador ${frame.winner + 1}`}{" "}
+              venceu!
+            </p>
+          )}
+
+          <button
+            onClick={() => router.push("/")}
+            className="w-full py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors text-xs"
+          >
+            Voltar ao Início
+          </button>
+        </div>
+      </div>
+
+      {/* Board (read-only) */}
+      <BloqueioPage
+        gameState={frame}
+        onGameStateChange={() => {}}
+        myPlayerId={null}
+        disabled
+      />
+    </div>
+  );
+}
@@ -4,16 +4,27 @@
  * Displays logged-in user info and provides:
  * - User name/avatar display
  * - Sign out button
- * - Game stats (optional)
+ * - Ratings per game mode, with recent history (loaded when opened)
  */
 
 "use client";
 
 import { useState } from "react";
 import { signOut } from "@/lib/auth-client";
+import {
+  getUserRatings,
+  type UserRatingSummary,
+} from "@/lib/actions/leaderboard-actions";
+
+const MODE_LABELS = {
+  TWO_PLAYER: "2 Players",
+  FOUR_PLAYER: "4 Players",
+  TEAMS: "2v2 Teams",
+};
 
 interface UserMenuProps {
   user: {
+    id: string;
     name: string;
     email: string;
     image?: string | null;
@@ -24,6 +35,17 @@ interface UserMenuProps {
 export function UserMenu({ user, onSignOut }: UserMenuProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [signingOut, setSigningOut] = useState(false);
+  const [ratings, setRatings] = useState<UserRatingSummary[] | null>(null);
+
+  const handleToggle = async () => {
+    setIsOpen(!isOpen);
+
+    // Refresh ratings every time the menu opens
+    if (!isOpen) {
+      const result = await getUserRatings(user.id);
+      if (!("error" in result)) setRatings(result.ratings);
+    }
+  };
 
   const handleSignOut = async () => {
     setSigningOut(true);
@@ -48,7 +70,7 @@ export function UserMenu({ user, onSignOut }: UserMenuProps) {
     <div className="relative">
       {/* User Button */}
       <button
-        onClick={() => setIsOpen(!isOpen)}
+        onClick={handleToggle}
         className="flex items-center gap-3 px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-600 rounded-full transition-colors"
       >
         {/* Avatar */}
@@ -104,6 +126,47 @@ export function UserMenu({ user, onSignOut }: UserMenuProps) {
               <p className="text-slate-400 text-sm truncate">{user.email}</p>
             </div>
 
+            {/* Ratings */}
+            <div className="px-4 py-3 border-b border-slate-700 space-y-2">
+              {ratings === null ? (
+                <div className="h-8 bg-slate-700/50 rounded animate-pulse" />
+              ) : ratings.length === 0 ? (
+                <p className="text-slate-400 text-sm">No rated games yet</p>
+              ) : (
+                ratings.map((r) => {
+                  const last = r.history[r.history.length - 1];
+                  return (
+                    <div
+                      key={r.gameMode}
+                      className="flex items-center justify-between gap-3"
+                    >
+                      <div>
+                        <p className="text-slate-400 text-xs">
+                          {MODE_LABELS[r.gameMode]} · #{r.rank}
+                        </p>
+                        <p className="text-white font-mono font-semibold">
+                          {r.rating}
+                          {last && last.change !== 0 && (
+                            <span
+                              className={`ml-2 text-xs ${
+                                last.change > 0
+                                  ? "text-green-400"
+                                  : "text-red-400"
+                              }`}
+                            >
+                              {last.change > 0 ? "▲" : "▼"}
+                              {Math.abs(last.change)}
+                            </span>
+                          )}
+                        </p>
+                      </div>
+                      <RatingSparkline history={r.history} />
+                    </div>
+                  );
+                })
+              )}
+            </div>
+
             {/* Menu Items */}
             <div className="py-2">
               <button
@@ -133,3 +196,33 @@ export function UserMenu({ user, onSignOut }: UserMenuProps) {
     </div>
   );
 }
+
+/** Tiny line chart of the recent ratings */
+function RatingSparkline({
+  history,
+}: {
+  history: UserRatingSummary["history"];
+}) {
+  if (history.length < 2) return null;
+
+  const values = history.map((h) => h.rating);
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min || 1;
+  const points = values
+    .map(
+      (v, i) =>
+        `${(i / (values.length - 1)) * 80},${22 - ((v - min) / range) * 20}`
+    )
+    .join(" ");
+
+  return (
+    <svg width="80" height="24" className="text-blue-400 shrink-0">
+      <polyline
+        points={points}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={1.5}
+      />
+    </svg>
+  );
+}
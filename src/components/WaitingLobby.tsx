@@ -4,7 +4,7 @@
  * WaitingLobby Component
  *
  * Shows all players in the room and allows the host to start the game.
- * Polls database for real-time updates.
+ * Live updates over SSE, polling the database while the stream is down.
  */
 
 "use client";
@@ -13,13 +13,22 @@ import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { useSession } from "@/lib/auth-client";
 import { toast } from "@/lib/toast";
-import { getRoomState } from "@/lib/actions/room-actions";
+import { choosePartner, getRoomState } from "@/lib/actions/room-actions";
 import { startGame } from "@/lib/actions/game-actions";
 import { POLLING_INTERVALS } from "@/config/polling";
+import { useRoomEvents } from "@/hooks/useRoomEvents";
+import { useRoomChat } from "@/hooks/useRoomChat";
+import { ChatPanel } from "./ChatPanel";
 import { AuthOrGuestModal } from "./AuthOrGuestModal";
 import { Loading } from "./Loading";
-import { getGameModeConfig, type GameMode } from "@/types/game";
-import type { RoomWithPlayers } from "@/types/room";
+import { teamOf } from "@/lib/engine";
+import {
+  DEFAULT_BOARD_SIZE,
+  getGameModeConfig,
+  getWallsPerPlayer,
+  type GameMode,
+} from "@/types/game";
+import type { PublicRoom } from "@/types/room";
 
 interface WaitingLobbyProps {
   roomCode: string;
@@ -28,8 +37,10 @@ interface WaitingLobbyProps {
 export function WaitingLobby({ roomCode }: WaitingLobbyProps) {
   const router = useRouter();
   const { data: session, isPending: sessionPending } = useSession();
-  const [room, setRoom] = useState<RoomWithPlayers | null>(null);
-  const [myPlayerId, setMyPlayerId] = useState<number | null>(null);
+  const [room, setRoom] = useState<PublicRoom | null>(null);
+  // Player row id: the host can move players to other seats (team choice)
+  const [myRowId, setMyRowId] = useState<string | null>(null);
+  const [spectatorCount, setSpectatorCount] = useState(0);
   const [loading, setLoading] = useState(true);
   const [starting, setStarting] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -55,36 +66,61 @@ export function WaitingLobby({ roomCode }: WaitingLobbyProps) {
     }
   }, [sessionPending, hasIdentity]);
 
-  // Poll for room updates
-  useEffect(() => {
-    const loadRoom = async () => {
-      const result = await getRoomState(roomCode);
+  // Apply a room state from the server (initial load, stream or polling)
+  const applyRoomState = (nextRoom: PublicRoom) => {
+    setRoom(nextRoom);
+    setLoading(false);
 
-      if ("error" in result) {
-        setError(result.error || "Failed to load room");
-        setLoading(false);
-        return;
-      }
+    // If game started, navigate to game page
+    if (nextRoom.status === "PLAYING") {
+      router.push(`/room/${roomCode}/game`);
+    }
+  };
 
-      setRoom(result.room);
-      setMyPlayerId(result.myPlayerId);
+  const loadRoom = async () => {
+    const result = await getRoomState(roomCode);
+
+    if ("error" in result) {
+      setError(result.error || "Failed to load room");
       setLoading(false);
+      return;
+    }
 
-      // If game started, navigate to game page
-      if (result.room.status === "PLAYING") {
-        router.push(`/room/${roomCode}/game`);
-      }
-    };
+    setMyRowId(
+      result.room.players.find((p) => p.playerId === result.myPlayerId)?.id ??
+        null
+    );
+    setSpectatorCount(result.spectatorCount);
+    applyRoomState(result.room);
+  };
 
+  // Live updates over SSE; polling below only runs while it is down
+  const streamConnected = useRoomEvents(roomCode, applyRoomState, {
+    onSpectators: setSpectatorCount,
+    onChat: (messages) => chat.receive(messages),
+  });
+  const chat = useRoomChat(roomCode, streamConnected);
+
+  // Initial load
+  useEffect(() => {
     loadRoom();
-    const interval = setInterval(loadRoom, POLLING_INTERVALS.LOBBY);
+  }, [roomCode, router]);
+
+  // Fallback: poll for room updates
+  useEffect(() => {
+    if (streamConnected) return;
 
+    const interval = setInterval(loadRoom, POLLING_INTERVALS.LOBBY);
     return () => clearInterval(interval);
-  }, [roomCode, router]);
+  }, [roomCode, router, streamConnected]);
+
+  const myPlayerId =
+    room?.players.find((p) => p.id === myRowId)?.playerId ?? null;
 
-  // Auto-start game when room is full
+  // Auto-start game when room is full (team games wait for the host to
+  // choose a partner)
   useEffect(() => {
-    if (!room || starting) return;
+    if (!room || starting || room.gameMode === "TEAMS") return;
 
     const config = getGameModeConfig(room.gameMode);
     const playerCount = room.players.length;
@@ -117,6 +153,17 @@ export function WaitingLobby({ roomCode }: WaitingLobbyProps) {
     }
   };
 
+  const handleChoosePartner = async (playerId: number) => {
+    const result = await choosePartner(roomCode, playerId);
+
+    if ("error" in result) {
+      toast.error(result.error);
+      return;
+    }
+
+    await loadRoom();
+  };
+
   const handleCopyCode = () => {
     navigator.clipboard.writeText(roomCode);
     toast.success("Código copiado!");
@@ -164,7 +211,11 @@ export function WaitingLobby({ roomCode }: WaitingLobbyProps) {
     isHost &&
     playerCount >= config.minPlayers &&
     playerCount <= config.maxPlayers &&
-    (room.gameMode === "FOUR_PLAYER" || playerCount === 2); // 2P mode requires exactly 2
+    (room.gameMode === "FOUR_PLAYER" || playerCount === config.maxPlayers); // 2P and teams need a full room
+  const wallsPerPlayer = getWallsPerPlayer(
+    (room.gameMode as GameMode) || "FOUR_PLAYER",
+    room.boardSize
+  );
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-radial from-slate-950 to-black p-4">
@@ -176,10 +227,18 @@ export function WaitingLobby({ roomCode }: WaitingLobbyProps) {
           {/* Game Mode Badge */}
           <div className="inline-flex items-center gap-2 bg-blue-900/30 border border-blue-500/50 rounded-lg px-4 py-2 mb-4">
             <span className="text-2xl">
-              {room.gameMode === "TWO_PLAYER" ? "🎯" : "🎲"}
+              {room.gameMode === "TWO_PLAYER"
+                ? "🎯"
+                : room.gameMode === "TEAMS"
+                  ? "🤝"
+                  : "🎲"}
             </span>
             <span className="text-sm font-semibold text-blue-300">
-              {config.label} • {config.wallsPerPlayer} barreiras cada
+              {config.label} • {wallsPerPlayer} barreiras cada
+              {room.boardSize !== DEFAULT_BOARD_SIZE &&
+                ` • tabuleiro ${room.boardSize}x${room.boardSize}`}
+              {room.untilPlacements && " • até definir colocações"}
+              {room.sharedWalls && " • barreiras compartilhadas"}
             </span>
           </div>
 
@@ -204,12 +263,17 @@ export function WaitingLobby({ roomCode }: WaitingLobbyProps) {
           <div className="flex items-center justify-between mb-4">
             <h2 className="text-xl font-semibold text-white">
               Jogadores ({playerCount}/{config.maxPlayers})
+              {spectatorCount > 0 && (
+                <span className="ml-3 text-sm font-normal text-slate-400">
+                  👁 {spectatorCount} assistindo
+                </span>
+              )}
             </h2>
             {playerCount < config.minPlayers && (
               <p className="text-sm text-yellow-400">
-                {room.gameMode === "TWO_PLAYER"
-                  ? "Aguardando 1 jogador"
-                  : "Mínimo de 2 jogadores"}
+                {room.gameMode === "FOUR_PLAYER"
+                  ? "Mínimo de 2 jogadores"
+                  : `Aguardando ${config.minPlayers - playerCount} jogador(es)`}
               </p>
             )}
           </div>
@@ -228,9 +292,22 @@ export function WaitingLobby({ roomCode }: WaitingLobbyProps) {
                   <p className="text-white font-semibold">{player.name}</p>
                   <p className="text-sm text-slate-400">
                     Jogador {player.playerId + 1}
+                    {room.gameMode === "TEAMS" &&
+                      ` • Dupla ${teamOf(player.playerId) === 0 ? "A" : "B"}`}
                   </p>
                 </div>
                 <div className="flex gap-2">
+                  {isHost &&
+                    room.gameMode === "TEAMS" &&
+                    teamOf(player.playerId) === 1 && (
+                      <button
+                        onClick={() => handleChoosePartner(player.playerId)}
+                        disabled={starting}
+                        className="px-3 py-1 bg-green-600/30 hover:bg-green-600/50 border border-green-500 text-green-300 text-xs font-semibold rounded-full transition-colors"
+                      >
+                        🤝 Parceiro
+                      </button>
+                    )}
                   {player.playerId === myPlayerId && (
                     <span className="px-3 py-1 bg-blue-600/30 border border-blue-500 text-blue-300 text-xs font-semibold rounded-full">
                       VOCÊ
@@ -260,6 +337,15 @@ export function WaitingLobby({ roomCode }: WaitingLobbyProps) {
           </div>
         </div>
 
+        {/* Chat */}
+        <ChatPanel
+          chat={chat}
+          players={room.players}
+          myPlayerId={myPlayerId}
+          defaultOpen
+          className="mb-6"
+        />
+
         {/* Actions */}
         <div className="space-y-3">
           {isHost ? (
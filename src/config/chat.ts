@@ -0,0 +1,55 @@
+/**
+ * Chat Configuration
+ *
+ * Limits and quick emotes for the room chat (see src/lib/chat.ts).
+ */
+
+export const CHAT_LIMITS = {
+  MAX_LENGTH: 200, // characters per message
+  HISTORY: 50, // messages loaded when opening a room
+  MIN_INTERVAL_MS: 1000, // 1s - per player, between two messages
+  POLL_INTERVAL: 5000, // 5s - fallback polling while the room stream is down
+} as const;
+
+/** One-tap reactions; stored by id, rendered with the emoji and label */
+export const QUICK_EMOTES = [
+  { id: "HELLO", emoji: "👋", label: "Oi!" },
+  { id: "GOOD_MOVE", emoji: "👍", label: "Boa jogada!" },
+  { id: "WOW", emoji: "😮", label: "Uau!" },
+  { id: "THINKING", emoji: "🤔", label: "Hmm..." },
+  { id: "LAUGH", emoji: "😂", label: "Haha" },
+  { id: "BLOCKED", emoji: "🧱", label: "Bloqueado!" },
+  { id: "GG", emoji: "🤝", label: "Bom jogo!" },
+] as const;
+
+export type QuickEmoteId = (typeof QUICK_EMOTES)[number]["id"];
+
+/**
+ * Words masked by the profanity filter (matched whole-word, ignoring case
+ * and accents; a trailing "s" is also matched)
+ */
+export const BLOCKED_WORDS = [
+  "arrombado",
+  "babaca",
+  "buceta",
+  "caralho",
+  "corno",
+  "cu",
+  "cuzao",
+  "foda",
+  "fodase",
+  "foder",
+  "otario",
+  "porra",
+  "puta",
+  "puto",
+  "merda",
+  "vagabundo",
+  "viado",
+  "asshole",
+  "bitch",
+  "cunt",
+  "dick",
+  "fuck",
+  "shit",
+] as const;
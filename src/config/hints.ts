@@ -0,0 +1,19 @@
+/**
+ * Hint Configuration
+ *
+ * Limits and strengths for the suggested-move hint (see src/lib/hints.ts).
+ */
+
+export const HINT_LIMITS = {
+  PER_GAME: 3, // hints per player per game
+} as const;
+
+/** Bot strategies a hint can be computed with, weakest first */
+export const HINT_STRENGTHS = ["MEDIUM", "HARD"] as const;
+
+export type HintStrength = (typeof HINT_STRENGTHS)[number];
+
+export const HINT_STRENGTH_LABELS: Record<HintStrength, string> = {
+  MEDIUM: "Médio",
+  HARD: "Difícil",
+};
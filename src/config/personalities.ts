@@ -0,0 +1,67 @@
+/**
+ * Bot Personality Configuration
+ *
+ * Style profiles the host can give each bot in CreateRoom. A personality
+ * changes how a bot plays, not how strong it is: difficulty still picks the
+ * strategy (see src/lib/bot/registry.ts).
+ */
+
+export const BOT_PERSONALITIES = [
+  "BALANCED",
+  "AGGRESSIVE",
+  "RUNNER",
+  "DEFENSIVE",
+] as const;
+
+export type BotPersonality = (typeof BOT_PERSONALITIES)[number];
+
+export const DEFAULT_BOT_PERSONALITY: BotPersonality = "BALANCED";
+
+/** Which rivals a bot plays against in 4-player games */
+export type TargetSelection =
+  | "LEADER" // the rival closest to their goal
+  | "ALL"; // every rival alike
+
+export interface PersonalityProfile {
+  /** 0-1: how readily walls are spent instead of moving */
+  wallPropensity: number;
+  /** 0-1: trust in the bot's own race over stopping rivals */
+  riskTolerance: number;
+  targetSelection: TargetSelection;
+}
+
+export const PERSONALITY_PROFILES: Record<BotPersonality, PersonalityProfile> =
+  {
+    BALANCED: {
+      wallPropensity: 0.5,
+      riskTolerance: 0.5,
+      targetSelection: "LEADER",
+    },
+    AGGRESSIVE: {
+      wallPropensity: 0.9,
+      riskTolerance: 0.6,
+      targetSelection: "ALL",
+    },
+    RUNNER: {
+      wallPropensity: 0.1,
+      riskTolerance: 0.9,
+      targetSelection: "LEADER",
+    },
+    DEFENSIVE: {
+      wallPropensity: 0.7,
+      riskTolerance: 0.1,
+      targetSelection: "LEADER",
+    },
+  };
+
+export const BOT_PERSONALITY_LABELS: Record<BotPersonality, string> = {
+  BALANCED: "Balanced",
+  AGGRESSIVE: "Aggressive waller",
+  RUNNER: "Runner",
+  DEFENSIVE: "Defensive blocker",
+};
+
+/** Type guard to check if a value is a valid BotPersonality */
+export function isBotPersonality(value: string): value is BotPersonality {
+  return (BOT_PERSONALITIES as readonly string[]).includes(value);
+}
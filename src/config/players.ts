@@ -0,0 +1,62 @@
+/**
+ * Player Seat Configuration
+ *
+ * Starting cell (standard 9x9 board), goal side and color of each seat
+ * (playerId 0-3). Used by the server when seating players and by the game
+ * notation to rebuild a standard starting position.
+ */
+
+import { DEFAULT_BOARD_SIZE, type GoalSide } from "@/types/game";
+
+export const PLAYER_CONFIGS = [
+  {
+    name: "Player 1",
+    color: "#ef4444",
+    row: 5,
+    col: 1, // First cell AFTER left border
+    goalSide: "RIGHT" as GoalSide,
+  },
+  {
+    name: "Player 2",
+    color: "#3b82f6",
+    row: 1, // First cell AFTER top border
+    col: 5,
+    goalSide: "BOTTOM" as GoalSide,
+  },
+  {
+    name: "Player 3",
+    color: "#22c55e",
+    row: 5,
+    col: 9, // First cell AFTER right border
+    goalSide: "LEFT" as GoalSide,
+  },
+  {
+    name: "Player 4",
+    color: "#f59e0b",
+    row: 9, // First cell AFTER bottom border
+    col: 5,
+    goalSide: "TOP" as GoalSide,
+  },
+];
+
+/**
+ * Starting cell of a seat on a board with `size` inner cells per side:
+ * centered on the side opposite the seat's goal
+ */
+export function startingCell(
+  playerId: number,
+  size: number = DEFAULT_BOARD_SIZE
+): { row: number; col: number } {
+  const middle = (size + 1) / 2;
+
+  switch (PLAYER_CONFIGS[playerId].goalSide) {
+    case "RIGHT":
+      return { row: middle, col: 1 };
+    case "BOTTOM":
+      return { row: 1, col: middle };
+    case "LEFT":
+      return { row: middle, col: size };
+    case "TOP":
+      return { row: size, col: middle };
+  }
+}
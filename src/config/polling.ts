@@ -28,6 +28,27 @@ export const POLLING_INTERVALS = {
   IDLE_THRESHOLD: 300_000, // 5 minutes
 } as const;
 
+/**
+ * Room event stream (Server-Sent Events)
+ * While the stream is connected clients skip polling; when it drops they
+ * fall back to the polling intervals above until it reconnects.
+ */
+export const ROOM_STREAM = {
+  CHECK_INTERVAL: 1000, // 1s - how often the server checks the room for changes
+  HEARTBEAT_INTERVAL: 15_000, // 15s - keep-alive so proxies don't close idle streams
+  MAX_DURATION: 300_000, // 5min - server closes; EventSource reconnects with a fresh snapshot
+  RETRY: 3000, // 3s - reconnect delay advertised to the browser
+} as const;
+
+/**
+ * Spectator presence - a watcher is counted while their watch stream (or
+ * fallback polling) refreshed it within TIMEOUT
+ */
+export const SPECTATOR_PRESENCE = {
+  HEARTBEAT: 20_000, // 20s - how often a watch stream refreshes presence
+  TIMEOUT: 60_000, // 1min - after this without a refresh, no longer counted
+} as const;
+
 /**
  * Helper to calculate adaptive polling interval based on last activity
  */
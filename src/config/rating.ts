@@ -0,0 +1,13 @@
+/**
+ * Rating Configuration
+ *
+ * Elo parameters for the per-mode ratings (see src/lib/rating.ts).
+ */
+
+export const RATING = {
+  INITIAL: 1500, // new players in each game mode
+  K_PROVISIONAL: 40, // while gamesRated < PROVISIONAL_GAMES: moves fast
+  K: 20, // established players
+  PROVISIONAL_GAMES: 10,
+  HISTORY: 20, // rating changes shown per user
+} as const;
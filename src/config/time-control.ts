@@ -0,0 +1,79 @@
+/**
+ * Time Control Configuration
+ *
+ * Presets offered when creating a room. The server enforces the clock
+ * (see src/lib/clock.ts); these only decide what the host can pick.
+ */
+
+import type { TimeControlSettings } from "@/lib/clock";
+
+export const TIME_CONTROL_PRESETS = [
+  {
+    id: "NONE",
+    label: "Sem relógio",
+    description: "Jogue no seu ritmo",
+    settings: { timeControl: "NONE", timeLimitMs: null, timeIncrementMs: 0 },
+  },
+  {
+    id: "MOVE_30",
+    label: "30s por jogada",
+    description: "Cada turno tem 30 segundos",
+    settings: {
+      timeControl: "PER_MOVE",
+      timeLimitMs: 30_000,
+      timeIncrementMs: 0,
+    },
+  },
+  {
+    id: "MOVE_60",
+    label: "1min por jogada",
+    description: "Cada turno tem 1 minuto",
+    settings: {
+      timeControl: "PER_MOVE",
+      timeLimitMs: 60_000,
+      timeIncrementMs: 0,
+    },
+  },
+  {
+    id: "FISCHER_3_2",
+    label: "3min + 2s",
+    description: "3 minutos no total, +2s a cada jogada",
+    settings: {
+      timeControl: "FISCHER",
+      timeLimitMs: 180_000,
+      timeIncrementMs: 2_000,
+    },
+  },
+  {
+    id: "FISCHER_10_5",
+    label: "10min + 5s",
+    description: "10 minutos no total, +5s a cada jogada",
+    settings: {
+      timeControl: "FISCHER",
+      timeLimitMs: 600_000,
+      timeIncrementMs: 5_000,
+    },
+  },
+] as const satisfies ReadonlyArray<{
+  id: string;
+  label: string;
+  description: string;
+  settings: Omit<TimeControlSettings, "timeoutAction">;
+}>;
+
+export type TimeControlPresetId = (typeof TIME_CONTROL_PRESETS)[number]["id"];
+
+/**
+ * Limits accepted by the server (custom settings outside these are rejected)
+ */
+export const TIME_CONTROL_LIMITS = {
+  MIN_LIMIT_MS: 10_000, // 10s
+  MAX_LIMIT_MS: 3_600_000, // 1h
+  MAX_INCREMENT_MS: 60_000, // 1min
+} as const;
+
+/** Labels for what happens when a player runs out of time */
+export const TIMEOUT_ACTION_LABELS = {
+  SKIP: "Perde a vez",
+  FORFEIT: "Eliminado (W.O.)",
+} as const;
@@ -0,0 +1,81 @@
+/**
+ * useRoomChat - chat messages of a room
+ *
+ * Loads the latest messages, then relies on the room stream for new ones
+ * (pass them to `receive` from useRoomEvents' `onChat`). While the stream
+ * is down (`live` false) it polls instead.
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  getChatMessages,
+  sendChatMessage,
+  sendEmote as sendEmoteAction,
+} from "@/lib/actions/chat-actions";
+import { CHAT_LIMITS } from "@/config/chat";
+import { mergeChat, type ChatEntry } from "@/lib/chat";
+
+export interface RoomChat {
+  messages: ChatEntry[];
+  receive: (messages: ChatEntry[]) => void;
+  send: (text: string) => Promise<{ success: true } | { error: string }>;
+  sendEmote: (
+    emoteId: string
+  ) => Promise<{ success: true } | { error: string }>;
+}
+
+export function useRoomChat(roomCode: string, live: boolean): RoomChat {
+  const [messages, setMessages] = useState<ChatEntry[]>([]);
+
+  const receive = useCallback((incoming: ChatEntry[]) => {
+    setMessages((current) => mergeChat(current, incoming));
+  }, []);
+
+  const load = useCallback(async () => {
+    const result = await getChatMessages(roomCode);
+    if ("error" in result) {
+      console.error("Failed to load chat:", result.error);
+      return;
+    }
+    receive(result.messages);
+  }, [roomCode, receive]);
+
+  // Load history (again when the stream reconnects); poll while it is down
+  useEffect(() => {
+    const timer = setTimeout(load, 0);
+    if (live) return () => clearTimeout(timer);
+
+    const intervalId = setInterval(load, CHAT_LIMITS.POLL_INTERVAL);
+    return () => {
+      clearTimeout(timer);
+      clearInterval(intervalId);
+    };
+  }, [live, load]);
+
+  const post = useCallback(
+    async (
+      result: Promise<{ message: ChatEntry } | { error: string }>
+    ): Promise<{ success: true } | { error: string }> => {
+      const sent = await result;
+      if ("error" in sent) return sent;
+
+      receive([sent.message]);
+      return { success: true };
+    },
+    [receive]
+  );
+
+  const send = useCallback(
+    (text: string) => post(sendChatMessage(roomCode, text)),
+    [roomCode, post]
+  );
+
+  const sendEmote = useCallback(
+    (emoteId: string) => post(sendEmoteAction(roomCode, emoteId)),
+    [roomCode, post]
+  );
+
+  return { messages, receive, send, sendEmote };
+}
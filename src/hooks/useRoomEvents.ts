@@ -0,0 +1,121 @@
+/**
+ * useRoomEvents - live room updates over Server-Sent Events
+ *
+ * Subscribes to /api/rooms/[code]/events and calls `onRoom` with the full
+ * room (and this session's seat, null if not seated) every time it
+ * changes. Returns whether the stream is connected so components can fall
+ * back to polling while it is down.
+ *
+ * Options:
+ * - `spectate`: count this session as a spectator while connected
+ * - `onSpectators`: called with the number of spectators when it changes
+ * - `onChat`: called with chat messages as they are posted
+ */
+
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  applyRoomDelta,
+  reviveDelta,
+  reviveRoom,
+  type RoomEvent,
+} from "@/lib/room-events";
+import type { ChatEntry } from "@/lib/chat";
+import type { PublicRoom } from "@/types/room";
+
+export function useRoomEvents(
+  roomCode: string,
+  onRoom: (room: PublicRoom, myPlayerId: number | null) => void,
+  options: {
+    spectate?: boolean;
+    onSpectators?: (count: number) => void;
+    onChat?: (messages: ChatEntry[]) => void;
+  } = {}
+): boolean {
+  const [connected, setConnected] = useState(false);
+  const { spectate = false, onSpectators, onChat } = options;
+
+  // Always call the latest callbacks without restarting the stream
+  const onRoomRef = useRef(onRoom);
+  const onSpectatorsRef = useRef(onSpectators);
+  const onChatRef = useRef(onChat);
+  useEffect(() => {
+    onRoomRef.current = onRoom;
+    onSpectatorsRef.current = onSpectators;
+    onChatRef.current = onChat;
+  }, [onRoom, onSpectators, onChat]);
+
+  useEffect(() => {
+    if (typeof EventSource === "undefined") return;
+
+    let source: EventSource | null = null;
+    let room: PublicRoom | null = null;
+    let myPlayerId: number | null = null;
+    let version = -1;
+
+    const parse = (event: Event) =>
+      JSON.parse((event as MessageEvent<string>).data) as RoomEvent;
+
+    const connect = () => {
+      source?.close();
+      source = new EventSource(
+        `/api/rooms/${encodeURIComponent(roomCode)}/events${
+          spectate ? "?watch=1" : ""
+        }`
+      );
+
+      source.addEventListener("snapshot", (event) => {
+        const data = parse(event);
+        if (data.type !== "snapshot") return;
+
+        room = reviveRoom(data.room);
+        myPlayerId = data.myPlayerId;
+        version = data.version;
+        setConnected(true);
+        onRoomRef.current(room, myPlayerId);
+      });
+
+      source.addEventListener("delta", (event) => {
+        const data = parse(event);
+        if (data.type !== "delta") return;
+
+        // Missed an update: reconnect to start over from a fresh snapshot
+        if (!room || data.version !== version + 1) {
+          connect();
+          return;
+        }
+
+        room = applyRoomDelta(room, reviveDelta(data.delta));
+        version = data.version;
+        onRoomRef.current(room, myPlayerId);
+      });
+
+      source.addEventListener("spectators", (event) => {
+        const data = parse(event);
+        if (data.type === "spectators") onSpectatorsRef.current?.(data.count);
+      });
+
+      source.addEventListener("chat", (event) => {
+        const data = parse(event);
+        if (data.type === "chat") onChatRef.current?.(data.messages);
+      });
+
+      source.addEventListener("unavailable", () => {
+        source?.close();
+        setConnected(false);
+      });
+
+      // Dropped: EventSource retries on its own; poll until the next snapshot
+      source.onerror = () => setConnected(false);
+    };
+
+    connect();
+
+    return () => {
+      source?.close();
+    };
+  }, [roomCode, spectate]);
+
+  return connected;
+}
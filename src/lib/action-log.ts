@@ -0,0 +1,254 @@
+/**
+ * Game Action Log
+ *
+ * Every turn-mutating action is written to GameAction in the same
+ * transaction that claims its turn, so the log is ordered by turnNumber
+ * with exactly one entry per turn:
+ * - START: starting position (written by startGame)
+ * - MOVE / WALL: played by a human or a bot
+ * - SKIP / FORFEIT: the player's clock ran out
+ * - UNDO: reverts the action logged at `undoneTurn`
+ * Replaying the log from START rebuilds the room's board, turn and winner.
+ */
+
+import type { GameAction, Prisma } from "@prisma/client";
+import {
+  createState,
+  lastStandingWinner,
+  nextPlayerId,
+  toOrientation,
+  turnAfterMove,
+  wallEdges,
+  type EngineState,
+  type GoalSide,
+} from "@/lib/engine";
+
+export interface StartPayload {
+  players: Array<{
+    playerId: number;
+    row: number;
+    col: number;
+    wallsLeft: number;
+  }>;
+  untilPlacements?: boolean; // Room.untilPlacements (absent: false)
+  teams?: boolean; // TEAMS game (absent: false)
+  sharedWalls?: boolean; // Room.sharedWalls (absent: false)
+  boardSize?: number; // Room.boardSize (absent: 9)
+}
+
+export interface MovePayload {
+  fromRow: number;
+  fromCol: number;
+  toRow: number;
+  toCol: number;
+}
+
+export interface WallPayload {
+  row: number;
+  col: number;
+  orientation: "HORIZONTAL" | "VERTICAL";
+  spentFrom?: number; // Partner whose wall was spent (shared walls)
+}
+
+export interface UndoPayload {
+  undoneTurn: number;
+}
+
+type EmptyPayload = Record<string, never>;
+
+/** A log entry with its payload typed by action type */
+export type LoggedAction = { turnNumber: number; playerId: number } & (
+  | { type: "START"; payload: StartPayload }
+  | { type: "MOVE"; payload: MovePayload }
+  | { type: "WALL"; payload: WallPayload }
+  | { type: "SKIP"; payload: EmptyPayload }
+  | { type: "FORFEIT"; payload: EmptyPayload }
+  | { type: "UNDO"; payload: UndoPayload }
+);
+
+/** Read a GameAction row (payloads are only written through logAction) */
+export function toLoggedAction(row: GameAction): LoggedAction {
+  return {
+    turnNumber: row.turnNumber,
+    playerId: row.playerId,
+    type: row.type,
+    payload: row.payload,
+  } as LoggedAction;
+}
+
+/**
+ * Append an action to the log
+ * Call inside the transaction that claimed `action.turnNumber`.
+ */
+export async function logAction(
+  tx: Prisma.TransactionClient,
+  roomId: string,
+  action: LoggedAction
+): Promise<void> {
+  await tx.gameAction.create({
+    data: {
+      roomId,
+      turnNumber: action.turnNumber,
+      playerId: action.playerId,
+      type: action.type,
+      payload: action.payload as unknown as Prisma.InputJsonValue,
+    },
+  });
+}
+
+/**
+ * The actions that shaped the current position, in turn order
+ * UNDO entries and the actions they reverted are left out.
+ */
+export function effectiveActions(log: LoggedAction[]): LoggedAction[] {
+  const sorted = [...log].sort((a, b) => a.turnNumber - b.turnNumber);
+  const undone = new Set(
+    sorted.flatMap((a) => (a.type === "UNDO" ? [a.payload.undoneTurn] : []))
+  );
+
+  return sorted.filter((a) => a.type !== "UNDO" && !undone.has(a.turnNumber));
+}
+
+/**
+ * The action an undo would revert: the latest log entry, if it is a move
+ * or wall (anything logged after it - another player's turn, a timeout or
+ * an undo - means it can no longer be undone)
+ */
+export function lastUndoableAction(
+  log: LoggedAction[]
+): Extract<LoggedAction, { type: "MOVE" | "WALL" }> | null {
+  const last = log.reduce<LoggedAction | null>(
+    (latest, a) => (!latest || a.turnNumber > latest.turnNumber ? a : latest),
+    null
+  );
+
+  return last && (last.type === "MOVE" || last.type === "WALL") ? last : null;
+}
+
+/** Apply one logged action to a position (the log is trusted: no validation) */
+export function applyLoggedAction(
+  state: EngineState,
+  action: LoggedAction,
+  goalSides: Map<number, GoalSide>
+): EngineState {
+  const actor = action.playerId;
+
+  switch (action.type) {
+    case "START":
+      return {
+        ...createState(
+          action.payload.players.map((p) => ({
+            id: p.playerId,
+            row: p.row,
+            col: p.col,
+            goalSide: goalSides.get(p.playerId) ?? "TOP",
+            wallsLeft: p.wallsLeft,
+          })),
+          [],
+          actor
+        ),
+        untilPlacements: action.payload.untilPlacements ?? false,
+        finishOrder: [],
+        teams: action.payload.teams ?? false,
+        sharedWalls: action.payload.sharedWalls ?? false,
+        boardSize: action.payload.boardSize,
+      };
+
+    case "MOVE": {
+      const { toRow, toCol } = action.payload;
+
+      return {
+        ...state,
+        players: state.players.map((p) =>
+          p.id === actor ? { ...p, row: toRow, col: toCol } : p
+        ),
+        ...turnAfterMove(state, actor, toRow, toCol),
+      };
+    }
+
+    case "WALL": {
+      const { row, col, spentFrom = actor } = action.payload;
+      const orientation = toOrientation(action.payload.orientation);
+      const blockedEdges = state.blockedEdges.clone();
+      wallEdges(row, col, orientation).forEach((edge) =>
+        blockedEdges.add(edge)
+      );
+
+      return {
+        ...state,
+        players: state.players.map((p) =>
+          p.id === spentFrom ? { ...p, wallsLeft: p.wallsLeft - 1 } : p
+        ),
+        walls: [...state.walls, { row, col, orientation, placedBy: actor }],
+        blockedEdges,
+        currentPlayerId: nextPlayerId(state, actor),
+      };
+    }
+
+    case "SKIP":
+      return { ...state, currentPlayerId: nextPlayerId(state, actor) };
+
+    case "FORFEIT": {
+      const next = {
+        ...state,
+        players: state.players.map((p) =>
+          p.id === actor ? { ...p, forfeited: true } : p
+        ),
+      };
+      const winner = lastStandingWinner(next);
+
+      return {
+        ...next,
+        currentPlayerId: winner ?? nextPlayerId(next, actor),
+        winner,
+      };
+    }
+
+    case "UNDO":
+      // Filtered out by effectiveActions
+      return state;
+  }
+}
+
+/**
+ * Every position of the game: [START position, after action 1, ...]
+ * Each frame pairs a position with the action that produced it.
+ *
+ * @param players - Seats with their goal sides (from the room's Player rows)
+ * @throws Error when the log does not begin with START
+ */
+export function rebuildFrames(
+  players: Array<{ playerId: number; goalSide: GoalSide | string }>,
+  log: LoggedAction[]
+): Array<{ action: LoggedAction; state: EngineState }> {
+  const [start, ...rest] = effectiveActions(log);
+  if (!start || start.type !== "START") {
+    throw new Error("Action log must begin with START");
+  }
+
+  const goalSides = new Map(
+    players.map((p) => [p.playerId, p.goalSide as GoalSide])
+  );
+  const initial = applyLoggedAction(createState([]), start, goalSides);
+
+  const frames: Array<{ action: LoggedAction; state: EngineState }> = [
+    { action: start, state: initial },
+  ];
+  for (const action of rest) {
+    const previous = frames[frames.length - 1].state;
+    frames.push({
+      action,
+      state: applyLoggedAction(previous, action, goalSides),
+    });
+  }
+  return frames;
+}
+
+/** Rebuild the current position from the log */
+export function rebuildState(
+  players: Array<{ playerId: number; goalSide: GoalSide | string }>,
+  log: LoggedAction[]
+): EngineState {
+  const frames = rebuildFrames(players, log);
+  return frames[frames.length - 1].state;
+}
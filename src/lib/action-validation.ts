@@ -0,0 +1,150 @@
+/**
+ * Server-side Action Validation
+ *
+ * Turn order and rule checks for actions about to be written to the
+ * database. Human server actions and the bot engine both go through here,
+ * so a bot can never do anything a human would be refused.
+ */
+
+import {
+  fromRoom,
+  toDbOrientation,
+  toOrientation,
+  validateMove,
+  validateWall,
+  MOVE_REJECTION_MESSAGES,
+  type EngineAction,
+  type MoveRejectionReason,
+  type RoomLike,
+  type WallRejectionReason,
+} from "@/lib/engine";
+
+/** Error messages for rejected barrier placements */
+const WALL_REJECTION_MESSAGES: Record<
+  Exclude<WallRejectionReason, "OUT_OF_BOUNDS" | "BLOCKS_PATH">,
+  string
+> = {
+  NO_WALLS_LEFT: "No walls left",
+  DUPLICATE: "Barrier already exists at this exact position",
+  CROSSING: "Cannot place barriers crossing each other",
+  OVERLAP: "Barrier would overlap with existing barrier",
+};
+
+/** Room as loaded by server actions (players need names for messages) */
+export type ValidatableRoom = Omit<RoomLike, "players"> & {
+  status: string;
+  players: Array<RoomLike["players"][number] & { name: string }>;
+};
+
+export type ActionValidationResult<
+  Reason extends string = MoveRejectionReason | WallRejectionReason,
+> =
+  | { valid: true }
+  | {
+      valid: false;
+      error: string;
+      reason?: Reason; // Missing for turn/status errors
+    };
+
+/** Room status and turn order checks shared by every action */
+function checkTurn(
+  room: ValidatableRoom,
+  playerId: number
+): ActionValidationResult<never> {
+  if (room.status !== "PLAYING") {
+    return { valid: false, error: "Game not started" };
+  }
+  if (room.currentTurn !== playerId) {
+    return { valid: false, error: "Not your turn" };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validate a pawn move for a player in a room
+ */
+export function validateRoomMove(
+  room: ValidatableRoom,
+  playerId: number,
+  toRow: number,
+  toCol: number
+): ActionValidationResult<MoveRejectionReason> {
+  const turn = checkTurn(room, playerId);
+  if (!turn.valid) return turn;
+
+  const validation = validateMove(fromRoom(room), playerId, toRow, toCol);
+  if (!validation.valid) {
+    return {
+      valid: false,
+      error: MOVE_REJECTION_MESSAGES[validation.reason],
+      reason: validation.reason,
+    };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validate a barrier placement for a player in a room
+ */
+export function validateRoomBarrier(
+  room: ValidatableRoom,
+  playerId: number,
+  row: number,
+  col: number,
+  orientation: "HORIZONTAL" | "VERTICAL"
+): ActionValidationResult<WallRejectionReason> {
+  const turn = checkTurn(room, playerId);
+  if (!turn.valid) return turn;
+
+  const validation = validateWall(
+    fromRoom(room),
+    playerId,
+    row,
+    col,
+    toOrientation(orientation)
+  );
+  if (validation.valid) return { valid: true };
+
+  const { reason } = validation;
+  if (reason === "BLOCKS_PATH") {
+    const blocked = room.players.find(
+      (p) => p.playerId === validation.blockedPlayerId
+    );
+    return {
+      valid: false,
+      error: `Cannot place barrier: would block ${blocked?.name} from reaching their goal`,
+      reason,
+    };
+  }
+  if (reason === "OUT_OF_BOUNDS") {
+    return {
+      valid: false,
+      error:
+        orientation === "HORIZONTAL"
+          ? "Posição inválida para barreira horizontal"
+          : "Posição inválida para barreira vertical",
+      reason,
+    };
+  }
+  return { valid: false, error: WALL_REJECTION_MESSAGES[reason], reason };
+}
+
+/**
+ * Validate an engine action (pawn move or wall) for a player in a room
+ */
+export function validateRoomAction(
+  room: ValidatableRoom,
+  playerId: number,
+  action: EngineAction
+): ActionValidationResult {
+  if (action.type === "MOVE") {
+    return validateRoomMove(room, playerId, action.row, action.col);
+  }
+  return validateRoomBarrier(
+    room,
+    playerId,
+    action.row,
+    action.col,
+    toDbOrientation(action.orientation)
+  );
+}
@@ -0,0 +1,121 @@
+"use server";
+
+import { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import { getOrCreateSessionId } from "@/lib/session";
+import { CHAT_LIMITS } from "@/config/chat";
+import {
+  findEmote,
+  prepareMessage,
+  toChatEntry,
+  type ChatEntry,
+} from "@/lib/chat";
+
+/** Serialization failure: a concurrent transaction got there first */
+function isWriteConflict(error: unknown): boolean {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === "P2034"
+  );
+}
+
+/**
+ * Get the latest chat messages of a room (oldest first)
+ * Anyone who can see the room can read its chat, spectators included.
+ */
+export async function getChatMessages(
+  code: string
+): Promise<{ messages: ChatEntry[] } | { error: string }> {
+  try {
+    const messages = await db.chatMessage.findMany({
+      where: { code },
+      orderBy: { createdAt: "desc" },
+      take: CHAT_LIMITS.HISTORY,
+    });
+
+    return { messages: messages.reverse().map(toChatEntry) };
+  } catch (error) {
+    console.error("Error loading chat:", error);
+    return { error: "Failed to load chat" };
+  }
+}
+
+/**
+ * Send a text message
+ * Only seated players can write; the text is length-checked and filtered.
+ */
+export async function sendChatMessage(
+  code: string,
+  text: string
+): Promise<{ message: ChatEntry } | { error: string }> {
+  // Server actions take whatever the client posts, not just strings
+  if (typeof text !== "string") return { error: "Invalid message" };
+
+  const prepared = prepareMessage(text);
+  if ("error" in prepared) return prepared;
+
+  return postMessage(code, "TEXT", prepared.text);
+}
+
+/**
+ * Send a quick emote (one of QUICK_EMOTES)
+ */
+export async function sendEmote(
+  code: string,
+  emoteId: string
+): Promise<{ message: ChatEntry } | { error: string }> {
+  if (!findEmote(emoteId)) return { error: "Unknown emote" };
+
+  return postMessage(code, "EMOTE", emoteId);
+}
+
+async function postMessage(
+  code: string,
+  kind: "TEXT" | "EMOTE",
+  text: string
+): Promise<{ message: ChatEntry } | { error: string }> {
+  try {
+    const sessionId = await getOrCreateSessionId();
+
+    const player = await db.player.findFirst({
+      where: { sessionId, room: { code } },
+    });
+
+    if (!player) return { error: "Only players can chat" };
+
+    // Rate limit: one message per MIN_INTERVAL_MS per player. The check and
+    // the insert share a serializable transaction, so of two concurrent
+    // sends only one commits
+    const message = await db.$transaction(
+      async (tx) => {
+        const last = await tx.chatMessage.findFirst({
+          where: { code, playerId: player.playerId },
+          orderBy: { createdAt: "desc" },
+          select: { createdAt: true },
+        });
+        if (
+          last &&
+          Date.now() - new Date(last.createdAt).getTime() <
+            CHAT_LIMITS.MIN_INTERVAL_MS
+        ) {
+          return null;
+        }
+
+        return tx.chatMessage.create({
+          data: { code, playerId: player.playerId, kind, text },
+        });
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+
+    if (!message) return { error: "Too many messages, slow down" };
+
+    return { message: toChatEntry(message) };
+  } catch (error) {
+    if (isWriteConflict(error)) {
+      return { error: "Too many messages, slow down" };
+    }
+    console.error("Error sending chat message:", error);
+    return { error: "Failed to send message" };
+  }
+}
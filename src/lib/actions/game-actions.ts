@@ -2,51 +2,41 @@
 
 import { db } from "@/lib/db";
 import { getOrCreateSessionId } from "@/lib/session";
-import type { GoalSide, Prisma } from "@prisma/client";
 import { getGameModeConfig, type GameMode } from "@/types/game";
 import { afterMoveCommit, onGameStart } from "@/lib/bot/scheduler";
-
-/**
- * Get next player ID - works for both 2P and 4P modes
- * Cycles through actual player IDs, not array indices
- */
-function getNextPlayerId(
-  currentPlayerId: number,
-  players: Array<{ playerId: number }>
-): number {
-  const currentIndex = players.findIndex((p) => p.playerId === currentPlayerId);
-  if (currentIndex === -1) return players[0].playerId;
-  const nextIndex = (currentIndex + 1) % players.length;
-  return players[nextIndex].playerId;
-}
-
-/**
- * Check if a player has reached their goal
- */
-function checkWin(goalSide: GoalSide, row: number, col: number): boolean {
-  switch (goalSide) {
-    case "TOP":
-      return row === 0;
-    case "RIGHT":
-      return col === 10;
-    case "BOTTOM":
-      return row === 10;
-    case "LEFT":
-      return col === 0;
-    default:
-      return false;
-  }
-}
+import { validateRoomBarrier, validateRoomMove } from "@/lib/action-validation";
+import { STALE_STATE_ERROR, claimTurn } from "@/lib/concurrency";
+import { TIME_UP_ERROR, bankAfterTurn, isTurnExpired } from "@/lib/clock";
+import { enforceTurnClock } from "@/lib/turn-timeout";
+import { recordGameResult } from "@/lib/game-results";
+import { beginGame } from "@/lib/game-start";
+import {
+  lastUndoableAction,
+  logAction,
+  toLoggedAction,
+} from "@/lib/action-log";
+import {
+  fromRoom,
+  nextPlayerId,
+  turnAfterMove,
+  wallOwner,
+  type MoveRejectionReason,
+} from "@/lib/engine";
 
 /**
  * Make a move (pawn movement)
  * Server validates turn order, move legality, and win conditions
+ * `expectedTurn` is the room's turnNumber the client acted on; the move is
+ * rejected as stale if another action advanced the turn first.
  */
 export async function makeMove(
   code: string,
   toRow: number,
-  toCol: number
-): Promise<{ success: true } | { error: string }> {
+  toCol: number,
+  expectedTurn: number
+): Promise<
+  { success: true } | { error: string; reason?: MoveRejectionReason }
+> {
   try {
     const sessionId = await getOrCreateSessionId();
 
@@ -64,80 +54,68 @@ export async function makeMove(
     });
 
     if (!room) return { error: "Room not found" };
-    if (room.status !== "PLAYING") {
-      return { error: "Game not started" };
-    }
-    if (room.currentTurn !== player.playerId) {
-      return { error: "Not your turn" };
-    }
+    if (room.turnNumber !== expectedTurn) return { error: STALE_STATE_ERROR };
 
-    // TODO: Add move validation logic here
-    // For now, we'll allow any move (will add proper validation later)
+    // Too late: apply the timeout instead of the move
+    const now = Date.now();
+    if (isTurnExpired(room, now)) {
+      await enforceTurnClock(code, now);
+      return { error: TIME_UP_ERROR };
+    }
 
-    // Check win condition
-    const isWin = checkWin(player.goalSide, toRow, toCol);
+    // Validate turn and move legality (shared with the bot engine)
+    const validation = validateRoomMove(room, player.playerId, toRow, toCol);
+    if (!validation.valid) {
+      return { error: validation.error, reason: validation.reason };
+    }
 
-    // Build transaction operations (typed to allow any Prisma promise)
-    const transactionOps: Prisma.PrismaPromise<unknown>[] = [
-      // Update player position
-      db.player.update({
+    // Next turn, or the end of the game (see turnAfterMove)
+    const turn = turnAfterMove(fromRoom(room), player.playerId, toRow, toCol);
+    const gameOver = turn.winner !== null;
+
+    const applied = await db.$transaction(async (tx) => {
+      // Update room state (only if the turn hasn't advanced meanwhile)
+      const claimed = await claimTurn(tx, room.id, expectedTurn, {
+        currentTurn: turn.currentPlayerId,
+        winner: turn.winner,
+        finishOrder: turn.finishOrder,
+        status: gameOver ? "FINISHED" : room.status,
+        turnStartedAt: new Date(now),
+      });
+      if (!claimed) return false;
+
+      // Update player position (and their Fischer bank)
+      const timeLeftMs = bankAfterTurn(room, player.playerId, now);
+      await tx.player.update({
         where: { id: player.id },
-        data: { row: toRow, col: toCol },
-      }),
-
-      // Record move in history
-      db.move.create({
-        data: {
-          roomId: room.id,
-          playerId: player.playerId,
-          fromRow: player.row,
-          fromCol: player.col,
-          toRow,
-          toCol,
-        },
-      }),
-
-      // Update room state
-      db.room.update({
-        where: { id: room.id },
         data: {
-          currentTurn: isWin
-            ? room.currentTurn
-            : getNextPlayerId(room.currentTurn, room.players),
-          winner: isWin ? player.playerId : room.winner,
-          status: isWin ? "FINISHED" : room.status,
-          turnNumber: { increment: 1 }, // Bot system: concurrency control
+          row: toRow,
+          col: toCol,
+          ...(timeLeftMs !== null && { timeLeftMs }),
         },
-      }),
-    ];
-
-    // If winner, update user stats for all players in the game
-    if (isWin) {
-      // Increment gamesPlayed for all players with userId
-      // Increment gamesWon for the winner
-      for (const p of room.players) {
-        if (p.userId) {
-          transactionOps.push(
-            db.user.update({
-              where: { id: p.userId },
-              data: {
-                gamesPlayed: { increment: 1 },
-                ...(p.playerId === player.playerId && {
-                  gamesWon: { increment: 1 },
-                }),
-              },
-            })
-          );
-        }
+      });
+
+      // Record move in the action log
+      await logAction(tx, room.id, {
+        turnNumber: expectedTurn,
+        playerId: player.playerId,
+        type: "MOVE",
+        payload: { fromRow: player.row, fromCol: player.col, toRow, toCol },
+      });
+
+      // If the game is over, update user stats for all players in the game
+      if (turn.winner !== null) {
+        await recordGameResult(tx, room, turn.winner, turn.finishOrder);
       }
-    }
 
-    // Execute transaction
-    await db.$transaction(transactionOps);
+      return true;
+    });
+
+    if (!applied) return { error: STALE_STATE_ERROR };
 
     // Bot system: Schedule bot move if next player is bot
     // This must happen AFTER transaction commit (turnNumber already incremented)
-    if (!isWin) {
+    if (!gameOver) {
       await afterMoveCommit(code);
     }
 
@@ -150,12 +128,14 @@ export async function makeMove(
 
 /**
  * Place a barrier on the board
+ * Rejected as stale if the room's turnNumber no longer equals `expectedTurn`
  */
 export async function placeBarrier(
   code: string,
   row: number,
   col: number,
-  orientation: "HORIZONTAL" | "VERTICAL"
+  orientation: "HORIZONTAL" | "VERTICAL",
+  expectedTurn: number
 ): Promise<{ success: true } | { error: string }> {
   try {
     const sessionId = await getOrCreateSessionId();
@@ -166,7 +146,6 @@ export async function placeBarrier(
     });
 
     if (!player) return { error: "Not in this room" };
-    if (player.wallsLeft === 0) return { error: "No walls left" };
 
     // Get room
     const room = await db.room.findUnique({
@@ -175,189 +154,38 @@ export async function placeBarrier(
     });
 
     if (!room) return { error: "Room not found" };
-    if (room.status !== "PLAYING") {
-      return { error: "Game not started" };
-    }
-    if (room.currentTurn !== player.playerId) {
-      return { error: "Not your turn" };
-    }
+    if (room.turnNumber !== expectedTurn) return { error: STALE_STATE_ERROR };
 
-    // Validate barrier placement
-    // Barriers are placed at intersections and span 2 cells
-    // For an 11x11 grid (0-10):
-    // - Horizontal barrier at (row, col) blocks edges between (row,col)↔(row+1,col) and (row,col+1)↔(row+1,col+1)
-    // - Vertical barrier at (row, col) blocks edges between (row,col)↔(row,col+1) and (row+1,col)↔(row+1,col+1)
-    //
-    // Valid ranges depend on orientation:
-    // - HORIZONTAL: row 0-9 (needs row+1 ≤ 10), col 0-8 (needs col+1 ≤ 9 for two columns)
-    // - VERTICAL: col 0-9 (needs col+1 ≤ 10), row 0-8 (needs row+1 ≤ 9 for two rows)
-    const GRID_SIZE = 11;
-
-    if (orientation === "HORIZONTAL") {
-      // Horizontal barriers: row can go up to 9, col up to 8
-      if (row < 0 || row > GRID_SIZE - 2 || col < 0 || col > GRID_SIZE - 3) {
-        return { error: "Posição inválida para barreira horizontal" };
-      }
-    } else {
-      // Vertical barriers: col can go up to 9, row up to 8
-      if (row < 0 || row > GRID_SIZE - 3 || col < 0 || col > GRID_SIZE - 2) {
-        return { error: "Posição inválida para barreira vertical" };
-      }
+    // Too late: apply the timeout instead of the barrier
+    const now = Date.now();
+    if (isTurnExpired(room, now)) {
+      await enforceTurnClock(code, now);
+      return { error: TIME_UP_ERROR };
     }
 
-    // 2. Check if EXACT same barrier already exists (same position + orientation)
-    const exactDuplicate = room.barriers.some(
-      (b) => b.row === row && b.col === col && b.orientation === orientation
+    // Validate turn and barrier placement (shared with the bot engine)
+    const validation = validateRoomBarrier(
+      room,
+      player.playerId,
+      row,
+      col,
+      orientation
     );
-    if (exactDuplicate) {
-      return { error: "Barrier already exists at this exact position" };
-    }
-
-    // 3. Check if barrier would cross another barrier (X pattern)
-    // Same position but different orientation = crossing
-    const crossesBarrier = room.barriers.some(
-      (b) => b.row === row && b.col === col && b.orientation !== orientation
-    );
-    if (crossesBarrier) {
-      return { error: "Cannot place barriers crossing each other" };
-    }
-
-    // 4. Check if barrier shares edges with existing barriers (overlapping)
-    // Compute which edges this new barrier would block
-    const edgeKey = (r1: number, c1: number, r2: number, c2: number) => {
-      if (r1 > r2 || (r1 === r2 && c1 > c2)) {
-        [r1, r2] = [r2, r1];
-        [c1, c2] = [c2, c1];
-      }
-      return `${r1},${c1}-${r2},${c2}`;
-    };
-
-    const newEdges: string[] = [];
-    if (orientation === "HORIZONTAL") {
-      newEdges.push(edgeKey(row, col, row + 1, col));
-      newEdges.push(edgeKey(row, col + 1, row + 1, col + 1));
-    } else {
-      newEdges.push(edgeKey(row, col, row, col + 1));
-      newEdges.push(edgeKey(row + 1, col, row + 1, col + 1));
-    }
-
-    // Compute all existing blocked edges
-    const existingEdges = new Set<string>();
-    for (const b of room.barriers) {
-      if (b.orientation === "HORIZONTAL") {
-        existingEdges.add(edgeKey(b.row, b.col, b.row + 1, b.col));
-        existingEdges.add(edgeKey(b.row, b.col + 1, b.row + 1, b.col + 1));
-      } else {
-        existingEdges.add(edgeKey(b.row, b.col, b.row, b.col + 1));
-        existingEdges.add(edgeKey(b.row + 1, b.col, b.row + 1, b.col + 1));
-      }
-    }
-
-    // Check if any new edge is already blocked
-    const hasOverlap = newEdges.some((edge) => existingEdges.has(edge));
-    if (hasOverlap) {
-      return { error: "Barrier would overlap with existing barrier" };
-    }
-
-    // 5. Pathfinding validation: Ensure ALL players can still reach their goals
-    // Create a set with the hypothetical new barrier's edges
-    const hypotheticalEdges = new Set(existingEdges);
-    newEdges.forEach((edge) => hypotheticalEdges.add(edge));
-
-    console.log(
-      `[BARRIER VALIDATION] New barrier at (${row},${col}) orientation: ${orientation}`
-    );
-    console.log(`[BARRIER VALIDATION] New edges blocked:`, newEdges);
-    console.log(
-      `[BARRIER VALIDATION] Total blocked edges:`,
-      Array.from(hypotheticalEdges)
-    );
-
-    // BFS pathfinding: Check if player can reach any cell ADJACENT to their goal border
-    const hasPathToGoal = (
-      playerRow: number,
-      playerCol: number,
-      goalSide: string,
-      blockedEdges: Set<string>
-    ): boolean => {
-      const visited = new Set<string>();
-      const queue: Array<[number, number]> = [[playerRow, playerCol]];
-      visited.add(`${playerRow},${playerCol}`);
-
-      while (queue.length > 0) {
-        const [r, c] = queue.shift()!;
-
-        // Check if this cell is ADJACENT to the goal border (one move away from winning)
-        // We just check if player can REACH this position, not if they can make the final winning move
-        if (goalSide === "TOP" && r === 1) return true; // Can reach row 0 from here
-        if (goalSide === "BOTTOM" && r === 9) return true; // Can reach row 10 from here
-        if (goalSide === "LEFT" && c === 1) return true; // Can reach col 0 from here
-        if (goalSide === "RIGHT" && c === 9) return true; // Can reach col 10 from here
-
-        // Explore 4 neighbors (UP, DOWN, LEFT, RIGHT)
-        const neighbors = [
-          [r - 1, c],
-          [r + 1, c],
-          [r, c - 1],
-          [r, c + 1],
-        ];
-
-        for (const [nr, nc] of neighbors) {
-          // CRITICAL: Only explore INTERNAL cells (1-9)
-          // Players cannot walk through border cells!
-          if (nr < 1 || nr > 9 || nc < 1 || nc > 9) {
-            continue;
-          }
-
-          const key = `${nr},${nc}`;
-          if (visited.has(key)) continue;
-
-          // Check if edge is blocked by barrier
-          const edge = edgeKey(r, c, nr, nc);
-          if (blockedEdges.has(edge)) continue;
-
-          visited.add(key);
-          queue.push([nr, nc]);
-        }
-      }
-
-      return false;
-    };
-
-    // Check if ALL players still have a path to their goal
-    for (const player of room.players) {
-      console.log(
-        `[PATHFINDING] Checking player ${player.name} at (${player.row},${player.col}) goal: ${player.goalSide}`
-      );
-
-      const canReach = hasPathToGoal(
-        player.row,
-        player.col,
-        player.goalSide,
-        hypotheticalEdges
-      );
-
-      console.log(
-        `[PATHFINDING] Player ${player.name} can reach goal: ${canReach}`
-      );
-
-      if (!canReach) {
-        console.error(
-          `[PATHFINDING] BLOCKING BARRIER! Player ${player.name} would be trapped!`
-        );
-        return {
-          error: `Cannot place barrier: would block ${player.name} from reaching their goal`,
-        };
-      }
-    }
-
-    console.log(`[PATHFINDING] All players can still reach their goals ✅`);
+    if (!validation.valid) return { error: validation.error };
+    const state = fromRoom(room);
+    const owner = wallOwner(state, player.playerId) ?? player.playerId;
 
     // All validations passed!
 
-    // Place barrier in transaction
-    await db.$transaction([
-      db.barrier.create({
+    // Place barrier in transaction (only if the turn hasn't advanced)
+    const applied = await db.$transaction(async (tx) => {
+      const claimed = await claimTurn(tx, room.id, expectedTurn, {
+        currentTurn: nextPlayerId(state, room.currentTurn),
+        turnStartedAt: new Date(now),
+      });
+      if (!claimed) return false;
+
+      await tx.barrier.create({
         data: {
           roomId: room.id,
           row,
@@ -365,21 +193,38 @@ export async function placeBarrier(
           orientation,
           placedBy: player.playerId,
         },
-      }),
-
-      db.player.update({
-        where: { id: player.id },
-        data: { wallsLeft: player.wallsLeft - 1 },
-      }),
+      });
 
-      db.room.update({
-        where: { id: room.id },
-        data: {
-          currentTurn: getNextPlayerId(room.currentTurn, room.players),
-          turnNumber: { increment: 1 }, // Bot system: concurrency control
+      await logAction(tx, room.id, {
+        turnNumber: expectedTurn,
+        playerId: player.playerId,
+        type: "WALL",
+        payload: {
+          row,
+          col,
+          orientation,
+          ...(owner !== player.playerId && { spentFrom: owner }),
         },
-      }),
-    ]);
+      });
+
+      // Spend the wall (a partner's when shared, see wallOwner)
+      await tx.player.updateMany({
+        where: { roomId: room.id, playerId: owner },
+        data: { wallsLeft: { decrement: 1 } },
+      });
+
+      const timeLeftMs = bankAfterTurn(room, player.playerId, now);
+      if (timeLeftMs !== null) {
+        await tx.player.update({
+          where: { id: player.id },
+          data: { timeLeftMs },
+        });
+      }
+
+      return true;
+    });
+
+    if (!applied) return { error: STALE_STATE_ERROR };
 
     // Bot system: Schedule bot move if next player is bot
     await afterMoveCommit(code);
@@ -396,9 +241,13 @@ export async function placeBarrier(
  * Only allowed if:
  * 1. The next player hasn't taken their turn yet
  * 2. The action was made by the current session
+ * The action log decides what happened last (see action-log.ts). Undo also
+ * advances turnNumber and is itself logged, so actions (and bot jobs) based
+ * on the undone state are rejected as stale.
  */
 export async function undoLastAction(
-  code: string
+  code: string,
+  expectedTurn: number
 ): Promise<{ success: true } | { error: string }> {
   try {
     const sessionId = await getOrCreateSessionId();
@@ -410,13 +259,11 @@ export async function undoLastAction(
 
     if (!player) return { error: "Not in this room" };
 
-    // Get room with all data
+    // Get room with the latest logged action
     const room = await db.room.findUnique({
       where: { code },
       include: {
-        players: true,
-        barriers: { orderBy: { createdAt: "desc" } },
-        moves: { orderBy: { createdAt: "desc" }, take: 1 },
+        actions: { orderBy: { turnNumber: "desc" }, take: 1 },
       },
     });
 
@@ -427,81 +274,67 @@ export async function undoLastAction(
     if (room.winner !== null) {
       return { error: "Game is finished" };
     }
+    if (room.turnNumber !== expectedTurn) return { error: STALE_STATE_ERROR };
 
-    // Calculate previous player (the one who just moved)
-    const previousPlayerId =
-      (room.currentTurn - 1 + room.players.length) % room.players.length;
-
-    // Only the player who just made the move can undo
-    if (player.playerId !== previousPlayerId) {
+    // Only the latest action can be undone, and only by whoever played it
+    const lastAction = lastUndoableAction(room.actions.map(toLoggedAction));
+    if (!lastAction) return { error: "Nothing to undo" };
+    if (lastAction.playerId !== player.playerId) {
       return { error: "Only the player who just moved can undo" };
     }
 
-    // Get the last move
-    const lastMove = room.moves[0];
-
-    // Get the last barrier (placed by this player)
-    const lastBarrier = room.barriers.find(
-      (b) => b.placedBy === player.playerId
-    );
-
-    // Determine what to undo: check if the last action was a move or barrier
-    // We need to compare timestamps
-    const lastMoveTime = lastMove?.createdAt?.getTime() ?? 0;
-    const lastBarrierTime = lastBarrier?.createdAt?.getTime() ?? 0;
-
-    if (lastMoveTime > lastBarrierTime && lastMove) {
-      // Undo move - verify it's by the same player
-      if (lastMove.playerId !== player.playerId) {
-        return { error: "Cannot undo another player's move" };
-      }
-
-      // Revert the move
-      await db.$transaction([
+    // The player resumes with the Fischer bank they had when they acted
+    const restoreBank =
+      room.timeControl === "FISCHER"
+        ? { timeLeftMs: { decrement: room.timeIncrementMs } }
+        : {};
+
+    const applied = await db.$transaction(async (tx) => {
+      // Revert turn (a move into the goal no longer finishes the player)
+      const claimed = await claimTurn(tx, room.id, expectedTurn, {
+        currentTurn: player.playerId,
+        finishOrder: room.finishOrder.filter((id) => id !== player.playerId),
+        turnStartedAt: new Date(),
+      });
+      if (!claimed) return false;
+
+      if (lastAction.type === "MOVE") {
         // Move player back
-        db.player.update({
+        await tx.player.update({
           where: { id: player.id },
-          data: { row: lastMove.fromRow, col: lastMove.fromCol },
-        }),
-
-        // Delete the move record
-        db.move.delete({
-          where: { id: lastMove.id },
-        }),
-
-        // Revert turn
-        db.room.update({
-          where: { id: room.id },
-          data: { currentTurn: player.playerId },
-        }),
-      ]);
-
-      return { success: true };
-    } else if (lastBarrierTime > lastMoveTime && lastBarrier) {
-      // Undo barrier placement
-      await db.$transaction([
-        // Delete the barrier
-        db.barrier.delete({
-          where: { id: lastBarrier.id },
-        }),
-
-        // Restore wall count
-        db.player.update({
+          data: {
+            row: lastAction.payload.fromRow,
+            col: lastAction.payload.fromCol,
+            ...restoreBank,
+          },
+        });
+      } else {
+        // Remove the barrier and give the wall back to whoever spent it
+        const { row, col, orientation, spentFrom } = lastAction.payload;
+        await tx.barrier.deleteMany({
+          where: { roomId: room.id, row, col, orientation },
+        });
+        await tx.player.updateMany({
+          where: { roomId: room.id, playerId: spentFrom ?? player.playerId },
+          data: { wallsLeft: { increment: 1 } },
+        });
+        await tx.player.update({
           where: { id: player.id },
-          data: { wallsLeft: player.wallsLeft + 1 },
-        }),
+          data: restoreBank,
+        });
+      }
 
-        // Revert turn
-        db.room.update({
-          where: { id: room.id },
-          data: { currentTurn: player.playerId },
-        }),
-      ]);
+      await logAction(tx, room.id, {
+        turnNumber: expectedTurn,
+        playerId: player.playerId,
+        type: "UNDO",
+        payload: { undoneTurn: lastAction.turnNumber },
+      });
 
-      return { success: true };
-    }
+      return true;
+    });
 
-    return { error: "Nothing to undo" };
+    return applied ? { success: true } : { error: STALE_STATE_ERROR };
   } catch (error) {
     console.error("Error undoing action:", error);
     return { error: "Failed to undo action" };
@@ -533,9 +366,9 @@ export async function startGame(
     if (room.players.length < config.minPlayers) {
       return {
         error:
-          room.gameMode === "TWO_PLAYER"
-            ? "Precisa de exatamente 2 jogadores para começar"
-            : "Precisa de pelo menos 2 jogadores para começar",
+          room.gameMode === "FOUR_PLAYER"
+            ? "Precisa de pelo menos 2 jogadores para começar"
+            : `Precisa de exatamente ${config.minPlayers} jogadores para começar`,
       };
     }
 
@@ -552,10 +385,9 @@ export async function startGame(
       return { error: "Game already started" };
     }
 
-    await db.room.update({
-      where: { id: room.id },
-      data: { status: "PLAYING" },
-    });
+    const started = await db.$transaction((tx) => beginGame(tx, room));
+
+    if (!started) return { error: "Game already started" };
 
     // Schedule bot move if first player is a bot
     await onGameStart(code);
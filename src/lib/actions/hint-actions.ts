@@ -0,0 +1,93 @@
+"use server";
+
+import { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import { getOrCreateSessionId } from "@/lib/session";
+import { HINT_LIMITS } from "@/config/hints";
+import { isHintStrength, suggestHint, type Hint } from "@/lib/hints";
+import { isRatedGame } from "@/lib/rating";
+
+/** Unique constraint violation (here: the hint slot is taken) */
+function isUniqueViolation(error: unknown): boolean {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === "P2002"
+  );
+}
+
+/**
+ * Ask for a suggested action on your turn (see lib/hints.ts)
+ * Limited to HINT_LIMITS.PER_GAME per player, and disabled in rated games.
+ * The hint's slot is claimed before computing it: HintRequest is unique per
+ * (code, playerId, slot), so parallel requests cannot exceed the limit.
+ */
+export async function requestHint(
+  code: string,
+  strength: string = "MEDIUM"
+): Promise<{ hint: Hint; hintsLeft: number } | { error: string }> {
+  if (!isHintStrength(strength)) return { error: "Invalid hint strength" };
+
+  try {
+    const sessionId = await getOrCreateSessionId();
+
+    const room = await db.room.findUnique({
+      where: { code },
+      include: { players: true, barriers: true },
+    });
+
+    if (!room) return { error: "Room not found" };
+
+    const player = room.players.find((p) => p.sessionId === sessionId);
+    if (!player) return { error: "Only players can ask for hints" };
+
+    if (room.status !== "PLAYING" || room.winner !== null) {
+      return { error: "Game is not in progress" };
+    }
+    if (room.currentTurn !== player.playerId) return { error: "Not your turn" };
+    if (isRatedGame(room.players)) {
+      return { error: "Hints are disabled in rated games" };
+    }
+
+    // Claim the first free slot (a taken slot fails on the unique index)
+    let requestId: string | null = null;
+    for (let slot = 0; slot < HINT_LIMITS.PER_GAME && !requestId; slot++) {
+      try {
+        const request = await db.hintRequest.create({
+          data: {
+            code,
+            playerId: player.playerId,
+            slot,
+            turnNumber: room.turnNumber,
+            strength,
+          },
+        });
+        requestId = request.id;
+      } catch (error) {
+        if (!isUniqueViolation(error)) throw error;
+      }
+    }
+    if (!requestId) {
+      return {
+        error: `No hints left (max ${HINT_LIMITS.PER_GAME} per game)`,
+      };
+    }
+
+    let hint: Hint;
+    try {
+      hint = await suggestHint(room, player.playerId, strength);
+    } catch (error) {
+      // No hint given: free the slot again
+      await db.hintRequest.delete({ where: { id: requestId } });
+      throw error;
+    }
+
+    const used = await db.hintRequest.count({
+      where: { code, playerId: player.playerId },
+    });
+
+    return { hint, hintsLeft: Math.max(HINT_LIMITS.PER_GAME - used, 0) };
+  } catch (error) {
+    console.error("Error computing hint:", error);
+    return { error: "Failed to compute hint" };
+  }
+}
@@ -1,6 +1,8 @@
 "use server";
 
 import { db } from "@/lib/db";
+import { RATING } from "@/config/rating";
+import type { GameMode } from "@/types/game";
 
 export interface LeaderboardEntry {
   id: string;
@@ -11,38 +13,61 @@ export interface LeaderboardEntry {
   winRate: number;
 }
 
+/** A leaderboard row: overall stats plus the rating in the listed mode */
+export interface RatedLeaderboardEntry extends LeaderboardEntry {
+  rating: number;
+  gamesRated: number;
+}
+
+/** A user's rating in one game mode, with its recent history */
+export interface UserRatingSummary {
+  gameMode: GameMode;
+  rating: number;
+  gamesRated: number;
+  rank: number;
+  history: Array<{ rating: number; change: number; createdAt: Date }>; // Oldest first
+}
+
 /**
- * Get top players by wins
+ * Get top players by rating in a game mode (see lib/rating.ts)
  */
 export async function getLeaderboard(
-  limit: number = 10
-): Promise<{ leaderboard: LeaderboardEntry[] } | { error: string }> {
+  limit: number = 10,
+  gameMode: GameMode = "TWO_PLAYER"
+): Promise<{ leaderboard: RatedLeaderboardEntry[] } | { error: string }> {
   try {
-    const users = await db.user.findMany({
-      where: {
-        gamesPlayed: { gt: 0 }, // Only users who have played at least one game
-      },
+    const ratings = await db.userRating.findMany({
+      where: { gameMode },
       orderBy: [
-        { gamesWon: "desc" },
-        { gamesPlayed: "asc" }, // Fewer games with same wins = better
+        { rating: "desc" },
+        { gamesRated: "desc" }, // More games with same rating = more reliable
       ],
       take: limit,
       select: {
-        id: true,
-        name: true,
-        image: true,
-        gamesPlayed: true,
-        gamesWon: true,
+        rating: true,
+        gamesRated: true,
+        user: {
+          select: {
+            id: true,
+            name: true,
+            image: true,
+            gamesPlayed: true,
+            gamesWon: true,
+          },
+        },
       },
     });
 
-    const leaderboard: LeaderboardEntry[] = users.map((user) => ({
-      ...user,
-      winRate:
-        user.gamesPlayed > 0
-          ? Math.round((user.gamesWon / user.gamesPlayed) * 100)
-          : 0,
-    }));
+    const leaderboard: RatedLeaderboardEntry[] = ratings.map(
+      ({ user, ...rating }) => ({
+        ...user,
+        ...rating,
+        winRate:
+          user.gamesPlayed > 0
+            ? Math.round((user.gamesWon / user.gamesPlayed) * 100)
+            : 0,
+      })
+    );
 
     return { leaderboard };
   } catch (error) {
@@ -103,3 +128,48 @@ export async function getUserStats(
     return { error: "Failed to fetch user stats" };
   }
 }
+
+/**
+ * Get a user's ratings (one per game mode they have played rated games in)
+ */
+export async function getUserRatings(
+  userId: string
+): Promise<{ ratings: UserRatingSummary[] } | { error: string }> {
+  try {
+    const ratings = await db.userRating.findMany({
+      where: { userId },
+      orderBy: { gameMode: "asc" },
+    });
+
+    const summaries = await Promise.all(
+      ratings.map(async (r): Promise<UserRatingSummary> => {
+        const higher = await db.userRating.count({
+          where: { gameMode: r.gameMode, rating: { gt: r.rating } },
+        });
+
+        const changes = await db.ratingChange.findMany({
+          where: { userId, gameMode: r.gameMode },
+          orderBy: { createdAt: "desc" },
+          take: RATING.HISTORY,
+        });
+
+        return {
+          gameMode: r.gameMode,
+          rating: r.rating,
+          gamesRated: r.gamesRated,
+          rank: higher + 1,
+          history: changes.reverse().map((c) => ({
+            rating: c.after,
+            change: c.after - c.before,
+            createdAt: c.createdAt,
+          })),
+        };
+      })
+    );
+
+    return { ratings: summaries };
+  } catch (error) {
+    console.error("Error fetching user ratings:", error);
+    return { error: "Failed to fetch user ratings" };
+  }
+}
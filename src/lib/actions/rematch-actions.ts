@@ -0,0 +1,154 @@
+"use server";
+
+import { db } from "@/lib/db";
+import { getOrCreateSessionId } from "@/lib/session";
+import { onGameStart } from "@/lib/bot/scheduler";
+import { beginGame } from "@/lib/game-start";
+import { uniqueRoomCode } from "@/lib/room-code";
+import { toLoggedAction } from "@/lib/action-log";
+import {
+  nextStartingSeat,
+  pendingRematchSeats,
+  rematchPlayers,
+  seriesScore,
+  type SeriesScore,
+} from "@/lib/rematch";
+import crypto from "crypto";
+
+/**
+ * Accept a rematch of a finished game
+ * The last human to accept creates and starts the rematch room (see
+ * lib/rematch.ts). `rematchCode` is null while others have yet to accept.
+ */
+export async function acceptRematch(
+  code: string
+): Promise<{ rematchCode: string | null } | { error: string }> {
+  try {
+    const sessionId = await getOrCreateSessionId();
+
+    const player = await db.player.findFirst({
+      where: { sessionId, room: { code } },
+    });
+
+    if (!player) return { error: "Not in this room" };
+
+    const room = await db.room.findUnique({ where: { code } });
+
+    if (!room) return { error: "Room not found" };
+    if (room.status !== "FINISHED") return { error: "Game not finished" };
+    if (room.rematchCode) return { rematchCode: room.rematchCode };
+
+    // Atomic append: concurrent votes never overwrite each other
+    await db.room.updateMany({
+      where: { id: room.id, NOT: { rematchVotes: { has: player.playerId } } },
+      data: { rematchVotes: { push: player.playerId } },
+    });
+
+    // Read the votes after ours committed, so the last voter always sees
+    // everyone's
+    const voted = await db.room.findUnique({
+      where: { id: room.id },
+      include: {
+        players: true,
+        actions: { where: { type: "START" } },
+      },
+    });
+
+    if (!voted) return { error: "Room not found" };
+    if (voted.rematchCode) return { rematchCode: voted.rematchCode };
+    if (pendingRematchSeats(voted).length > 0) return { rematchCode: null };
+
+    const start = voted.actions
+      .map(toLoggedAction)
+      .find((a) => a.type === "START");
+    if (!start || start.type !== "START") {
+      return { error: "Game has no starting position" };
+    }
+
+    const rematchCode = await uniqueRoomCode();
+    const seriesId = voted.seriesId ?? voted.id;
+
+    const created = await db.$transaction(async (tx) => {
+      // Only one voter creates the room
+      const claimed = await tx.room.updateMany({
+        where: { id: voted.id, rematchCode: null },
+        data: { rematchCode, seriesId },
+      });
+      if (claimed.count === 0) return false;
+
+      const rematch = await tx.room.create({
+        data: {
+          code: rematchCode,
+          gameMode: voted.gameMode,
+          boardSize: voted.boardSize,
+          hostSessionId: voted.hostSessionId,
+          currentTurn: nextStartingSeat(
+            voted.players.map((p) => p.playerId),
+            start.playerId
+          ),
+          allowBots: voted.allowBots,
+          botSeed: crypto.randomUUID(),
+          turnNumber: 0,
+          timeControl: voted.timeControl,
+          timeLimitMs: voted.timeLimitMs,
+          timeIncrementMs: voted.timeIncrementMs,
+          timeoutAction: voted.timeoutAction,
+          untilPlacements: voted.untilPlacements,
+          sharedWalls: voted.sharedWalls,
+          seriesId,
+          players: {
+            create: rematchPlayers(voted.players, start.payload),
+          },
+        },
+        include: { players: true },
+      });
+
+      return beginGame(tx, rematch);
+    });
+
+    if (!created) {
+      // Another voter created it first
+      const latest = await db.room.findUnique({
+        where: { id: voted.id },
+        select: { rematchCode: true },
+      });
+      return { rematchCode: latest?.rematchCode ?? null };
+    }
+
+    // Schedule bot move if first player is a bot
+    await onGameStart(rematchCode);
+
+    return { rematchCode };
+  } catch (error) {
+    console.error("Error creating rematch:", error);
+    return { error: "Failed to create rematch" };
+  }
+}
+
+/**
+ * Get the score of the series a room belongs to
+ * `series` is null for a game that is not part of a rematch series.
+ */
+export async function getSeriesScore(
+  code: string
+): Promise<{ series: SeriesScore | null } | { error: string }> {
+  try {
+    const room = await db.room.findUnique({
+      where: { code },
+      select: { seriesId: true },
+    });
+
+    if (!room) return { error: "Room not found" };
+    if (!room.seriesId) return { series: null };
+
+    const games = await db.room.findMany({
+      where: { seriesId: room.seriesId },
+      select: { status: true, winner: true, gameMode: true },
+    });
+
+    return { series: seriesScore(games) };
+  } catch (error) {
+    console.error("Error loading series score:", error);
+    return { error: "Failed to load series score" };
+  }
+}
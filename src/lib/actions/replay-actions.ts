@@ -0,0 +1,54 @@
+"use server";
+
+import { db } from "@/lib/db";
+import { toLoggedAction, type LoggedAction } from "@/lib/action-log";
+import { formatGameRecord } from "@/lib/notation";
+import { toPublicRoom } from "@/lib/public-room";
+import type { PublicRoom } from "@/types/room";
+
+/**
+ * Get everything needed to replay a game
+ * Available once the game has started (the board is public information);
+ * the room is sent without session IDs, like the live game
+ */
+export async function getReplay(
+  code: string
+): Promise<{ room: PublicRoom; actions: LoggedAction[] } | { error: string }> {
+  try {
+    const room = await db.room.findUnique({
+      where: { code },
+      include: {
+        players: { orderBy: { playerId: "asc" } },
+        barriers: true,
+        actions: { orderBy: { turnNumber: "asc" } },
+      },
+    });
+
+    if (!room) return { error: "Room not found" };
+    if (room.status === "WAITING") return { error: "Game not started" };
+
+    const { actions, ...rest } = room;
+
+    return { room: toPublicRoom(rest), actions: actions.map(toLoggedAction) };
+  } catch (error) {
+    console.error("Error loading replay:", error);
+    return { error: "Failed to load replay" };
+  }
+}
+
+/**
+ * Get the game record in Bloqueio notation (see lib/notation.ts)
+ */
+export async function getGameRecord(
+  code: string
+): Promise<{ record: string } | { error: string }> {
+  const replay = await getReplay(code);
+  if ("error" in replay) return replay;
+
+  try {
+    return { record: formatGameRecord(replay.room, replay.actions) };
+  } catch (error) {
+    console.error("Error writing game record:", error);
+    return { error: "Failed to write game record" };
+  }
+}
@@ -4,8 +4,30 @@ import { db } from "@/lib/db";
 import { getOrCreateSessionId, getGuestName } from "@/lib/session";
 import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
-import type { GoalSide, PlayerType } from "@prisma/client";
-import { getGameModeConfig, type GameMode } from "@/types/game";
+import type { PlayerType } from "@prisma/client";
+import {
+  DEFAULT_BOARD_SIZE,
+  getGameModeConfig,
+  getWallsPerPlayer,
+  isBoardSize,
+  isGameMode,
+  type GameMode,
+} from "@/types/game";
+import { PLAYER_CONFIGS, startingCell } from "@/config/players";
+import {
+  DEFAULT_BOT_PERSONALITY,
+  isBotPersonality,
+} from "@/config/personalities";
+import {
+  turnRemainingMs,
+  validateTimeControl,
+  type TimeControlSettings,
+} from "@/lib/clock";
+import { enforceTurnClock } from "@/lib/turn-timeout";
+import { countSpectators, touchSpectator } from "@/lib/spectators";
+import { uniqueRoomCode } from "@/lib/room-code";
+import { STALE_STATE_ERROR, claimTurn } from "@/lib/concurrency";
+import { toPublicRoom } from "@/lib/public-room";
 import crypto from "crypto";
 
 type PlayerSlotConfig =
@@ -13,71 +35,50 @@ type PlayerSlotConfig =
   | "HUMAN"
   | "BOT_EASY"
   | "BOT_MEDIUM"
-  | "BOT_HARD";
-
-/**
- * Generate a random 6-character room code (uppercase letters and numbers)
- */
-function generateRoomCode(): string {
-  const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
-  let code = "";
-  for (let i = 0; i < 6; i++) {
-    code += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  return code;
-}
-
-/**
- * Player configuration constants
- */
-const PLAYER_CONFIGS = [
-  {
-    name: "Player 1",
-    color: "#ef4444",
-    row: 5,
-    col: 1, // First cell AFTER left border
-    goalSide: "RIGHT" as GoalSide,
-  },
-  {
-    name: "Player 2",
-    color: "#3b82f6",
-    row: 1, // First cell AFTER top border
-    col: 5,
-    goalSide: "BOTTOM" as GoalSide,
-  },
-  {
-    name: "Player 3",
-    color: "#22c55e",
-    row: 5,
-    col: 9, // First cell AFTER right border
-    goalSide: "LEFT" as GoalSide,
-  },
-  {
-    name: "Player 4",
-    color: "#f59e0b",
-    row: 9, // First cell AFTER bottom border
-    col: 5,
-    goalSide: "TOP" as GoalSide,
-  },
-];
+  | "BOT_HARD"
+  | "BOT_EXPERT";
 
 /**
  * Create a new game room
  * Returns room code and player ID (host is always player 0)
  *
- * @param gameMode - TWO_PLAYER or FOUR_PLAYER
+ * @param gameMode - TWO_PLAYER, FOUR_PLAYER or TEAMS
  * @param playerSlots - Optional array defining which slots are bots/humans (host is always HUMAN at index 0)
+ * @param timeControl - Optional clock (defaults to no clock)
+ * @param untilPlacements - FOUR_PLAYER: play on until every place is decided
+ * @param sharedWalls - TEAMS: partners place each other's walls
+ * @param boardSize - Inner cells per side (7, 9 or 11); walls scale with it
+ * @param botPersonalities - Optional personality per slot, used by bot slots (defaults to BALANCED)
  */
 export async function createRoom(
   gameMode: GameMode = "FOUR_PLAYER",
-  playerSlots?: PlayerSlotConfig[]
+  playerSlots?: PlayerSlotConfig[],
+  timeControl?: TimeControlSettings,
+  untilPlacements: boolean = false,
+  sharedWalls: boolean = false,
+  boardSize: number = DEFAULT_BOARD_SIZE,
+  botPersonalities: string[] = []
 ): Promise<{ code: string; playerId: number } | { error: string }> {
   try {
     // Validate gameMode
-    if (gameMode !== "TWO_PLAYER" && gameMode !== "FOUR_PLAYER") {
+    if (!isGameMode(gameMode)) {
       return { error: "Invalid game mode" };
     }
 
+    if (!isBoardSize(boardSize)) {
+      return { error: "Invalid board size" };
+    }
+
+    if (!botPersonalities.every(isBotPersonality)) {
+      return { error: "Invalid bot personality" };
+    }
+
+    // Validate time control
+    if (timeControl) {
+      const timeControlError = validateTimeControl(timeControl);
+      if (timeControlError) return { error: timeControlError };
+    }
+
     const sessionId = await getOrCreateSessionId();
 
     // Get current user from Better Auth (if logged in)
@@ -89,14 +90,7 @@ export async function createRoom(
     const guestName = await getGuestName();
 
     // Generate unique room code
-    let code = generateRoomCode();
-    let existing = await db.room.findUnique({ where: { code } });
-
-    // Retry if code collision (very unlikely)
-    while (existing) {
-      code = generateRoomCode();
-      existing = await db.room.findUnique({ where: { code } });
-    }
+    const code = await uniqueRoomCode();
 
     const config = PLAYER_CONFIGS[0]; // Host is always player 0
 
@@ -104,11 +98,15 @@ export async function createRoom(
     const playerName = session?.user?.name || guestName || config.name;
 
     const modeConfig = getGameModeConfig(gameMode);
+    const wallsPerPlayer = getWallsPerPlayer(gameMode, boardSize);
     const hasBots =
       playerSlots &&
       playerSlots.some(
         (slot) =>
-          slot === "BOT_EASY" || slot === "BOT_MEDIUM" || slot === "BOT_HARD"
+          slot === "BOT_EASY" ||
+          slot === "BOT_MEDIUM" ||
+          slot === "BOT_HARD" ||
+          slot === "BOT_EXPERT"
       );
 
     // Build initial players array
@@ -121,10 +119,9 @@ export async function createRoom(
       userId: session?.user?.id || null,
       name: playerName,
       color: config.color,
-      row: config.row,
-      col: config.col,
+      ...startingCell(0, boardSize),
       goalSide: config.goalSide,
-      wallsLeft: modeConfig.wallsPerPlayer,
+      wallsLeft: wallsPerPlayer,
       playerType: "HUMAN" as PlayerType,
     });
 
@@ -147,14 +144,13 @@ export async function createRoom(
         if (
           slotType === "BOT_EASY" ||
           slotType === "BOT_MEDIUM" ||
-          slotType === "BOT_HARD"
+          slotType === "BOT_HARD" ||
+          slotType === "BOT_EXPERT"
         ) {
           // For 2-player mode, use facing positions (player 0 vs player 2)
           // For 4-player mode, use standard positions
-          const botConfig =
-            gameMode === "TWO_PLAYER" && i === 1
-              ? PLAYER_CONFIGS[2] // Use player 2 position (bottom, facing player 0 at top)
-              : PLAYER_CONFIGS[i];
+          const botSeat = gameMode === "TWO_PLAYER" && i === 1 ? 2 : i;
+          const botConfig = PLAYER_CONFIGS[botSeat];
 
           playersToCreate.push({
             playerId: i,
@@ -162,11 +158,11 @@ export async function createRoom(
             userId: null,
             name: `Bot ${i + 1}`,
             color: botConfig.color,
-            row: botConfig.row,
-            col: botConfig.col,
+            ...startingCell(botSeat, boardSize),
             goalSide: botConfig.goalSide,
-            wallsLeft: modeConfig.wallsPerPlayer,
-            playerType: slotType as PlayerType, // BOT_EASY, BOT_MEDIUM, or BOT_HARD
+            wallsLeft: wallsPerPlayer,
+            playerType: slotType as PlayerType, // BOT_EASY, BOT_MEDIUM, BOT_HARD or BOT_EXPERT
+            botPersonality: botPersonalities[i] ?? DEFAULT_BOT_PERSONALITY,
           });
         }
       }
@@ -177,10 +173,14 @@ export async function createRoom(
       data: {
         code,
         gameMode,
+        boardSize,
         hostSessionId: sessionId,
         botSeed: crypto.randomUUID(), // Deterministic RNG seed for bot reproducibility
         turnNumber: 0, // Initialize concurrency control
         allowBots: hasBots, // Enable bots if any are configured
+        ...(timeControl && timeControl.timeControl !== "NONE" && timeControl),
+        untilPlacements: untilPlacements && gameMode === "FOUR_PLAYER", // Placements need 3+ players
+        sharedWalls: sharedWalls && gameMode === "TEAMS",
         players: {
           create: playersToCreate,
         },
@@ -278,10 +278,9 @@ export async function joinRoom(
         userId: session?.user?.id || null,
         name: playerName,
         color: playerConfig.color,
-        row: playerConfig.row,
-        col: playerConfig.col,
+        ...startingCell(nextId, room.boardSize),
         goalSide: playerConfig.goalSide,
-        wallsLeft: config.wallsPerPlayer, // Dynamic based on game mode
+        wallsLeft: getWallsPerPlayer(room.gameMode, room.boardSize), // Dynamic based on game mode and board size
       },
     });
 
@@ -292,13 +291,88 @@ export async function joinRoom(
   }
 }
 
+/** Seat 2 (P3) sits opposite the host: whoever holds it is their partner */
+const HOST_PARTNER_SEAT = 2;
+
+/** Position, goal and color of a seat */
+function seatFields(playerId: number, boardSize: number) {
+  const { color, goalSide } = PLAYER_CONFIGS[playerId];
+  return { playerId, color, ...startingCell(playerId, boardSize), goalSide };
+}
+
+/**
+ * Choose the host's partner in a waiting TEAMS room
+ * Partners sit opposite each other, so the chosen player swaps seats with
+ * whoever is in seat 2; that also decides the other team. The swap claims a
+ * turn, so the lobby refreshes and a start racing it is rejected.
+ */
+export async function choosePartner(
+  code: string,
+  playerId: number
+): Promise<{ success: true } | { error: string }> {
+  try {
+    const sessionId = await getOrCreateSessionId();
+
+    const room = await db.room.findUnique({
+      where: { code },
+      include: { players: true },
+    });
+
+    if (!room) return { error: "Room not found" };
+    if (room.hostSessionId !== sessionId) {
+      return { error: "Only host can choose teams" };
+    }
+    if (room.gameMode !== "TEAMS") return { error: "Not a team game" };
+    if (room.status !== "WAITING") return { error: "Game already started" };
+
+    const chosen = room.players.find((p) => p.playerId === playerId);
+    if (!chosen || playerId === 0) return { error: "Player not found" };
+    if (playerId === HOST_PARTNER_SEAT) return { success: true };
+
+    const partner = room.players.find((p) => p.playerId === HOST_PARTNER_SEAT);
+
+    const applied = await db.$transaction(async (tx) => {
+      const claimed = await claimTurn(tx, room.id, room.turnNumber);
+      if (!claimed) return false;
+
+      // Free the chosen seat first: seats are unique per room
+      await tx.player.update({
+        where: { id: chosen.id },
+        data: { playerId: -1 },
+      });
+      if (partner) {
+        await tx.player.update({
+          where: { id: partner.id },
+          data: seatFields(playerId, room.boardSize),
+        });
+      }
+      await tx.player.update({
+        where: { id: chosen.id },
+        data: seatFields(HOST_PARTNER_SEAT, room.boardSize),
+      });
+
+      return true;
+    });
+
+    return applied ? { success: true } : { error: STALE_STATE_ERROR };
+  } catch (error) {
+    console.error("Error choosing partner:", error);
+    return { error: "Failed to choose partner" };
+  }
+}
+
 /**
  * Get current room state for polling
+ * Applies a pending clock timeout first; `turnRemainingMs` is the time left
+ * on the current turn at `serverTime` (null without a clock).
+ * `spectatorCount` is the number of sessions watching (see lib/spectators.ts).
  */
 export async function getRoomState(code: string) {
   try {
     const sessionId = await getOrCreateSessionId();
 
+    await enforceTurnClock(code);
+
     const room = await db.room.findUnique({
       where: { code },
       include: {
@@ -313,13 +387,45 @@ export async function getRoomState(code: string) {
 
     const myPlayer = room.players.find((p) => p.sessionId === sessionId);
 
+    const serverTime = Date.now();
+
     return {
-      room,
+      room: toPublicRoom(room),
       myPlayerId: myPlayer?.playerId ?? null,
       isMyTurn: myPlayer?.playerId === room.currentTurn,
+      serverTime,
+      turnRemainingMs: turnRemainingMs(room, serverTime),
+      spectatorCount: await countSpectators(room.id, serverTime),
     };
   } catch (error) {
     console.error("Error getting room state:", error);
     return { error: "Failed to get room state" };
   }
 }
+
+/**
+ * Get room state as a spectator
+ * Same result as getRoomState. A session without a seat is registered as a
+ * spectator on every call, so polling keeps them counted. The room carries
+ * no session IDs (see public-room.ts), so spectators cannot act as a player.
+ */
+export async function watchRoom(code: string) {
+  try {
+    const sessionId = await getOrCreateSessionId();
+
+    const room = await db.room.findUnique({
+      where: { code },
+      select: { id: true, players: { select: { sessionId: true } } },
+    });
+
+    if (!room) return { error: "Room not found" };
+
+    if (!room.players.some((p) => p.sessionId === sessionId)) {
+      await touchSpectator(room.id, sessionId);
+    }
+  } catch (error) {
+    console.error("Error registering spectator:", error);
+  }
+
+  return getRoomState(code);
+}
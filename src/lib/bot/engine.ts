@@ -1,17 +1,61 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
 /**
  * Bot Engine Orchestrator
  * Coordinates bot strategy selection and move execution
- * All bots go through here (Easy, Medium, Hard)
+ * All bots go through here (strategies come from registry.ts)
  */
 
 import { db } from "@/lib/db";
-import type { GameSnapshot, PlayerSnapshot } from "./types";
-import { EasyBot } from "./strategies/easy";
-import { MediumBot } from "./strategies/medium";
-import { HardBot } from "./strategies/hard";
+import { createBotStrategy, isBotPlayerType } from "./registry";
 import { SeededRNG } from "./rng";
+import type { BotDecision, BotStrategy } from "./types";
+import {
+  DEFAULT_BOT_PERSONALITY,
+  isBotPersonality,
+  type BotPersonality,
+} from "@/config/personalities";
 import { afterMoveCommit } from "./scheduler";
+import { dbToSnapshot } from "./snapshot";
+import { getFallbackAction } from "./moves";
+import { STALE_STATE_ERROR, claimTurn } from "@/lib/concurrency";
+import { bankAfterTurn } from "@/lib/clock";
+import { logAction } from "@/lib/action-log";
+import { recordGameResult } from "@/lib/game-results";
+import {
+  validateRoomAction,
+  type ActionValidationResult,
+} from "@/lib/action-validation";
+import {
+  fromRoom,
+  nextPlayerId,
+  toDbOrientation,
+  toEngineAction,
+  turnAfterMove,
+  wallOwner,
+  type EngineAction,
+} from "@/lib/engine";
+
+/** Decision types strategies may return */
+const DECISION_TYPES = ["MOVE", "WALL"];
+
+/** Result of a bot turn, reported back to the worker */
+export interface BotMoveOutcome {
+  /**
+   * Why the strategy's decision was rejected (a fallback action was played
+   * instead), or null when the decision was applied as-is
+   */
+  rejection: string | null;
+}
+
+/** Human-readable description of an action, for logs and job errors */
+function describeAction(action: {
+  type: string;
+  row: number;
+  col: number;
+  orientation?: string;
+}): string {
+  const orientation = action.orientation ? ` ${action.orientation}` : "";
+  return `${action.type} at (${action.row}, ${action.col})${orientation}`;
+}
 
 export class BotEngine {
   private rngSeed: string;
@@ -23,9 +67,15 @@ export class BotEngine {
   /**
    * Execute bot move for a specific player
    * Creates transaction, executes move, increments turnNumber
+   * The decision goes through the same validation as human actions; an
+   * illegal decision, or a strategy that throws, is replaced by a
+   * guaranteed-legal fallback action.
    * Called ONLY from worker.ts (never from client)
    */
-  async executeBotMove(roomCode: string, playerId: number): Promise<void> {
+  async executeBotMove(
+    roomCode: string,
+    playerId: number
+  ): Promise<BotMoveOutcome> {
     // Load current state
     const room = await db.room.findUnique({
       where: { code: roomCode },
@@ -35,7 +85,7 @@ export class BotEngine {
     if (!room) throw new Error(`Room not found: ${roomCode}`);
 
     // Build game snapshot
-    const snapshot = this.dbToSnapshot(room);
+    const snapshot = dbToSnapshot(room);
 
     // Get bot strategy based on player type
     const player = room.players.find((p) => p.playerId === playerId);
@@ -43,119 +93,206 @@ export class BotEngine {
       throw new Error(`Player ${playerId} not found in room ${roomCode}`);
 
     const difficulty = player.playerType.replace("BOT_", "");
+    const personality: BotPersonality =
+      player.botPersonality && isBotPersonality(player.botPersonality)
+        ? player.botPersonality
+        : DEFAULT_BOT_PERSONALITY;
     const bot = this.getBotStrategy(
-      difficulty,
+      player.playerType,
       room.botSeed || this.rngSeed,
       room.turnNumber,
-      playerId
+      playerId,
+      personality
     );
 
     // Bot makes decision (with 5s timeout already enforced by worker)
     const startTime = Date.now();
-    const decision = await bot.selectMove(snapshot, playerId);
+    let decision: BotDecision | null = null;
+    let strategyError: string | null = null;
+    try {
+      decision = await bot.selectMove(snapshot, playerId);
+    } catch (error) {
+      strategyError = error instanceof Error ? error.message : String(error);
+    }
+    const move = decision?.move;
     const computeTime = Date.now() - startTime;
 
-    console.log(
-      `🤖 Bot ${playerId} (${difficulty}): ${decision.type} at (${decision.row}, ${decision.col}) [${computeTime}ms]`
-    );
+    if (move) {
+      console.log(
+        `🤖 Bot ${playerId} (${difficulty}): ${move.type} at (${move.row}, ${move.col}) [${computeTime}ms]`
+      );
+    }
+
+    // Validate like a human action; fall back to a legal action if rejected
+    // (a strategy that threw is rejected the same way)
+    let reasoning = decision?.reasoning;
+    let rejection: string | null = null;
+
+    let validation: ActionValidationResult;
+    if (!move) {
+      validation = {
+        valid: false,
+        error: `Strategy failed: ${strategyError ?? "no decision"}`,
+      };
+    } else if (!DECISION_TYPES.includes(move.type)) {
+      validation = { valid: false, error: "Unknown decision type" };
+    } else if (move.type === "WALL" && !move.orientation) {
+      validation = { valid: false, error: "Missing barrier orientation" };
+    } else {
+      validation = validateRoomAction(room, playerId, toEngineAction(move));
+    }
+
+    let action: EngineAction;
+    if (validation.valid) {
+      action = toEngineAction(move!); // Only a decision passes validation
+    } else {
+      const fallback = getFallbackAction(snapshot, playerId);
+      rejection = move
+        ? `Rejected ${describeAction(move)}: ${validation.error}`
+        : validation.error;
+      if (!fallback) throw new Error(`${rejection}; no legal action left`);
+
+      const fallbackValidation = validateRoomAction(room, playerId, fallback);
+      if (!fallbackValidation.valid) {
+        throw new Error(`${rejection}; fallback ${fallbackValidation.error}`);
+      }
+
+      rejection += `; played fallback ${describeAction(fallback)}`;
+      console.warn(`⚠️ Bot ${playerId} (${difficulty}): ${rejection}`);
+
+      action = fallback;
+      reasoning = {
+        strategy: "fallback",
+        ...(move && {
+          rejectedDecision: {
+            type: move.type,
+            row: move.row,
+            col: move.col,
+            orientation: move.orientation,
+          },
+        }),
+        error: validation.error,
+      };
+    }
 
     // Apply move to database (direct DB update, bypassing session checks)
-    if (decision.type === "MOVE") {
-      await this.applyBotMove(room.id, player.id, decision.row, decision.col);
-    } else if (decision.type === "WALL") {
+    if (action.type === "MOVE") {
+      await this.applyBotMove(
+        room.turnNumber,
+        player.id,
+        action.row,
+        action.col
+      );
+    } else {
       await this.applyBotWall(
-        room.id,
+        room.turnNumber,
         player.id,
-        decision.row,
-        decision.col,
-        decision.orientation as "HORIZONTAL" | "VERTICAL"
+        action.row,
+        action.col,
+        toDbOrientation(action.orientation)
       );
     }
 
-    // Log decision
+    // Log decision (the action actually applied)
     await db.botDecisionLog.create({
       data: {
         code: roomCode,
         playerId,
         turnNumber: room.turnNumber,
         difficulty,
-        moveType: decision.type,
+        personality,
+        moveType: action.type,
         decision: {
-          row: decision.row,
-          col: decision.col,
-          orientation: decision.orientation,
+          row: action.row,
+          col: action.col,
+          orientation:
+            action.type === "WALL"
+              ? toDbOrientation(action.orientation)
+              : undefined,
         },
-        reasoning: decision.reasoning as string,
+        reasoning: reasoning as string,
         computeTimeMs: computeTime,
-        candidatesEvaluated: decision.candidatesEvaluated || 0,
+        candidatesEvaluated: decision?.candidatesEvaluated || 0,
       },
     });
 
     // After bot move completes, check if next player is also a bot
     // This creates bot chains (bot → bot → bot until human turn)
     await afterMoveCommit(roomCode);
+
+    return { rejection };
   }
 
   /**
    * Apply bot pawn move directly to DB
    * Similar to makeMove action but bypasses session validation
+   * Throws if the turn advanced past `expectedTurn` (e.g. a human undo)
    */
   private async applyBotMove(
-    roomId: string,
+    expectedTurn: number,
     playerId: string,
     toRow: number,
     toCol: number
   ): Promise<void> {
     const player = await db.player.findUnique({
       where: { id: playerId },
-      include: { room: { include: { players: true } } },
+      include: { room: { include: { players: true, barriers: true } } },
     });
 
     if (!player) throw new Error(`Player ${playerId} not found`);
 
     const room = player.room;
-    const isWin = this.checkWin(player.goalSide, toRow, toCol);
+    const turn = turnAfterMove(fromRoom(room), player.playerId, toRow, toCol);
+    const now = Date.now();
 
     // Execute transaction (same as makeMove but for bots)
-    await db.$transaction([
-      // Update player position
-      db.player.update({
+    const applied = await db.$transaction(async (tx) => {
+      // Update room state (increments turnNumber for next turn)
+      const claimed = await claimTurn(tx, room.id, expectedTurn, {
+        currentTurn: turn.currentPlayerId,
+        winner: turn.winner,
+        finishOrder: turn.finishOrder,
+        status: turn.winner !== null ? "FINISHED" : room.status,
+        turnStartedAt: new Date(now),
+      });
+      if (!claimed) return false;
+
+      // Update player position (and their Fischer bank)
+      const timeLeftMs = bankAfterTurn(room, player.playerId, now);
+      await tx.player.update({
         where: { id: playerId },
-        data: { row: toRow, col: toCol },
-      }),
-
-      // Record move in history
-      db.move.create({
         data: {
-          roomId: room.id,
-          playerId: player.playerId,
-          fromRow: player.row,
-          fromCol: player.col,
-          toRow,
-          toCol,
+          row: toRow,
+          col: toCol,
+          ...(timeLeftMs !== null && { timeLeftMs }),
         },
-      }),
+      });
+
+      // Record move in the action log
+      await logAction(tx, room.id, {
+        turnNumber: expectedTurn,
+        playerId: player.playerId,
+        type: "MOVE",
+        payload: { fromRow: player.row, fromCol: player.col, toRow, toCol },
+      });
+
+      // Game over: stats and ratings of the humans who played
+      if (turn.winner !== null) {
+        await recordGameResult(tx, room, turn.winner, turn.finishOrder);
+      }
 
-      // Update room state
-      db.room.update({
-        where: { id: room.id },
-        data: {
-          currentTurn: isWin
-            ? room.currentTurn
-            : this.getNextPlayerId(room.currentTurn, room.players),
-          winner: isWin ? player.playerId : room.winner,
-          status: isWin ? "FINISHED" : room.status,
-          turnNumber: { increment: 1 }, // Increment for next turn
-        },
-      }),
-    ]);
+      return true;
+    });
+
+    if (!applied) throw new Error(STALE_STATE_ERROR);
   }
 
   /**
    * Apply bot wall placement directly to DB
+   * Throws if the turn advanced past `expectedTurn`
    */
   private async applyBotWall(
-    roomId: string,
+    expectedTurn: number,
     playerId: string,
     row: number,
     col: number,
@@ -163,16 +300,24 @@ export class BotEngine {
   ): Promise<void> {
     const player = await db.player.findUnique({
       where: { id: playerId },
-      include: { room: { include: { players: true } } },
+      include: { room: { include: { players: true, barriers: true } } },
     });
 
     if (!player) throw new Error(`Player ${playerId} not found`);
 
     const room = player.room;
+    const owner = wallOwner(fromRoom(room), player.playerId) ?? player.playerId;
+    const now = Date.now();
 
     // Execute transaction (same as placeBarrier but for bots)
-    await db.$transaction([
-      db.barrier.create({
+    const applied = await db.$transaction(async (tx) => {
+      const claimed = await claimTurn(tx, room.id, expectedTurn, {
+        currentTurn: nextPlayerId(fromRoom(room), room.currentTurn),
+        turnStartedAt: new Date(now),
+      });
+      if (!claimed) return false;
+
+      await tx.barrier.create({
         data: {
           roomId: room.id,
           row,
@@ -180,133 +325,58 @@ export class BotEngine {
           orientation,
           placedBy: player.playerId,
         },
-      }),
+      });
 
-      db.player.update({
-        where: { id: playerId },
-        data: { wallsLeft: player.wallsLeft - 1 },
-      }),
-
-      db.room.update({
-        where: { id: room.id },
-        data: {
-          currentTurn: this.getNextPlayerId(room.currentTurn, room.players),
-          turnNumber: { increment: 1 }, // Increment for next turn
+      await logAction(tx, room.id, {
+        turnNumber: expectedTurn,
+        playerId: player.playerId,
+        type: "WALL",
+        payload: {
+          row,
+          col,
+          orientation,
+          ...(owner !== player.playerId && { spentFrom: owner }),
         },
-      }),
-    ]);
-  }
+      });
+
+      // Spend the wall (a partner's when shared, see wallOwner)
+      await tx.player.updateMany({
+        where: { roomId: room.id, playerId: owner },
+        data: { wallsLeft: { decrement: 1 } },
+      });
+
+      const timeLeftMs = bankAfterTurn(room, player.playerId, now);
+      if (timeLeftMs !== null) {
+        await tx.player.update({
+          where: { id: playerId },
+          data: { timeLeftMs },
+        });
+      }
 
-  /**
-   * Check if position is winning position
-   */
-  private checkWin(goalSide: string, row: number, col: number): boolean {
-    switch (goalSide) {
-      case "TOP":
-        return row === 0;
-      case "RIGHT":
-        return col === 10;
-      case "BOTTOM":
-        return row === 10;
-      case "LEFT":
-        return col === 0;
-      default:
-        return false;
-    }
-  }
+      return true;
+    });
 
-  /**
-   * Get next player ID
-   */
-  private getNextPlayerId(
-    currentPlayerId: number,
-    players: Array<{ playerId: number }>
-  ): number {
-    const currentIndex = players.findIndex(
-      (p) => p.playerId === currentPlayerId
-    );
-    if (currentIndex === -1) return players[0].playerId;
-    const nextIndex = (currentIndex + 1) % players.length;
-    return players[nextIndex].playerId;
+    if (!applied) throw new Error(STALE_STATE_ERROR);
   }
 
   /**
-   * Get bot strategy instance for difficulty level
+   * Get bot strategy instance for a bot player type (see registry.ts)
    */
   private getBotStrategy(
-    difficulty: string,
+    playerType: string,
     seed: string,
     turnNumber: number,
-    playerId: number
-  ) {
+    playerId: number,
+    personality: BotPersonality
+  ): BotStrategy {
     // Create deterministic seed: room.botSeed + turnNumber + playerId
     const fullSeed = `${seed}:${turnNumber}:${playerId}`;
     const rng = new SeededRNG(fullSeed);
 
-    switch (difficulty.toUpperCase()) {
-      case "EASY":
-        return new EasyBot(rng);
-      case "MEDIUM":
-        return new MediumBot(rng);
-      case "HARD":
-        return new HardBot(rng);
-      default:
-        console.warn(`Unknown difficulty: ${difficulty}, defaulting to EASY`);
-        return new EasyBot(rng);
-    }
-  }
-
-  /**
-   * Convert DB state to game snapshot
-   */
-  private dbToSnapshot(room: any): GameSnapshot {
-    // Build blocked edges from barriers
-    const blockedEdges = new Set<string>();
-    const edgeKey = (r1: number, c1: number, r2: number, c2: number) => {
-      if (r1 > r2 || (r1 === r2 && c1 > c2)) {
-        [r1, r2] = [r2, r1];
-        [c1, c2] = [c2, c1];
-      }
-      return `${r1},${c1}:${r2},${c2}`;
-    };
-
-    for (const b of room.barriers) {
-      if (b.orientation === "HORIZONTAL") {
-        blockedEdges.add(edgeKey(b.row, b.col, b.row + 1, b.col));
-        blockedEdges.add(edgeKey(b.row, b.col + 1, b.row + 1, b.col + 1));
-      } else {
-        blockedEdges.add(edgeKey(b.row, b.col, b.row, b.col + 1));
-        blockedEdges.add(edgeKey(b.row + 1, b.col, b.row + 1, b.col + 1));
-      }
+    if (!isBotPlayerType(playerType)) {
+      console.warn(`Unknown bot type: ${playerType}, defaulting to BOT_EASY`);
+      return createBotStrategy("BOT_EASY", rng);
     }
-
-    const players: PlayerSnapshot[] = room.players.map((p: any) => ({
-      playerId: p.playerId,
-      row: p.row,
-      col: p.col,
-      goalSide: p.goalSide,
-      wallsLeft: p.wallsLeft,
-      name: p.name,
-      playerType: p.playerType,
-    }));
-
-    const barriers = room.barriers.map((b: any) => ({
-      id: b.id,
-      row: b.row,
-      col: b.col,
-      orientation: b.orientation,
-      placedBy: b.placedBy,
-    }));
-
-    return {
-      roomCode: room.code,
-      turnNumber: room.turnNumber,
-      currentTurn: room.currentTurn,
-      players,
-      blockedEdges,
-      barriers,
-      winner: room.winner,
-      gameMode: room.gameMode,
-    };
+    return createBotStrategy(playerType, rng, {}, personality);
   }
 }
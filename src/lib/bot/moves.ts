@@ -0,0 +1,143 @@
+/**
+ * Move generation for bot decision-making
+ * Delegates to the shared rules engine so bots get exactly the moves humans
+ * get (steps, straight jumps and side-steps)
+ */
+
+import {
+  availableWalls,
+  fromRoom,
+  legalMoves,
+  legalWalls,
+  shortestPath,
+  shortestPathAroundPawns,
+  teamOf,
+  type Cell,
+  type EdgeBitboard,
+  type EngineAction,
+} from "@/lib/engine";
+import type { GameSnapshot } from "./types";
+
+/**
+ * Get all legal pawn destinations for a player
+ */
+export function getLegalMoves(
+  gameState: GameSnapshot,
+  playerId: number
+): Array<{ row: number; col: number }> {
+  return legalMoves(fromRoom(gameState), playerId);
+}
+
+/**
+ * Positions of every pawn except the given player's
+ * Used as obstacles for pawn-aware pathfinding
+ */
+export function otherPawns(
+  gameState: GameSnapshot,
+  playerId: number
+): Array<{ row: number; col: number }> {
+  return gameState.players
+    .filter((p) => p.playerId !== playerId)
+    .map((p) => ({ row: p.row, col: p.col }));
+}
+
+/**
+ * Shortest path from a cell to the player's goal (engine BFS)
+ * Every step is a legal pawn move around the other pawns, jumps and
+ * side-steps included; if the pawns plug every route, falls back to the
+ * barrier-only path since pawns move away eventually. `from` defaults to
+ * the player's cell and `blockedEdges` to the board's (pass them to try a
+ * move or a wall first). Returns null when barriers cut the goal off.
+ */
+export function pathToGoal(
+  gameState: GameSnapshot,
+  playerId: number,
+  from?: Cell,
+  blockedEdges: EdgeBitboard = gameState.blockedEdges
+): Cell[] | null {
+  const player = gameState.players.find((p) => p.playerId === playerId);
+  if (!player) return null;
+
+  const start = from ?? { row: player.row, col: player.col };
+  return (
+    shortestPathAroundPawns(
+      start,
+      player.goalSide,
+      blockedEdges,
+      otherPawns(gameState, playerId),
+      gameState.boardSize
+    ) ?? shortestPath(start, player.goalSide, blockedEdges, gameState.boardSize)
+  );
+}
+
+/** Moves left along pathToGoal (Infinity when the goal is cut off) */
+export function pathLength(path: Cell[] | null): number {
+  return path ? path.length - 1 : Infinity;
+}
+
+/**
+ * Opponents still racing: players who forfeited or already finished
+ * (placements mode) are out of the race and not worth blocking - the same
+ * players nextPlayerId skips - and a partner (TEAMS) is not an opponent
+ */
+export function racingOpponents<
+  P extends { playerId: number; forfeited?: boolean },
+>(
+  gameState: { players: P[]; finishOrder?: number[]; gameMode?: string },
+  playerId: number
+): P[] {
+  return gameState.players.filter(
+    (p) =>
+      p.playerId !== playerId &&
+      !p.forfeited &&
+      !gameState.finishOrder?.includes(p.playerId) &&
+      !(
+        gameState.gameMode === "TEAMS" &&
+        teamOf(p.playerId) === teamOf(playerId)
+      )
+  );
+}
+
+/** Walls a player can place, their partner's included when shared */
+export function wallsAvailable(
+  gameState: GameSnapshot,
+  playerId: number
+): number {
+  return availableWalls(fromRoom(gameState), playerId);
+}
+
+/**
+ * Guaranteed-legal action used when a strategy's decision is rejected
+ * Prefers the pawn move that leaves the shortest path to goal; a pawn boxed
+ * in by other pawns places the first legal wall instead. Returns null only
+ * when the player has no legal action at all.
+ */
+export function getFallbackAction(
+  gameState: GameSnapshot,
+  playerId: number
+): EngineAction | null {
+  const player = gameState.players.find((p) => p.playerId === playerId);
+  if (!player) return null;
+
+  let best: { row: number; col: number } | null = null;
+  let bestDistance = Infinity;
+
+  for (const move of getLegalMoves(gameState, playerId)) {
+    const distance = pathLength(pathToGoal(gameState, playerId, move));
+    if (best === null || distance < bestDistance) {
+      best = move;
+      bestDistance = distance;
+    }
+  }
+  if (best) return { type: "MOVE", row: best.row, col: best.col };
+
+  const [wall] = legalWalls(fromRoom(gameState), playerId);
+  return wall
+    ? {
+        type: "WALL",
+        row: wall.row,
+        col: wall.col,
+        orientation: wall.orientation,
+      }
+    : null;
+}
@@ -0,0 +1,102 @@
+/**
+ * Bot Strategy Registry
+ * Maps each bot PlayerType to its strategy and the config it plays with;
+ * the bot's personality (config/personalities.ts) is passed on to it.
+ * The bot engine, hints and the tournament harness all create strategies
+ * through here, so a new strategy only needs an entry below.
+ */
+
+import { SeededRNG } from "./rng";
+import { EasyBot } from "./strategies/easy";
+import { MediumBot } from "./strategies/medium";
+import { HardBot, type HardBotOptions } from "./strategies/hard";
+import { ExpertBot, type ExpertBotOptions } from "./strategies/expert";
+import type { BotPlayerType, BotStrategy } from "./types";
+import {
+  DEFAULT_BOT_PERSONALITY,
+  PERSONALITY_PROFILES,
+  type BotPersonality,
+  type PersonalityProfile,
+} from "@/config/personalities";
+
+interface RegisteredStrategy<Config> {
+  /** Settings used in real games */
+  config: Config;
+  /** Whether the strategy plays differently with each personality */
+  usesPersonality: boolean;
+  create: (
+    rng: SeededRNG,
+    config: Config,
+    personality: PersonalityProfile
+  ) => BotStrategy;
+}
+
+/** Keeps each entry's config type tied to its factory */
+function strategy<Config>(
+  entry: RegisteredStrategy<Config>
+): RegisteredStrategy<Config> {
+  return entry;
+}
+
+export const BOT_STRATEGIES = {
+  BOT_EASY: strategy({
+    config: {},
+    usesPersonality: false, // Plays at random
+    create: (rng) => new EasyBot(rng),
+  }),
+  BOT_MEDIUM: strategy({
+    config: {},
+    usesPersonality: true,
+    create: (rng, _, personality) => new MediumBot(rng, personality),
+  }),
+  BOT_HARD: strategy<HardBotOptions>({
+    // 2 rounds in 2P, 1 round in 4P; well under the worker's 5s timeout
+    config: { maxDepth: 4, timeBudgetMs: 1500 },
+    usesPersonality: true,
+    create: (rng, config, personality) => new HardBot(rng, config, personality),
+  }),
+  BOT_EXPERT: strategy<ExpertBotOptions>({
+    // Fixed iterations for determinism; the budget is a safety net well
+    // under the worker's 5s timeout
+    config: { iterations: 250, timeBudgetMs: 2500 },
+    usesPersonality: true,
+    create: (rng, config, personality) =>
+      new ExpertBot(rng, config, personality),
+  }),
+} satisfies Record<BotPlayerType, unknown>;
+
+export type BotStrategyConfig<T extends BotPlayerType> =
+  (typeof BOT_STRATEGIES)[T]["config"];
+
+/** Bot player types with a registered strategy */
+export const BOT_PLAYER_TYPES = Object.keys(BOT_STRATEGIES) as BotPlayerType[];
+
+/** Type guard to check if a value is a registered bot PlayerType */
+export function isBotPlayerType(value: string): value is BotPlayerType {
+  return (BOT_PLAYER_TYPES as string[]).includes(value);
+}
+
+/** Whether a bot's personality changes how it plays */
+export function usesPersonality(playerType: BotPlayerType): boolean {
+  return BOT_STRATEGIES[playerType].usesPersonality;
+}
+
+/**
+ * Create the strategy for a bot player type
+ * `overrides` adjust the registered config (tests and offline tools).
+ */
+export function createBotStrategy<T extends BotPlayerType>(
+  playerType: T,
+  rng: SeededRNG,
+  overrides: Partial<BotStrategyConfig<T>> = {},
+  personality: BotPersonality = DEFAULT_BOT_PERSONALITY
+): BotStrategy {
+  const entry = BOT_STRATEGIES[playerType] as RegisteredStrategy<
+    BotStrategyConfig<T>
+  >;
+  return entry.create(
+    rng,
+    { ...entry.config, ...overrides },
+    PERSONALITY_PROFILES[personality]
+  );
+}
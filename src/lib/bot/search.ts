@@ -0,0 +1,282 @@
+/**
+ * Game-Tree Search Helpers
+ * Shared by the searching strategies: action generation with pruned wall
+ * candidates and a BFS path-length evaluation. Everything works on the
+ * engine state, so searched positions follow the exact game rules
+ * (jumps, shared walls, placements).
+ */
+
+import {
+  availableWalls,
+  distanceToGoal,
+  legalMoves,
+  racingPlayers,
+  shortestPath,
+  teamOf,
+  validateWall,
+  type Cell,
+  type EngineAction,
+  type EngineState,
+  type GoalSide,
+  type Orientation,
+} from "@/lib/engine";
+import { cellToNotation, wallToNotation } from "@/lib/notation";
+import {
+  DEFAULT_BOT_PERSONALITY,
+  PERSONALITY_PROFILES,
+  type PersonalityProfile,
+  type TargetSelection,
+} from "@/config/personalities";
+
+/** Score of a won position (the plies it took are subtracted) */
+export const WIN_SCORE = 1000;
+
+/** Bonus for the side to move: it gets to step first */
+const TEMPO = 0.5;
+
+/** How the evaluation weighs the race (from a bot's personality) */
+export interface EvaluationStyle {
+  /** Weight of the root side's path length */
+  ownWeight: number;
+  /** Weight of the rivals' path length */
+  rivalWeight: number;
+  /** Value of a wall still in hand, in path steps */
+  wallWeight: number;
+  /** Rival distance scored: the closest one's, or the average */
+  target: TargetSelection;
+}
+
+/**
+ * Evaluation style for a personality profile
+ * A balanced profile weighs both races alike and values a wall in hand at
+ * 0.2 steps; risk tolerance shifts weight to the bot's own race, and wall
+ * propensity makes walls in hand cheaper to spend.
+ */
+export function evaluationStyle(profile: PersonalityProfile): EvaluationStyle {
+  return {
+    ownWeight: 0.5 + profile.riskTolerance,
+    rivalWeight: 1.5 - profile.riskTolerance,
+    wallWeight: 0.4 * (1 - profile.wallPropensity),
+    target: profile.targetSelection,
+  };
+}
+
+const DEFAULT_STYLE = evaluationStyle(
+  PERSONALITY_PROFILES[DEFAULT_BOT_PERSONALITY]
+);
+
+/** Whether two seats race together (the same player, or partners) */
+export function sameSide(state: EngineState, a: number, b: number): boolean {
+  return a === b || (!!state.teams && teamOf(a) === teamOf(b));
+}
+
+/** BFS path length to goal (pawns ignored, like the wall rule) */
+function pathLength(
+  state: EngineState,
+  player: Cell & { goalSide: GoalSide },
+  blockedEdges = state.blockedEdges
+): number {
+  return (
+    distanceToGoal(player, player.goalSide, blockedEdges, state.boardSize) ??
+    Infinity
+  );
+}
+
+/**
+ * Closest path length of the root's side, and its rivals' path length:
+ * the closest one's, or the average of those who can reach their goal
+ * Only players still racing count (see racingPlayers).
+ */
+function raceDistances(
+  state: EngineState,
+  rootId: number,
+  target: TargetSelection
+): { own: number; rival: number } {
+  let own = Infinity;
+  const rivals: number[] = [];
+
+  for (const p of racingPlayers(state)) {
+    const distance = pathLength(state, p);
+    if (sameSide(state, p.id, rootId)) {
+      own = Math.min(own, distance);
+    } else if (distance !== Infinity) {
+      rivals.push(distance);
+    }
+  }
+
+  if (rivals.length === 0) return { own, rival: Infinity };
+  const rival =
+    target === "ALL"
+      ? rivals.reduce((sum, d) => sum + d, 0) / rivals.length
+      : Math.min(...rivals);
+  return { own, rival };
+}
+
+/**
+ * BFS path length of the rival closest to their goal
+ */
+export function closestRivalDistance(
+  state: EngineState,
+  playerId: number
+): number {
+  let closest = Infinity;
+  for (const p of racingPlayers(state)) {
+    if (!sameSide(state, p.id, playerId)) {
+      closest = Math.min(closest, pathLength(state, p));
+    }
+  }
+  return closest;
+}
+
+/**
+ * Static evaluation from `rootId`'s point of view (higher is better)
+ * The rivals' path length minus the root side's, plus walls in hand and
+ * the tempo of the side to move, weighted by `style`. Won positions score
+ * ±WIN_SCORE.
+ */
+export function evaluate(
+  state: EngineState,
+  rootId: number,
+  style: EvaluationStyle = DEFAULT_STYLE
+): number {
+  if (state.winner !== null) {
+    return sameSide(state, state.winner, rootId) ? WIN_SCORE : -WIN_SCORE;
+  }
+
+  const { own, rival } = raceDistances(state, rootId, style.target);
+  // Placements: a side with nobody left racing scores on the other alone
+  if (own === Infinity) return rival;
+  if (rival === Infinity) return -own;
+
+  let walls = 0;
+  for (const p of racingPlayers(state)) {
+    walls += sameSide(state, p.id, rootId) ? p.wallsLeft : -p.wallsLeft;
+  }
+  const tempo = sameSide(state, state.currentPlayerId, rootId) ? TEMPO : -TEMPO;
+
+  return (
+    style.rivalWeight * rival -
+    style.ownWeight * own +
+    walls * style.wallWeight +
+    tempo
+  );
+}
+
+/**
+ * Walls that block a step of a path
+ * A step between rows is blocked by the two horizontal walls spanning it,
+ * a step between columns by the two vertical ones.
+ */
+function wallsAcross(
+  path: Cell[]
+): Array<{ row: number; col: number; orientation: Orientation }> {
+  const walls: Array<{ row: number; col: number; orientation: Orientation }> =
+    [];
+
+  for (let i = 1; i < path.length; i++) {
+    const a = path[i - 1];
+    const b = path[i];
+    if (a.row !== b.row) {
+      const row = Math.min(a.row, b.row);
+      walls.push({ row, col: a.col - 1, orientation: "H" });
+      walls.push({ row, col: a.col, orientation: "H" });
+    } else {
+      const col = Math.min(a.col, b.col);
+      walls.push({ row: a.row - 1, col, orientation: "V" });
+      walls.push({ row: a.row, col, orientation: "V" });
+    }
+  }
+  return walls;
+}
+
+/**
+ * Actions worth searching for the player to move
+ * Every pawn move (closest to goal first), then the legal walls across a
+ * rival's shortest path that gain the most steps, capped at `maxWalls`.
+ * A wall off every rival path cannot slow anyone down, so the cut loses
+ * little while keeping the branching factor small.
+ */
+export function candidateActions(
+  state: EngineState,
+  maxWalls: number
+): EngineAction[] {
+  const playerId = state.currentPlayerId;
+  const player = state.players.find((p) => p.id === playerId);
+  if (!player || state.winner !== null) return [];
+
+  const moves = legalMoves(state, playerId)
+    .map((cell) => ({
+      cell,
+      distance: pathLength(state, { ...player, ...cell }),
+    }))
+    .sort((a, b) => a.distance - b.distance)
+    .map(({ cell }): EngineAction => ({ type: "MOVE", ...cell }));
+
+  if (maxWalls <= 0 || availableWalls(state, playerId) === 0) return moves;
+
+  // Steps a wall costs every rival, minus the steps it costs our side
+  const racing = racingPlayers(state);
+  const before = racing.map((p) => pathLength(state, p));
+  const gainOf = (blockedEdges: EngineState["blockedEdges"]) =>
+    racing.reduce((gain, p, i) => {
+      const delta = pathLength(state, p, blockedEdges) - before[i];
+      return gain + (sameSide(state, p.id, playerId) ? -delta : delta);
+    }, 0);
+
+  const seen = new Set<string>();
+  const walls: Array<{ action: EngineAction; gain: number }> = [];
+
+  for (const rival of racing) {
+    if (sameSide(state, rival.id, playerId)) continue;
+
+    const path = shortestPath(
+      rival,
+      rival.goalSide,
+      state.blockedEdges,
+      state.boardSize
+    );
+    if (!path) continue;
+
+    for (const wall of wallsAcross(path)) {
+      const key = `${wall.row},${wall.col},${wall.orientation}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const result = validateWall(
+        state,
+        playerId,
+        wall.row,
+        wall.col,
+        wall.orientation
+      );
+      if (!result.valid) continue;
+
+      const blockedEdges = state.blockedEdges.clone();
+      result.edges.forEach((edge) => blockedEdges.add(edge));
+      const gain = gainOf(blockedEdges);
+
+      if (gain > 0) walls.push({ action: { type: "WALL", ...wall }, gain });
+    }
+  }
+
+  walls.sort((a, b) => b.gain - a.gain);
+  return [...moves, ...walls.slice(0, maxWalls).map((w) => w.action)];
+}
+
+/** Whether two actions are the same move or wall */
+export function sameAction(a: EngineAction, b: EngineAction): boolean {
+  return (
+    a.type === b.type &&
+    a.row === b.row &&
+    a.col === b.col &&
+    (a.type === "MOVE" ||
+      (b.type === "WALL" && a.orientation === b.orientation))
+  );
+}
+
+/** "B5" / "e3h" (see lib/notation.ts) */
+export function actionNotation(action: EngineAction): string {
+  return action.type === "MOVE"
+    ? cellToNotation(action.row, action.col)
+    : wallToNotation(action.row, action.col, action.orientation);
+}
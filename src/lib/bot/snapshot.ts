@@ -0,0 +1,56 @@
+/**
+ * DB → Bot Snapshot
+ * Converts a room loaded from the database into the bot GameSnapshot
+ */
+
+import { blockedEdgesFromWalls, toOrientation } from "@/lib/engine";
+import type { RoomWithPlayers } from "@/types/room";
+import type { GameSnapshot, GoalSide, PlayerSnapshot } from "./types";
+
+/**
+ * Convert DB state to game snapshot
+ * Blocked edges use the shared engine representation (see engine/edges.ts)
+ */
+export function dbToSnapshot(room: RoomWithPlayers): GameSnapshot {
+  const blockedEdges = blockedEdgesFromWalls(
+    room.barriers.map((b) => ({
+      row: b.row,
+      col: b.col,
+      orientation: toOrientation(b.orientation),
+    }))
+  );
+
+  const players: PlayerSnapshot[] = room.players.map((p) => ({
+    playerId: p.playerId,
+    row: p.row,
+    col: p.col,
+    goalSide: p.goalSide as GoalSide,
+    wallsLeft: p.wallsLeft,
+    name: p.name,
+    playerType: p.playerType,
+    forfeited: p.forfeited,
+  }));
+
+  const barriers = room.barriers.map((b) => ({
+    id: b.id,
+    row: b.row,
+    col: b.col,
+    orientation: b.orientation,
+    placedBy: b.placedBy,
+  }));
+
+  return {
+    roomCode: room.code,
+    turnNumber: room.turnNumber,
+    currentTurn: room.currentTurn,
+    players,
+    blockedEdges,
+    barriers,
+    winner: room.winner,
+    gameMode: room.gameMode,
+    boardSize: room.boardSize,
+    sharedWalls: room.sharedWalls,
+    untilPlacements: room.untilPlacements,
+    finishOrder: room.finishOrder,
+  };
+}
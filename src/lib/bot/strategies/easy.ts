@@ -4,11 +4,11 @@
  * Uses seeded RNG for determinism
  */
 
-import type { GameSnapshot } from "../types";
-import { findShortestPath } from "../pathfinding";
+import type { BotDecision, BotStrategy, GameSnapshot } from "../types";
+import { getLegalMoves, pathLength, pathToGoal } from "../moves";
 import { SeededRNG } from "../rng";
 
-export class EasyBot {
+export class EasyBot implements BotStrategy {
   constructor(private rng: SeededRNG) {}
 
   /**
@@ -17,47 +17,43 @@ export class EasyBot {
   async selectMove(
     gameState: GameSnapshot,
     playerId: number
-  ): Promise<{
-    type: string;
-    row: number;
-    col: number;
-    orientation?: string;
-    reasoning?: unknown;
-    candidatesEvaluated: number;
-  }> {
+  ): Promise<BotDecision> {
     const player = gameState.players.find((p) => p.playerId === playerId);
     if (!player) throw new Error(`Player ${playerId} not found`);
 
-    const possibleMoves = this.getAllValidMoves(gameState, player.playerId);
+    const startTime = Date.now();
+    const possibleMoves = getLegalMoves(gameState, player.playerId);
     const startCandidates = possibleMoves.length;
 
     // 60% random, 40% move toward goal
     if (this.rng.next() < 0.6) {
       const move = this.randomChoice(possibleMoves);
       return {
-        type: "MOVE",
-        row: move.row,
-        col: move.col,
+        move: { type: "MOVE", row: move.row, col: move.col },
         reasoning: { strategy: "random" },
+        computeTimeMs: Date.now() - startTime,
         candidatesEvaluated: startCandidates,
       };
     }
 
     // Move toward goal
-    const path = findShortestPath(
-      player.row,
-      player.col,
-      player.goalSide,
-      gameState.blockedEdges
-    );
-
-    if (path.exists && path.path.length > 1) {
-      const nextStep = path.path[1];
+    const path = pathToGoal(gameState, playerId);
+
+    // The first step is only playable if no pawn is in the way
+    const nextStep = path?.[1];
+    if (
+      nextStep &&
+      possibleMoves.some(
+        (m) => m.row === nextStep.row && m.col === nextStep.col
+      )
+    ) {
       return {
-        type: "MOVE",
-        row: nextStep.row,
-        col: nextStep.col,
-        reasoning: { strategy: "toward_goal", distance: path.distance },
+        move: { type: "MOVE", row: nextStep.row, col: nextStep.col },
+        reasoning: {
+          strategy: "toward_goal",
+          distance: pathLength(path),
+        },
+        computeTimeMs: Date.now() - startTime,
         candidatesEvaluated: startCandidates,
       };
     }
@@ -65,79 +61,13 @@ export class EasyBot {
     // Fallback to random
     const move = this.randomChoice(possibleMoves);
     return {
-      type: "MOVE",
-      row: move.row,
-      col: move.col,
+      move: { type: "MOVE", row: move.row, col: move.col },
       reasoning: { strategy: "fallback_random" },
+      computeTimeMs: Date.now() - startTime,
       candidatesEvaluated: startCandidates,
     };
   }
 
-  /**
-   * Get all valid moves for a player
-   * Simple 4-directional movement (no jumping for now)
-   */
-  private getAllValidMoves(
-    gameState: GameSnapshot,
-    playerId: number
-  ): Array<{ row: number; col: number }> {
-    const player = gameState.players.find((p) => p.playerId === playerId);
-    if (!player) return [];
-
-    const moves: Array<{ row: number; col: number }> = [];
-    const directions = [
-      { dr: -1, dc: 0 }, // Up
-      { dr: 1, dc: 0 }, // Down
-      { dr: 0, dc: -1 }, // Left
-      { dr: 0, dc: 1 }, // Right
-    ];
-
-    for (const { dr, dc } of directions) {
-      const newRow = player.row + dr;
-      const newCol = player.col + dc;
-
-      // Check bounds
-      if (newRow < 0 || newRow > 10 || newCol < 0 || newCol > 10) continue;
-
-      // Check if edge is blocked
-      const edgeKey = this.normalizeEdgeKey(
-        player.row,
-        player.col,
-        newRow,
-        newCol
-      );
-      if (gameState.blockedEdges.has(edgeKey)) continue;
-
-      // Check if occupied by another player
-      if (
-        gameState.players.some(
-          (p) => p.playerId !== playerId && p.row === newRow && p.col === newCol
-        )
-      ) {
-        continue;
-      }
-
-      moves.push({ row: newRow, col: newCol });
-    }
-
-    return moves;
-  }
-
-  /**
-   * Normalize edge key for consistent lookup
-   */
-  private normalizeEdgeKey(
-    r1: number,
-    c1: number,
-    r2: number,
-    c2: number
-  ): string {
-    if (r1 > r2 || (r1 === r2 && c1 > c2)) {
-      return `${r2},${c2}:${r1},${c1}`;
-    }
-    return `${r1},${c1}:${r2},${c2}`;
-  }
-
   /**
    * Pick random element from array
    */
@@ -0,0 +1,351 @@
+/**
+ * Expert Bot Strategy
+ * Monte Carlo Tree Search (UCT) over moves and walls
+ * - Works the same for 2 and 4 players: every node keeps a reward per seat
+ *   and each player picks the child best for themselves (max-n style)
+ * - Tree actions come from ../search.ts (moves plus pruned wall candidates)
+ * - Rollouts race the pawns, mostly along shortest paths, then score the
+ *   finishing order estimated from BFS path lengths
+ * - Personality sets how many walls are tried per node (wall propensity)
+ *   and how widely the tree explores (risk tolerance)
+ * - Runs a fixed number of iterations, so a seed always gives the same
+ *   decision; the time budget is only a safety net (reasoning.timedOut
+ *   when it fires). The search is synchronous, so the worker's 5s timeout
+ *   cannot interrupt it: the budget leaves room for one iteration's overrun
+ *   and the database work around the move (see __tests__/bot-expert.test.ts)
+ */
+
+import type { BotDecision, BotStrategy, GameSnapshot } from "../types";
+import { SeededRNG } from "../rng";
+import {
+  actionNotation,
+  candidateActions,
+  closestRivalDistance,
+} from "../search";
+import {
+  applyAction,
+  distanceToGoal,
+  fromRoom,
+  legalMoves,
+  nextPlayerId,
+  racingPlayers,
+  teamOf,
+  toDbOrientation,
+  type EngineAction,
+  type EngineState,
+} from "@/lib/engine";
+import {
+  DEFAULT_BOT_PERSONALITY,
+  PERSONALITY_PROFILES,
+  type PersonalityProfile,
+} from "@/config/personalities";
+
+/** Search limits (production values live in the registry, BOT_EXPERT) */
+export interface ExpertBotOptions {
+  /** Tree iterations (selection, expansion, rollout, backpropagation) */
+  iterations: number;
+  /** Safety net: iterations stop early once this budget is spent */
+  timeBudgetMs: number;
+}
+
+interface TreeNode {
+  state: EngineState;
+  /** Action leading here (null at the root) */
+  action: EngineAction | null;
+  /** Seat that played `action` */
+  mover: number;
+  parent: TreeNode | null;
+  children: TreeNode[];
+  /** Actions not expanded yet (null until the node is first expanded) */
+  untried: EngineAction[] | null;
+  visits: number;
+  /** Summed rollout rewards, indexed by seat */
+  reward: number[];
+}
+
+const SEATS = 4;
+
+export class ExpertBot implements BotStrategy {
+  private readonly ROLLOUT_PLIES = 16; // Rollout length before scoring
+  private readonly GREEDY_RATE = 0.85; // Rollout steps along shortest path
+
+  private readonly iterations: number;
+  private readonly timeBudgetMs: number;
+  private readonly maxWallCandidates: number; // Walls expanded per node
+  private readonly exploration: number; // UCT exploration constant
+
+  constructor(
+    private rng: SeededRNG,
+    options: ExpertBotOptions,
+    personality: PersonalityProfile = PERSONALITY_PROFILES[
+      DEFAULT_BOT_PERSONALITY
+    ]
+  ) {
+    this.iterations = options.iterations;
+    this.timeBudgetMs = options.timeBudgetMs;
+    // Balanced: 6 walls per node, exploration 0.7
+    this.maxWallCandidates = Math.round(2 + 8 * personality.wallPropensity);
+    this.exploration = 0.4 + 0.6 * personality.riskTolerance;
+  }
+
+  /**
+   * Select move: Expert strategy grows a search tree from random playouts
+   * The most visited root action is played.
+   */
+  async selectMove(
+    gameState: GameSnapshot,
+    playerId: number
+  ): Promise<BotDecision> {
+    const player = gameState.players.find((p) => p.playerId === playerId);
+    if (!player) throw new Error(`Player ${playerId} not found`);
+
+    const startTime = Date.now();
+    const root = this.createNode(
+      { ...fromRoom(gameState), currentPlayerId: playerId },
+      null,
+      playerId,
+      null
+    );
+
+    let iterations = 0;
+    let timedOut = false;
+    while (iterations < this.iterations) {
+      // Always finish the first iteration, so a decision is always made
+      if (iterations > 0 && Date.now() - startTime > this.timeBudgetMs) {
+        timedOut = true; // The decision now depends on machine speed
+        break;
+      }
+      this.iterate(root);
+      iterations++;
+    }
+
+    if (root.children.length === 0) throw new Error("No valid moves available");
+
+    const ranked = [...root.children].sort(
+      (a, b) =>
+        b.visits - a.visits || this.mean(b, playerId) - this.mean(a, playerId)
+    );
+    const best = ranked[0];
+    const action = best.action!;
+
+    const after = best.state;
+    const me = after.players.find((p) => p.id === playerId)!;
+
+    return {
+      move: {
+        type: action.type,
+        row: action.row,
+        col: action.col,
+        orientation:
+          action.type === "WALL"
+            ? toDbOrientation(action.orientation)
+            : undefined,
+      },
+      reasoning: {
+        strategy: "mcts",
+        iterations,
+        timedOut,
+        winRate: this.mean(best, playerId),
+        topActions: ranked.slice(0, 3).map((child) => ({
+          action: actionNotation(child.action!),
+          visits: child.visits,
+          winRate: this.mean(child, playerId),
+        })),
+        myDistanceAfter: distanceToGoal(
+          me,
+          me.goalSide,
+          after.blockedEdges,
+          after.boardSize
+        ),
+        ...(action.type === "WALL" && {
+          opponentPathIncrease:
+            closestRivalDistance(after, playerId) -
+            closestRivalDistance(root.state, playerId),
+        }),
+      },
+      computeTimeMs: Date.now() - startTime,
+      candidatesEvaluated: root.children.length,
+    };
+  }
+
+  /**
+   * One MCTS iteration: select a leaf by UCT, expand one action, play it
+   * out and add the rewards to every node on the way back up
+   */
+  private iterate(root: TreeNode): void {
+    let node = root;
+
+    while (
+      node.untried !== null &&
+      node.untried.length === 0 &&
+      node.children.length > 0
+    ) {
+      node = this.select(node);
+    }
+
+    if (node.state.winner === null) {
+      node.untried ??= candidateActions(node.state, this.maxWallCandidates);
+      const action = node.untried.shift();
+      if (action) {
+        const child = this.createNode(
+          applyAction(node.state, action),
+          action,
+          node.state.currentPlayerId,
+          node
+        );
+        node.children.push(child);
+        node = child;
+      }
+    }
+
+    const reward = this.rollout(node.state);
+    for (let n: TreeNode | null = node; n; n = n.parent) {
+      n.visits++;
+      reward.forEach((r, seat) => (n!.reward[seat] += r));
+    }
+  }
+
+  /**
+   * UCT: the child best for the player choosing here, plus an exploration
+   * bonus for children tried less often
+   */
+  private select(node: TreeNode): TreeNode {
+    const logVisits = Math.log(node.visits);
+    let best = node.children[0];
+    let bestValue = -Infinity;
+
+    for (const child of node.children) {
+      const value =
+        this.mean(child, child.mover) +
+        this.exploration * Math.sqrt(logVisits / child.visits);
+      if (value > bestValue) {
+        best = child;
+        bestValue = value;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Race the pawns from a position (no walls), then score it
+   * Each step follows the mover's shortest path, or is a random legal move.
+   */
+  private rollout(start: EngineState): number[] {
+    let state = start;
+
+    for (let ply = 0; ply < this.ROLLOUT_PLIES; ply++) {
+      if (state.winner !== null) break;
+
+      const playerId = state.currentPlayerId;
+      const player = state.players.find((p) => p.id === playerId);
+      const moves = legalMoves(state, playerId);
+      if (!player || moves.length === 0) break;
+
+      let move = moves[0];
+      if (this.rng.next() < this.GREEDY_RATE) {
+        let closest = Infinity;
+        for (const cell of moves) {
+          const distance =
+            distanceToGoal(
+              cell,
+              player.goalSide,
+              state.blockedEdges,
+              state.boardSize
+            ) ?? Infinity;
+          if (distance < closest) {
+            closest = distance;
+            move = cell;
+          }
+        }
+      } else {
+        move = this.rng.pick(moves);
+      }
+
+      state = applyAction(state, { type: "MOVE", ...move });
+    }
+
+    return this.rewards(state);
+  }
+
+  /**
+   * Reward per seat in [0, 1] from the expected finishing order
+   * Finished players keep their place; racing players are ranked by the
+   * plies they still need (path length times seats racing, plus their
+   * place in the turn order). Partners share their team's best rank.
+   */
+  private rewards(state: EngineState): number[] {
+    const racing = racingPlayers(state);
+    const finishOrder = state.finishOrder ?? [];
+    const sideOf = (id: number) => (state.teams ? teamOf(id) : id);
+
+    // Turns until each racing player moves next
+    const turnOffset = new Map<number, number>();
+    let seat = state.currentPlayerId;
+    for (let i = 0; i < racing.length && !turnOffset.has(seat); i++) {
+      turnOffset.set(seat, i);
+      seat = nextPlayerId(state, seat);
+    }
+
+    // Estimated plies to finish (finished players first, in order)
+    const sideEstimate = new Map<number, number>();
+    for (const p of state.players) {
+      let estimate = Infinity;
+      const place = finishOrder.indexOf(p.id);
+      if (state.winner !== null && sideOf(p.id) === sideOf(state.winner)) {
+        estimate = -SEATS - 1;
+      } else if (place !== -1) {
+        estimate = place - SEATS;
+      } else if (racing.some((r) => r.id === p.id)) {
+        const distance = distanceToGoal(
+          p,
+          p.goalSide,
+          state.blockedEdges,
+          state.boardSize
+        );
+        if (distance !== null) {
+          estimate =
+            (distance - 1) * racing.length + (turnOffset.get(p.id) ?? 0);
+        }
+      }
+      const side = sideOf(p.id);
+      sideEstimate.set(
+        side,
+        Math.min(sideEstimate.get(side) ?? Infinity, estimate)
+      );
+    }
+
+    const estimates = [...sideEstimate.values()];
+    const last = Math.max(estimates.length - 1, 1);
+    const reward = new Array<number>(SEATS).fill(0);
+
+    for (const p of state.players) {
+      const own = sideEstimate.get(sideOf(p.id))!;
+      const ahead = estimates.filter((e) => e < own).length;
+      reward[p.id] = own === Infinity ? 0 : 1 - ahead / last;
+    }
+    return reward;
+  }
+
+  /** Average reward of a node for a seat */
+  private mean(node: TreeNode, seat: number): number {
+    return node.visits === 0 ? 0 : node.reward[seat] / node.visits;
+  }
+
+  private createNode(
+    state: EngineState,
+    action: EngineAction | null,
+    mover: number,
+    parent: TreeNode | null
+  ): TreeNode {
+    return {
+      state,
+      action,
+      mover,
+      parent,
+      children: [],
+      untried: null,
+      visits: 0,
+      reward: new Array<number>(SEATS).fill(0),
+    };
+  }
+}
@@ -3,20 +3,46 @@
  * Balanced bot: weighted move selection + basic defensive barriers
  * - Prefers moves that reduce distance to goal
  * - Places barriers to block opponent shortest paths
+ * - Personality sets how often it walls and whom it blocks in 4P
  * - Uses seeded RNG for determinism
  */
 
-import type { GameSnapshot } from "../types";
+import type {
+  BarrierSnapshot,
+  BotDecision,
+  BotStrategy,
+  GameSnapshot,
+} from "../types";
 import {
-  findShortestPath,
-  distanceToGoal,
-  hasPathToGoal,
-} from "../pathfinding";
+  getLegalMoves,
+  pathLength,
+  pathToGoal,
+  racingOpponents,
+  wallsAvailable,
+} from "../moves";
 import { SeededRNG } from "../rng";
-import { GoalSide } from "@prisma/client";
+import {
+  fromRoom,
+  toOrientation,
+  validateWall,
+  wallEdges,
+  type EdgeBitboard,
+} from "@/lib/engine";
+import {
+  DEFAULT_BOT_PERSONALITY,
+  PERSONALITY_PROFILES,
+  type PersonalityProfile,
+} from "@/config/personalities";
+
+export class MediumBot implements BotStrategy {
+  private readonly MAX_WALL_RATE = 0.6; // Barrier chance at full propensity
 
-export class MediumBot {
-  constructor(private rng: SeededRNG) {}
+  constructor(
+    private rng: SeededRNG,
+    private personality: PersonalityProfile = PERSONALITY_PROFILES[
+      DEFAULT_BOT_PERSONALITY
+    ]
+  ) {}
 
   /**
    * Select move: Medium strategy uses weighted selection
@@ -25,51 +51,42 @@ export class MediumBot {
   async selectMove(
     gameState: GameSnapshot,
     playerId: number
-  ): Promise<{
-    type: string;
-    row: number;
-    col: number;
-    orientation?: string;
-    reasoning?: unknown;
-    candidatesEvaluated: number;
-  }> {
+  ): Promise<BotDecision> {
     const player = gameState.players.find((p) => p.playerId === playerId);
     if (!player) throw new Error(`Player ${playerId} not found`);
 
-    const possibleMoves = this.getAllValidMoves(gameState, player.playerId);
+    const startTime = Date.now();
+    const possibleMoves = getLegalMoves(gameState, player.playerId);
     const startCandidates = possibleMoves.length;
 
-    // 30% chance to place a barrier instead of moving
+    // Chance to place a barrier instead of moving (30% when balanced)
     if (
-      player.wallsLeft > 0 &&
-      this.rng.next() < 0.3 &&
+      wallsAvailable(gameState, playerId) > 0 &&
+      this.rng.next() < this.MAX_WALL_RATE * this.personality.wallPropensity &&
       gameState.players.length > 1
     ) {
       const barrier = await this.selectBarrier(gameState, playerId);
       if (barrier) {
         return {
-          type: "BARRIER",
-          row: barrier.row,
-          col: barrier.col,
-          orientation: barrier.orientation,
+          move: {
+            type: "WALL",
+            row: barrier.row,
+            col: barrier.col,
+            orientation: barrier.orientation,
+          },
           reasoning: barrier.reasoning,
+          computeTimeMs: Date.now() - startTime,
           candidatesEvaluated: barrier.candidatesEvaluated,
         };
       }
     }
 
     // Weighted move selection
+    // Distances follow real paths: barriers, plus jumps over other pawns
+    const currentDistance = pathLength(pathToGoal(gameState, playerId));
+
     const weightedMoves = possibleMoves.map((move) => {
-      const distanceAfter = distanceToGoal(
-        move.row,
-        move.col,
-        player.goalSide as GoalSide
-      );
-      const currentDistance = distanceToGoal(
-        player.row,
-        player.col,
-        player.goalSide as GoalSide
-      );
+      const distanceAfter = pathLength(pathToGoal(gameState, playerId, move));
       const improvement = currentDistance - distanceAfter;
 
       // Weight: positive for moves toward goal, negative for moves away
@@ -88,14 +105,13 @@ export class MediumBot {
       topMoves[this.rng.nextInt(0, topMoves.length - 1)] || weightedMoves[0];
 
     return {
-      type: "MOVE",
-      row: selected.move.row,
-      col: selected.move.col,
+      move: { type: "MOVE", row: selected.move.row, col: selected.move.col },
       reasoning: {
         strategy: "weighted_selection",
         improvement: selected.improvement,
         topCandidates: topMoves.length,
       },
+      computeTimeMs: Date.now() - startTime,
       candidatesEvaluated: startCandidates,
     };
   }
@@ -109,52 +125,49 @@ export class MediumBot {
   ): Promise<{
     row: number;
     col: number;
-    orientation: string;
+    orientation: BarrierSnapshot["orientation"];
     reasoning?: unknown;
     candidatesEvaluated: number;
   } | null> {
     const player = gameState.players.find((p) => p.playerId === playerId);
-    if (!player || player.wallsLeft === 0) return null;
+    if (!player || wallsAvailable(gameState, playerId) === 0) return null;
 
-    // Find closest opponent
-    const opponents = gameState.players.filter((p) => p.playerId !== playerId);
+    // Find the opponent closest to their goal along real paths
+    const opponents = racingOpponents(gameState, playerId);
     if (opponents.length === 0) return null;
 
     let closestOpponent = opponents[0];
     let minOpponentDistance = Infinity;
 
     for (const opp of opponents) {
-      const distance = distanceToGoal(
-        opp.row,
-        opp.col,
-        opp.goalSide as GoalSide
-      );
+      const distance = pathLength(pathToGoal(gameState, opp.playerId));
       if (distance < minOpponentDistance) {
         minOpponentDistance = distance;
         closestOpponent = opp;
       }
     }
 
+    // Block the leader, or any rival when targeting them all
+    const target =
+      this.personality.targetSelection === "ALL"
+        ? this.rng.pick(opponents)
+        : closestOpponent;
+
     // Get opponent's current path
-    const opponentPath = findShortestPath(
-      closestOpponent.row,
-      closestOpponent.col,
-      closestOpponent.goalSide as GoalSide,
-      gameState.blockedEdges
-    );
+    const opponentPath = pathToGoal(gameState, target.playerId);
 
-    if (!opponentPath.exists || opponentPath.path.length < 3) return null;
+    if (!opponentPath || opponentPath.length < 3) return null;
 
     // Try to place barrier along opponent's path (near them, not at goal)
     // Pick a cell 2-4 steps ahead on their path
     const targetIndex = Math.min(
       this.rng.nextInt(2, 4),
-      opponentPath.path.length - 2
+      opponentPath.length - 2
     );
-    const targetCell = opponentPath.path[targetIndex];
+    const targetCell = opponentPath[targetIndex];
 
     // Try both orientations at this location
-    const barriers = [
+    const barriers: Array<Omit<BarrierSnapshot, "id" | "placedBy">> = [
       { row: targetCell.row, col: targetCell.col, orientation: "HORIZONTAL" },
       { row: targetCell.row, col: targetCell.col, orientation: "VERTICAL" },
     ];
@@ -162,25 +175,25 @@ export class MediumBot {
     const validBarriers: Array<{
       row: number;
       col: number;
-      orientation: string;
+      orientation: BarrierSnapshot["orientation"];
       pathLengthIncrease: number;
     }> = [];
 
     for (const barrier of barriers) {
-      if (this.isBarrierValid(gameState, barrier)) {
+      if (this.isBarrierValid(gameState, playerId, barrier)) {
         // Simulate placing barrier and check opponent's new path length
-        const newBlockedEdges = new Set(gameState.blockedEdges);
+        const newBlockedEdges = gameState.blockedEdges.clone();
         this.addBarrierEdges(newBlockedEdges, barrier);
 
-        const newPath = findShortestPath(
-          closestOpponent.row,
-          closestOpponent.col,
-          closestOpponent.goalSide as GoalSide,
+        const newPath = pathToGoal(
+          gameState,
+          target.playerId,
+          target,
           newBlockedEdges
         );
 
-        if (newPath.exists) {
-          const increase = newPath.distance - opponentPath.distance;
+        if (newPath) {
+          const increase = pathLength(newPath) - pathLength(opponentPath);
           if (increase > 0) {
             validBarriers.push({ ...barrier, pathLengthIncrease: increase });
           }
@@ -200,7 +213,7 @@ export class MediumBot {
       orientation: best.orientation,
       reasoning: {
         strategy: "block_opponent",
-        targetOpponent: closestOpponent.playerId,
+        targetOpponent: target.playerId,
         pathLengthIncrease: best.pathLengthIncrease,
       },
       candidatesEvaluated: barriers.length,
@@ -208,50 +221,20 @@ export class MediumBot {
   }
 
   /**
-   * Check if barrier placement is valid
+   * Check if barrier placement is valid (shared rules engine)
    */
   private isBarrierValid(
     gameState: GameSnapshot,
+    playerId: number,
     barrier: { row: number; col: number; orientation: string }
   ): boolean {
-    const GRID_SIZE = 11;
-    const { row, col, orientation } = barrier;
-
-    // Check bounds
-    if (orientation === "HORIZONTAL") {
-      if (row < 0 || row > GRID_SIZE - 2 || col < 0 || col > GRID_SIZE - 3) {
-        return false;
-      }
-    } else {
-      if (row < 0 || row > GRID_SIZE - 3 || col < 0 || col > GRID_SIZE - 2) {
-        return false;
-      }
-    }
-
-    // Check if edges already blocked
-    const newEdges = this.getBarrierEdges(barrier);
-    for (const edge of newEdges) {
-      if (gameState.blockedEdges.has(edge)) return false;
-    }
-
-    // Check pathfinding: all players must still have path to goal
-    const hypotheticalEdges = new Set(gameState.blockedEdges);
-    this.addBarrierEdges(hypotheticalEdges, barrier);
-
-    for (const player of gameState.players) {
-      if (
-        !hasPathToGoal(
-          player.row,
-          player.col,
-          player.goalSide as GoalSide,
-          hypotheticalEdges
-        )
-      ) {
-        return false;
-      }
-    }
-
-    return true;
+    return validateWall(
+      fromRoom(gameState),
+      playerId,
+      barrier.row,
+      barrier.col,
+      toOrientation(barrier.orientation)
+    ).valid;
   }
 
   /**
@@ -262,101 +245,21 @@ export class MediumBot {
     col: number;
     orientation: string;
   }): string[] {
-    const edges: string[] = [];
-    const { row, col, orientation } = barrier;
-
-    if (orientation === "HORIZONTAL") {
-      edges.push(this.normalizeEdgeKey(row, col, row + 1, col));
-      edges.push(this.normalizeEdgeKey(row, col + 1, row + 1, col + 1));
-    } else {
-      edges.push(this.normalizeEdgeKey(row, col, row, col + 1));
-      edges.push(this.normalizeEdgeKey(row + 1, col, row + 1, col + 1));
-    }
-
-    return edges;
+    return wallEdges(
+      barrier.row,
+      barrier.col,
+      toOrientation(barrier.orientation)
+    );
   }
 
   /**
    * Add barrier edges to set
    */
   private addBarrierEdges(
-    edges: Set<string>,
+    edges: EdgeBitboard,
     barrier: { row: number; col: number; orientation: string }
   ): void {
     const newEdges = this.getBarrierEdges(barrier);
     newEdges.forEach((edge) => edges.add(edge));
   }
-
-  /**
-   * Get all valid moves for a player
-   */
-  private getAllValidMoves(
-    gameState: GameSnapshot,
-    playerId: number
-  ): Array<{ row: number; col: number }> {
-    const player = gameState.players.find((p) => p.playerId === playerId);
-    if (!player) return [];
-
-    const moves: Array<{ row: number; col: number }> = [];
-    const directions = [
-      { dr: -1, dc: 0 }, // Up
-      { dr: 1, dc: 0 }, // Down
-      { dr: 0, dc: -1 }, // Left
-      { dr: 0, dc: 1 }, // Right
-    ];
-
-    const INNER_SIZE = 9;
-
-    for (const { dr, dc } of directions) {
-      const newRow = player.row + dr;
-      const newCol = player.col + dc;
-
-      // Only allow movement within internal cells (1-9)
-      if (
-        newRow < 1 ||
-        newRow > INNER_SIZE ||
-        newCol < 1 ||
-        newCol > INNER_SIZE
-      ) {
-        continue;
-      }
-
-      // Check if edge is blocked
-      const edgeKey = this.normalizeEdgeKey(
-        player.row,
-        player.col,
-        newRow,
-        newCol
-      );
-      if (gameState.blockedEdges.has(edgeKey)) continue;
-
-      // Check if occupied by another player
-      if (
-        gameState.players.some(
-          (p) => p.playerId !== playerId && p.row === newRow && p.col === newCol
-        )
-      ) {
-        continue;
-      }
-
-      moves.push({ row: newRow, col: newCol });
-    }
-
-    return moves;
-  }
-
-  /**
-   * Normalize edge key for consistent lookup
-   */
-  private normalizeEdgeKey(
-    r1: number,
-    c1: number,
-    r2: number,
-    c2: number
-  ): string {
-    if (r1 > r2 || (r1 === r2 && c1 > c2)) {
-      return `${r2},${c2}:${r1},${c1}`;
-    }
-    return `${r1},${c1}:${r2},${c2}`;
-  }
 }
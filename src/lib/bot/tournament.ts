@@ -0,0 +1,369 @@
+/**
+ * Bot Tournament
+ * Plays seeded bot-vs-bot games on the pure engine (no database) and
+ * collects the statistics used to tune strategies: win rates, game length,
+ * wall usage and compute-time percentiles. Run it from the command line
+ * with scripts/tournament.ts.
+ */
+
+import { SeededRNG } from "./rng";
+import { getFallbackAction } from "./moves";
+import {
+  createBotStrategy,
+  isBotPlayerType,
+  usesPersonality,
+} from "./registry";
+import type { BotPlayerType, BotStrategy, GameSnapshot } from "./types";
+import {
+  applyAction,
+  createState,
+  toDbOrientation,
+  toEngineAction,
+  type EngineAction,
+  type EngineState,
+} from "@/lib/engine";
+import { PLAYER_CONFIGS, startingCell } from "@/config/players";
+import { isBotPersonality } from "@/config/personalities";
+import { DEFAULT_BOARD_SIZE, getWallsPerPlayer } from "@/types/game";
+
+/** A strategy taking part in a tournament */
+export interface Entrant {
+  /** As given on the command line ("hard", "hard:2", "hard:2@runner") */
+  label: string;
+  playerType: BotPlayerType;
+  create: (rng: SeededRNG) => BotStrategy;
+}
+
+export interface TournamentOptions {
+  /** 2 entrants play a 2-player game, 4 a 4-player game */
+  entrants: Entrant[];
+  games: number;
+  seed: string;
+  boardSize?: number;
+  /** Games still running after this many turns are draws */
+  maxPlies?: number;
+}
+
+/** Statistics of one entrant over the tournament */
+export interface EntrantReport {
+  label: string;
+  wins: number;
+  winRate: number;
+  /** Walls placed per game */
+  wallsPerGame: number;
+  /** Decisions the engine rejected (a fallback move was played) */
+  illegalDecisions: number;
+  /** Compute time per decision, in milliseconds */
+  computeMs: { p50: number; p90: number; p99: number; max: number };
+}
+
+export interface TournamentReport {
+  games: number;
+  draws: number;
+  /** Turns per game (pawn moves and walls) */
+  averagePlies: number;
+  entrants: EntrantReport[];
+}
+
+const DEFAULT_MAX_PLIES = 400;
+
+/** Seats used with 2 and 4 entrants */
+const SEATS: Record<number, number[]> = { 2: [0, 2], 4: [0, 1, 2, 3] };
+
+/**
+ * Parse a strategy name, optionally with a search limit and a personality:
+ * "hard:N" searches N plies deep and "expert:N" runs N iterations (without
+ * one, the registry's limits); "@runner" (etc.) plays with that
+ * personality instead of BALANCED (not for strategies that ignore it, like
+ * easy). Searches never get a time budget, so results are reproducible on
+ * any machine.
+ */
+export function parseEntrant(token: string): Entrant | { error: string } {
+  const [spec, personalityText] = token.toLowerCase().split("@");
+  const [name, limitText] = spec.split(":");
+  const playerType = `BOT_${name.toUpperCase()}`;
+  if (!isBotPlayerType(playerType)) {
+    return { error: `Unknown strategy "${name}"` };
+  }
+
+  const personality = personalityText?.toUpperCase();
+  if (personality !== undefined && !isBotPersonality(personality)) {
+    return { error: `Unknown personality "${personalityText}"` };
+  }
+  if (personality !== undefined && !usesPersonality(playerType)) {
+    return { error: `"${name}" takes no personality` };
+  }
+
+  const limit = limitText === undefined ? undefined : Number(limitText);
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    return { error: `Invalid search limit in "${token}"` };
+  }
+
+  switch (playerType) {
+    case "BOT_HARD":
+      return {
+        label: token,
+        playerType,
+        create: (rng) =>
+          createBotStrategy(
+            playerType,
+            rng,
+            {
+              ...(limit !== undefined && { maxDepth: limit }),
+              timeBudgetMs: Infinity,
+            },
+            personality
+          ),
+      };
+    case "BOT_EXPERT":
+      return {
+        label: token,
+        playerType,
+        create: (rng) =>
+          createBotStrategy(
+            playerType,
+            rng,
+            {
+              ...(limit !== undefined && { iterations: limit }),
+              timeBudgetMs: Infinity,
+            },
+            personality
+          ),
+      };
+    default:
+      if (limit !== undefined) {
+        return { error: `"${name}" takes no search limit` };
+      }
+      return {
+        label: token,
+        playerType,
+        create: (rng) => createBotStrategy(playerType, rng, {}, personality),
+      };
+  }
+}
+
+/** Nearest-rank percentile of a list of numbers (0 when empty) */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+}
+
+/** Engine state → the snapshot strategies read (see snapshot.ts) */
+function toSnapshot(
+  state: EngineState,
+  entrants: Map<number, Entrant>,
+  turnNumber: number
+): GameSnapshot {
+  return {
+    roomCode: "TOURNAMENT",
+    turnNumber,
+    currentTurn: state.currentPlayerId,
+    players: state.players.map((p) => ({
+      playerId: p.id,
+      row: p.row,
+      col: p.col,
+      goalSide: p.goalSide,
+      wallsLeft: p.wallsLeft,
+      name: entrants.get(p.id)!.label,
+      playerType: entrants.get(p.id)!.playerType,
+    })),
+    blockedEdges: state.blockedEdges,
+    barriers: state.walls.map((w, i) => ({
+      id: `w${i}`,
+      row: w.row,
+      col: w.col,
+      orientation: toDbOrientation(w.orientation),
+      placedBy: w.placedBy ?? 0,
+    })),
+    winner: state.winner,
+    gameMode: state.players.length === 2 ? "TWO_PLAYER" : "FOUR_PLAYER",
+    boardSize: state.boardSize,
+  };
+}
+
+/** Outcome of a single game, per entrant index */
+interface GameRecord {
+  /** Entrant index of the winner (null: draw) */
+  winner: number | null;
+  plies: number;
+  walls: number[];
+  illegal: number[];
+  computeMs: number[][];
+}
+
+/**
+ * Play one game
+ * Entrants rotate through the seats from game to game, so every entrant
+ * gets to move first equally often.
+ */
+async function playGame(
+  options: TournamentOptions,
+  gameIndex: number
+): Promise<GameRecord> {
+  const { entrants } = options;
+  const size = options.boardSize ?? DEFAULT_BOARD_SIZE;
+  const seats = SEATS[entrants.length];
+  const mode = entrants.length === 2 ? "TWO_PLAYER" : "FOUR_PLAYER";
+  const wallsPerPlayer = getWallsPerPlayer(mode, size);
+
+  // Seat → entrant index
+  const entrantAt = new Map<number, number>();
+  seats.forEach((seat, i) =>
+    entrantAt.set(seat, (i + gameIndex) % entrants.length)
+  );
+  const entrantBySeat = new Map(
+    seats.map((seat) => [seat, entrants[entrantAt.get(seat)!]])
+  );
+
+  let state: EngineState = {
+    ...createState(
+      seats.map((seat) => ({
+        id: seat,
+        ...startingCell(seat, size),
+        goalSide: PLAYER_CONFIGS[seat].goalSide,
+        wallsLeft: wallsPerPlayer,
+      }))
+    ),
+    boardSize: size,
+  };
+
+  const record: GameRecord = {
+    winner: null,
+    plies: 0,
+    walls: entrants.map(() => 0),
+    illegal: entrants.map(() => 0),
+    computeMs: entrants.map(() => []),
+  };
+  const maxPlies = options.maxPlies ?? DEFAULT_MAX_PLIES;
+
+  while (state.winner === null && record.plies < maxPlies) {
+    const seat = state.currentPlayerId;
+    const index = entrantAt.get(seat)!;
+    const snapshot = toSnapshot(state, entrantBySeat, record.plies + 1);
+    const bot = entrants[index].create(
+      new SeededRNG(`${options.seed}:${gameIndex}:${record.plies}:${seat}`)
+    );
+
+    const start = performance.now();
+    const decision = await bot.selectMove(snapshot, seat);
+    record.computeMs[index].push(performance.now() - start);
+
+    let action: EngineAction = toEngineAction(decision.move);
+    let next: EngineState;
+    try {
+      next = applyAction(state, action);
+    } catch {
+      record.illegal[index]++;
+      const fallback = getFallbackAction(snapshot, seat);
+      if (!fallback) break;
+      action = fallback;
+      next = applyAction(state, action);
+    }
+
+    if (action.type === "WALL") record.walls[index]++;
+    state = next;
+    record.plies++;
+  }
+
+  if (state.winner !== null) record.winner = entrantAt.get(state.winner)!;
+  return record;
+}
+
+/**
+ * Play `games` seeded games and summarize them
+ * `onGame` is called after each game (for progress output).
+ */
+export async function runTournament(
+  options: TournamentOptions,
+  onGame?: (played: number) => void
+): Promise<TournamentReport> {
+  const { entrants, games } = options;
+  if (!SEATS[entrants.length]) {
+    throw new Error("A tournament needs 2 or 4 entrants");
+  }
+
+  const wins = entrants.map(() => 0);
+  const walls = entrants.map(() => 0);
+  const illegal = entrants.map(() => 0);
+  const computeMs: number[][] = entrants.map(() => []);
+  let draws = 0;
+  let plies = 0;
+
+  for (let game = 0; game < games; game++) {
+    const record = await playGame(options, game);
+
+    if (record.winner === null) draws++;
+    else wins[record.winner]++;
+    plies += record.plies;
+    entrants.forEach((_, i) => {
+      walls[i] += record.walls[i];
+      illegal[i] += record.illegal[i];
+      computeMs[i].push(...record.computeMs[i]);
+    });
+
+    onGame?.(game + 1);
+  }
+
+  return {
+    games,
+    draws,
+    averagePlies: games ? plies / games : 0,
+    entrants: entrants.map((entrant, i) => ({
+      label: entrant.label,
+      wins: wins[i],
+      winRate: games ? wins[i] / games : 0,
+      wallsPerGame: games ? walls[i] / games : 0,
+      illegalDecisions: illegal[i],
+      computeMs: {
+        p50: percentile(computeMs[i], 50),
+        p90: percentile(computeMs[i], 90),
+        p99: percentile(computeMs[i], 99),
+        max: percentile(computeMs[i], 100),
+      },
+    })),
+  };
+}
+
+/** Plain-text table of a report */
+export function formatReport(report: TournamentReport): string {
+  const rows = report.entrants.map((e) => [
+    e.label,
+    String(e.wins),
+    `${(e.winRate * 100).toFixed(1)}%`,
+    e.wallsPerGame.toFixed(2),
+    String(e.illegalDecisions),
+    e.computeMs.p50.toFixed(1),
+    e.computeMs.p90.toFixed(1),
+    e.computeMs.p99.toFixed(1),
+    e.computeMs.max.toFixed(1),
+  ]);
+  const header = [
+    "strategy",
+    "wins",
+    "win%",
+    "walls/game",
+    "illegal",
+    "p50 ms",
+    "p90 ms",
+    "p99 ms",
+    "max ms",
+  ];
+  const widths = header.map((h, col) =>
+    Math.max(h.length, ...rows.map((row) => row[col].length))
+  );
+  const line = (cells: string[]) =>
+    cells
+      .map((cell, col) =>
+        col === 0 ? cell.padEnd(widths[col]) : cell.padStart(widths[col])
+      )
+      .join("  ");
+
+  return [
+    `${report.games} games, ${report.draws} draws, ${report.averagePlies.toFixed(1)} turns per game`,
+    "",
+    line(header),
+    ...rows.map(line),
+  ].join("\n");
+}
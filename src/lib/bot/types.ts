@@ -3,8 +3,12 @@
  * Canonical type definitions for all bot-related functionality
  */
 
-export type BotDifficulty = "EASY" | "MEDIUM" | "HARD";
-export type PlayerType = "HUMAN" | "BOT_EASY" | "BOT_MEDIUM" | "BOT_HARD";
+import type { EdgeBitboard } from "@/lib/engine";
+
+export type BotDifficulty = "EASY" | "MEDIUM" | "HARD" | "EXPERT";
+export type PlayerType =
+  "HUMAN" | "BOT_EASY" | "BOT_MEDIUM" | "BOT_HARD" | "BOT_EXPERT";
+export type BotPlayerType = Exclude<PlayerType, "HUMAN">;
 export type GoalSide = "TOP" | "RIGHT" | "BOTTOM" | "LEFT";
 
 /**
@@ -16,10 +20,14 @@ export interface GameSnapshot {
   turnNumber: number;
   currentTurn: number; // Player ID 0-3
   players: PlayerSnapshot[];
-  blockedEdges: Set<string>; // Edge keys that are blocked by barriers
+  blockedEdges: EdgeBitboard; // Edges blocked by barriers (engine format)
   barriers: BarrierSnapshot[];
   winner: number | null;
-  gameMode: "TWO_PLAYER" | "FOUR_PLAYER";
+  gameMode: "TWO_PLAYER" | "FOUR_PLAYER" | "TEAMS";
+  sharedWalls?: boolean; // TEAMS: partners place each other's walls
+  boardSize?: number; // Inner cells per side (absent: 9)
+  untilPlacements?: boolean; // Play on after the first finisher
+  finishOrder?: number[]; // Player IDs that reached their goal, in order
 }
 
 export interface PlayerSnapshot {
@@ -30,6 +38,7 @@ export interface PlayerSnapshot {
   wallsLeft: number;
   name: string;
   playerType: PlayerType;
+  forfeited?: boolean; // Out of the game on time (skipped in turn order)
 }
 
 export interface BarrierSnapshot {
@@ -61,12 +70,11 @@ export interface BotDecision {
 }
 
 /**
- * Path result from pathfinding algorithms
+ * Bot strategy contract (registered per PlayerType in registry.ts)
+ * Strategies must only return legal actions for the player to move.
  */
-export interface PathResult {
-  distance: number;
-  path: Array<{ row: number; col: number }>;
-  exists: boolean;
+export interface BotStrategy {
+  selectMove(gameState: GameSnapshot, playerId: number): Promise<BotDecision>;
 }
 
 /**
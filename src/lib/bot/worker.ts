@@ -5,7 +5,8 @@
  */
 
 import { db } from "@/lib/db";
-import { BotEngine } from "./engine";
+import { BotEngine, type BotMoveOutcome } from "./engine";
+import { STALE_STATE_ERROR } from "@/lib/concurrency";
 
 /**
  * Poll and process pending bot move jobs
@@ -106,8 +107,9 @@ async function processSingleBotJob(jobId: string): Promise<void> {
       setTimeout(() => reject(new Error("Bot move timeout (>5s)")), 5000);
     });
 
+    let outcome: BotMoveOutcome;
     try {
-      await Promise.race([
+      outcome = await Promise.race([
         engine.executeBotMove(job.code, job.playerId),
         timeoutPromise,
       ]);
@@ -120,11 +122,13 @@ async function processSingleBotJob(jobId: string): Promise<void> {
 
     const computeTime = Date.now() - startTime;
 
-    // Mark as completed
+    // Mark as completed, or FAILED when the strategy's decision was rejected
+    // (the turn was still played with a fallback action)
     await db.botMoveJob.update({
       where: { id: jobId },
       data: {
-        status: "COMPLETED",
+        status: outcome.rejection ? "FAILED" : "COMPLETED",
+        error: outcome.rejection,
         completedAt: new Date(),
       },
     });
@@ -142,7 +146,8 @@ async function processSingleBotJob(jobId: string): Promise<void> {
     await db.botMoveJob.update({
       where: { id: jobId },
       data: {
-        status: "FAILED",
+        // Lost the race against another action (e.g. an undo): not a bot bug
+        status: errorMessage === STALE_STATE_ERROR ? "STALE" : "FAILED",
         error: errorMessage,
         completedAt: new Date(),
       },
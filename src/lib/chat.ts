@@ -0,0 +1,88 @@
+/**
+ * Room Chat
+ *
+ * Shared by the chat actions, the room event stream and the chat panel:
+ * - Messages are checked and cleaned before they are stored (length,
+ *   whitespace, profanity filter)
+ * - Quick emotes are stored by id (QUICK_EMOTES)
+ */
+
+import type { ChatMessage } from "@prisma/client";
+import { BLOCKED_WORDS, CHAT_LIMITS, QUICK_EMOTES } from "@/config/chat";
+
+/** A chat message as sent to clients (JSON-safe) */
+export interface ChatEntry {
+  id: string;
+  playerId: number;
+  kind: "TEXT" | "EMOTE";
+  text: string;
+  createdAt: string; // ISO timestamp
+}
+
+export function toChatEntry(message: ChatMessage): ChatEntry {
+  return {
+    id: message.id,
+    playerId: message.playerId,
+    kind: message.kind,
+    text: message.text,
+    createdAt: new Date(message.createdAt).toISOString(),
+  };
+}
+
+/** Lowercase without accents, so "Porrá" matches "porra" */
+const fold = (word: string) =>
+  word
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+
+const BLOCKED = new Set<string>(BLOCKED_WORDS);
+
+/** Replace blocked words with asterisks (same length) */
+export function filterProfanity(text: string): string {
+  return text.replace(/[\p{L}\p{N}]+/gu, (word) => {
+    const folded = fold(word);
+    const blocked =
+      BLOCKED.has(folded) ||
+      (folded.endsWith("s") && BLOCKED.has(folded.slice(0, -1)));
+    return blocked ? "*".repeat(word.length) : word;
+  });
+}
+
+/**
+ * Validate and clean a message before storing it
+ * Collapses whitespace, enforces the length limit and masks profanity.
+ */
+export function prepareMessage(
+  raw: string
+): { text: string } | { error: string } {
+  const text = raw.replace(/\s+/g, " ").trim();
+
+  if (!text) return { error: "Message is empty" };
+  if (text.length > CHAT_LIMITS.MAX_LENGTH) {
+    return {
+      error: `Message is too long (max ${CHAT_LIMITS.MAX_LENGTH} characters)`,
+    };
+  }
+
+  return { text: filterProfanity(text) };
+}
+
+/** Quick emote by id (undefined for unknown ids) */
+export function findEmote(id: string) {
+  return QUICK_EMOTES.find((e) => e.id === id);
+}
+
+/** Add new messages to a list, oldest first, without duplicates */
+export function mergeChat(
+  current: ChatEntry[],
+  incoming: ChatEntry[]
+): ChatEntry[] {
+  const seen = new Set(current.map((m) => m.id));
+  const added = incoming.filter((m) => !seen.has(m.id));
+  if (added.length === 0) return current;
+
+  return [...current, ...added]
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .slice(-CHAT_LIMITS.HISTORY);
+}
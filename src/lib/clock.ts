@@ -0,0 +1,230 @@
+/**
+ * Turn Clock
+ *
+ * Pure time-control rules shared by the server actions, the bot engine and
+ * GameBoard. Time controls:
+ * - PER_MOVE: every turn gets `timeLimitMs`
+ * - FISCHER: each player has a bank (starts at `timeLimitMs`); time spent
+ *   on a turn is taken from it and `timeIncrementMs` is added afterwards
+ * The turn started at Room.turnStartedAt; a player's bank at the start of
+ * their turn is Player.timeLeftMs.
+ */
+
+import type { TimeControl, TimeoutAction } from "@prisma/client";
+import { TIME_CONTROL_LIMITS } from "@/config/time-control";
+import {
+  fromRoom,
+  lastStandingWinner,
+  nextPlayerId,
+  type RoomLike,
+} from "@/lib/engine";
+
+/** Error returned when an action arrives after the player's clock ran out */
+export const TIME_UP_ERROR = "Time is up for this turn";
+
+/** Time control chosen when creating a room */
+export interface TimeControlSettings {
+  timeControl: TimeControl;
+  timeLimitMs: number | null;
+  timeIncrementMs: number;
+  timeoutAction: TimeoutAction;
+}
+
+/** Structural room shape the clock needs (Prisma rooms satisfy it) */
+export interface ClockRoom {
+  status: string;
+  currentTurn: number;
+  timeControl: TimeControl;
+  timeLimitMs: number | null;
+  timeIncrementMs: number;
+  timeoutAction: TimeoutAction;
+  turnStartedAt: Date | null;
+  players: Array<{
+    playerId: number;
+    timeLeftMs: number | null;
+    forfeited: boolean;
+  }>;
+}
+
+/**
+ * Validate settings from the client
+ * @returns Error message, or null when valid
+ */
+export function validateTimeControl(
+  settings: TimeControlSettings
+): string | null {
+  const { timeControl, timeLimitMs, timeIncrementMs, timeoutAction } = settings;
+
+  if (timeoutAction !== "SKIP" && timeoutAction !== "FORFEIT") {
+    return "Invalid timeout action";
+  }
+  if (timeControl === "NONE") return null;
+  if (timeControl !== "PER_MOVE" && timeControl !== "FISCHER") {
+    return "Invalid time control";
+  }
+
+  if (
+    timeLimitMs === null ||
+    !Number.isInteger(timeLimitMs) ||
+    timeLimitMs < TIME_CONTROL_LIMITS.MIN_LIMIT_MS ||
+    timeLimitMs > TIME_CONTROL_LIMITS.MAX_LIMIT_MS
+  ) {
+    return "Invalid time limit";
+  }
+  if (
+    !Number.isInteger(timeIncrementMs) ||
+    timeIncrementMs < 0 ||
+    timeIncrementMs > TIME_CONTROL_LIMITS.MAX_INCREMENT_MS
+  ) {
+    return "Invalid time increment";
+  }
+
+  // A skipped player resumes with only the increment: it must be positive
+  if (timeControl === "FISCHER" && timeoutAction === "SKIP") {
+    if (timeIncrementMs === 0) {
+      return "Fischer clocks that skip turns need an increment";
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Time a player has for a whole turn (from the moment it starts)
+ * @returns Milliseconds, or null when the room has no clock
+ */
+export function turnBudgetMs(room: ClockRoom, playerId: number): number | null {
+  if (room.timeLimitMs === null) return null;
+
+  switch (room.timeControl) {
+    case "PER_MOVE":
+      return room.timeLimitMs;
+    case "FISCHER": {
+      const player = room.players.find((p) => p.playerId === playerId);
+      return player?.timeLeftMs ?? room.timeLimitMs;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Time left for the current turn (never negative)
+ * @returns Milliseconds, or null when no clock is running
+ */
+export function turnRemainingMs(
+  room: ClockRoom,
+  now: number = Date.now()
+): number | null {
+  if (room.status !== "PLAYING" || !room.turnStartedAt) return null;
+
+  const budget = turnBudgetMs(room, room.currentTurn);
+  if (budget === null) return null;
+
+  const elapsed = now - new Date(room.turnStartedAt).getTime();
+  return Math.max(0, budget - elapsed);
+}
+
+/** Has the current player run out of time? */
+export function isTurnExpired(
+  room: ClockRoom,
+  now: number = Date.now()
+): boolean {
+  return turnRemainingMs(room, now) === 0;
+}
+
+/**
+ * Fischer bank for `playerId` after ending their turn at `now`
+ * (time left + increment)
+ * @returns Milliseconds, or null when players have no bank
+ */
+export function bankAfterTurn(
+  room: ClockRoom,
+  playerId: number,
+  now: number = Date.now()
+): number | null {
+  if (room.timeControl !== "FISCHER") return null;
+
+  const remaining =
+    room.currentTurn === playerId ? turnRemainingMs(room, now) : null;
+  const bank = remaining ?? turnBudgetMs(room, playerId);
+  if (bank === null) return null;
+
+  return bank + room.timeIncrementMs;
+}
+
+/** Room with both the clock fields and the board (a Prisma room) */
+export type TimeoutRoom = Omit<ClockRoom, "players"> &
+  Omit<RoomLike, "players"> & {
+    players: Array<ClockRoom["players"][number] & RoomLike["players"][number]>;
+  };
+
+/** What the server does when the current player's clock runs out */
+export interface TimeoutOutcome {
+  playerId: number; // Player who ran out of time
+  forfeited: boolean;
+  nextTurn: number;
+  winner: number | null; // Last player standing after a forfeit
+  timeLeftMs: number | null; // New Fischer bank (skip only)
+}
+
+/**
+ * Resolve a timeout for the current player
+ * SKIP passes the turn (a Fischer player resumes with just the increment);
+ * FORFEIT takes the player out of the turn order; once a single player is
+ * left racing the game ends (see lastStandingWinner).
+ */
+export function resolveTimeout(room: TimeoutRoom): TimeoutOutcome {
+  const playerId = room.currentTurn;
+  const forfeited = room.timeoutAction === "FORFEIT";
+
+  const state = fromRoom({
+    ...room,
+    players: room.players.map((p) => ({
+      ...p,
+      forfeited: p.forfeited || (forfeited && p.playerId === playerId),
+    })),
+  });
+
+  const winner = lastStandingWinner(state);
+
+  return {
+    playerId,
+    forfeited,
+    nextTurn: winner ?? nextPlayerId(state, playerId),
+    winner,
+    timeLeftMs:
+      !forfeited && room.timeControl === "FISCHER"
+        ? room.timeIncrementMs
+        : null,
+  };
+}
+
+/**
+ * Clock display for each player: time left on the current turn for the
+ * player to move, the full turn budget for everyone else
+ */
+export function playerClocks(
+  room: ClockRoom,
+  now: number = Date.now()
+): Map<number, number | null> {
+  const clocks = new Map<number, number | null>();
+  for (const p of room.players) {
+    if (p.forfeited) {
+      clocks.set(p.playerId, null);
+    } else if (p.playerId === room.currentTurn) {
+      clocks.set(p.playerId, turnRemainingMs(room, now));
+    } else {
+      clocks.set(p.playerId, turnBudgetMs(room, p.playerId));
+    }
+  }
+  return clocks;
+}
+
+/** Format milliseconds as m:ss (rounded up, so 0:00 means time is up) */
+export function formatClock(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, "0")}`;
+}
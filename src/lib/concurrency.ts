@@ -0,0 +1,32 @@
+/**
+ * Optimistic Concurrency for Turn-Mutating Actions
+ *
+ * Room.turnNumber is the room's version: every action that changes the
+ * board increments it. Actions carry the turnNumber they were based on and
+ * only commit if it is still current, so double-clicks, two tabs or a bot
+ * racing an undo can never apply two actions on the same turn.
+ */
+
+import type { Prisma } from "@prisma/client";
+
+/** Error returned when another action advanced the turn first */
+export const STALE_STATE_ERROR =
+  "Stale state: the game has changed since you loaded it. Refresh and try again.";
+
+/**
+ * Conditionally update the room and increment its turnNumber
+ * Must be the first write of the transaction; when it returns false the
+ * turn has already advanced and the caller must not write anything else.
+ */
+export async function claimTurn(
+  tx: Prisma.TransactionClient,
+  roomId: string,
+  expectedTurn: number,
+  data: Prisma.RoomUpdateManyMutationInput = {}
+): Promise<boolean> {
+  const { count } = await tx.room.updateMany({
+    where: { id: roomId, turnNumber: expectedTurn },
+    data: { ...data, turnNumber: { increment: 1 } },
+  });
+  return count === 1;
+}
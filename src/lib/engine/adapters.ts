@@ -0,0 +1,129 @@
+/**
+ * Engine Adapters
+ *
+ * Convert the app's state shapes into EngineState:
+ * - GameSnapshot (React UI)
+ * - Rooms loaded from the database and bot snapshots (server, bots)
+ */
+
+import type { GameSnapshot } from "@/types/game";
+import { createState } from "./state";
+import type { EngineAction, EngineState, GoalSide, Orientation } from "./types";
+
+/** Structural shape shared by Prisma rooms and bot snapshots */
+export interface RoomLike {
+  currentTurn: number;
+  winner: number | null;
+  players: Array<{
+    playerId: number;
+    row: number;
+    col: number;
+    goalSide: GoalSide | string;
+    wallsLeft: number;
+    forfeited?: boolean;
+  }>;
+  barriers: Array<{
+    row: number;
+    col: number;
+    orientation: "HORIZONTAL" | "VERTICAL" | string;
+    placedBy?: number;
+  }>;
+  untilPlacements?: boolean;
+  finishOrder?: number[];
+  gameMode?: string;
+  sharedWalls?: boolean;
+  boardSize?: number;
+}
+
+/** DB orientation → engine orientation */
+export function toOrientation(orientation: string): Orientation {
+  return orientation === "HORIZONTAL" ? "H" : "V";
+}
+
+/** Engine orientation → DB orientation */
+export function toDbOrientation(
+  orientation: Orientation
+): "HORIZONTAL" | "VERTICAL" {
+  return orientation === "H" ? "HORIZONTAL" : "VERTICAL";
+}
+
+/** Build engine state from the UI GameSnapshot */
+export function fromGameSnapshot(snapshot: GameSnapshot): EngineState {
+  const state = createState(
+    snapshot.players.map((p) => ({
+      id: p.id,
+      row: p.row,
+      col: p.col,
+      goalSide: p.goalSide,
+      wallsLeft: p.wallsLeft,
+    })),
+    snapshot.barriers.map((b) => ({
+      row: b.row,
+      col: b.col,
+      orientation: b.orientation,
+      placedBy: b.placedBy,
+    })),
+    snapshot.currentPlayerId,
+    snapshot.winner
+  );
+  return {
+    ...state,
+    teams: snapshot.gameMode === "TEAMS",
+    sharedWalls: snapshot.sharedWalls ?? false,
+    boardSize: snapshot.boardSize,
+  };
+}
+
+/**
+ * Build engine state from a DB room or bot snapshot
+ * Players are ordered by playerId (turn order).
+ */
+export function fromRoom(room: RoomLike): EngineState {
+  const players = [...room.players].sort((a, b) => a.playerId - b.playerId);
+
+  const state = createState(
+    players.map((p) => ({
+      id: p.playerId,
+      row: p.row,
+      col: p.col,
+      goalSide: p.goalSide as GoalSide,
+      wallsLeft: p.wallsLeft,
+      forfeited: p.forfeited,
+    })),
+    room.barriers.map((b) => ({
+      row: b.row,
+      col: b.col,
+      orientation: toOrientation(b.orientation),
+      placedBy: b.placedBy,
+    })),
+    room.currentTurn,
+    room.winner
+  );
+  return {
+    ...state,
+    untilPlacements: room.untilPlacements ?? false,
+    finishOrder: room.finishOrder ?? [],
+    teams: room.gameMode === "TEAMS",
+    sharedWalls: room.sharedWalls ?? false,
+    boardSize: room.boardSize,
+  };
+}
+
+/** Bot/DB move shape → engine action */
+export function toEngineAction(move: {
+  type: string;
+  row: number;
+  col: number;
+  orientation?: string;
+}): EngineAction {
+  if (move.type === "MOVE") {
+    return { type: "MOVE", row: move.row, col: move.col };
+  }
+  return {
+    type: "WALL",
+    row: move.row,
+    col: move.col,
+    orientation:
+      move.orientation === "H" || move.orientation === "HORIZONTAL" ? "H" : "V",
+  };
+}
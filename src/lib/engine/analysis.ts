@@ -0,0 +1,75 @@
+/**
+ * Position Analysis
+ *
+ * Shortest paths and the race between players, for the analysis overlay.
+ * A preview wall is laid over the board before searching, so the UI can show
+ * how a wall would change every distance before it is placed.
+ */
+
+import { wallEdges } from "./board";
+import { shortestPath } from "./path";
+import { racingPlayers } from "./state";
+import { teamOf } from "./teams";
+import type { Cell, EngineState, EngineWall } from "./types";
+
+export interface PathAnalysis {
+  playerId: number;
+  /** Start cell to goal border (null: goal unreachable) */
+  path: Cell[] | null;
+  /** Moves to the goal (null: goal unreachable) */
+  distance: number | null;
+}
+
+/**
+ * Shortest path of every player still racing
+ * Pawns are ignored, like the wall rule (see path.ts).
+ */
+export function analyzePosition(
+  state: EngineState,
+  preview?: EngineWall
+): PathAnalysis[] {
+  const blockedEdges = preview
+    ? state.blockedEdges.clone()
+    : state.blockedEdges;
+  if (preview) {
+    wallEdges(preview.row, preview.col, preview.orientation).forEach((edge) =>
+      blockedEdges.add(edge)
+    );
+  }
+
+  return racingPlayers(state).map((p) => {
+    const path = shortestPath(p, p.goalSide, blockedEdges, state.boardSize);
+    return {
+      playerId: p.id,
+      path,
+      distance: path ? path.length - 1 : null,
+    };
+  });
+}
+
+/**
+ * How many moves a player is ahead of their closest rival (negative: behind)
+ * In team games a team races with its closer partner. Null when either
+ * side has no path or there is no rival left.
+ */
+export function raceLead(
+  state: EngineState,
+  analysis: PathAnalysis[],
+  playerId: number
+): number | null {
+  const sameSide = (id: number) =>
+    id === playerId || (!!state.teams && teamOf(id) === teamOf(playerId));
+  const closest = (entries: PathAnalysis[]) =>
+    entries.reduce<number | null>(
+      (best, a) =>
+        a.distance !== null && (best === null || a.distance < best)
+          ? a.distance
+          : best,
+      null
+    );
+
+  const own = closest(analysis.filter((a) => sameSide(a.playerId)));
+  const rival = closest(analysis.filter((a) => !sameSide(a.playerId)));
+
+  return own === null || rival === null ? null : rival - own;
+}
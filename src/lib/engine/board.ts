@@ -0,0 +1,125 @@
+/**
+ * Board Geometry
+ *
+ * The inner board has `size` cells per side (rows/cols 1-size) plus a
+ * border (0 and size + 1). The standard board is 9x9 inside an 11x11 grid;
+ * rooms can also play 7x7 or 11x11 (see BOARD_SIZE_CONFIG). Border cells
+ * are goal zones and can only be entered on the goal side.
+ *
+ * Helpers take the inner size as their last argument (default: standard).
+ */
+
+import type { GoalSide, Orientation } from "./types";
+
+export const INNER_SIZE = 9; // Standard board
+export const BOARD_SIZE = INNER_SIZE + 2; // 11x11 with borders
+
+/** Largest inner board: edge indices are laid out on its grid */
+export const MAX_INNER_SIZE = 11;
+export const MAX_BOARD_SIZE = MAX_INNER_SIZE + 2; // 13x13 with borders
+
+/**
+ * Normalize an edge between two adjacent cells
+ * Both (r1,c1)→(r2,c2) and (r2,c2)→(r1,c1) map to the same key
+ */
+export function edgeKey(r1: number, c1: number, r2: number, c2: number) {
+  if (r1 > r2 || (r1 === r2 && c1 > c2)) {
+    [r1, r2] = [r2, r1];
+    [c1, c2] = [c2, c1];
+  }
+  return `${r1},${c1}-${r2},${c2}`;
+}
+
+export function isInside(
+  row: number,
+  col: number,
+  size: number = INNER_SIZE
+): boolean {
+  return row >= 0 && row <= size + 1 && col >= 0 && col <= size + 1;
+}
+
+export function isInner(
+  row: number,
+  col: number,
+  size: number = INNER_SIZE
+): boolean {
+  return row >= 1 && row <= size && col >= 1 && col <= size;
+}
+
+export function isBorder(
+  row: number,
+  col: number,
+  size: number = INNER_SIZE
+): boolean {
+  return isInside(row, col, size) && !isInner(row, col, size);
+}
+
+/** Goal is reaching the OUTER border on the player's goal side */
+export function isGoal(
+  row: number,
+  col: number,
+  goalSide: GoalSide,
+  size: number = INNER_SIZE
+): boolean {
+  switch (goalSide) {
+    case "TOP":
+      return row === 0;
+    case "BOTTOM":
+      return row === size + 1;
+    case "LEFT":
+      return col === 0;
+    case "RIGHT":
+      return col === size + 1;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Edges blocked by a single wall
+ * - Horizontal at (row, col) blocks (row,col)↔(row+1,col) and (row,col+1)↔(row+1,col+1)
+ * - Vertical at (row, col) blocks (row,col)↔(row,col+1) and (row+1,col)↔(row+1,col+1)
+ */
+export function wallEdges(
+  row: number,
+  col: number,
+  orientation: Orientation
+): [string, string] {
+  if (orientation === "H") {
+    return [
+      edgeKey(row, col, row + 1, col),
+      edgeKey(row, col + 1, row + 1, col + 1),
+    ];
+  }
+  return [
+    edgeKey(row, col, row, col + 1),
+    edgeKey(row + 1, col, row + 1, col + 1),
+  ];
+}
+
+/**
+ * Valid base positions for walls (standard board)
+ * - HORIZONTAL: row 0-9 (needs row+1 ≤ 10), col 0-8 (spans two columns)
+ * - VERTICAL: col 0-9 (needs col+1 ≤ 10), row 0-8 (spans two rows)
+ */
+export function isWallInBounds(
+  row: number,
+  col: number,
+  orientation: Orientation,
+  size: number = INNER_SIZE
+): boolean {
+  if (!Number.isInteger(row) || !Number.isInteger(col)) return false;
+  const last = size + 1; // Border row/column on the far side
+  if (orientation === "H") {
+    return row >= 0 && row <= last - 1 && col >= 0 && col <= last - 2;
+  }
+  return row >= 0 && row <= last - 2 && col >= 0 && col <= last - 1;
+}
+
+/** Orthogonal directions (up, down, left, right) */
+export const DIRECTIONS = [
+  { dr: -1, dc: 0 },
+  { dr: 1, dc: 0 },
+  { dr: 0, dc: -1 },
+  { dr: 0, dc: 1 },
+] as const;
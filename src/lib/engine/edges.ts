@@ -0,0 +1,213 @@
+/**
+ * Edge Representation
+ *
+ * Canonical encoding of blocked edges between adjacent cells. Indices are
+ * laid out on the largest (13x13) grid, so every board size shares them.
+ * Every layer (UI, server actions, bots) uses the same formats:
+ * - String key `r1,c1-r2,c2` (normalized, see edgeKey) for JSON/GameSnapshot
+ * - Edge index 0-311 and EdgeBitboard (10 x 32-bit words) for computation
+ *
+ * Index layout:
+ * - 0-155:   edges between (r,c) and (r,c+1)  → r * 12 + c
+ * - 156-311: edges between (r,c) and (r+1,c)  → 156 + r * 13 + c
+ */
+
+import { MAX_BOARD_SIZE as BOARD_SIZE, edgeKey, wallEdges } from "./board";
+import type { EngineWall } from "./types";
+
+/** Edges inside one row (cell ↔ right neighbor) */
+const ROW_EDGES = BOARD_SIZE * (BOARD_SIZE - 1);
+
+/** Total number of edges on the grid */
+export const EDGE_COUNT = ROW_EDGES * 2;
+
+const WORD_COUNT = Math.ceil(EDGE_COUNT / 32);
+
+/**
+ * Index of the edge between two cells
+ * Returns -1 when the cells are not orthogonally adjacent inside the grid
+ */
+export function edgeIndex(
+  r1: number,
+  c1: number,
+  r2: number,
+  c2: number
+): number {
+  if (r1 > r2 || (r1 === r2 && c1 > c2)) {
+    [r1, r2] = [r2, r1];
+    [c1, c2] = [c2, c1];
+  }
+  if (r1 < 0 || c1 < 0 || r2 >= BOARD_SIZE || c2 >= BOARD_SIZE) return -1;
+
+  if (r1 === r2 && c2 === c1 + 1) {
+    return r1 * (BOARD_SIZE - 1) + c1;
+  }
+  if (c1 === c2 && r2 === r1 + 1) {
+    return ROW_EDGES + r1 * BOARD_SIZE + c1;
+  }
+  return -1;
+}
+
+/** Cells joined by the edge at `index` (normalized order) */
+export function edgeCells(index: number): [number, number, number, number] {
+  if (index < ROW_EDGES) {
+    const row = Math.floor(index / (BOARD_SIZE - 1));
+    const col = index % (BOARD_SIZE - 1);
+    return [row, col, row, col + 1];
+  }
+  const offset = index - ROW_EDGES;
+  const row = Math.floor(offset / BOARD_SIZE);
+  const col = offset % BOARD_SIZE;
+  return [row, col, row + 1, col];
+}
+
+/** Canonical string key for the edge at `index` */
+export function edgeKeyFromIndex(index: number): string {
+  return edgeKey(...edgeCells(index));
+}
+
+/**
+ * Parse an edge key into its index
+ * Accepts the canonical `r1,c1-r2,c2` format and the legacy bot format
+ * `r1,c1:r2,c2`, in either cell order. Returns -1 for malformed keys.
+ */
+export function parseEdgeKey(key: string): number {
+  const match = /^(\d+),(\d+)[-:](\d+),(\d+)$/.exec(key.trim());
+  if (!match) return -1;
+  const [r1, c1, r2, c2] = match.slice(1).map(Number);
+  return edgeIndex(r1, c1, r2, c2);
+}
+
+/** Normalize any accepted edge key to the canonical format */
+export function normalizeEdgeKey(key: string): string | null {
+  const index = parseEdgeKey(key);
+  return index === -1 ? null : edgeKeyFromIndex(index);
+}
+
+/**
+ * Compact set of blocked edges
+ * Set-like API over canonical string keys, plus index/cell based lookups
+ * for hot paths (pathfinding, bots).
+ */
+export class EdgeBitboard implements Iterable<string> {
+  private readonly words: Uint32Array;
+
+  constructor(words?: Uint32Array) {
+    this.words = words ? new Uint32Array(words) : new Uint32Array(WORD_COUNT);
+  }
+
+  /** Build from string keys (canonical or legacy) or another bitboard */
+  static from(edges: Iterable<string> | EdgeBitboard): EdgeBitboard {
+    if (edges instanceof EdgeBitboard) return edges.clone();
+
+    const board = new EdgeBitboard();
+    for (const key of edges) board.add(key);
+    return board;
+  }
+
+  /** Decode the hex form produced by toHex() */
+  static fromHex(hex: string): EdgeBitboard {
+    const words = new Uint32Array(WORD_COUNT);
+    for (let i = 0; i < WORD_COUNT; i++) {
+      words[i] = parseInt(hex.slice(i * 8, i * 8 + 8) || "0", 16) >>> 0;
+    }
+    return new EdgeBitboard(words);
+  }
+
+  hasIndex(index: number): boolean {
+    if (index < 0 || index >= EDGE_COUNT) return false;
+    return (this.words[index >>> 5] & (1 << (index & 31))) !== 0;
+  }
+
+  addIndex(index: number): this {
+    if (index < 0 || index >= EDGE_COUNT) {
+      throw new Error(`Invalid edge index: ${index}`);
+    }
+    this.words[index >>> 5] |= 1 << (index & 31);
+    return this;
+  }
+
+  deleteIndex(index: number): boolean {
+    if (!this.hasIndex(index)) return false;
+    this.words[index >>> 5] &= ~(1 << (index & 31));
+    return true;
+  }
+
+  /** Is the edge between two adjacent cells blocked? */
+  hasEdge(r1: number, c1: number, r2: number, c2: number): boolean {
+    return this.hasIndex(edgeIndex(r1, c1, r2, c2));
+  }
+
+  has(key: string): boolean {
+    return this.hasIndex(parseEdgeKey(key));
+  }
+
+  /** @throws Error when the key does not describe an edge of the grid */
+  add(key: string): this {
+    const index = parseEdgeKey(key);
+    if (index === -1) throw new Error(`Invalid edge key: ${key}`);
+    return this.addIndex(index);
+  }
+
+  delete(key: string): boolean {
+    return this.deleteIndex(parseEdgeKey(key));
+  }
+
+  get size(): number {
+    let count = 0;
+    for (const word of this.words) {
+      let w = word;
+      while (w !== 0) {
+        w &= w - 1;
+        count++;
+      }
+    }
+    return count;
+  }
+
+  clone(): EdgeBitboard {
+    return new EdgeBitboard(this.words);
+  }
+
+  equals(other: EdgeBitboard): boolean {
+    return this.words.every((word, i) => word === other.words[i]);
+  }
+
+  /** Blocked edge indices in ascending order */
+  indices(): number[] {
+    const result: number[] = [];
+    for (let i = 0; i < EDGE_COUNT; i++) {
+      if (this.hasIndex(i)) result.push(i);
+    }
+    return result;
+  }
+
+  /** Canonical string keys (GameSnapshot.blockedEdges format) */
+  toKeys(): string[] {
+    return this.indices().map(edgeKeyFromIndex);
+  }
+
+  /** 80-char hex encoding, compact enough for URLs and payloads */
+  toHex(): string {
+    return Array.from(this.words, (w) => w.toString(16).padStart(8, "0")).join(
+      ""
+    );
+  }
+
+  [Symbol.iterator](): Iterator<string> {
+    return this.toKeys()[Symbol.iterator]();
+  }
+}
+
+/** Compute all blocked edges from a list of walls */
+export function blockedEdgesFromWalls(
+  walls: Array<Pick<EngineWall, "row" | "col" | "orientation">>
+): EdgeBitboard {
+  const edges = new EdgeBitboard();
+  for (const w of walls) {
+    for (const edge of wallEdges(w.row, w.col, w.orientation)) {
+      edges.add(edge);
+    }
+  }
+  return edges;
+}
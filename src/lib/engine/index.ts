@@ -0,0 +1,17 @@
+/**
+ * Bloqueio Rules Engine
+ *
+ * Single source of truth for the game rules. Used by the React UI, server
+ * actions, bots and tests.
+ */
+
+export * from "./types";
+export * from "./board";
+export * from "./edges";
+export * from "./path";
+export * from "./moves";
+export * from "./walls";
+export * from "./teams";
+export * from "./state";
+export * from "./analysis";
+export * from "./adapters";
@@ -0,0 +1,205 @@
+/**
+ * Pawn Movement Rules
+ *
+ * - 1 orthogonal step (not through a barrier)
+ * - Straight jump over an adjacent pawn
+ * - Side-step (diagonal) when the straight jump is blocked
+ * - Border cells only on the player's goal side
+ * - Never onto an occupied cell
+ */
+
+import { INNER_SIZE, isBorder, isGoal, isInside } from "./board";
+import type { EdgeBitboard } from "./edges";
+import type {
+  Cell,
+  EngineState,
+  GoalSide,
+  MoveRejectionReason,
+  MoveValidationResult,
+} from "./types";
+
+/**
+ * Offsets of every cell a pawn could reach in one move
+ * Steps (distance 1), straight jumps (2 in a line) and side-steps (diagonal)
+ */
+export const MOVE_OFFSETS: ReadonlyArray<{ dr: number; dc: number }> = [
+  { dr: -2, dc: 0 },
+  { dr: -1, dc: -1 },
+  { dr: -1, dc: 0 },
+  { dr: -1, dc: 1 },
+  { dr: 0, dc: -2 },
+  { dr: 0, dc: -1 },
+  { dr: 0, dc: 1 },
+  { dr: 0, dc: 2 },
+  { dr: 1, dc: -1 },
+  { dr: 1, dc: 0 },
+  { dr: 1, dc: 1 },
+  { dr: 2, dc: 0 },
+];
+
+/** Human-readable messages for each rejection reason */
+export const MOVE_REJECTION_MESSAGES: Record<MoveRejectionReason, string> = {
+  OUT_OF_BOUNDS: "Destination is outside the board",
+  SAME_CELL: "Pawn is already on this cell",
+  BORDER_NOT_GOAL: "Can only enter the border on your goal side",
+  CELL_OCCUPIED: "Cell is occupied by another pawn",
+  BLOCKED_BY_BARRIER: "A barrier blocks this move",
+  NO_PAWN_TO_JUMP: "Can only jump over an adjacent pawn",
+  SIDE_STEP_NOT_ALLOWED: "Side-step is only allowed when the jump is blocked",
+  NOT_REACHABLE: "Pawns move one cell or jump over another pawn",
+};
+
+/**
+ * Validate a pawn move from `from` to `dest`
+ * `pawns` are the OTHER pawns on the board.
+ * Returns a typed reason code when the move is illegal.
+ */
+export function checkPawnMove(
+  from: Cell,
+  goalSide: GoalSide,
+  dest: Cell,
+  pawns: Cell[],
+  blockedEdges: EdgeBitboard,
+  size: number = INNER_SIZE
+): MoveValidationResult {
+  const reject = (reason: MoveRejectionReason): MoveValidationResult => ({
+    valid: false,
+    reason,
+  });
+  const { row: destRow, col: destCol } = dest;
+
+  if (!Number.isInteger(destRow) || !Number.isInteger(destCol)) {
+    return reject("OUT_OF_BOUNDS");
+  }
+  if (!isInside(destRow, destCol, size)) return reject("OUT_OF_BOUNDS");
+  if (destRow === from.row && destCol === from.col) return reject("SAME_CELL");
+
+  // Cannot enter the outer border, except on the goal side
+  if (
+    isBorder(destRow, destCol, size) &&
+    !isGoal(destRow, destCol, goalSide, size)
+  ) {
+    return reject("BORDER_NOT_GOAL");
+  }
+
+  const pawnAt = (row: number, col: number) =>
+    pawns.some((p) => p.row === row && p.col === col);
+
+  if (pawnAt(destRow, destCol)) return reject("CELL_OCCUPIED");
+
+  const isBlocked = (r1: number, c1: number, r2: number, c2: number) =>
+    blockedEdges.hasEdge(r1, c1, r2, c2);
+
+  const dr = destRow - from.row;
+  const dc = destCol - from.col;
+  const adr = Math.abs(dr);
+  const adc = Math.abs(dc);
+
+  // 1) Normal step
+  if (adr + adc === 1) {
+    return isBlocked(from.row, from.col, destRow, destCol)
+      ? reject("BLOCKED_BY_BARRIER")
+      : { valid: true };
+  }
+
+  // 2) Straight jump (2 cells in the same direction over a pawn)
+  if ((adr === 2 && adc === 0) || (adr === 0 && adc === 2)) {
+    const midRow = from.row + Math.sign(dr);
+    const midCol = from.col + Math.sign(dc);
+
+    if (!pawnAt(midRow, midCol)) return reject("NO_PAWN_TO_JUMP");
+    if (
+      isBlocked(from.row, from.col, midRow, midCol) ||
+      isBlocked(midRow, midCol, destRow, destCol)
+    ) {
+      return reject("BLOCKED_BY_BARRIER");
+    }
+    return { valid: true };
+  }
+
+  // 3) Side-step jump (diagonal, only when the straight jump is blocked)
+  if (adr === 1 && adc === 1) {
+    // The jumped pawn is either vertically or horizontally adjacent
+    const candidates = [
+      { ndr: dr, ndc: 0 },
+      { ndr: 0, ndc: dc },
+    ];
+
+    let sawPawn = false;
+    for (const { ndr, ndc } of candidates) {
+      const neighborRow = from.row + ndr;
+      const neighborCol = from.col + ndc;
+
+      if (!pawnAt(neighborRow, neighborCol)) continue;
+      sawPawn = true;
+
+      if (isBlocked(from.row, from.col, neighborRow, neighborCol)) continue;
+
+      const straightRow = neighborRow + ndr;
+      const straightCol = neighborCol + ndc;
+      const straightBlocked =
+        !isInside(straightRow, straightCol, size) ||
+        isBlocked(neighborRow, neighborCol, straightRow, straightCol) ||
+        pawnAt(straightRow, straightCol);
+
+      if (!straightBlocked) continue;
+      if (isBlocked(neighborRow, neighborCol, destRow, destCol)) continue;
+
+      return { valid: true };
+    }
+
+    return reject(sawPawn ? "SIDE_STEP_NOT_ALLOWED" : "NO_PAWN_TO_JUMP");
+  }
+
+  return reject("NOT_REACHABLE");
+}
+
+/** Validate a pawn move for a player in the given state */
+export function validateMove(
+  state: EngineState,
+  playerId: number,
+  destRow: number,
+  destCol: number
+): MoveValidationResult {
+  const player = state.players.find((p) => p.id === playerId);
+  if (!player) return { valid: false, reason: "NOT_REACHABLE" };
+
+  const others = state.players.filter((p) => p.id !== playerId);
+  return checkPawnMove(
+    player,
+    player.goalSide,
+    { row: destRow, col: destCol },
+    others,
+    state.blockedEdges,
+    state.boardSize
+  );
+}
+
+/** Convenience boolean wrapper around validateMove */
+export function canPawnMoveTo(
+  state: EngineState,
+  playerId: number,
+  destRow: number,
+  destCol: number
+): boolean {
+  return validateMove(state, playerId, destRow, destCol).valid;
+}
+
+/**
+ * All legal pawn destinations for a player
+ * Candidates are the MOVE_OFFSETS cells, filtered through validateMove.
+ */
+export function legalMoves(state: EngineState, playerId: number): Cell[] {
+  const player = state.players.find((p) => p.id === playerId);
+  if (!player) return [];
+
+  const moves: Cell[] = [];
+  for (const { dr, dc } of MOVE_OFFSETS) {
+    const row = player.row + dr;
+    const col = player.col + dc;
+    if (validateMove(state, playerId, row, col).valid) {
+      moves.push({ row, col });
+    }
+  }
+  return moves;
+}
@@ -0,0 +1,167 @@
+/**
+ * Pathfinding
+ *
+ * BFS over the inner board. Players cannot walk through border cells,
+ * so a player "can reach" their goal once they stand on the inner row/column
+ * adjacent to the goal border (one move away from winning).
+ */
+
+import { DIRECTIONS, INNER_SIZE, isGoal, isInner } from "./board";
+import type { EdgeBitboard } from "./edges";
+import { MOVE_OFFSETS, checkPawnMove } from "./moves";
+import type { Cell, GoalSide } from "./types";
+
+/** Inner cell adjacent to the goal border (the last step before winning) */
+export function isGoalApproach(
+  row: number,
+  col: number,
+  goalSide: GoalSide,
+  size: number = INNER_SIZE
+): boolean {
+  switch (goalSide) {
+    case "TOP":
+      return row === 1;
+    case "BOTTOM":
+      return row === size;
+    case "LEFT":
+      return col === 1;
+    case "RIGHT":
+      return col === size;
+    default:
+      return false;
+  }
+}
+
+/** Border cell reached by stepping off an approach cell toward the goal */
+function goalCellFrom(row: number, col: number, goalSide: GoalSide): Cell {
+  switch (goalSide) {
+    case "TOP":
+      return { row: row - 1, col };
+    case "BOTTOM":
+      return { row: row + 1, col };
+    case "LEFT":
+      return { row, col: col - 1 };
+    case "RIGHT":
+      return { row, col: col + 1 };
+  }
+}
+
+/**
+ * Shortest path from a cell to the player's goal border
+ * Path includes the start cell and ends on the goal border cell.
+ * Returns null when the goal is unreachable.
+ */
+export function shortestPath(
+  from: Cell,
+  goalSide: GoalSide,
+  blockedEdges: EdgeBitboard,
+  size: number = INNER_SIZE
+): Cell[] | null {
+  if (isGoal(from.row, from.col, goalSide, size)) return [{ ...from }];
+
+  const key = (r: number, c: number) => r * 100 + c;
+  const parent = new Map<number, number>();
+  const queue: Cell[] = [from];
+  parent.set(key(from.row, from.col), -1);
+
+  while (queue.length > 0) {
+    const { row, col } = queue.shift() as Cell;
+
+    if (isGoalApproach(row, col, goalSide, size)) {
+      const path: Cell[] = [goalCellFrom(row, col, goalSide)];
+      let current = key(row, col);
+      while (current !== -1) {
+        path.unshift({ row: Math.floor(current / 100), col: current % 100 });
+        current = parent.get(current) as number;
+      }
+      return path;
+    }
+
+    for (const { dr, dc } of DIRECTIONS) {
+      const nr = row + dr;
+      const nc = col + dc;
+
+      // Only explore INTERNAL cells (1-size)
+      if (!isInner(nr, nc, size)) continue;
+      if (parent.has(key(nr, nc))) continue;
+      if (blockedEdges.hasEdge(row, col, nr, nc)) continue;
+
+      parent.set(key(nr, nc), key(row, col));
+      queue.push({ row: nr, col: nc });
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Shortest path that honours the other pawns on the board
+ * Every step is a legal pawn move (step, straight jump or side-step) with
+ * the other pawns frozen in place, so the path never lands on an occupied
+ * cell and uses jumps where they save moves. Ends on the goal border cell.
+ * Returns null when no such path exists (e.g. a pawn plugs a corridor).
+ */
+export function shortestPathAroundPawns(
+  from: Cell,
+  goalSide: GoalSide,
+  blockedEdges: EdgeBitboard,
+  pawns: Cell[],
+  size: number = INNER_SIZE
+): Cell[] | null {
+  if (isGoal(from.row, from.col, goalSide, size)) return [{ ...from }];
+
+  const key = (r: number, c: number) => r * 100 + c;
+  const parent = new Map<number, number>();
+  const queue: Cell[] = [from];
+  parent.set(key(from.row, from.col), -1);
+
+  while (queue.length > 0) {
+    const current = queue.shift() as Cell;
+
+    for (const { dr, dc } of MOVE_OFFSETS) {
+      const next = { row: current.row + dr, col: current.col + dc };
+      if (parent.has(key(next.row, next.col))) continue;
+      if (
+        !checkPawnMove(current, goalSide, next, pawns, blockedEdges, size)
+          .valid
+      ) {
+        continue;
+      }
+
+      parent.set(key(next.row, next.col), key(current.row, current.col));
+      if (isGoal(next.row, next.col, goalSide, size)) {
+        const path: Cell[] = [];
+        let k = key(next.row, next.col);
+        while (k !== -1) {
+          path.unshift({ row: Math.floor(k / 100), col: k % 100 });
+          k = parent.get(k) as number;
+        }
+        return path;
+      }
+      queue.push(next);
+    }
+  }
+
+  return null;
+}
+
+/** Number of moves to reach the goal border, or null if unreachable */
+export function distanceToGoal(
+  from: Cell,
+  goalSide: GoalSide,
+  blockedEdges: EdgeBitboard,
+  size: number = INNER_SIZE
+): number | null {
+  const path = shortestPath(from, goalSide, blockedEdges, size);
+  return path ? path.length - 1 : null;
+}
+
+/** Check whether a player can still reach their goal */
+export function hasPathToGoal(
+  from: Cell,
+  goalSide: GoalSide,
+  blockedEdges: EdgeBitboard,
+  size: number = INNER_SIZE
+): boolean {
+  return shortestPath(from, goalSide, blockedEdges, size) !== null;
+}
@@ -0,0 +1,193 @@
+/**
+ * State Transitions
+ *
+ * Pure functions: every transition returns a NEW state, the input is never
+ * mutated. Illegal actions throw - callers validate first when they need a
+ * typed rejection reason (see validateMove / validateWall).
+ */
+
+import { isGoal } from "./board";
+import { blockedEdgesFromWalls } from "./edges";
+import { MOVE_REJECTION_MESSAGES, legalMoves, validateMove } from "./moves";
+import { legalWalls, validateWall } from "./walls";
+import { teamOf, wallOwner } from "./teams";
+import type {
+  EngineAction,
+  EnginePlayer,
+  EngineState,
+  EngineWall,
+} from "./types";
+
+/** Build a state, deriving blocked edges from the walls */
+export function createState(
+  players: EnginePlayer[],
+  walls: EngineWall[] = [],
+  currentPlayerId: number = players[0]?.id ?? 0,
+  winner: number | null = null
+): EngineState {
+  return {
+    players: players.map((p) => ({ ...p })),
+    walls: walls.map((w) => ({ ...w })),
+    blockedEdges: blockedEdgesFromWalls(walls),
+    currentPlayerId,
+    winner,
+  };
+}
+
+/** Players still racing: not out on time and not finished */
+export function racingPlayers(state: EngineState): EnginePlayer[] {
+  return state.players.filter(
+    (p) => !p.forfeited && !state.finishOrder?.includes(p.id)
+  );
+}
+
+/**
+ * Next player in turn order - works for both 2P and 4P modes
+ * Cycles through actual player IDs, not array indices, skipping players
+ * who forfeited or already finished
+ */
+export function nextPlayerId(state: EngineState, currentId: number): number {
+  const index = state.players.findIndex((p) => p.id === currentId);
+  if (index === -1) return state.players[0].id;
+
+  const racing = new Set(racingPlayers(state).map((p) => p.id));
+  for (let step = 1; step <= state.players.length; step++) {
+    const next = state.players[(index + step) % state.players.length];
+    if (racing.has(next.id)) return next.id;
+  }
+  return currentId;
+}
+
+/**
+ * Turn order after `playerId` moves a pawn to (row, col)
+ * Reaching the goal normally wins the game. When playing until placements
+ * the player finishes and leaves the turn order instead; the game ends once
+ * at most one player is still racing, won by whoever finished first.
+ */
+export function turnAfterMove(
+  state: EngineState,
+  playerId: number,
+  row: number,
+  col: number
+): Pick<EngineState, "currentPlayerId" | "winner" | "finishOrder"> {
+  const mover = state.players.find((p) => p.id === playerId);
+  if (!mover || !isGoal(row, col, mover.goalSide, state.boardSize)) {
+    return {
+      currentPlayerId: nextPlayerId(state, playerId),
+      winner: null,
+      finishOrder: state.finishOrder ?? [],
+    };
+  }
+
+  const finishOrder = [...(state.finishOrder ?? []), playerId];
+  const next = { ...state, finishOrder };
+
+  if (!state.untilPlacements || racingPlayers(next).length <= 1) {
+    return { currentPlayerId: playerId, winner: finishOrder[0], finishOrder };
+  }
+  return {
+    currentPlayerId: nextPlayerId(next, playerId),
+    winner: null,
+    finishOrder,
+  };
+}
+
+/**
+ * Winner once a forfeit leaves at most one player (or team) racing: the
+ * first to finish, else the last one standing (null while the race goes on)
+ */
+export function lastStandingWinner(state: EngineState): number | null {
+  const racing = racingPlayers(state);
+  const sides = new Set(racing.map((p) => (state.teams ? teamOf(p.id) : p.id)));
+  if (sides.size > 1) return null;
+
+  return state.finishOrder?.[0] ?? racing[0]?.id ?? null;
+}
+
+/** Game is over once a player has reached their goal */
+export function isTerminal(state: EngineState): boolean {
+  return state.winner !== null;
+}
+
+/** Every legal action (pawn moves first, then walls) for the current player */
+export function legalActions(state: EngineState): EngineAction[] {
+  if (isTerminal(state)) return [];
+
+  const playerId = state.currentPlayerId;
+  return [
+    ...legalMoves(state, playerId).map((cell): EngineAction => ({
+      type: "MOVE",
+      ...cell,
+    })),
+    ...legalWalls(state, playerId).map((wall): EngineAction => ({
+      type: "WALL",
+      row: wall.row,
+      col: wall.col,
+      orientation: wall.orientation,
+    })),
+  ];
+}
+
+/**
+ * Apply an action for the current player
+ * @throws Error when the game is over or the action is illegal
+ */
+export function applyAction(
+  state: EngineState,
+  action: EngineAction
+): EngineState {
+  if (isTerminal(state)) {
+    throw new Error("Game is already over");
+  }
+
+  const playerId = state.currentPlayerId;
+
+  if (action.type === "MOVE") {
+    const result = validateMove(state, playerId, action.row, action.col);
+    if (!result.valid) {
+      throw new Error(MOVE_REJECTION_MESSAGES[result.reason]);
+    }
+
+    return {
+      ...state,
+      players: state.players.map((p) =>
+        p.id === playerId ? { ...p, row: action.row, col: action.col } : p
+      ),
+      ...turnAfterMove(state, playerId, action.row, action.col),
+    };
+  }
+
+  const result = validateWall(
+    state,
+    playerId,
+    action.row,
+    action.col,
+    action.orientation
+  );
+  if (!result.valid) {
+    throw new Error(`Illegal wall placement: ${result.reason}`);
+  }
+
+  const blockedEdges = state.blockedEdges.clone();
+  result.edges.forEach((edge) => blockedEdges.add(edge));
+  const owner = wallOwner(state, playerId);
+
+  return {
+    ...state,
+    players: state.players.map((p) =>
+      p.id === owner ? { ...p, wallsLeft: p.wallsLeft - 1 } : p
+    ),
+    walls: [
+      ...state.walls,
+      {
+        row: action.row,
+        col: action.col,
+        orientation: action.orientation,
+        placedBy: playerId,
+      },
+    ],
+    blockedEdges,
+    currentPlayerId: nextPlayerId(state, playerId),
+    winner: null,
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * Team Play (TEAMS mode)
+ *
+ * Opposite seats are partners: P1 + P3 against P2 + P4. A team wins as soon
+ * as either partner reaches their goal. With shared walls, a player whose
+ * own walls ran out places their partner's.
+ */
+
+import type { EnginePlayer, EngineState } from "./types";
+
+/** Team of a seat: 0 (P1 + P3) or 1 (P2 + P4) */
+export function teamOf(playerId: number): number {
+  return playerId % 2;
+}
+
+/** A player's partner (null outside team games or when the seat is empty) */
+export function partnerOf(
+  state: EngineState,
+  playerId: number
+): EnginePlayer | null {
+  if (!state.teams) return null;
+
+  return (
+    state.players.find(
+      (p) => p.id !== playerId && teamOf(p.id) === teamOf(playerId)
+    ) ?? null
+  );
+}
+
+/**
+ * Seat whose wall a placement by `playerId` spends: their own while they
+ * have any, then their partner's when walls are shared (null: none left)
+ */
+export function wallOwner(state: EngineState, playerId: number): number | null {
+  const player = state.players.find((p) => p.id === playerId);
+  if (!player) return null;
+  if (player.wallsLeft > 0) return player.id;
+  if (!state.sharedWalls) return null;
+
+  const partner = partnerOf(state, playerId);
+  return partner && partner.wallsLeft > 0 ? partner.id : null;
+}
+
+/** Walls a player can still place (their partner's included when shared) */
+export function availableWalls(state: EngineState, playerId: number): number {
+  const own = state.players.find((p) => p.id === playerId)?.wallsLeft ?? 0;
+  const partner = state.sharedWalls ? partnerOf(state, playerId) : null;
+
+  return own + (partner?.wallsLeft ?? 0);
+}
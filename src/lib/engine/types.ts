@@ -0,0 +1,93 @@
+/**
+ * Rules Engine Types
+ *
+ * Framework-free representation of a Bloqueio position. Shared by the React
+ * UI, server actions, bots and tests - no React, Prisma or Next.js imports.
+ */
+
+import type { GoalSide, Orientation } from "@/types/game";
+import type { EdgeBitboard } from "./edges";
+
+export type { GoalSide, Orientation };
+
+export interface Cell {
+  row: number;
+  col: number;
+}
+
+export interface EnginePlayer {
+  /** Seat / player ID (0-3) */
+  id: number;
+  row: number;
+  col: number;
+  goalSide: GoalSide;
+  wallsLeft: number;
+  /** Out of the game (lost on time) - skipped in turn order */
+  forfeited?: boolean;
+}
+
+export interface EngineWall {
+  /** Base row (top-left of 2x2 area) */
+  row: number;
+  /** Base column (top-left of 2x2 area) */
+  col: number;
+  orientation: Orientation;
+  /** Player ID who placed it (optional for backwards compatibility) */
+  placedBy?: number;
+}
+
+export interface EngineState {
+  /** Players in turn order */
+  players: EnginePlayer[];
+  walls: EngineWall[];
+  /** Blocked edges derived from walls */
+  blockedEdges: EdgeBitboard;
+  currentPlayerId: number;
+  winner: number | null;
+  /** FOUR_PLAYER "play until placements": the game goes on after a finish */
+  untilPlacements?: boolean;
+  /** Players who reached their goal, in order (skipped in turn order) */
+  finishOrder?: number[];
+  /** TEAMS: opposite seats are partners (see teams.ts) */
+  teams?: boolean;
+  /** TEAMS: a player out of walls places their partner's */
+  sharedWalls?: boolean;
+  /** Inner cells per side (absent: the standard 9, see board.ts) */
+  boardSize?: number;
+}
+
+export type EngineAction =
+  | { type: "MOVE"; row: number; col: number }
+  | { type: "WALL"; row: number; col: number; orientation: Orientation };
+
+/** Typed reason codes returned when a pawn move is rejected */
+export type MoveRejectionReason =
+  | "OUT_OF_BOUNDS" // Destination outside the grid
+  | "SAME_CELL" // Destination is the pawn's current cell
+  | "BORDER_NOT_GOAL" // Border cell that is not on the player's goal side
+  | "CELL_OCCUPIED" // Another pawn is on the destination
+  | "BLOCKED_BY_BARRIER" // A barrier blocks the step or jump
+  | "NO_PAWN_TO_JUMP" // 2-cell move without a pawn in between
+  | "SIDE_STEP_NOT_ALLOWED" // Diagonal move without a blocked straight jump
+  | "NOT_REACHABLE"; // Any other distance
+
+/** Typed reason codes returned when a wall placement is rejected */
+export type WallRejectionReason =
+  | "OUT_OF_BOUNDS" // Base position outside the valid range
+  | "NO_WALLS_LEFT" // Player has used all barriers
+  | "DUPLICATE" // Same position and orientation already placed
+  | "CROSSING" // Same position, other orientation (X pattern)
+  | "OVERLAP" // Shares an edge with an existing wall
+  | "BLOCKS_PATH"; // Would cut a player off from their goal
+
+export type MoveValidationResult =
+  { valid: true } | { valid: false; reason: MoveRejectionReason };
+
+export type WallValidationResult =
+  | { valid: true; edges: string[] }
+  | {
+      valid: false;
+      reason: WallRejectionReason;
+      /** Set when reason is BLOCKS_PATH */
+      blockedPlayerId?: number;
+    };
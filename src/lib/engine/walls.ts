@@ -0,0 +1,93 @@
+/**
+ * Wall Placement Rules
+ *
+ * Walls are placed at intersections and span 2 cells. A placement is legal
+ * when it is in bounds, the player has walls left (their partner's count
+ * when shared, see teams.ts), it does not duplicate, cross (X pattern) or
+ * overlap an existing wall, and every player can still reach their goal
+ * afterwards.
+ */
+
+import { INNER_SIZE, isWallInBounds, wallEdges } from "./board";
+import { hasPathToGoal } from "./path";
+import { wallOwner } from "./teams";
+import type {
+  EngineState,
+  EngineWall,
+  Orientation,
+  WallValidationResult,
+} from "./types";
+
+/**
+ * Validate a wall placement for a player in the given state
+ * On success returns the two edges the wall would block.
+ */
+export function validateWall(
+  state: EngineState,
+  playerId: number,
+  row: number,
+  col: number,
+  orientation: Orientation
+): WallValidationResult {
+  if (!isWallInBounds(row, col, orientation, state.boardSize)) {
+    return { valid: false, reason: "OUT_OF_BOUNDS" };
+  }
+
+  if (wallOwner(state, playerId) === null) {
+    return { valid: false, reason: "NO_WALLS_LEFT" };
+  }
+
+  // Same position and orientation
+  if (
+    state.walls.some(
+      (w) => w.row === row && w.col === col && w.orientation === orientation
+    )
+  ) {
+    return { valid: false, reason: "DUPLICATE" };
+  }
+
+  // Same position, different orientation = crossing
+  if (
+    state.walls.some(
+      (w) => w.row === row && w.col === col && w.orientation !== orientation
+    )
+  ) {
+    return { valid: false, reason: "CROSSING" };
+  }
+
+  // Shares an edge with an existing wall
+  const edges = wallEdges(row, col, orientation);
+  if (edges.some((edge) => state.blockedEdges.has(edge))) {
+    return { valid: false, reason: "OVERLAP" };
+  }
+
+  // Every player must still be able to reach their goal
+  const hypothetical = state.blockedEdges.clone();
+  edges.forEach((edge) => hypothetical.add(edge));
+
+  for (const p of state.players) {
+    if (!hasPathToGoal(p, p.goalSide, hypothetical, state.boardSize)) {
+      return { valid: false, reason: "BLOCKS_PATH", blockedPlayerId: p.id };
+    }
+  }
+
+  return { valid: true, edges };
+}
+
+/** All legal wall placements for a player */
+export function legalWalls(state: EngineState, playerId: number): EngineWall[] {
+  if (wallOwner(state, playerId) === null) return [];
+
+  const last = (state.boardSize ?? INNER_SIZE) + 1;
+  const walls: EngineWall[] = [];
+  for (const orientation of ["H", "V"] as const) {
+    for (let row = 0; row <= last - 1; row++) {
+      for (let col = 0; col <= last - 1; col++) {
+        if (validateWall(state, playerId, row, col, orientation).valid) {
+          walls.push({ row, col, orientation, placedBy: playerId });
+        }
+      }
+    }
+  }
+  return walls;
+}
@@ -0,0 +1,117 @@
+/**
+ * Game Results
+ * Writes that happen when a game finishes, inside the finishing transaction
+ */
+
+import type { GameMode, PlayerType, Prisma } from "@prisma/client";
+import { RATING } from "@/config/rating";
+import { teamOf } from "@/lib/engine";
+import {
+  computeRatingChanges,
+  gamePlacements,
+  isRatedGame,
+  ratedPlayers,
+} from "@/lib/rating";
+
+/**
+ * Update user stats for every signed-in player in the game
+ * Increments gamesPlayed for everyone and gamesWon for the winner (both
+ * partners in a team game), then updates the ratings of a rated game from
+ * the final placements (see lib/rating.ts). `finishOrder` lists the seats
+ * that reached their goal.
+ */
+export async function recordGameResult(
+  tx: Prisma.TransactionClient,
+  room: {
+    id: string;
+    gameMode: GameMode;
+    players: Array<{
+      playerId: number;
+      userId: string | null;
+      playerType: PlayerType;
+      forfeited?: boolean;
+    }>;
+  },
+  winnerId: number,
+  finishOrder: number[] = []
+): Promise<void> {
+  const placements = gamePlacements(
+    room.players,
+    winnerId,
+    finishOrder,
+    room.gameMode === "TEAMS"
+  );
+
+  for (const p of room.players) {
+    if (p.userId) {
+      await tx.user.update({
+        where: { id: p.userId },
+        data: {
+          gamesPlayed: { increment: 1 },
+          ...(placements.get(p.playerId) === 1 && {
+            gamesWon: { increment: 1 },
+          }),
+        },
+      });
+    }
+  }
+
+  if (isRatedGame(room.players)) {
+    await recordRatings(tx, room, placements);
+  }
+}
+
+/** Update the ratings of the signed-in players and log each change */
+async function recordRatings(
+  tx: Prisma.TransactionClient,
+  room: Parameters<typeof recordGameResult>[1],
+  placements: Map<number, number>
+): Promise<void> {
+  const players = ratedPlayers(room.players);
+
+  const current = await tx.userRating.findMany({
+    where: {
+      gameMode: room.gameMode,
+      userId: { in: players.map((p) => p.userId) },
+    },
+  });
+
+  const updates = computeRatingChanges(
+    players.map((p) => {
+      const rating = current.find((r) => r.userId === p.userId);
+      return {
+        userId: p.userId,
+        rating: rating?.rating ?? RATING.INITIAL,
+        gamesRated: rating?.gamesRated ?? 0,
+        placement: placements.get(p.playerId) ?? players.length,
+        ...(room.gameMode === "TEAMS" && { team: teamOf(p.playerId) }),
+      };
+    })
+  );
+
+  for (const update of updates) {
+    await tx.userRating.upsert({
+      where: {
+        userId_gameMode: { userId: update.userId, gameMode: room.gameMode },
+      },
+      create: {
+        userId: update.userId,
+        gameMode: room.gameMode,
+        rating: update.after,
+        gamesRated: 1,
+      },
+      update: { rating: update.after, gamesRated: { increment: 1 } },
+    });
+
+    await tx.ratingChange.create({
+      data: {
+        userId: update.userId,
+        roomId: room.id,
+        gameMode: room.gameMode,
+        placement: update.placement,
+        before: update.before,
+        after: update.after,
+      },
+    });
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * DB → UI Snapshot
+ * Converts a room loaded from the database into the GameSnapshot rendered
+ * by BloqueioPage
+ */
+
+import { blockedEdgesFromWalls, toOrientation } from "@/lib/engine";
+import type { GameSnapshot, GoalSide, PlayerId } from "@/types/game";
+import type { PublicRoom } from "@/types/room";
+
+export function roomToGameSnapshot(room: PublicRoom): GameSnapshot {
+  const barriers = room.barriers.map((b) => ({
+    id: b.id,
+    row: b.row,
+    col: b.col,
+    orientation: toOrientation(b.orientation),
+    placedBy: b.placedBy as PlayerId,
+  }));
+
+  return {
+    players: room.players.map((p) => ({
+      id: p.playerId as PlayerId,
+      row: p.row,
+      col: p.col,
+      goalSide: p.goalSide as GoalSide,
+      wallsLeft: p.wallsLeft,
+      color: p.color,
+      label: `P${p.playerId + 1}`,
+      name: p.name,
+      playerType: p.playerType, // Pass bot type info to game UI
+    })),
+    barriers,
+    blockedEdges: blockedEdgesFromWalls(barriers).toKeys(),
+    currentPlayerId: room.currentTurn as PlayerId,
+    winner: room.winner as PlayerId | null,
+    gameMode: room.gameMode,
+    sharedWalls: room.sharedWalls,
+    boardSize: room.boardSize,
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * Game Start
+ * Writes that happen when a game starts, inside the starting transaction
+ */
+
+import type { Player, Prisma, Room } from "@prisma/client";
+import { claimTurn } from "@/lib/concurrency";
+import { logAction } from "@/lib/action-log";
+import { DEFAULT_BOARD_SIZE } from "@/types/game";
+
+/**
+ * Move a waiting room to PLAYING
+ * Starts the first turn's clock (`room.currentTurn` plays first), fills the
+ * Fischer banks and logs the starting position.
+ *
+ * @returns false when the room was already started (claimed turn)
+ */
+export async function beginGame(
+  tx: Prisma.TransactionClient,
+  room: Room & { players: Player[] }
+): Promise<boolean> {
+  // Start the first turn's clock (only once, even if clicked twice)
+  const claimed = await claimTurn(tx, room.id, room.turnNumber, {
+    status: "PLAYING",
+    turnStartedAt: new Date(),
+  });
+  if (!claimed) return false;
+
+  // Fill the Fischer banks
+  await tx.player.updateMany({
+    where: { roomId: room.id },
+    data: {
+      timeLeftMs: room.timeControl === "FISCHER" ? room.timeLimitMs : null,
+    },
+  });
+
+  // Record the starting position
+  await logAction(tx, room.id, {
+    turnNumber: room.turnNumber,
+    playerId: room.currentTurn,
+    type: "START",
+    payload: {
+      players: room.players
+        .map((p) => ({
+          playerId: p.playerId,
+          row: p.row,
+          col: p.col,
+          wallsLeft: p.wallsLeft,
+        }))
+        .sort((a, b) => a.playerId - b.playerId),
+      ...(room.untilPlacements && { untilPlacements: true }),
+      ...(room.gameMode === "TEAMS" && { teams: true }),
+      ...(room.sharedWalls && { sharedWalls: true }),
+      ...(room.boardSize !== DEFAULT_BOARD_SIZE && {
+        boardSize: room.boardSize,
+      }),
+    },
+  });
+
+  return true;
+}
@@ -0,0 +1,130 @@
+/**
+ * Hints
+ *
+ * A hint runs a bot strategy (MediumBot or HardBot) on the current position
+ * for the player to move, and explains its choice from the strategy's
+ * `reasoning`. Server-side only: requestHint (actions/hint-actions.ts)
+ * enforces the per-game limit and keeps hints out of rated games.
+ */
+
+import { createBotStrategy } from "@/lib/bot/registry";
+import { SeededRNG } from "@/lib/bot/rng";
+import { dbToSnapshot } from "@/lib/bot/snapshot";
+import { getFallbackAction } from "@/lib/bot/moves";
+import { validateRoomAction } from "@/lib/action-validation";
+import { toEngineAction, type EngineAction } from "@/lib/engine";
+import { cellToNotation, wallToNotation } from "@/lib/notation";
+import { HINT_STRENGTHS, type HintStrength } from "@/config/hints";
+import type { RoomWithPlayers } from "@/types/room";
+
+/** A suggested action, as sent to the player */
+export interface Hint {
+  action: EngineAction;
+  notation: string; // "B5" or "e3h" (see notation.ts)
+  explanation: string;
+  strength: HintStrength;
+}
+
+/** Type guard to check if a value is a valid HintStrength */
+export function isHintStrength(value: string): value is HintStrength {
+  return (HINT_STRENGTHS as readonly string[]).includes(value);
+}
+
+/** Fields of MediumBot/HardBot reasoning used in explanations */
+interface HintReasoning {
+  strategy?: string;
+  targetOpponent?: number;
+  pathLengthIncrease?: number;
+  opponentPathIncrease?: number;
+  myDistanceAfter?: number | null;
+  improvement?: number;
+  depth?: number;
+}
+
+const steps = (n: number) => `${n} passo${n === 1 ? "" : "s"}`;
+
+/**
+ * Short explanation of a decision (Portuguese, shown in the game)
+ * Unknown strategies get a generic sentence for the action type.
+ */
+export function explainHint(
+  action: EngineAction,
+  reasoning: unknown,
+  players: Array<{ playerId: number; name: string }>
+): string {
+  const r = (reasoning ?? {}) as HintReasoning;
+
+  switch (r.strategy) {
+    case "block_opponent": {
+      const target = players.find((p) => p.playerId === r.targetOpponent);
+      return `Bloqueie ${target?.name ?? "o rival mais próximo"}: o caminho até o objetivo fica ${steps(r.pathLengthIncrease ?? 1)} mais longo.`;
+    }
+    case "alpha_beta":
+    case "paranoid": {
+      const depth = r.depth ? ` (${r.depth} lances calculados)` : "";
+      if (action.type === "WALL") {
+        const increase = r.opponentPathIncrease ?? 0;
+        return increase > 0
+          ? `Esta barreira atrasa seus rivais em ${steps(increase)}${depth}.`
+          : `Esta barreira protege sua vantagem${depth}.`;
+      }
+      if (r.myDistanceAfter !== undefined && r.myDistanceAfter !== null) {
+        const left = r.myDistanceAfter;
+        return `Avance: depois desta jogada falta${left === 1 ? "" : "m"} ${steps(left)} até o objetivo${depth}.`;
+      }
+      return `Avance em direção ao objetivo${depth}.`;
+    }
+    case "weighted_selection":
+      if (r.myDistanceAfter !== undefined && r.myDistanceAfter !== null) {
+        const left = r.myDistanceAfter;
+        return `Avance: depois desta jogada falta${left === 1 ? "" : "m"} ${steps(left)} até o objetivo.`;
+      }
+      return (r.improvement ?? 0) > 0
+        ? "Avance pelo caminho mais curto até o objetivo."
+        : "Reposicione o peão: o caminho direto está bloqueado.";
+  }
+
+  return action.type === "MOVE"
+    ? "Avance em direção ao objetivo."
+    : "Coloque esta barreira para atrasar seus rivais.";
+}
+
+/**
+ * Compute a hint for the player to move
+ * The strategy's decision is validated like a bot turn; an illegal decision
+ * is replaced by the guaranteed-legal fallback action.
+ *
+ * @throws Error when the player has no legal action
+ */
+export async function suggestHint(
+  room: RoomWithPlayers,
+  playerId: number,
+  strength: HintStrength
+): Promise<Hint> {
+  const snapshot = dbToSnapshot(room);
+  const rng = new SeededRNG(
+    `${room.botSeed ?? room.id}:hint:${room.turnNumber}:${playerId}`
+  );
+  const bot = createBotStrategy(`BOT_${strength}`, rng);
+
+  const decision = await bot.selectMove(snapshot, playerId);
+  let action = toEngineAction(decision.move);
+  let reasoning = decision.reasoning;
+
+  if (!validateRoomAction(room, playerId, action).valid) {
+    const fallback = getFallbackAction(snapshot, playerId);
+    if (!fallback) throw new Error(`No legal action for player ${playerId}`);
+    action = fallback;
+    reasoning = null;
+  }
+
+  return {
+    action,
+    notation:
+      action.type === "MOVE"
+        ? cellToNotation(action.row, action.col)
+        : wallToNotation(action.row, action.col, action.orientation),
+    explanation: explainHint(action, reasoning, room.players),
+    strength,
+  };
+}
@@ -0,0 +1,518 @@
+/**
+ * Bloqueio Game Notation
+ *
+ * A plain-text game record, modelled on chess PGN:
+ *
+ *   [Game "Bloqueio"]
+ *   [Mode "FOUR_PLAYER"]
+ *   [P1 "Ana"]
+ *   [P2 "Bot 2"]
+ *   [P3 "Carla"]
+ *   [P4 "Davi"]
+ *
+ *   1. B5 E2 e3h E8
+ *   2. C5 -- H5 E7
+ *
+ * - Cells: column letter + row number, A-I / 1-9 on the standard inner board
+ *   (see docs/GAME_RULES.md). Goal borders extend the ranges: row 0 (top),
+ *   row 10 (bottom), column J (right) and column @ (left, the character
+ *   before A); other board sizes shift the bottom and right borders
+ * - Walls: lowercase base cell + orientation (e3h / e3v)
+ * - "--": turn lost on time, "W.O.": player eliminated on time
+ * - "#" marks the move into the goal
+ * - Each numbered round has one action per seat, in turn order (P1 → P4)
+ *
+ * Undone actions are left out. [Setup] and [First] are only written when the
+ * game did not start from the standard position, [Rules "Placements"] only
+ * for games played until placements (a "#" move then finishes the player)
+ * and [Rules "SharedWalls"] for TEAMS games where partners share walls.
+ * [Size] is only written for boards other than the standard 9x9.
+ */
+
+import { PLAYER_CONFIGS, startingCell } from "@/config/players";
+import {
+  applyLoggedAction,
+  effectiveActions,
+  type LoggedAction,
+  type StartPayload,
+} from "@/lib/action-log";
+import {
+  applyAction,
+  createState,
+  isGoal,
+  isInside,
+  toDbOrientation,
+  toOrientation,
+  wallOwner,
+  type EngineState,
+  type GoalSide,
+} from "@/lib/engine";
+import {
+  DEFAULT_BOARD_SIZE,
+  getGameModeConfig,
+  getWallsPerPlayer,
+  isBoardSize,
+  isGameMode,
+  type GameMode,
+  type GameSnapshot,
+  type PlayerId,
+} from "@/types/game";
+
+const SKIP_TOKEN = "--";
+const FORFEIT_TOKEN = "W.O.";
+const GOAL_MARK = "#";
+const PLACEMENTS_RULE = "Placements";
+const SHARED_WALLS_RULE = "SharedWalls";
+
+const GOAL_SIDES: GoalSide[] = ["TOP", "RIGHT", "BOTTOM", "LEFT"];
+
+/** Cell label: (5, 1) → "A5" */
+export function cellToNotation(row: number, col: number): string {
+  return `${String.fromCharCode(64 + col)}${row}`;
+}
+
+/** "A5" → { row: 5, col: 1 } (null when not a cell of the board) */
+export function notationToCell(
+  token: string,
+  boardSize: number = DEFAULT_BOARD_SIZE
+): { row: number; col: number } | null {
+  const match = /^([@A-Z])(\d{1,2})$/.exec(token);
+  if (!match) return null;
+
+  const row = Number(match[2]);
+  const col = match[1].charCodeAt(0) - 64;
+  return isInside(row, col, boardSize) ? { row, col } : null;
+}
+
+/** Wall label: horizontal wall based at (3, 5) → "e3h" */
+export function wallToNotation(
+  row: number,
+  col: number,
+  orientation: "H" | "V"
+): string {
+  return `${cellToNotation(row, col).toLowerCase()}${orientation.toLowerCase()}`;
+}
+
+/** "e3h" → { row: 3, col: 5, orientation: "H" } */
+export function notationToWall(
+  token: string,
+  boardSize: number = DEFAULT_BOARD_SIZE
+): { row: number; col: number; orientation: "H" | "V" } | null {
+  const match = /^([@a-z]\d{1,2})([hv])$/.exec(token);
+  if (!match) return null;
+
+  const cell = notationToCell(match[1].toUpperCase(), boardSize);
+  if (!cell) return null;
+  return { ...cell, orientation: match[2] === "h" ? "H" : "V" };
+}
+
+/** Standard starting position for the given seats and board size */
+export function standardStart(
+  gameMode: GameMode,
+  seats: readonly number[] = getGameModeConfig(gameMode).playerSlots,
+  boardSize: number = DEFAULT_BOARD_SIZE
+): StartPayload {
+  const wallsPerPlayer = getWallsPerPlayer(gameMode, boardSize);
+  return {
+    players: seats.map((playerId) => ({
+      playerId,
+      ...startingCell(playerId, boardSize),
+      wallsLeft: wallsPerPlayer,
+    })),
+    ...(boardSize !== DEFAULT_BOARD_SIZE && { boardSize }),
+  };
+}
+
+const seatLabel = (playerId: number) => `P${playerId + 1}`;
+
+const quote = (value: string) => `"${value.replace(/["\\]/g, "\\$&")}"`;
+
+/**
+ * Write the game record of a room
+ *
+ * @param room - Game mode and seats (names and goal sides)
+ * @param log - The room's action log
+ * @throws Error when the log does not begin with START
+ */
+export function formatGameRecord(
+  room: {
+    gameMode: string;
+    players: Array<{ playerId: number; name: string; goalSide: string }>;
+  },
+  log: LoggedAction[]
+): string {
+  const [start, ...actions] = effectiveActions(log);
+  if (!start || start.type !== "START") {
+    throw new Error("Action log must begin with START");
+  }
+
+  const gameMode: GameMode = isGameMode(room.gameMode)
+    ? room.gameMode
+    : "FOUR_PLAYER";
+  const seats = [...start.payload.players].sort(
+    (a, b) => a.playerId - b.playerId
+  );
+  const goalSideOf = (playerId: number) =>
+    (room.players.find((p) => p.playerId === playerId)?.goalSide as
+      GoalSide | undefined) ?? PLAYER_CONFIGS[playerId].goalSide;
+  const goalSides = new Map(
+    seats.map((seat) => [seat.playerId, goalSideOf(seat.playerId)])
+  );
+
+  const tags: Array<[string, string]> = [
+    ["Game", "Bloqueio"],
+    ["Mode", gameMode],
+    ...seats.map((seat): [string, string] => [
+      seatLabel(seat.playerId),
+      room.players.find((p) => p.playerId === seat.playerId)?.name ??
+        PLAYER_CONFIGS[seat.playerId].name,
+    ]),
+  ];
+
+  const boardSize = start.payload.boardSize ?? DEFAULT_BOARD_SIZE;
+  if (boardSize !== DEFAULT_BOARD_SIZE) {
+    tags.push(["Size", String(boardSize)]);
+  }
+
+  const wallsPerPlayer = getWallsPerPlayer(gameMode, boardSize);
+  const isStandard = seats.every((seat) => {
+    const cell = startingCell(seat.playerId, boardSize);
+    return (
+      seat.row === cell.row &&
+      seat.col === cell.col &&
+      seat.wallsLeft === wallsPerPlayer &&
+      goalSideOf(seat.playerId) === PLAYER_CONFIGS[seat.playerId].goalSide
+    );
+  });
+  if (!isStandard) {
+    tags.push([
+      "Setup",
+      seats
+        .map(
+          (seat) =>
+            `${seatLabel(seat.playerId)} ${cellToNotation(
+              seat.row,
+              seat.col
+            )} ${goalSideOf(seat.playerId)} ${seat.wallsLeft}`
+        )
+        .join(", "),
+    ]);
+  }
+  if (start.playerId !== seats[0]?.playerId) {
+    tags.push(["First", seatLabel(start.playerId)]);
+  }
+  if (start.payload.untilPlacements) {
+    tags.push(["Rules", PLACEMENTS_RULE]);
+  }
+  if (start.payload.sharedWalls) {
+    tags.push(["Rules", SHARED_WALLS_RULE]);
+  }
+
+  // Replay the log to mark the winning move and number the rounds
+  let state = applyLoggedAction(createState([]), start, goalSides);
+  const order = (playerId: number) =>
+    (seats.findIndex((s) => s.playerId === playerId) -
+      seats.findIndex((s) => s.playerId === start.playerId) +
+      seats.length) %
+    seats.length;
+
+  const rounds: string[][] = [];
+  let previous = Infinity;
+
+  for (const action of actions) {
+    if (order(action.playerId) <= previous) rounds.push([]);
+    previous = order(action.playerId);
+
+    state = applyLoggedAction(state, action, goalSides);
+    rounds[rounds.length - 1].push(
+      tokenFor(action, goalSideOf(action.playerId), boardSize)
+    );
+  }
+
+  if (state.winner !== null) {
+    tags.push(["Result", seatLabel(state.winner)]);
+  }
+
+  return [
+    ...tags.map(([name, value]) => `[${name} ${quote(value)}]`),
+    "",
+    ...rounds.map((tokens, index) => `${index + 1}. ${tokens.join(" ")}`),
+  ].join("\n");
+}
+
+function tokenFor(
+  action: LoggedAction,
+  goalSide: GoalSide,
+  boardSize: number
+): string {
+  switch (action.type) {
+    case "MOVE": {
+      const { toRow, toCol } = action.payload;
+      const cell = cellToNotation(toRow, toCol);
+      return isGoal(toRow, toCol, goalSide, boardSize)
+        ? `${cell}${GOAL_MARK}`
+        : cell;
+    }
+    case "WALL":
+      return wallToNotation(
+        action.payload.row,
+        action.payload.col,
+        toOrientation(action.payload.orientation)
+      );
+    case "SKIP":
+      return SKIP_TOKEN;
+    case "FORFEIT":
+      return FORFEIT_TOKEN;
+    default:
+      return "";
+  }
+}
+
+export interface ParsedGame {
+  /** Final position, ready for BloqueioPage */
+  snapshot: GameSnapshot;
+  /** The record as an action log (START + one entry per action) */
+  actions: LoggedAction[];
+}
+
+/**
+ * Read a game record and rebuild its final position
+ * Every action is checked with the rules engine; the first illegal or
+ * unreadable token is reported.
+ */
+export function parseGameRecord(text: string): ParsedGame | { error: string } {
+  const tags = new Map<string, string>();
+  const movetext: string[] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    const tag = /^\s*\[(\w+)\s+"((?:[^"\\]|\\.)*)"\]\s*$/.exec(line);
+    if (tag) {
+      tags.set(tag[1], tag[2].replace(/\\(.)/g, "$1"));
+    } else {
+      movetext.push(line);
+    }
+  }
+
+  // Seats: from the [P1]..[P4] tags, else every seat of the mode
+  const taggedSeats = [0, 1, 2, 3].filter((id) => tags.has(seatLabel(id)));
+  const modeTag = tags.get("Mode");
+  if (modeTag !== undefined && !isGameMode(modeTag)) {
+    return { error: `Unknown game mode "${modeTag}"` };
+  }
+  const gameMode: GameMode =
+    modeTag ?? (taggedSeats.length === 2 ? "TWO_PLAYER" : "FOUR_PLAYER");
+  const seats = taggedSeats.length
+    ? taggedSeats
+    : [...getGameModeConfig(gameMode).playerSlots];
+
+  const sizeTag = tags.get("Size");
+  const boardSize =
+    sizeTag === undefined ? DEFAULT_BOARD_SIZE : Number(sizeTag);
+  if (!isBoardSize(boardSize)) {
+    return { error: `Unknown board size "${sizeTag}"` };
+  }
+
+  const setup = readSetup(tags.get("Setup"), gameMode, seats, boardSize);
+  if ("error" in setup) return setup;
+
+  const firstTag = tags.get("First");
+  const first = firstTag
+    ? seats.find((id) => seatLabel(id) === firstTag)
+    : seats[0];
+  if (first === undefined) {
+    return { error: `Unknown first player "${firstTag}"` };
+  }
+
+  const rules = tags.get("Rules");
+  if (
+    rules !== undefined &&
+    rules !== PLACEMENTS_RULE &&
+    rules !== SHARED_WALLS_RULE
+  ) {
+    return { error: `Unknown rules "${rules}"` };
+  }
+
+  const start: LoggedAction = {
+    turnNumber: 0,
+    playerId: first,
+    type: "START",
+    payload: {
+      ...setup.start,
+      ...(rules === PLACEMENTS_RULE && { untilPlacements: true }),
+      ...(gameMode === "TEAMS" && { teams: true }),
+      ...(rules === SHARED_WALLS_RULE && { sharedWalls: true }),
+      ...(boardSize !== DEFAULT_BOARD_SIZE && { boardSize }),
+    },
+  };
+  let state: EngineState = applyLoggedAction(
+    createState([]),
+    start,
+    setup.goalSides
+  );
+  const actions: LoggedAction[] = [start];
+
+  const tokens = movetext
+    .join(" ")
+    .split(/\s+/)
+    .filter((token) => token && !/^\d+\.$/.test(token));
+
+  for (const [index, raw] of tokens.entries()) {
+    const ply = index + 1;
+    const token = raw.endsWith(GOAL_MARK) ? raw.slice(0, -1) : raw;
+    const playerId = state.currentPlayerId;
+
+    if (state.winner !== null) {
+      return { error: `Ply ${ply} (${raw}): the game is already over` };
+    }
+
+    const action = readToken(token, state, playerId, ply);
+    if (!action) {
+      return { error: `Ply ${ply}: unrecognized token "${raw}"` };
+    }
+
+    // A partner's wall spent (shared walls) is part of the log entry
+    const owner = wallOwner(state, playerId);
+    if (action.type === "WALL" && owner !== null && owner !== playerId) {
+      action.payload.spentFrom = owner;
+    }
+
+    try {
+      state =
+        action.type === "MOVE"
+          ? applyAction(state, {
+              type: "MOVE",
+              row: action.payload.toRow,
+              col: action.payload.toCol,
+            })
+          : action.type === "WALL"
+            ? applyAction(state, {
+                type: "WALL",
+                row: action.payload.row,
+                col: action.payload.col,
+                orientation: toOrientation(action.payload.orientation),
+              })
+            : applyLoggedAction(state, action, setup.goalSides);
+    } catch (error) {
+      return {
+        error: `Ply ${ply} (${raw}): ${
+          error instanceof Error ? error.message : "illegal action"
+        }`,
+      };
+    }
+    actions.push(action);
+  }
+
+  return {
+    snapshot: {
+      players: state.players.map((p) => ({
+        id: p.id as PlayerId,
+        row: p.row,
+        col: p.col,
+        goalSide: p.goalSide,
+        wallsLeft: p.wallsLeft,
+        color: PLAYER_CONFIGS[p.id].color,
+        label: seatLabel(p.id),
+        name: tags.get(seatLabel(p.id)) ?? `Jogador ${p.id + 1}`,
+      })),
+      barriers: state.walls.map((w, index) => ({
+        id: `notation-${index}`,
+        row: w.row,
+        col: w.col,
+        orientation: w.orientation,
+        placedBy: (w.placedBy ?? 0) as PlayerId,
+      })),
+      blockedEdges: state.blockedEdges.toKeys(),
+      currentPlayerId: state.currentPlayerId as PlayerId,
+      winner: state.winner as PlayerId | null,
+      gameMode,
+      boardSize,
+    },
+    actions,
+  };
+}
+
+/** One movetext token → log entry for the player to move */
+function readToken(
+  token: string,
+  state: EngineState,
+  playerId: number,
+  turnNumber: number
+): LoggedAction | null {
+  if (token === SKIP_TOKEN) {
+    return { turnNumber, playerId, type: "SKIP", payload: {} };
+  }
+  if (token === FORFEIT_TOKEN) {
+    return { turnNumber, playerId, type: "FORFEIT", payload: {} };
+  }
+
+  const wall = notationToWall(token, state.boardSize);
+  if (wall) {
+    return {
+      turnNumber,
+      playerId,
+      type: "WALL",
+      payload: {
+        row: wall.row,
+        col: wall.col,
+        orientation: toDbOrientation(wall.orientation),
+      },
+    };
+  }
+
+  const cell = notationToCell(token, state.boardSize);
+  const mover = state.players.find((p) => p.id === playerId);
+  if (cell && mover) {
+    return {
+      turnNumber,
+      playerId,
+      type: "MOVE",
+      payload: {
+        fromRow: mover.row,
+        fromCol: mover.col,
+        toRow: cell.row,
+        toCol: cell.col,
+      },
+    };
+  }
+
+  return null;
+}
+
+/** Starting position from the [Setup] tag, or the standard one */
+function readSetup(
+  setup: string | undefined,
+  gameMode: GameMode,
+  seats: number[],
+  boardSize: number
+):
+  | { start: StartPayload; goalSides: Map<number, GoalSide> }
+  | { error: string } {
+  if (setup === undefined) {
+    return {
+      start: standardStart(gameMode, seats, boardSize),
+      goalSides: new Map(seats.map((id) => [id, PLAYER_CONFIGS[id].goalSide])),
+    };
+  }
+
+  const start: StartPayload = {
+    players: [],
+    ...(boardSize !== DEFAULT_BOARD_SIZE && { boardSize }),
+  };
+  const goalSides = new Map<number, GoalSide>();
+
+  for (const entry of setup.split(",")) {
+    const match = /^\s*P([1-4])\s+(\S+)\s+(\w+)\s+(\d+)\s*$/.exec(entry);
+    const cell = match && notationToCell(match[2], boardSize);
+    const goalSide = match?.[3] as GoalSide;
+
+    if (!match || !cell || !GOAL_SIDES.includes(goalSide)) {
+      return { error: `Invalid setup entry "${entry.trim()}"` };
+    }
+
+    const playerId = Number(match[1]) - 1;
+    start.players.push({ playerId, ...cell, wallsLeft: Number(match[4]) });
+    goalSides.set(playerId, goalSide);
+  }
+
+  return { start, goalSides };
+}
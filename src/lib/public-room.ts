@@ -0,0 +1,40 @@
+/**
+ * Public Room View
+ * Strips session and account IDs from rooms before they reach a client.
+ * `game_session_id` is a bearer cookie (see session.ts): anyone holding a
+ * player's session ID can act as that player. Every path a client can
+ * reach (room state, event stream, replays) goes through here.
+ */
+
+import type { Player } from "@prisma/client";
+import { isRatedGame } from "@/lib/rating";
+import type {
+  PrivatePlayerField,
+  PublicPlayer,
+  PublicRoom,
+  RoomWithPlayers,
+} from "@/types/room";
+
+const PRIVATE_PLAYER_FIELDS: PrivatePlayerField[] = ["sessionId", "userId"];
+
+/** Copy of `value` without `keys` */
+function without<T extends object, K extends keyof T>(
+  value: T,
+  keys: K[]
+): Omit<T, K> {
+  const copy = { ...value };
+  for (const key of keys) delete copy[key];
+  return copy;
+}
+
+export function toPublicPlayer(player: Player): PublicPlayer {
+  return without(player, PRIVATE_PLAYER_FIELDS);
+}
+
+export function toPublicRoom(room: RoomWithPlayers): PublicRoom {
+  return {
+    ...without(room, ["hostSessionId"]),
+    players: room.players.map(toPublicPlayer),
+    rated: isRatedGame(room.players),
+  };
+}
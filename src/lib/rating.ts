@@ -0,0 +1,132 @@
+/**
+ * Player Ratings (Elo)
+ *
+ * Signed-in players have one rating per game mode (TWO_PLAYER,
+ * FOUR_PLAYER and TEAMS are rated separately). A game is rated when at
+ * least two signed-in humans played it; guests and bots are left out.
+ *
+ * Multiplayer games are scored as every pair of rated players playing a
+ * head-to-head game: the better placement wins the pair, equal placements
+ * draw. A player's change is the K-weighted sum of their pair results
+ * minus the expected ones, divided by the number of opponents, so a 4P game
+ * moves ratings about as much as a 2P game. Partners in a team game are
+ * not opponents.
+ */
+
+import { RATING } from "@/config/rating";
+import { teamOf } from "@/lib/engine";
+
+export interface RatedPlayer {
+  userId: string;
+  rating: number;
+  gamesRated: number;
+  placement: number; // 1 = winner; equal placements are ties
+  team?: number; // TEAMS: partners are not rated against each other
+}
+
+export interface RatingUpdate {
+  userId: string;
+  placement: number;
+  before: number;
+  after: number;
+}
+
+/** Expected score of `rating` against `opponent` (0-1) */
+export function expectedScore(rating: number, opponent: number): number {
+  return 1 / (1 + Math.pow(10, (opponent - rating) / 400));
+}
+
+/** Newer players move faster until their rating settles */
+export function kFactor(gamesRated: number): number {
+  return gamesRated < RATING.PROVISIONAL_GAMES
+    ? RATING.K_PROVISIONAL
+    : RATING.K;
+}
+
+/** The players whose rating a game changes (signed-in humans) */
+export function ratedPlayers<
+  T extends { userId: string | null; playerType: string },
+>(players: T[]): Array<T & { userId: string }> {
+  return players.filter(
+    (p): p is T & { userId: string } =>
+      p.userId !== null && p.playerType === "HUMAN"
+  );
+}
+
+/** A game counts for ratings when two or more signed-in humans played */
+export function isRatedGame(
+  players: Array<{ userId: string | null; playerType: string }>
+): boolean {
+  return ratedPlayers(players).length >= 2;
+}
+
+/**
+ * Placement of every seat at the end of a game
+ * Players who reached their goal place in finishing order (the winner
+ * alone when the game ended on the first finish); players still racing
+ * share the next place, and players out on time share the last one.
+ * In a team game the winner's team places first and the other team second.
+ */
+export function gamePlacements(
+  players: Array<{ playerId: number; forfeited?: boolean }>,
+  winnerId: number,
+  finishOrder: number[] = [],
+  teams: boolean = false
+): Map<number, number> {
+  if (teams) {
+    return new Map(
+      players.map((p) => [
+        p.playerId,
+        teamOf(p.playerId) === teamOf(winnerId) ? 1 : 2,
+      ])
+    );
+  }
+
+  const order = finishOrder.length > 0 ? finishOrder : [winnerId];
+  const racing = players.filter(
+    (p) => !p.forfeited && !order.includes(p.playerId)
+  );
+
+  return new Map(
+    players.map((p) => {
+      const finished = order.indexOf(p.playerId);
+      if (finished >= 0) return [p.playerId, finished + 1];
+      return [p.playerId, order.length + 1 + (p.forfeited ? racing.length : 0)];
+    })
+  );
+}
+
+/**
+ * New ratings after a game
+ * Players without a rated opponent (alone, or only with their partner) are
+ * left out.
+ */
+export function computeRatingChanges(players: RatedPlayer[]): RatingUpdate[] {
+  return players.flatMap((player) => {
+    const opponents = players.filter(
+      (p) =>
+        p !== player && (player.team === undefined || p.team !== player.team)
+    );
+    if (opponents.length === 0) return [];
+
+    let score = 0;
+    for (const opponent of opponents) {
+      const actual =
+        player.placement < opponent.placement
+          ? 1
+          : player.placement === opponent.placement
+            ? 0.5
+            : 0;
+      score += actual - expectedScore(player.rating, opponent.rating);
+    }
+
+    const change = (kFactor(player.gamesRated) * score) / opponents.length;
+
+    return {
+      userId: player.userId,
+      placement: player.placement,
+      before: player.rating,
+      after: Math.round(player.rating + change),
+    };
+  });
+}
@@ -0,0 +1,91 @@
+/**
+ * Rematch Series
+ *
+ * When a game ends every human can accept a rematch (bots always accept).
+ * Once all humans have accepted, a new room is created with the same seats
+ * and started right away; the finished room points to it through
+ * `rematchCode`, which redirects everyone still looking at it.
+ *
+ * Rooms of the same series share `seriesId` (the first game's Room.id).
+ * Seats keep their playerId across the series, so the score is counted per
+ * seat (per team in TEAMS mode, where either partner wins for both); the
+ * seat that plays first rotates each game.
+ */
+
+import type { Player, PlayerType } from "@prisma/client";
+import type { StartPayload } from "@/lib/action-log";
+import { teamOf } from "@/lib/engine";
+
+/** Wins over the finished games of a series */
+export interface SeriesScore {
+  games: number;
+  /** TEAMS series: `wins` is keyed by team (teamOf), not by seat */
+  teams: boolean;
+  wins: Record<number, number>;
+}
+
+const isHuman = (player: { playerType: PlayerType }) =>
+  player.playerType === "HUMAN";
+
+/** Seats of the humans who have not accepted the rematch yet */
+export function pendingRematchSeats(room: {
+  players: Array<{ playerId: number; playerType: PlayerType }>;
+  rematchVotes: number[];
+}): number[] {
+  return room.players
+    .filter((p) => isHuman(p) && !room.rematchVotes.includes(p.playerId))
+    .map((p) => p.playerId);
+}
+
+/** Seat that plays first in the next game: the one after `previousStart` */
+export function nextStartingSeat(seats: number[], previousStart: number) {
+  const sorted = [...seats].sort((a, b) => a - b);
+  return sorted.find((seat) => seat > previousStart) ?? sorted[0];
+}
+
+/** Tally the winners of a series (unfinished games are not counted) */
+export function seriesScore(
+  games: Array<{ status: string; winner: number | null; gameMode: string }>
+): SeriesScore {
+  const teams = games.some((game) => game.gameMode === "TEAMS");
+  const wins: Record<number, number> = {};
+  let played = 0;
+
+  for (const game of games) {
+    if (game.status !== "FINISHED" || game.winner === null) continue;
+    played++;
+    const side = teams ? teamOf(game.winner) : game.winner;
+    wins[side] = (wins[side] ?? 0) + 1;
+  }
+
+  return { games: played, teams, wins };
+}
+
+/** Series wins of a seat (their team's in a TEAMS series) */
+export function seriesWins(series: SeriesScore, playerId: number): number {
+  return series.wins[series.teams ? teamOf(playerId) : playerId] ?? 0;
+}
+
+/**
+ * Seats for the rematch room: same people and bots in the same seats, back
+ * on the starting cells of the previous game
+ */
+export function rematchPlayers(players: Player[], start: StartPayload) {
+  return players.map((p) => {
+    const seat = start.players.find((s) => s.playerId === p.playerId);
+
+    return {
+      playerId: p.playerId,
+      sessionId: p.sessionId,
+      userId: p.userId,
+      name: p.name,
+      color: p.color,
+      playerType: p.playerType,
+      botPersonality: p.botPersonality,
+      goalSide: p.goalSide,
+      row: seat?.row ?? p.row,
+      col: seat?.col ?? p.col,
+      wallsLeft: seat?.wallsLeft ?? p.wallsLeft,
+    };
+  });
+}
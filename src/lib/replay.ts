@@ -0,0 +1,53 @@
+/**
+ * Game Replay
+ *
+ * Turns the action log (see action-log.ts) into one board per action for
+ * ReplayViewer. Undone actions are left out; turns lost on time are shown
+ * as their own step.
+ */
+
+import { rebuildFrames, type LoggedAction } from "@/lib/action-log";
+import { roomToGameSnapshot } from "@/lib/game-snapshot";
+import type { GameSnapshot, PlayerId } from "@/types/game";
+import type { PublicRoom } from "@/types/room";
+
+export interface ReplayFrame {
+  /** Action that produced this position (START for the first frame) */
+  action: LoggedAction;
+  snapshot: GameSnapshot;
+}
+
+/**
+ * Build the board at the start and after each action
+ * Player names and colors come from the room; positions from the log.
+ */
+export function buildReplayFrames(
+  room: PublicRoom,
+  log: LoggedAction[]
+): ReplayFrame[] {
+  const display = roomToGameSnapshot(room);
+
+  return rebuildFrames(room.players, log).map(({ action, state }) => ({
+    action,
+    snapshot: {
+      players: display.players.map((p) => {
+        const seat = state.players.find((s) => s.id === p.id);
+        return seat
+          ? { ...p, row: seat.row, col: seat.col, wallsLeft: seat.wallsLeft }
+          : p;
+      }),
+      barriers: state.walls.map((w, index) => ({
+        id: `replay-${index}`,
+        row: w.row,
+        col: w.col,
+        orientation: w.orientation,
+        placedBy: (w.placedBy ?? 0) as PlayerId,
+      })),
+      blockedEdges: state.blockedEdges.toKeys(),
+      currentPlayerId: state.currentPlayerId as PlayerId,
+      winner: state.winner as PlayerId | null,
+      gameMode: room.gameMode,
+      boardSize: room.boardSize,
+    },
+  }));
+}
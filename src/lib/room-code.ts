@@ -0,0 +1,34 @@
+/**
+ * Room Codes
+ * 6-character codes players share to join a room (R7IAG2)
+ */
+
+import { db } from "@/lib/db";
+
+/**
+ * Generate a random 6-character room code (uppercase letters and numbers)
+ */
+function generateRoomCode(): string {
+  const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
+  let code = "";
+  for (let i = 0; i < 6; i++) {
+    code += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return code;
+}
+
+/**
+ * Generate a room code that is not taken yet
+ */
+export async function uniqueRoomCode(): Promise<string> {
+  let code = generateRoomCode();
+  let existing = await db.room.findUnique({ where: { code } });
+
+  // Retry if code collision (very unlikely)
+  while (existing) {
+    code = generateRoomCode();
+    existing = await db.room.findUnique({ where: { code } });
+  }
+
+  return code;
+}
@@ -0,0 +1,195 @@
+/**
+ * Room Event Stream Protocol
+ *
+ * Shared by the SSE route (src/app/api/rooms/[code]/events) and the client
+ * hook (src/hooks/useRoomEvents.ts):
+ * - `snapshot`: full room, sent when a client connects (version 0), with
+ *   the seat of the connecting session (null: not seated)
+ * - `delta`: changes since the previous event, version + 1 each time
+ * - `spectators`: how many sessions are watching (sent when it changes;
+ *   not versioned)
+ * - `chat`: chat messages posted since the previous event (not versioned;
+ *   clients load the history through getChatMessages)
+ * A client that sees a version gap reconnects to get a fresh snapshot.
+ * Rooms are sent as PublicRoom: no session IDs (see public-room.ts).
+ */
+
+import type { Barrier } from "@prisma/client";
+import type { PublicPlayer, PublicRoom, RoomWithPlayers } from "@/types/room";
+import type { ChatEntry } from "@/lib/chat";
+import { toPublicRoom } from "@/lib/public-room";
+
+/** Scalar fields of a public room */
+type RoomFields = Omit<PublicRoom, "players" | "barriers">;
+
+/** Changes between two states of the same room */
+export interface RoomDelta {
+  room: Partial<RoomFields>; // Changed scalar fields
+  players: PublicPlayer[]; // Added or changed players
+  removedPlayers: string[]; // Player.id
+  barriers: Barrier[]; // Added barriers
+  removedBarriers: string[]; // Barrier.id (undo)
+}
+
+export type RoomEvent =
+  | {
+      type: "snapshot";
+      version: number;
+      room: PublicRoom;
+      myPlayerId: number | null;
+    }
+  | { type: "delta"; version: number; delta: RoomDelta }
+  | { type: "spectators"; count: number }
+  | { type: "chat"; messages: ChatEntry[] }
+  | { type: "unavailable"; error: string }; // Room gone: stop listening
+
+/**
+ * Snapshot event for one connection
+ * `sessionId` only picks the connecting session's seat; the room is sent
+ * without any session IDs.
+ */
+export function snapshotEvent(
+  room: RoomWithPlayers,
+  sessionId: string | null,
+  version = 0
+): RoomEvent {
+  const me = sessionId
+    ? room.players.find((p) => p.sessionId === sessionId)
+    : undefined;
+
+  return {
+    type: "snapshot",
+    version,
+    room: toPublicRoom(room),
+    myPlayerId: me?.playerId ?? null,
+  };
+}
+
+/**
+ * Cheap change detector: the stream only loads the full room when this
+ * changes (a turn was played or undone, a player joined, the game started,
+ * someone accepted a rematch or the rematch room was created)
+ */
+export function roomFingerprint(room: {
+  turnNumber: number;
+  status: string;
+  playerCount: number;
+  rematchVotes: number[];
+  rematchCode: string | null;
+}): string {
+  return [
+    room.turnNumber,
+    room.status,
+    room.playerCount,
+    room.rematchVotes.length,
+    room.rematchCode ?? "",
+  ].join(":");
+}
+
+const sameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+/** Compute the delta that turns `prev` into `next` */
+export function diffRoom(prev: PublicRoom, next: PublicRoom): RoomDelta {
+  const { players, barriers, ...scalars } = next;
+
+  const room: Partial<RoomFields> = {};
+  for (const key of Object.keys(scalars) as Array<keyof RoomFields>) {
+    if (!sameValue(prev[key], next[key])) {
+      Object.assign(room, { [key]: next[key] });
+    }
+  }
+
+  const prevPlayers = new Map(prev.players.map((p) => [p.id, p]));
+  const prevBarriers = new Set(prev.barriers.map((b) => b.id));
+  const nextPlayers = new Set(players.map((p) => p.id));
+  const nextBarriers = new Set(barriers.map((b) => b.id));
+
+  return {
+    room,
+    players: players.filter((p) => !sameValue(prevPlayers.get(p.id), p)),
+    removedPlayers: prev.players
+      .filter((p) => !nextPlayers.has(p.id))
+      .map((p) => p.id),
+    barriers: barriers.filter((b) => !prevBarriers.has(b.id)),
+    removedBarriers: prev.barriers
+      .filter((b) => !nextBarriers.has(b.id))
+      .map((b) => b.id),
+  };
+}
+
+/** Apply a delta produced by diffRoom (returns a new room object) */
+export function applyRoomDelta(room: PublicRoom, delta: RoomDelta): PublicRoom {
+  const changed = new Map(delta.players.map((p) => [p.id, p]));
+  const removedPlayers = new Set(delta.removedPlayers);
+  const removedBarriers = new Set(delta.removedBarriers);
+
+  const players = room.players
+    .filter((p) => !removedPlayers.has(p.id))
+    .map((p) => changed.get(p.id) ?? p);
+  for (const p of delta.players) {
+    if (!room.players.some((existing) => existing.id === p.id)) {
+      players.push(p);
+    }
+  }
+
+  return {
+    ...room,
+    ...delta.room,
+    players: players.sort((a, b) => a.playerId - b.playerId),
+    barriers: [
+      ...room.barriers.filter((b) => !removedBarriers.has(b.id)),
+      ...delta.barriers,
+    ],
+  };
+}
+
+/** Format an event for the text/event-stream wire format */
+export function formatRoomEvent(event: RoomEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+const toDate = (value: Date | string) => new Date(value);
+const toOptionalDate = (value: Date | string | null) =>
+  value === null ? null : new Date(value);
+
+function revivePlayer(player: PublicPlayer): PublicPlayer {
+  return {
+    ...player,
+    joinedAt: toDate(player.joinedAt),
+    lastActive: toDate(player.lastActive),
+  };
+}
+
+function reviveBarrier(barrier: Barrier): Barrier {
+  return { ...barrier, createdAt: toDate(barrier.createdAt) };
+}
+
+/** Restore Date fields of a room parsed from JSON */
+export function reviveRoom(room: PublicRoom): PublicRoom {
+  return {
+    ...room,
+    createdAt: toDate(room.createdAt),
+    updatedAt: toDate(room.updatedAt),
+    turnStartedAt: toOptionalDate(room.turnStartedAt),
+    players: room.players.map(revivePlayer),
+    barriers: room.barriers.map(reviveBarrier),
+  };
+}
+
+/** Restore Date fields of a delta parsed from JSON */
+export function reviveDelta(delta: RoomDelta): RoomDelta {
+  const room = { ...delta.room };
+  if (room.createdAt) room.createdAt = toDate(room.createdAt);
+  if (room.updatedAt) room.updatedAt = toDate(room.updatedAt);
+  if (room.turnStartedAt !== undefined) {
+    room.turnStartedAt = toOptionalDate(room.turnStartedAt);
+  }
+
+  return {
+    ...delta,
+    room,
+    players: delta.players.map(revivePlayer),
+    barriers: delta.barriers.map(reviveBarrier),
+  };
+}
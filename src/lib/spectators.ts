@@ -0,0 +1,49 @@
+/**
+ * Spectators
+ * Server-side only - read-only viewers of a room (/room/[code]/watch)
+ *
+ * A spectator is a session watching a room it has no seat in. Presence is a
+ * heartbeat: the watch stream refreshes `lastSeen` while it is connected and
+ * removes the row when it closes; fallback polling refreshes it through
+ * watchRoom. Rows not refreshed within SPECTATOR_PRESENCE.TIMEOUT are not
+ * counted.
+ */
+
+import { db } from "@/lib/db";
+import { SPECTATOR_PRESENCE } from "@/config/polling";
+
+/** Filter for spectators that are still watching */
+export function activeSpectators(now: number = Date.now()) {
+  return { lastSeen: { gt: new Date(now - SPECTATOR_PRESENCE.TIMEOUT) } };
+}
+
+/** Register a spectator or refresh their presence */
+export async function touchSpectator(
+  roomId: string,
+  sessionId: string,
+  now: number = Date.now()
+): Promise<void> {
+  await db.spectator.upsert({
+    where: { roomId_sessionId: { roomId, sessionId } },
+    create: { roomId, sessionId, lastSeen: new Date(now) },
+    update: { lastSeen: new Date(now) },
+  });
+}
+
+/** Stop counting a spectator (their watch stream closed) */
+export async function removeSpectator(
+  roomId: string,
+  sessionId: string
+): Promise<void> {
+  await db.spectator.deleteMany({ where: { roomId, sessionId } });
+}
+
+/** Number of sessions currently watching a room */
+export async function countSpectators(
+  roomId: string,
+  now: number = Date.now()
+): Promise<number> {
+  return db.spectator.count({
+    where: { roomId, ...activeSpectators(now) },
+  });
+}
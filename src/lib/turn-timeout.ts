@@ -0,0 +1,125 @@
+/**
+ * Turn Timeout Enforcement
+ * Server-side only - applies the room's timeout action once the current
+ * player's clock has run out (see clock.ts for the rules)
+ *
+ * There is no timer process: the clock is checked whenever the room is read
+ * (getRoomState, the event stream), before every action and by the cron
+ * route, so an abandoned game still times out.
+ */
+
+import { db } from "@/lib/db";
+import { claimTurn } from "@/lib/concurrency";
+import { isTurnExpired, resolveTimeout } from "@/lib/clock";
+import { recordGameResult } from "@/lib/game-results";
+import { logAction } from "@/lib/action-log";
+import { afterMoveCommit } from "@/lib/bot/scheduler";
+
+/**
+ * Apply the timeout action if the current turn's clock has run out
+ * Idempotent: the turn is claimed through turnNumber, so concurrent callers
+ * apply a timeout at most once.
+ *
+ * @returns true when a timeout was applied
+ */
+export async function enforceTurnClock(
+  code: string,
+  now: number = Date.now()
+): Promise<boolean> {
+  const room = await db.room.findUnique({
+    where: { code },
+    include: { players: true, barriers: true },
+  });
+
+  if (!room || room.winner !== null || !isTurnExpired(room, now)) {
+    return false;
+  }
+
+  const player = room.players.find((p) => p.playerId === room.currentTurn);
+  if (!player) return false;
+
+  const outcome = resolveTimeout(room);
+
+  const applied = await db.$transaction(async (tx) => {
+    const claimed = await claimTurn(tx, room.id, room.turnNumber, {
+      currentTurn: outcome.nextTurn,
+      winner: outcome.winner,
+      status: outcome.winner !== null ? "FINISHED" : room.status,
+      turnStartedAt: new Date(now),
+    });
+    if (!claimed) return false;
+
+    await tx.player.update({
+      where: { id: player.id },
+      data: {
+        forfeited: outcome.forfeited,
+        ...(outcome.timeLeftMs !== null && { timeLeftMs: outcome.timeLeftMs }),
+      },
+    });
+
+    await logAction(tx, room.id, {
+      turnNumber: room.turnNumber,
+      playerId: player.playerId,
+      type: outcome.forfeited ? "FORFEIT" : "SKIP",
+      payload: {},
+    });
+
+    if (outcome.winner !== null) {
+      await recordGameResult(
+        tx,
+        {
+          ...room,
+          players: room.players.map((p) =>
+            p.id === player.id ? { ...p, forfeited: outcome.forfeited } : p
+          ),
+        },
+        outcome.winner,
+        room.finishOrder
+      );
+    }
+
+    return true;
+  });
+
+  if (!applied) return false;
+
+  console.log(
+    `[Clock] Player ${player.playerId} ran out of time in ${code} (${
+      outcome.forfeited ? "forfeit" : "skip"
+    })`
+  );
+
+  // The next player may be a bot
+  if (outcome.winner === null) {
+    await afterMoveCommit(code);
+  }
+
+  return true;
+}
+
+/**
+ * Enforce clocks in every running timed game
+ * Called by the cron route so games time out even with nobody watching
+ */
+export async function enforceExpiredClocks(
+  now: number = Date.now()
+): Promise<number> {
+  const rooms = await db.room.findMany({
+    where: {
+      status: "PLAYING",
+      timeControl: { not: "NONE" },
+      turnStartedAt: { not: null },
+    },
+    select: { code: true },
+  });
+
+  let applied = 0;
+  for (const room of rooms) {
+    try {
+      if (await enforceTurnClock(room.code, now)) applied++;
+    } catch (error) {
+      console.error(`[Clock] Failed to enforce clock (${room.code}):`, error);
+    }
+  }
+  return applied;
+}
@@ -15,8 +15,11 @@ export type PlayerId = 0 | 1 | 2 | 3;
 /** Goal sides - which border edge each player must reach to win */
 export type GoalSide = "TOP" | "RIGHT" | "BOTTOM" | "LEFT";
 
-/** Game mode - 2-player or 4-player */
-export type GameMode = "TWO_PLAYER" | "FOUR_PLAYER";
+/** Game mode - 2-player, 4-player or 2v2 teams */
+export type GameMode = "TWO_PLAYER" | "FOUR_PLAYER" | "TEAMS";
+
+/** Inner board size - 7x7 quick, 9x9 standard or 11x11 large */
+export type BoardSize = 7 | 9 | 11;
 
 /** Game mode - either moving pawns or placing barriers */
 export type Mode = "move" | "wall";
@@ -31,9 +34,9 @@ export type Orientation = "H" | "V";
 export interface Player {
   /** Player identifier (0-3) */
   id: PlayerId;
-  /** Current row position on board (0-10) */
+  /** Current row position on board (0 to boardSize + 1) */
   row: number;
-  /** Current column position on board (0-10) */
+  /** Current column position on board (0 to boardSize + 1) */
   col: number;
   /** Which border side this player must reach to win */
   goalSide: GoalSide;
@@ -46,7 +49,7 @@ export interface Player {
   /** Player name */
   name: string;
   /** Player type (HUMAN or bot difficulty) - optional for backwards compatibility */
-  playerType?: "HUMAN" | "BOT_EASY" | "BOT_MEDIUM" | "BOT_HARD";
+  playerType?: "HUMAN" | "BOT_EASY" | "BOT_MEDIUM" | "BOT_HARD" | "BOT_EXPERT";
 }
 
 // ============================================================================
@@ -91,8 +94,12 @@ export interface GameSnapshot {
   currentPlayerId: PlayerId;
   /** ID of winning player, or null if game is ongoing */
   winner: PlayerId | null;
-  /** Game mode - 2 or 4 players */
+  /** Game mode - 2 or 4 players, or 2v2 teams */
   gameMode?: GameMode;
+  /** TEAMS: partners place each other's walls */
+  sharedWalls?: boolean;
+  /** Inner cells per side (absent: 9) */
+  boardSize?: number;
 }
 
 // ============================================================================
@@ -141,8 +148,29 @@ export const GAME_MODE_CONFIG = {
     label: "4 Jogadores",
     description: "Modo padrão - 6 barreiras cada",
   },
+  TEAMS: {
+    maxPlayers: 4,
+    wallsPerPlayer: 6,
+    minPlayers: 4,
+    playerSlots: [0, 1, 2, 3] as const, // Opposite seats are partners
+    label: "Duplas (2v2)",
+    description: "P1 + P3 contra P2 + P4 - 6 barreiras cada",
+  },
 } as const;
 
+/** Board size configuration (walls scale with the board's side) */
+export const BOARD_SIZE_CONFIG = {
+  7: { label: "7x7", description: "Partida rápida" },
+  9: { label: "9x9", description: "Tabuleiro padrão" },
+  11: { label: "11x11", description: "Tabuleiro grande" },
+} as const;
+
+/** Selectable board sizes, smallest first */
+export const BOARD_SIZES: readonly BoardSize[] = [7, 9, 11];
+
+/** The standard board */
+export const DEFAULT_BOARD_SIZE: BoardSize = 9;
+
 /** Player base colors (semi-transparent for board overlay) */
 export const PLAYER_BASE_COLORS: Record<PlayerId, string> = {
   0: "rgba(239,68,68,0.24)", // red
@@ -181,12 +209,31 @@ export function isOrientation(value: string): value is Orientation {
   return value === "H" || value === "V";
 }
 
+/** Type guard to check if a value is a valid BoardSize */
+export function isBoardSize(value: number): value is BoardSize {
+  return value === 7 || value === 9 || value === 11;
+}
+
 /** Type guard to check if a value is a valid GameMode */
 export function isGameMode(value: string): value is GameMode {
-  return value === "TWO_PLAYER" || value === "FOUR_PLAYER";
+  return value === "TWO_PLAYER" || value === "FOUR_PLAYER" || value === "TEAMS";
 }
 
 /** Helper to safely access GAME_MODE_CONFIG */
 export function getGameModeConfig(mode: GameMode) {
   return GAME_MODE_CONFIG[mode];
 }
+
+/**
+ * Barriers per player for a mode on a board size
+ * GAME_MODE_CONFIG counts are for the standard 9x9 board; other sizes scale
+ * them with the board's side (7x7: 9 / 5, 11x11: 15 / 7).
+ */
+export function getWallsPerPlayer(
+  mode: GameMode,
+  boardSize: number = DEFAULT_BOARD_SIZE
+): number {
+  return Math.round(
+    (GAME_MODE_CONFIG[mode].wallsPerPlayer * boardSize) / DEFAULT_BOARD_SIZE
+  );
+}
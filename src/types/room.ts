@@ -11,3 +11,20 @@ export type RoomWithPlayers = Room & {
   players: Player[];
   barriers: Barrier[];
 };
+
+/** Player fields that identify a session or account (server-only) */
+export type PrivatePlayerField = "sessionId" | "userId";
+
+/** Player as sent to clients and spectators */
+export type PublicPlayer = Omit<Player, PrivatePlayerField>;
+
+/**
+ * Room as sent to clients and spectators (see lib/public-room.ts)
+ * Session and account IDs are bearer credentials, so they never leave the
+ * server.
+ */
+export type PublicRoom = Omit<Room, "hostSessionId"> & {
+  players: PublicPlayer[];
+  barriers: Barrier[];
+  rated: boolean; // Two or more signed-in humans (see lib/rating.ts)
+};